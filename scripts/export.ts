@@ -0,0 +1,82 @@
+#!/usr/bin/env deno run --allow-net --allow-env --allow-read --allow-write
+
+/**
+ * Export the whole Webflow collection to local files.
+ *
+ * Usage:
+ *   deno task export [directory] [options]
+ *
+ * Options:
+ *   --markdown           Also write a Markdown file with front matter per item
+ *   --snapshot           Write a timestamped snapshot under the directory and prune old ones
+ *   --keep=<n>           Snapshots to keep with --snapshot (default 7)
+ *   --max-age-days=<n>   Remove snapshots older than this with --snapshot
+ */
+
+import { ExportService } from "@services/exportService.ts";
+
+interface ExportCliOptions {
+  dir: string;
+  markdown: boolean;
+  snapshot: boolean;
+  keep: number;
+  maxAgeDays?: number;
+}
+
+function parseArgs(): ExportCliOptions {
+  const args = Deno.args;
+  const value = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const maxAgeDays = value("max-age-days");
+
+  return {
+    dir: args.find((arg) => !arg.startsWith("--")) ?? "export",
+    markdown: args.includes("--markdown"),
+    snapshot: args.includes("--snapshot"),
+    keep: Number(value("keep") ?? 7),
+    maxAgeDays: maxAgeDays !== undefined ? Number(maxAgeDays) : undefined,
+  };
+}
+
+async function main() {
+  const options = parseArgs();
+
+  const invalidAge = options.maxAgeDays !== undefined && !(options.maxAgeDays > 0);
+  if (!Number.isInteger(options.keep) || options.keep < 1 || invalidAge) {
+    console.error("❌ --keep must be a positive integer and --max-age-days a positive number");
+    Deno.exit(1);
+  }
+
+  const exportService = new ExportService();
+  console.log(`📦 Exporting collection to ${options.dir}${options.markdown ? " (with Markdown)" : ""}`);
+
+  if (options.snapshot) {
+    const result = await exportService.createSnapshot(options.dir, {
+      markdown: options.markdown,
+      retention: { keep: options.keep, maxAgeDays: options.maxAgeDays },
+    });
+
+    console.log("");
+    console.log("📋 Snapshot Summary:");
+    console.log(`├─ Items: ${result.manifest.itemCount}`);
+    console.log(`├─ Files: ${result.manifest.files.length}`);
+    console.log(`├─ Pruned: ${result.pruned.length}`);
+    console.log(`└─ Path: ${result.path}`);
+    return;
+  }
+
+  const manifest = await exportService.exportCollection(options.dir, { markdown: options.markdown });
+
+  console.log("");
+  console.log("📋 Export Summary:");
+  console.log(`├─ Items: ${manifest.itemCount}`);
+  console.log(`├─ Files: ${manifest.files.length}`);
+  console.log(`└─ Manifest: ${options.dir}/manifest.json`);
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("❌ Export failed:", error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  });
+}
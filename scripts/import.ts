@@ -0,0 +1,158 @@
+#!/usr/bin/env deno run --allow-net --allow-env --allow-read --allow-write
+
+/**
+ * Bulk import of legacy articles into the Webflow collection.
+ *
+ * Usage:
+ *   deno task import <directory|file.json|file.md> [options]
+ *
+ * Options:
+ *   --dry-run            Validate and render every article without creating anything
+ *   --publish            Publish created items (scheduled items are left to the scheduler)
+ *   --batch-size=<n>     Articles per batch (default 5)
+ *   --delay=<ms>         Pause between batches (default 15000)
+ *   --report=<file>      Report file (default import-report.json)
+ *   --state=<file>       Resume file recording created items (default import-state.json)
+ *   --collection=<key>   Target collection from WEBFLOW_COLLECTIONS (default collection otherwise)
+ */
+
+import { getCMSService } from "@services/cmsService.ts";
+import { ImportService, type ImportSource, type ImportState, parseJsonArticles, parseMarkdownArticle } from "@services/importService.ts";
+
+interface ImportCliOptions {
+  path?: string;
+  dryRun: boolean;
+  publish: boolean;
+  batchSize: number;
+  delayMs: number;
+  reportFile: string;
+  stateFile: string;
+  collection?: string;
+}
+
+function parseArgs(): ImportCliOptions {
+  const args = Deno.args;
+  const value = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  return {
+    path: args.find((arg) => !arg.startsWith("--")),
+    dryRun: args.includes("--dry-run"),
+    publish: args.includes("--publish"),
+    batchSize: Number(value("batch-size") ?? 5),
+    delayMs: Number(value("delay") ?? 15000),
+    reportFile: value("report") ?? "import-report.json",
+    stateFile: value("state") ?? "import-state.json",
+    collection: value("collection"),
+  };
+}
+
+async function loadSources(path: string): Promise<ImportSource[]> {
+  const info = await Deno.stat(path);
+
+  if (info.isDirectory) {
+    const files: string[] = [];
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.isFile && /\.(md|markdown)$/i.test(entry.name)) {
+        files.push(entry.name);
+      }
+    }
+
+    files.sort();
+    return await Promise.all(files.map(async (name) => ({
+      id: name,
+      fields: parseMarkdownArticle(await Deno.readTextFile(`${path}/${name}`)),
+    })));
+  }
+
+  const text = await Deno.readTextFile(path);
+  if (/\.json$/i.test(path)) {
+    return parseJsonArticles(text).map((fields, index) => ({
+      // Prefer an explicit ID or slug so reordering the file does not break resume
+      id: String(fields.id ?? fields.slug ?? `${path}#${index}`),
+      fields,
+    }));
+  }
+
+  return [{ id: path, fields: parseMarkdownArticle(text) }];
+}
+
+async function loadState(file: string): Promise<ImportState> {
+  try {
+    return JSON.parse(await Deno.readTextFile(file)) as ImportState;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return { items: {} };
+    }
+    throw error;
+  }
+}
+
+async function main() {
+  const options = parseArgs();
+
+  if (!options.path) {
+    console.error("❌ Usage: deno task import <directory|file.json|file.md> [--dry-run] [--publish]");
+    console.error("   [--batch-size=5] [--delay=15000] [--report=import-report.json] [--state=import-state.json]");
+    console.error("   [--collection=<key>]");
+    Deno.exit(1);
+  }
+
+  if (!Number.isInteger(options.batchSize) || options.batchSize < 1 || !(options.delayMs >= 0)) {
+    console.error("❌ --batch-size must be a positive integer and --delay a non-negative number");
+    Deno.exit(1);
+  }
+
+  const sources = await loadSources(options.path);
+  const state = await loadState(options.stateFile);
+  const resumed = sources.filter((source) => state.items[source.id]).length;
+
+  console.log(`📦 Importing ${sources.length} articles from ${options.path}${options.dryRun ? " (dry run)" : ""}`);
+  if (resumed > 0) {
+    console.log(`↩️  Resuming: ${resumed} articles were imported by an earlier run`);
+  }
+
+  const report = await new ImportService(getCMSService(options.collection)).run(sources, state, {
+    dryRun: options.dryRun,
+    publish: options.publish,
+    batchSize: options.batchSize,
+    batchDelayMs: options.delayMs,
+    onCheckpoint: (current) =>
+      Deno.writeTextFile(options.stateFile, JSON.stringify(current, null, 2)),
+    onProgress: (result) => {
+      const icon = { created: "✅", validated: "✅", skipped: "⏭️ ", failed: "❌" }[result.status];
+      console.log(`${icon} ${result.id} ${result.slug ? `→ ${result.slug}` : ""}`);
+      result.errors?.forEach((error) => console.log(`   - ${error}`));
+      result.warnings?.forEach((warning) => console.log(`   ⚠️  ${warning}`));
+    },
+  });
+
+  await Deno.writeTextFile(options.reportFile, JSON.stringify(report, null, 2));
+
+  console.log("");
+  console.log("📋 Import Summary:");
+  console.log(`├─ Total: ${report.totals.total}`);
+  console.log(`├─ Created: ${report.totals.created}`);
+  console.log(`├─ Validated: ${report.totals.validated}`);
+  console.log(`├─ Skipped: ${report.totals.skipped}`);
+  console.log(`├─ Failed: ${report.totals.failed}`);
+  console.log(`└─ Report: ${options.reportFile}`);
+
+  if (report.stoppedReason) {
+    console.error("");
+    console.error(`❌ Import stopped early: ${report.stoppedReason}`);
+    console.error("   Run the same command again to resume.");
+    Deno.exit(1);
+  }
+
+  if (report.totals.failed > 0) {
+    Deno.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("❌ Import failed:", error instanceof Error ? error.message : error);
+    Deno.exit(1);
+  });
+}
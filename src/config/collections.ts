@@ -0,0 +1,244 @@
+/// <reference lib="deno.ns" />
+import { z } from "zod";
+import { config } from "@config/index.ts";
+import { ValidationError } from "@utils/errors.ts";
+
+/**
+ * Registry of target collections. Each entry has its own field mapping,
+ * validation profile and slug rules; submissions select one by key or form ID.
+ *
+ * WEBFLOW_COLLECTIONS holds a JSON object keyed by collection key, e.g.
+ * `{"blog": {"collectionId": "...", "default": true}, "news": {"collectionId": "...",
+ * "formIds": ["news-form"], "fields": {"post": "body"}, "validation": {"maxWords": 1500}}}`.
+ * Without it, a single "default" collection uses WEBFLOW_COLLECTION_ID, with the categories,
+ * tags and authors collections from CATEGORIES_COLLECTION_ID, TAGS_COLLECTION_ID and
+ * AUTHORS_COLLECTION_ID.
+ */
+
+// Generated fields that may be renamed; `name` and `slug` are fixed by Webflow
+export const MAPPABLE_FIELDS = [
+  "author-name",
+  "meta-description",
+  "post",
+  "reading-time",
+  "intro-text",
+  "created-on",
+  "updated-on",
+  "published-on",
+  "featured-image",
+  "categories",
+  "tags",
+  "author",
+] as const;
+
+export type MappableField = typeof MAPPABLE_FIELDS[number];
+
+// Submission fields holding names of terms kept in reference collections
+export const TAXONOMIES = ["categories", "tags"] as const;
+
+export type Taxonomy = typeof TAXONOMIES[number];
+
+// Fields of an author item besides `name` and `slug`; `fields` may rename them
+export const AUTHOR_FIELDS = ["email", "phone", "credentials", "bio", "avatar"] as const;
+
+const collectionKeySchema = z.string().regex(
+  /^[a-z0-9][a-z0-9_-]{0,49}$/,
+  "Collection keys use lowercase letters, numbers, hyphens and underscores",
+);
+
+// Names without a matching term are dropped ("skip"), added as new terms ("create")
+// or fail the submission ("reject")
+const referenceSchema = z.object({
+  collectionId: z.string().min(1, "collectionId is required"),
+  missing: z.enum(["skip", "create", "reject"]).optional().default("skip"),
+});
+
+const authorsSchema = z.object({
+  collectionId: z.string().min(1, "collectionId is required"),
+  fields: z.record(z.enum(AUTHOR_FIELDS), z.string().min(1)).optional().default({}),
+});
+
+const collectionEntrySchema = z.object({
+  collectionId: z.string().min(1, "collectionId is required"),
+  default: z.boolean().optional().default(false),
+  formIds: z.array(z.string().min(1)).optional().default([]),
+  // Webflow field slug to write each generated field to
+  fields: z.record(z.enum(MAPPABLE_FIELDS), z.string().min(1)).optional().default({}),
+  validation: z.object({
+    minWords: z.number().int().min(0).default(20),
+    maxWords: z.number().int().min(1).default(10000),
+  }).optional().default({}),
+  slugs: z.object({
+    maxLength: z.number().int().min(10).max(100).default(100),
+    reserved: z.array(z.string()).default([]), // In addition to the built-in reserved slugs
+  }).optional().default({}),
+  // Reference collections that category and tag names and the author are resolved against
+  references: z.object({
+    categories: referenceSchema.optional(),
+    tags: referenceSchema.optional(),
+    authors: authorsSchema.optional(),
+  }).optional().default({}),
+});
+
+const registrySchema = z.record(collectionKeySchema, collectionEntrySchema).refine(
+  (entries) => Object.keys(entries).length > 0,
+  { message: "At least one collection is required" },
+).refine(
+  (entries) => Object.values(entries).filter((entry) => entry.default).length <= 1,
+  { message: "Only one collection can be the default" },
+);
+
+export type CollectionConfig = z.infer<typeof collectionEntrySchema> & { key: string };
+
+export type ReferenceSettings = CollectionConfig["references"];
+
+export type AuthorSettings = z.infer<typeof authorsSchema>;
+
+export interface CollectionRegistry {
+  defaultKey: string;
+  collections: Map<string, CollectionConfig>;
+}
+
+export const DEFAULT_COLLECTION_KEY = "default";
+
+/**
+ * Parse the registry from WEBFLOW_COLLECTIONS JSON, falling back to a single collection.
+ * The default is the entry marked `default`, otherwise the first one.
+ */
+export function parseCollectionRegistry(
+  json: string,
+  fallbackCollectionId: string,
+  fallbackReferences?: Record<string, unknown>,
+): CollectionRegistry {
+  return buildCollectionRegistry(
+    json.trim() ? JSON.parse(json) : undefined,
+    fallbackCollectionId,
+    fallbackReferences,
+  );
+}
+
+/**
+ * Build the registry from already parsed entries (e.g. a tenant's `collections`)
+ */
+export function buildCollectionRegistry(
+  raw: unknown,
+  fallbackCollectionId: string,
+  fallbackReferences?: Record<string, unknown>,
+): CollectionRegistry {
+  const entries = registrySchema.parse(
+    raw ?? {
+      [DEFAULT_COLLECTION_KEY]: {
+        collectionId: fallbackCollectionId,
+        references: fallbackReferences,
+      },
+    },
+  );
+
+  const collections = new Map<string, CollectionConfig>();
+  for (const [key, entry] of Object.entries(entries)) {
+    collections.set(key, { ...entry, key });
+  }
+
+  const defaultKey = Object.entries(entries).find(([, entry]) => entry.default)?.[0] ??
+    collections.keys().next().value!;
+
+  return { defaultKey, collections };
+}
+
+function loadCollectionRegistry(): CollectionRegistry {
+  try {
+    return parseCollectionRegistry(
+      config.WEBFLOW_COLLECTIONS,
+      config.WEBFLOW_COLLECTION_ID,
+      environmentReferences(),
+    );
+  } catch (error) {
+    console.error("❌ WEBFLOW_COLLECTIONS is invalid:");
+    console.error(
+      error instanceof z.ZodError
+        ? JSON.stringify(error.format(), null, 2)
+        : error instanceof Error
+        ? error.message
+        : String(error),
+    );
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Reference collections of the single collection configured without WEBFLOW_COLLECTIONS
+ */
+function environmentReferences(): Record<string, unknown> {
+  const references: Record<string, unknown> = {};
+  const missing = config.TAXONOMY_MISSING_TERMS;
+  if (config.CATEGORIES_COLLECTION_ID) {
+    references.categories = { collectionId: config.CATEGORIES_COLLECTION_ID, missing };
+  }
+  if (config.TAGS_COLLECTION_ID) {
+    references.tags = { collectionId: config.TAGS_COLLECTION_ID, missing };
+  }
+  if (config.AUTHORS_COLLECTION_ID) {
+    references.authors = { collectionId: config.AUTHORS_COLLECTION_ID };
+  }
+  return references;
+}
+
+export const collectionRegistry = loadCollectionRegistry();
+
+/**
+ * Get a collection by key; without a key the default collection is returned
+ */
+export function getCollection(
+  key?: string,
+  registry: CollectionRegistry = collectionRegistry,
+): CollectionConfig {
+  const collection = registry.collections.get(key ?? registry.defaultKey);
+
+  if (!collection) {
+    throw new ValidationError(
+      `Unknown collection "${key}". Available: ${[...registry.collections.keys()].join(", ")}`,
+      "collection",
+      key,
+    );
+  }
+
+  return collection;
+}
+
+/**
+ * Find the registry entry of a Webflow collection ID, e.g. for webhooks
+ */
+export function findCollectionById(
+  collectionId: string,
+  registry: CollectionRegistry = collectionRegistry,
+): CollectionConfig | undefined {
+  return [...registry.collections.values()].find((entry) => entry.collectionId === collectionId);
+}
+
+/**
+ * Pick the target collection of a submission: an explicit collection key first,
+ * then a form ID listed in `formIds` (or equal to a key), then the default
+ */
+export function resolveCollection(
+  selector: { collection?: string; formId?: string },
+  registry: CollectionRegistry = collectionRegistry,
+): CollectionConfig {
+  if (selector.collection) {
+    return getCollection(selector.collection, registry);
+  }
+
+  if (selector.formId) {
+    for (const collection of registry.collections.values()) {
+      if (collection.formIds.includes(selector.formId) || collection.key === selector.formId) {
+        return collection;
+      }
+    }
+    throw new ValidationError(
+      `No collection is configured for form "${selector.formId}"`,
+      "formId",
+      selector.formId,
+    );
+  }
+
+  return getCollection(undefined, registry);
+}
@@ -6,29 +6,6 @@ export const SERVICE_NAME = "webflow-middleware";
 export const WEBFLOW_API_BASE_URL = "https://api.webflow.com/v2";
 export const WEBFLOW_API_VERSION = "1.0.0";
 
-// Field mappings - Form fields to CMS fields
-export const CMS_FIELD_MAPPINGS = {
-  // Direct mappings from form fields
-  authorName: "author-name",
-  articleTitle: "name",
-  metaDescription: "meta-description",
-  articleContent: "post",
-
-  // Auto-generated fields
-  slug: "slug",
-  readingTime: "reading-time",
-  introText: "intro-text",
-  featuredImage: "featured-image",
-  category: "category",
-  tags: "tags",
-  publishDate: "publish-date",
-  lastUpdated: "last-updated",
-  status: "status",
-  featured: "featured",
-  views: "views",
-  likes: "likes",
-} as const;
-
 // Content processing
 export const READING_SPEED_WPM = {
   text: 238, // Average reading speed
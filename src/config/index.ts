@@ -29,6 +29,10 @@ const configSchema = z.object({
   WEBFLOW_API_TOKEN: z.string().min(1, "WEBFLOW_API_TOKEN is required"),
   WEBFLOW_COLLECTION_ID: z.string().min(1, "WEBFLOW_COLLECTION_ID is required"),
   WEBFLOW_SITE_ID: z.string().min(1, "WEBFLOW_SITE_ID is required"),
+  // JSON registry of target collections (see src/config/collections.ts)
+  WEBFLOW_COLLECTIONS: z.string().optional().default(""),
+  // JSON registry of tenants for multi-tenant mode (see src/config/tenants.ts)
+  TENANTS: z.string().optional().default(""),
 
   // Security
   CORS_ORIGINS: z
@@ -37,6 +41,91 @@ const configSchema = z.object({
     .transform((val) => val.split(",").map((origin) => origin.trim())),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(10),
+  ADMIN_API_KEYS: z
+    .string()
+    .default("")
+    .transform((val) => val.split(",").map((key) => key.trim()).filter(Boolean)),
+  REVIEWER_API_KEYS: z
+    .string()
+    .default("")
+    .transform((val) => val.split(",").map((key) => key.trim()).filter(Boolean)),
+
+  EDIT_TOKEN_SECRET: z.string().optional().default(""),
+  EDIT_TOKEN_TTL_MS: z.coerce.number().default(30 * 24 * 60 * 60 * 1000), // 30 days
+
+  // Webflow webhooks (signing secret of the site's webhooks; the receiver is disabled without it)
+  WEBFLOW_WEBHOOK_SECRET: z.string().optional().default(""),
+  WEBHOOK_MAX_AGE_MS: z.coerce.number().int().min(1000).default(5 * 60 * 1000), // 5 minutes
+  // JSON list of outbound webhook subscriptions (see src/config/outboundWebhooks.ts)
+  OUTBOUND_WEBHOOKS: z.string().optional().default(""),
+
+  // Notification emails (off unless a transport is chosen)
+  NOTIFY_TRANSPORT: z.enum(["none", "console", "file", "smtp", "http"]).default("none"),
+  NOTIFY_FROM: z.string().default("Webflow Form Middleware <no-reply@localhost>"),
+  NOTIFY_EDITOR_EMAILS: z
+    .string()
+    .default("")
+    .transform((val) => val.split(",").map((email) => email.trim()).filter(Boolean)),
+  NOTIFY_DIGEST_CRON: z.string().default("0 * * * *"), // Hourly
+  NOTIFY_FILE_DIR: z.string().default("mail"),
+  NOTIFY_HTTP_URL: z.string().optional().default(""),
+  SMTP_HOST: z.string().optional().default(""),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  SMTP_SECURE: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  SMTP_USERNAME: z.string().optional().default(""),
+  SMTP_PASSWORD: z.string().optional().default(""),
+
+  // Image uploads to Webflow Assets (featured images and images embedded in the content)
+  IMAGE_MAX_BYTES: z.coerce.number().int().min(1).default(4 * 1024 * 1024), // 4 MB
+  IMAGE_MAX_WIDTH: z.coerce.number().int().min(1).default(4000),
+  IMAGE_MAX_HEIGHT: z.coerce.number().int().min(1).default(4000),
+  IMAGE_MAX_INLINE: z.coerce.number().int().min(0).default(20), // Embedded images per article
+
+  // Categories and tags, resolved to items of these collections when WEBFLOW_COLLECTIONS is unset
+  CATEGORIES_COLLECTION_ID: z.string().optional().default(""),
+  TAGS_COLLECTION_ID: z.string().optional().default(""),
+  TAXONOMY_MISSING_TERMS: z.enum(["skip", "create", "reject"]).default("skip"),
+  // Author profiles, referenced from articles when WEBFLOW_COLLECTIONS is unset
+  AUTHORS_COLLECTION_ID: z.string().optional().default(""),
+
+  // Check at startup (and every SCHEMA_CHECK_CRON) that the collections' fields match the
+  // field mapping; submissions to a collection are refused while they do not
+  SCHEMA_CHECK_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  SCHEMA_CHECK_CRON: z.string().default("*/15 * * * *"),
+
+  // Editorial workflow
+  MODERATION_ENABLED: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  // Whether submitters may publish directly with publishNow; defaults to "ignore" in production
+  PUBLISH_NOW_POLICY: z.enum(["honor", "ignore"]).optional(),
+
+  // Storage (Deno KV)
+  KV_PATH: z.string().optional().default(""),
+  DRAFT_TTL_MS: z.coerce.number().default(7 * 24 * 60 * 60 * 1000), // 7 days
+  IDEMPOTENCY_TTL_MS: z.coerce.number().default(24 * 60 * 60 * 1000), // 24 hours
+  IDEMPOTENCY_DEDUP_WINDOW_MS: z.coerce.number().default(10000), // 10 seconds
+
+  // Scheduled backups (needs --allow-read --allow-write)
+  BACKUP_ENABLED: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  BACKUP_DIR: z.string().default("backups"),
+  BACKUP_CRON: z.string().default("0 3 * * *"), // Daily at 03:00 UTC
+  BACKUP_MARKDOWN: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  BACKUP_RETENTION_COUNT: z.coerce.number().int().min(1).default(7),
+  BACKUP_RETENTION_DAYS: z.coerce.number().positive().optional(),
 
   // Optional
   SENTRY_DSN: z.string().optional().default(""),
@@ -54,7 +143,12 @@ function loadConfig() {
       ),
     );
 
-    return configSchema.parse(env);
+    return configSchema
+      .refine((env) => env.NODE_ENV !== "production" || !!env.EDIT_TOKEN_SECRET, {
+        message: "EDIT_TOKEN_SECRET is required in production",
+        path: ["EDIT_TOKEN_SECRET"],
+      })
+      .parse(env);
   } catch (error) {
     if (error instanceof z.ZodError) {
       console.error("❌ Configuration validation failed:");
@@ -72,6 +166,8 @@ export type Config = typeof config;
 export const isDevelopment = config.NODE_ENV === "development";
 export const isProduction = config.NODE_ENV === "production";
 export const isTest = config.NODE_ENV === "test";
+export const publishNowPolicy = config.PUBLISH_NOW_POLICY ?? (isProduction ? "ignore" : "honor");
+export const honorPublishNow = publishNowPolicy === "honor";
 
 // Backwards compatibility with existing code
 export const ALLOWED_ORIGINS = config.CORS_ORIGINS;
@@ -0,0 +1,94 @@
+/// <reference lib="deno.ns" />
+import { z } from "zod";
+import { config } from "@config/index.ts";
+
+/**
+ * Outbound webhook subscriptions: external systems (chat relays, CRMs, search indexers)
+ * notified of submission lifecycle events with signed JSON POST requests.
+ *
+ * OUTBOUND_WEBHOOKS holds a JSON array, e.g.
+ * `[{"id": "search", "url": "https://search.example.com/hooks/articles",
+ * "secret": "...", "events": ["article.published", "article.updated"]}]`.
+ * Without it no events are sent.
+ */
+
+export const OUTBOUND_EVENT_TYPES = [
+  "article.submitted",
+  "article.created",
+  "article.published",
+  "article.updated",
+  "article.failed",
+] as const;
+
+export type OutboundEventType = typeof OUTBOUND_EVENT_TYPES[number];
+
+const subscriptionSchema = z.object({
+  id: z.string().regex(
+    /^[a-z0-9][a-z0-9_-]{0,49}$/,
+    "Subscription IDs use lowercase letters, numbers, hyphens and underscores",
+  ),
+  url: z.string().url().refine(
+    (url) => /^https?:\/\//.test(url),
+    "Subscription URLs must use http or https",
+  ),
+  secret: z.string().min(16, "Subscription secrets must be at least 16 characters"),
+  // All events when empty
+  events: z.array(z.enum(OUTBOUND_EVENT_TYPES)).optional().default([]),
+  // Tenant IDs whose events are sent; all tenants (and single-tenant mode) when empty
+  tenants: z.array(z.string().min(1)).optional().default([]),
+});
+
+const subscriptionListSchema = z.array(subscriptionSchema).superRefine((entries, ctx) => {
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Subscription "${entry.id}" is defined more than once`,
+      });
+    }
+    seen.add(entry.id);
+  }
+});
+
+export type OutboundWebhookSubscription = z.infer<typeof subscriptionSchema>;
+
+/**
+ * Parse subscriptions from OUTBOUND_WEBHOOKS JSON; an empty value means none
+ */
+export function parseOutboundWebhooks(json: string): OutboundWebhookSubscription[] {
+  if (!json.trim()) return [];
+  return subscriptionListSchema.parse(JSON.parse(json));
+}
+
+function loadOutboundWebhooks(): OutboundWebhookSubscription[] {
+  try {
+    return parseOutboundWebhooks(config.OUTBOUND_WEBHOOKS);
+  } catch (error) {
+    console.error("❌ OUTBOUND_WEBHOOKS is invalid:");
+    console.error(
+      error instanceof z.ZodError
+        ? JSON.stringify(error.format(), null, 2)
+        : error instanceof Error
+        ? error.message
+        : String(error),
+    );
+    Deno.exit(1);
+  }
+}
+
+export const outboundWebhooks = loadOutboundWebhooks();
+
+/**
+ * Subscriptions that receive an event of a type, raised for a tenant (undefined in single-tenant mode)
+ */
+export function subscriptionsFor(
+  type: OutboundEventType,
+  tenant?: string,
+  subscriptions: OutboundWebhookSubscription[] = outboundWebhooks,
+): OutboundWebhookSubscription[] {
+  return subscriptions.filter((subscription) =>
+    (subscription.events.length === 0 || subscription.events.includes(type)) &&
+    (subscription.tenants.length === 0 || (!!tenant && subscription.tenants.includes(tenant)))
+  );
+}
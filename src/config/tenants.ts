@@ -0,0 +1,188 @@
+/// <reference lib="deno.ns" />
+import { z } from "zod";
+import { config } from "@config/index.ts";
+import { buildCollectionRegistry, type CollectionRegistry } from "@config/collections.ts";
+import { NotFoundError } from "@utils/errors.ts";
+
+/**
+ * Tenants served by one deployment. Each tenant has its own Webflow credentials,
+ * collections, CORS origins, rate-limit budgets and feature settings, and is
+ * identified by one of its API keys or by the host of the request origin.
+ *
+ * TENANTS holds a JSON object keyed by tenant ID, e.g.
+ * `{"acme": {"hosts": ["acme.webflow.io"], "webflow": {"apiToken": "...", "siteId": "...",
+ * "collectionId": "..."}, "corsOrigins": ["https://acme.webflow.io"]}}`.
+ * Without it the service runs single-tenant from the WEBFLOW_* variables.
+ */
+
+const tenantIdSchema = z.string().regex(
+  /^[a-z0-9][a-z0-9_-]{0,49}$/,
+  "Tenant IDs use lowercase letters, numbers, hyphens and underscores",
+);
+
+const rateLimitBudgetSchema = z.object({
+  windowMs: z.number().int().min(1000).optional(),
+  maxRequests: z.number().int().min(1).optional(),
+});
+
+const tenantEntrySchema = z.object({
+  name: z.string().optional(),
+  apiKeys: z.array(z.string().min(16, "Tenant API keys must be at least 16 characters"))
+    .optional().default([]),
+  hosts: z.array(z.string().min(1).transform((host) => host.toLowerCase()))
+    .optional().default([]), // Host names, e.g. "blog.example.com"
+  webflow: z.object({
+    apiToken: z.string().min(1, "apiToken is required"),
+    siteId: z.string().min(1, "siteId is required"),
+    collectionId: z.string().min(1, "collectionId is required"),
+    collections: z.unknown().optional(), // Same format as WEBFLOW_COLLECTIONS
+    webhookSecret: z.string().min(1).optional(), // WEBFLOW_WEBHOOK_SECRET when unset
+  }),
+  corsOrigins: z.array(z.string().min(1)).optional().default([]), // CORS_ORIGINS when empty
+  // Budgets replace the defaults of the matching limiter for this tenant's requests
+  rateLimit: z.object({
+    global: rateLimitBudgetSchema.optional(),
+    form: rateLimitBudgetSchema.optional(),
+    slugs: rateLimitBudgetSchema.optional(),
+  }).optional().default({}),
+  // Unset features follow the deployment configuration
+  features: z.object({
+    moderation: z.boolean().optional(),
+    publishNow: z.boolean().optional(),
+  }).optional().default({}),
+}).refine(
+  (entry) => entry.apiKeys.length > 0 || entry.hosts.length > 0,
+  { message: "A tenant needs at least one API key or host" },
+);
+
+const tenantRegistrySchema = z.record(tenantIdSchema, tenantEntrySchema).refine(
+  (entries) => Object.keys(entries).length > 0,
+  { message: "At least one tenant is required" },
+).superRefine((entries, ctx) => {
+  // A key or host must identify exactly one tenant
+  for (const field of ["apiKeys", "hosts"] as const) {
+    const seen = new Set<string>();
+    for (const entry of Object.values(entries)) {
+      for (const value of entry[field]) {
+        if (seen.has(value)) {
+          const subject = field === "apiKeys" ? "An API key" : `Host "${value}"`;
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${subject} is used by more than one tenant`,
+          });
+        }
+        seen.add(value);
+      }
+    }
+  }
+});
+
+type TenantEntry = z.infer<typeof tenantEntrySchema>;
+
+export type RateLimitBudgetName = keyof TenantEntry["rateLimit"];
+
+export type TenantConfig = Omit<TenantEntry, "webflow"> & {
+  id: string;
+  webflow: Omit<TenantEntry["webflow"], "collections">;
+  collections: CollectionRegistry;
+};
+
+export type TenantRegistry = Map<string, TenantConfig>;
+
+/**
+ * Parse the tenant registry from TENANTS JSON; an empty value means single-tenant mode
+ */
+export function parseTenantRegistry(json: string): TenantRegistry | undefined {
+  if (!json.trim()) return undefined;
+
+  const entries = tenantRegistrySchema.parse(JSON.parse(json));
+  const tenants: TenantRegistry = new Map();
+
+  for (const [id, entry] of Object.entries(entries)) {
+    const { collections, ...webflow } = entry.webflow;
+    tenants.set(id, {
+      ...entry,
+      id,
+      webflow,
+      collections: buildCollectionRegistry(collections, webflow.collectionId),
+    });
+  }
+
+  return tenants;
+}
+
+function loadTenantRegistry(): TenantRegistry | undefined {
+  try {
+    return parseTenantRegistry(config.TENANTS);
+  } catch (error) {
+    console.error("❌ TENANTS is invalid:");
+    console.error(
+      error instanceof z.ZodError
+        ? JSON.stringify(error.format(), null, 2)
+        : error instanceof Error
+        ? error.message
+        : String(error),
+    );
+    Deno.exit(1);
+  }
+}
+
+export const tenantRegistry = loadTenantRegistry();
+
+/**
+ * Get a tenant by ID
+ */
+export function getTenant(
+  id: string,
+  registry: TenantRegistry | undefined = tenantRegistry,
+): TenantConfig {
+  const tenant = registry?.get(id);
+  if (!tenant) {
+    throw new NotFoundError("Tenant");
+  }
+  return tenant;
+}
+
+/**
+ * Identify the tenant of a request: an API key first, then the host of the
+ * Origin header, then the Host header
+ */
+export function findTenant(
+  request: { apiKey?: string; origin?: string; host?: string },
+  registry: TenantRegistry | undefined = tenantRegistry,
+): TenantConfig | undefined {
+  if (!registry) return undefined;
+
+  const tenants = [...registry.values()];
+
+  if (request.apiKey) {
+    const tenant = tenants.find((entry) => entry.apiKeys.includes(request.apiKey!));
+    if (tenant) return tenant;
+  }
+
+  for (const host of [originHost(request.origin), request.host?.split(":")[0].toLowerCase()]) {
+    const tenant = host ? tenants.find((entry) => entry.hosts.includes(host)) : undefined;
+    if (tenant) return tenant;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the tenant publishing to a Webflow site, e.g. for webhooks, which carry no API key
+ */
+export function findTenantBySite(
+  siteId: string,
+  registry: TenantRegistry | undefined = tenantRegistry,
+): TenantConfig | undefined {
+  return [...(registry?.values() ?? [])].find((tenant) => tenant.webflow.siteId === siteId);
+}
+
+function originHost(origin?: string): string | undefined {
+  if (!origin || origin === "null") return undefined;
+  try {
+    return new URL(origin).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
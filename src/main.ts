@@ -3,6 +3,13 @@ import { serve } from "@std/http/server";
 import { config } from "@config/index.ts";
 import { logger } from "@utils/logger.ts";
 import { createApp } from "@/app.ts";
+import { checkCollectionSchemas, getCMSService } from "@services/cmsService.ts";
+import { JobService } from "@services/jobService.ts";
+import { getDeadLetterService } from "@services/deadLetterService.ts";
+import { ExportService } from "@services/exportService.ts";
+import { OutboundWebhookService } from "@services/outboundWebhookService.ts";
+import { outboundWebhooks } from "@config/outboundWebhooks.ts";
+import { getNotificationService } from "@services/notificationService.ts";
 import type { Variables } from "@app-types";
 
 // Create Hono app using factory
@@ -41,6 +48,103 @@ export type { Variables };
 
 // Start server if not in test mode
 if (import.meta.main) {
+  // Compare the collections' fields in Webflow with the field mapping, now and periodically
+  if (config.SCHEMA_CHECK_ENABLED) {
+    const runSchemaCheck = async () => {
+      try {
+        await checkCollectionSchemas();
+      } catch (error) {
+        logger.error("Collection schema check failed", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    };
+
+    Deno.cron("check-collection-schemas", config.SCHEMA_CHECK_CRON, runSchemaCheck);
+    runSchemaCheck();
+  }
+
+  // Scheduled publishing worker: runs every minute and catches up on startup
+  const publishingService = getCMSService();
+  const runScheduledPublishing = async () => {
+    try {
+      await publishingService.publishScheduledItems();
+    } catch (error) {
+      logger.error("Scheduled publishing run failed", {
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  };
+
+  Deno.cron("publish-scheduled-items", "* * * * *", runScheduledPublishing);
+  runScheduledPublishing();
+
+  // Scheduled backups to local snapshots
+  if (config.BACKUP_ENABLED) {
+    const exportService = new ExportService();
+    Deno.cron("backup-collection", config.BACKUP_CRON, async () => {
+      try {
+        await exportService.createSnapshot(config.BACKUP_DIR, {
+          markdown: config.BACKUP_MARKDOWN,
+          retention: {
+            keep: config.BACKUP_RETENTION_COUNT,
+            maxAgeDays: config.BACKUP_RETENTION_DAYS,
+          },
+        });
+      } catch (error) {
+        logger.error("Scheduled backup failed", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    });
+  }
+
+  // Outbound webhook retries, plus deliveries left unsent by a restart
+  if (outboundWebhooks.length > 0) {
+    const outboundWebhookService = new OutboundWebhookService();
+    Deno.cron("deliver-outbound-webhooks", "* * * * *", async () => {
+      try {
+        await outboundWebhookService.deliverDue();
+      } catch (error) {
+        logger.error("Outbound webhook delivery run failed", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    });
+  }
+
+  // Notification email retries and the editor digest
+  const notificationService = getNotificationService();
+  if (notificationService.enabled) {
+    Deno.cron("send-notification-emails", "* * * * *", async () => {
+      try {
+        await notificationService.sendDue();
+      } catch (error) {
+        logger.error("Notification email run failed", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    });
+
+    Deno.cron("send-editor-digest", config.NOTIFY_DIGEST_CRON, async () => {
+      try {
+        await notificationService.sendDigest();
+      } catch (error) {
+        logger.error("Editor digest failed", {
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    });
+  }
+
+  // Asynchronous submission worker; jobs it gives up on notify editors like failed submissions
+  const jobService = new JobService(undefined, { deadLetterService: getDeadLetterService() });
+  jobService.listen(publishingService).catch((error) => {
+    logger.error("Submission job worker stopped", {
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+  });
+
   await serve(app.fetch, {
     port,
     hostname: "0.0.0.0", // Bind to all interfaces for WSL compatibility
@@ -1,7 +1,7 @@
 /// <reference lib="deno.ns" />
 import { cors } from "@hono/cors";
 import { config, isDevelopment } from "@config/index.ts";
-import type { MiddlewareHandler } from "@hono/hono";
+import type { Context, MiddlewareHandler } from "@hono/hono";
 import type { Variables } from "@app-types";
 
 /**
@@ -9,9 +9,9 @@ import type { Variables } from "@app-types";
  * Handles cross-origin requests with proper security settings
  */
 
-// Parse allowed origins from environment
-const getAllowedOrigins = (): string[] => {
-  const origins = config.CORS_ORIGINS;
+// Parse allowed origins from environment (or a tenant's own list)
+const getAllowedOrigins = (configured: string[] = config.CORS_ORIGINS): string[] => {
+  const origins = [...configured];
 
   // Add localhost for development
   if (isDevelopment) {
@@ -72,9 +72,25 @@ export const corsMiddleware = (): MiddlewareHandler<{ Variables: Variables }> =>
   const allowedOrigins = getAllowedOrigins();
   const validateOrigin = createOriginValidator(allowedOrigins);
 
+  // Tenants with their own origins are checked against those instead
+  const tenantValidators = new Map<string, (origin: string) => string | null>();
+  const validateTenantOrigin = (origin: string, c: Context<{ Variables: Variables }>) => {
+    const tenant = c.get("tenant");
+    if (!tenant || tenant.corsOrigins.length === 0) {
+      return validateOrigin(origin);
+    }
+
+    let validator = tenantValidators.get(tenant.id);
+    if (!validator) {
+      validator = createOriginValidator(getAllowedOrigins(tenant.corsOrigins));
+      tenantValidators.set(tenant.id, validator);
+    }
+    return validator(origin);
+  };
+
   return cors({
-    origin: validateOrigin,
-    allowMethods: ["GET", "POST", "OPTIONS", "HEAD"],
+    origin: validateTenantOrigin,
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS", "HEAD"],
     allowHeaders: [
       "Content-Type",
       "Authorization",
@@ -82,11 +98,20 @@ export const corsMiddleware = (): MiddlewareHandler<{ Variables: Variables }> =>
       "Accept",
       "Origin",
       "Referer",
+      "X-Resume-Token",
+      "Idempotency-Key",
+      "X-Edit-Token",
+      "Prefer",
+      "If-None-Match",
+      "X-Tenant-Id",
     ],
     exposeHeaders: [
       "X-Request-Id",
       "X-Response-Time",
       "X-Rate-Limit-Remaining",
+      "Idempotent-Replayed",
+      "Location",
+      "ETag",
     ],
     credentials: true,
     maxAge: 86400, // 24 hours preflight cache
@@ -1,6 +1,7 @@
 /// <reference lib="deno.ns" />
 import type { Context, Next } from "@hono/hono";
 import { logger } from "@utils/logger.ts";
+import { toDataUri } from "@utils/images.ts";
 
 /**
  * Middleware to parse form-encoded data and convert it to JSON format
@@ -60,6 +61,18 @@ export async function parseFormData(c: Context, next: Next) {
           }
           break;
 
+        case "featuredImage":
+          // An uploaded file travels as a data: URI until it is stored in Webflow Assets;
+          // browsers send an empty file when none was chosen
+          if (value instanceof File) {
+            if (value.size > 0) {
+              jsonData[key] = toDataUri(new Uint8Array(await value.arrayBuffer()), value.type);
+            }
+          } else {
+            jsonData[key] = value;
+          }
+          break;
+
         case "publishNow":
           // Convert string boolean to actual boolean
           jsonData[key] = value === "true" || value === "1" || value === "on";
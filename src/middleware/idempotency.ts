@@ -0,0 +1,136 @@
+/// <reference lib="deno.ns" />
+import type { Context, Next } from "@hono/hono";
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { hashToken } from "@utils/kv.ts";
+import { IdempotencyService } from "@services/idempotencyService.ts";
+import { getRequestTenant } from "./tenant.ts";
+
+export interface IdempotencyOptions {
+  ttlMs?: number; // How long responses for explicit keys are kept
+  dedupWindowMs?: number; // Window for automatic deduplication without a key
+  service?: IdempotencyService;
+}
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Idempotency middleware for submission endpoints.
+ * Honors the Idempotency-Key header and, without one, deduplicates identical
+ * payloads from the same client within a short window.
+ */
+export function idempotency(options: IdempotencyOptions = {}) {
+  const ttlMs = options.ttlMs ?? config.IDEMPOTENCY_TTL_MS;
+  const dedupWindowMs = options.dedupWindowMs ?? config.IDEMPOTENCY_DEDUP_WINDOW_MS;
+  const service = options.service ?? new IdempotencyService();
+
+  return async (c: Context, next: Next) => {
+    const requestId = c.get("requestId") as string;
+    const headerKey = c.req.header(IDEMPOTENCY_HEADER)?.trim();
+
+    if (headerKey !== undefined && (headerKey.length === 0 || headerKey.length > MAX_KEY_LENGTH)) {
+      return c.json({
+        error: "Invalid Idempotency-Key",
+        message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        requestId,
+      }, 400);
+    }
+
+    const clientIP = c.req.header("x-forwarded-for")?.split(",")[0].trim() ||
+      c.req.header("x-real-ip");
+
+    // Without a client address every caller would share one dedup key, and a replayed
+    // response (which carries the author's edit token) would reach someone else
+    if (!headerKey && !clientIP) {
+      return await next();
+    }
+
+    const bodyHash = await hashToken(await c.req.raw.clone().text());
+
+    // Tenants sharing a deployment each have their own key space
+    const tenant = getRequestTenant(c)?.id ?? "";
+    const key = headerKey
+      ? `key:${tenant}:${c.req.method}:${c.req.path}:${headerKey}`
+      : `auto:${tenant}:${c.req.method}:${c.req.path}:${clientIP}:${bodyHash}`;
+    const keyTtl = headerKey ? ttlMs : dedupWindowMs;
+
+    let started = false;
+    try {
+      const result = await service.begin(key, bodyHash, keyTtl);
+
+      switch (result.outcome) {
+        case "mismatch":
+          logger.warn("Idempotency key reused with a different body", {
+            requestId,
+            path: c.req.path,
+          });
+          return c.json({
+            error: "Idempotency key mismatch",
+            message: "This Idempotency-Key was already used with a different request body",
+            requestId,
+          }, 422);
+
+        case "in_progress":
+          return c.json({
+            error: "Request in progress",
+            message: "An identical request is still being processed. Please wait.",
+            requestId,
+          }, 409);
+
+        case "replay":
+          logger.info("Replaying stored response", {
+            requestId,
+            path: c.req.path,
+            automatic: !headerKey,
+            status: result.response.status,
+          });
+          return new Response(result.response.body, {
+            status: result.response.status,
+            headers: {
+              "Content-Type": result.response.contentType || "application/json",
+              "Idempotent-Replayed": "true",
+            },
+          });
+
+        case "started":
+          started = true;
+          break;
+      }
+    } catch (error) {
+      // Storage problems must not block submissions
+      logger.error("Idempotency check failed, continuing without it", {
+        requestId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      if (started) await service.release(key);
+      throw error;
+    }
+
+    if (!started) return;
+
+    try {
+      // Server errors are not stored so the client can retry them
+      if (c.res.status >= 500) {
+        await service.release(key);
+        return;
+      }
+
+      await service.complete(key, bodyHash, {
+        status: c.res.status,
+        body: await c.res.clone().text(),
+        contentType: c.res.headers.get("content-type") ?? undefined,
+      }, keyTtl);
+    } catch (error) {
+      logger.error("Failed to store idempotent response", {
+        requestId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  };
+}
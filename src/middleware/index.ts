@@ -4,7 +4,8 @@ import { corsMiddleware } from "./cors.ts";
 import { requestValidation, securityMiddleware } from "./security.ts";
 import { requestLogger } from "./requestLogger.ts";
 import { errorHandler } from "./errorHandler.ts";
-import { createWhitelistSkip, formRateLimiter, rateLimiter } from "./rateLimiter.ts";
+import { tenantResolver } from "./tenant.ts";
+import { createWhitelistSkip, rateLimitConfigs, tenantRateLimiter } from "./rateLimiter.ts";
 import type { Variables } from "@app-types";
 import { config as appConfig } from "@config/index.ts";
 
@@ -14,7 +15,7 @@ export interface MiddlewareConfig {
 
 /**
  * Register all middleware in the correct order
- * Order matters: error handler -> request logger -> security -> rate limit -> validation -> cors -> routes
+ * Order matters: error handler -> request logger -> security -> tenant -> rate limit -> validation -> cors -> routes
  */
 export function registerMiddleware(
   app: Hono<{ Variables: Variables }>,
@@ -36,17 +37,31 @@ export function registerMiddleware(
     }),
   );
 
-  // Global rate limiting (before CORS to prevent abuse)
+  // Tenant resolution (multi-tenant mode only; rate limits and CORS depend on the tenant)
+  // Webflow webhooks carry no API key or origin and are matched to a tenant by site ID
+  app.use(
+    "/api/*",
+    tenantResolver(undefined, { skip: (c) => c.req.path.startsWith("/api/webhooks/") }),
+  );
+
+  // Global rate limiting (before CORS to prevent abuse); tenants may set their own budgets
   if (!config?.testing) {
+    const whitelistSkip = appConfig.NODE_ENV === "development" ? createWhitelistSkip() : undefined;
+
     app.use(
       "*",
-      rateLimiter({
-        skip: appConfig.NODE_ENV === "development" ? createWhitelistSkip() : undefined,
+      tenantRateLimiter("global", {
+        // Slug endpoints have their own, higher limit for live form feedback, and signed
+        // Webflow webhooks arrive in bursts when many items change at once
+        skip: (c) =>
+          c.req.path.startsWith("/api/slugs/") || c.req.path.startsWith("/api/webhooks/") ||
+          (whitelistSkip?.(c) ?? false),
       }),
     );
 
     // Specific rate limiting for form endpoints
-    app.use("/api/webflow-form", formRateLimiter);
+    app.use("/api/webflow-form", tenantRateLimiter("form", rateLimitConfigs.form));
+    app.use("/api/slugs/*", tenantRateLimiter("slugs", rateLimitConfigs.slugs));
   }
 
   // Request validation middleware (validate before processing)
@@ -3,6 +3,7 @@ import type { Context, Next } from "@hono/hono";
 import { RateLimitError } from "@utils/errors.ts";
 import { logger } from "@utils/logger.ts";
 import { config } from "@config/index.ts";
+import type { RateLimitBudgetName, TenantConfig } from "@config/tenants.ts";
 
 // Rate limit configuration
 export interface RateLimitConfig {
@@ -11,6 +12,7 @@ export interface RateLimitConfig {
   skipSuccessfulRequests?: boolean; // Don't count successful requests
   skipFailedRequests?: boolean; // Don't count failed requests
   keyGenerator?: (c: Context) => string; // Custom key generator
+  keyPrefix?: string; // Separate counters from other limiters for the same client
   skip?: (c: Context) => boolean; // Skip rate limiting for certain requests
   handler?: (c: Context) => Response; // Custom handler for rate limited requests
   message?: string; // Custom error message
@@ -33,6 +35,12 @@ export const rateLimitConfigs: Record<string, RateLimitConfig> = {
     maxRequests: 50, // 50 form submissions per 5 minutes
     message: "Too many form submissions. Please wait before trying again.",
   },
+  slugs: {
+    windowMs: 60000, // 1 minute
+    maxRequests: 120, // Live feedback fires while the author types
+    keyPrefix: "slugs",
+    message: "Too many slug checks. Please slow down.",
+  },
 };
 
 // Client info for tracking
@@ -221,7 +229,9 @@ export function rateLimiter(
     }
 
     const clientId = getClientId(c, config.keyGenerator);
-    const key = `rate-limit:${clientId}`;
+    const key = config.keyPrefix
+      ? `rate-limit:${config.keyPrefix}:${clientId}`
+      : `rate-limit:${clientId}`;
     const requestId = c.get("requestId") as string;
 
     try {
@@ -301,6 +311,36 @@ export function rateLimiter(
 // Endpoint-specific rate limiters
 export const apiRateLimiter = rateLimiter(rateLimitConfigs.api);
 export const formRateLimiter = rateLimiter(rateLimitConfigs.form);
+export const slugRateLimiter = rateLimiter(rateLimitConfigs.slugs);
+
+// Rate limiter honoring per-tenant budgets. Requests of a tenant with its own budget for
+// this limiter are counted separately under that budget; all others use `options`.
+export function tenantRateLimiter(
+  name: RateLimitBudgetName,
+  options: Partial<RateLimitConfig> = {},
+): (c: Context, next: Next) => Promise<Response | void> {
+  const fallback = rateLimiter(options);
+  const tenantLimiters = new Map<string, ReturnType<typeof rateLimiter>>();
+
+  return (c: Context, next: Next) => {
+    const tenant = c.get("tenant") as TenantConfig | undefined;
+    const budget = tenant?.rateLimit[name];
+    if (!tenant || !budget) {
+      return fallback(c, next);
+    }
+
+    let limiter = tenantLimiters.get(tenant.id);
+    if (!limiter) {
+      limiter = rateLimiter({
+        ...options,
+        ...budget,
+        keyPrefix: `tenant:${tenant.id}:${options.keyPrefix ?? name}`,
+      });
+      tenantLimiters.set(tenant.id, limiter);
+    }
+    return limiter(c, next);
+  };
+}
 
 // Sliding window rate limiter for more accurate rate limiting
 export function slidingWindowRateLimiter(
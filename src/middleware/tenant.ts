@@ -0,0 +1,73 @@
+/// <reference lib="deno.ns" />
+import type { Context, MiddlewareHandler } from "@hono/hono";
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import {
+  findTenant,
+  type TenantConfig,
+  type TenantRegistry,
+  tenantRegistry,
+} from "@config/tenants.ts";
+import type { Variables } from "@app-types";
+
+const TENANT_HEADER = "x-tenant-id";
+
+export interface TenantResolverOptions {
+  skip?: (c: Context) => boolean; // Requests that identify their tenant another way
+}
+
+/**
+ * Resolve the tenant of a request and store it as `tenant` on the context.
+ * Admin API keys may pick any tenant with X-Tenant-Id, or none to use the
+ * deployment configuration. Does nothing in single-tenant mode.
+ */
+export function tenantResolver(
+  registry: TenantRegistry | undefined = tenantRegistry,
+  options: TenantResolverOptions = {},
+): MiddlewareHandler<{ Variables: Variables }> {
+  return async (c, next) => {
+    if (!registry || options.skip?.(c)) {
+      await next();
+      return;
+    }
+
+    const requestId = c.get("requestId");
+    const apiKey = c.req.header("x-api-key") || c.req.header("api-key");
+    const isAdmin = !!apiKey && config.ADMIN_API_KEYS.includes(apiKey);
+    const requested = c.req.header(TENANT_HEADER);
+
+    const tenant = requested && isAdmin ? registry.get(requested) : findTenant(
+      { apiKey, origin: c.req.header("origin"), host: c.req.header("host") },
+      registry,
+    );
+
+    if (!tenant && (requested || !isAdmin)) {
+      logger.warn("Request did not match a tenant", {
+        requestId,
+        path: c.req.path,
+        origin: c.req.header("origin"),
+        requested,
+      });
+      return c.json(
+        {
+          error: "Unauthorized",
+          message: requested && isAdmin ? `Unknown tenant "${requested}"` : "Unknown tenant",
+        },
+        401,
+      );
+    }
+
+    if (tenant) {
+      c.set("tenant", tenant);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Tenant of the current request; undefined in single-tenant mode
+ */
+export function getRequestTenant(c: Context): TenantConfig | undefined {
+  return c.get("tenant") as TenantConfig | undefined;
+}
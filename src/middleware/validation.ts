@@ -1,7 +1,9 @@
 /// <reference lib="deno.ns" />
 import type { Context, Next } from "@hono/hono";
 import { HTTPException } from "@hono/hono/http-exception";
+import type { ZodTypeAny } from "zod";
 import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
 import {
   type DraftFormData,
   formatValidationErrors,
@@ -11,8 +13,9 @@ import {
   validateContent,
   validateDraftFormData as validateDraftFormDataFn,
   validateFormData as validateFormDataFn,
+  validateImages,
   validateUpdateFormData as validateUpdateFormDataFn,
-  type ValidationError as _ValidationError,
+  type ValidationError,
 } from "@utils/validation.ts";
 
 export interface ValidationOptions {
@@ -192,6 +195,40 @@ export function validateFormData(options: ValidationOptions = {}) {
         }
       }
 
+      // Uploaded images must be real images within the size limits
+      if (mode !== "draft" && validationResult.data) {
+        const imageValidation = validateImages(validationResult.data, {
+          maxBytes: config.IMAGE_MAX_BYTES,
+          maxWidth: config.IMAGE_MAX_WIDTH,
+          maxHeight: config.IMAGE_MAX_HEIGHT,
+          maxInline: config.IMAGE_MAX_INLINE,
+        });
+
+        if (!imageValidation.success) {
+          const fieldErrors = formatValidationErrors(imageValidation.errors!);
+          const summary = getValidationSummary(imageValidation.errors!);
+
+          logger.warn("Image validation failed", {
+            requestId,
+            mode,
+            errorCount: imageValidation.errors!.length,
+            summary,
+          });
+
+          return c.json(
+            {
+              error: "Image validation failed",
+              message: "The submitted images are not valid",
+              fields: fieldErrors,
+              summary,
+              timestamp: new Date().toISOString(),
+              requestId,
+            } satisfies ValidationErrorResponse,
+            400,
+          );
+        }
+      }
+
       // Store validated data in context
       c.set("validatedData", validationResult.data);
 
@@ -486,6 +523,101 @@ export function validateField<T>(
   };
 }
 
+/**
+ * Middleware for validating a JSON body against an arbitrary Zod schema
+ */
+export function validateBody(schema: ZodTypeAny) {
+  return async (c: Context, next: Next) => {
+    const requestId = c.get("requestId") as string;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(
+        {
+          error: "Invalid JSON",
+          message: "Request body must be valid JSON",
+          fields: {},
+          summary: "Invalid request format",
+          timestamp: new Date().toISOString(),
+          requestId,
+        } satisfies ValidationErrorResponse,
+        400,
+      );
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      const errors: ValidationError[] = result.error.issues.map((issue) => ({
+        field: issue.path.join(".") || "root",
+        message: issue.message,
+        code: issue.code,
+      }));
+
+      logger.warn("Request body validation failed", {
+        requestId,
+        path: c.req.path,
+        errorCount: errors.length,
+      });
+
+      return c.json(
+        {
+          error: "Validation failed",
+          message: "The submitted data contains validation errors",
+          fields: formatValidationErrors(errors),
+          summary: getValidationSummary(errors),
+          timestamp: new Date().toISOString(),
+          requestId,
+        } satisfies ValidationErrorResponse,
+        400,
+      );
+    }
+
+    c.set("validatedData", result.data);
+    await next();
+  };
+}
+
+/**
+ * Middleware for validating query parameters against an arbitrary Zod schema
+ */
+export function validateQuery(schema: ZodTypeAny) {
+  return async (c: Context, next: Next) => {
+    const requestId = c.get("requestId") as string;
+
+    const result = schema.safeParse(c.req.query());
+    if (!result.success) {
+      const errors: ValidationError[] = result.error.issues.map((issue) => ({
+        field: issue.path.join(".") || "root",
+        message: issue.message,
+        code: issue.code,
+      }));
+
+      logger.warn("Query validation failed", {
+        requestId,
+        path: c.req.path,
+        errorCount: errors.length,
+      });
+
+      return c.json(
+        {
+          error: "Validation failed",
+          message: "The query parameters contain validation errors",
+          fields: formatValidationErrors(errors),
+          summary: getValidationSummary(errors),
+          timestamp: new Date().toISOString(),
+          requestId,
+        } satisfies ValidationErrorResponse,
+        400,
+      );
+    }
+
+    c.set("validatedData", result.data);
+    await next();
+  };
+}
+
 // Export commonly used validation middleware combinations
 export const createFormValidation = validateFormData({ mode: "create" });
 export const updateFormValidation = validateFormData({ mode: "update" });
@@ -0,0 +1,386 @@
+/// <reference lib="deno.ns" />
+import { Hono } from "@hono/hono";
+import { config } from "@config/index.ts";
+import { logger } from "@utils/logger.ts";
+import type { Variables } from "@app-types";
+import { apiKeyValidation } from "@middleware/security.ts";
+import { getValidatedData, validateBody } from "@middleware/validation.ts";
+import {
+  type ScheduledPublication,
+  ScheduleService,
+  type ScheduleStatus,
+} from "@services/scheduleService.ts";
+import {
+  type DeadLetter,
+  type DeadLetterStatus,
+  getDeadLetterService,
+} from "@services/deadLetterService.ts";
+import { getCMSService } from "@services/cmsService.ts";
+import {
+  type DeliveryStatus,
+  OutboundWebhookService,
+  type WebhookDelivery,
+} from "@services/outboundWebhookService.ts";
+import { EditTokenService } from "@services/editTokenService.ts";
+import { formatInTimeZone, parseInTimeZone } from "@utils/timezone.ts";
+import { ValidationError } from "@utils/errors.ts";
+import {
+  type DeadLetterReplayData,
+  deadLetterReplaySchema,
+  type ScheduleUpdateData,
+  scheduleUpdateSchema,
+} from "@utils/validation.ts";
+
+export const adminRoutes = new Hono<{ Variables: Variables }>();
+
+// Initialize schedule storage
+const scheduleService = new ScheduleService();
+
+// Initialize dead-letter storage and the CMS service used for replays
+const deadLetterService = getDeadLetterService();
+const cmsService = getCMSService();
+
+// Initialize author edit tokens
+const editTokenService = new EditTokenService();
+
+// Initialize the outbound webhook delivery log
+const outboundWebhookService = new OutboundWebhookService();
+
+const SCHEDULE_STATUSES: ScheduleStatus[] = ["pending", "published", "failed", "cancelled"];
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ["pending", "replaying", "replayed"];
+const DELIVERY_STATUSES: DeliveryStatus[] = ["pending", "retrying", "delivered", "failed"];
+
+// All admin endpoints require an API key
+adminRoutes.use("*", apiKeyValidation(new Set(config.ADMIN_API_KEYS)));
+
+// List scheduled publications
+adminRoutes.get("/schedules", async (c) => {
+  const status = c.req.query("status") as ScheduleStatus | undefined;
+
+  if (status && !SCHEDULE_STATUSES.includes(status)) {
+    throw new ValidationError(
+      `Status must be one of: ${SCHEDULE_STATUSES.join(", ")}`,
+      "status",
+      status,
+    );
+  }
+
+  const schedules = await scheduleService.list(status);
+
+  return c.json({
+    success: true,
+    data: schedules.map(formatSchedule),
+    count: schedules.length,
+  });
+});
+
+// Get a single scheduled publication
+adminRoutes.get("/schedules/:itemId", async (c) => {
+  const schedule = await scheduleService.get(c.req.param("itemId"));
+
+  return c.json({
+    success: true,
+    data: formatSchedule(schedule),
+  });
+});
+
+// Move a pending publication to a new time
+adminRoutes.patch(
+  "/schedules/:itemId",
+  validateBody(scheduleUpdateSchema),
+  async (c) => {
+    const requestId = c.get("requestId");
+    const itemId = c.req.param("itemId") as string;
+    const { publishAt } = getValidatedData<ScheduleUpdateData>(c);
+
+    // Local times without an offset are interpreted in the site time zone
+    const current = await scheduleService.get(itemId);
+    let publishDate: Date;
+    try {
+      publishDate = parseInTimeZone(publishAt, current.timezone);
+    } catch (error) {
+      throw new ValidationError(
+        error instanceof Error ? error.message : "Invalid date-time",
+        "publishAt",
+        publishAt,
+      );
+    }
+
+    if (publishDate.getTime() <= Date.now()) {
+      throw new ValidationError("Publish date must be in the future", "publishAt", publishAt);
+    }
+
+    const schedule = await scheduleService.reschedule(itemId, publishDate);
+
+    logger.info("Scheduled publication moved", {
+      requestId,
+      itemId,
+      apiKey: c.get("apiKey"),
+      publishAt: schedule.publishAt,
+    });
+
+    return c.json({
+      success: true,
+      message: "Publication rescheduled",
+      data: formatSchedule(schedule),
+    });
+  },
+);
+
+// Cancel a pending publication
+adminRoutes.delete("/schedules/:itemId", async (c) => {
+  const requestId = c.get("requestId");
+  const itemId = c.req.param("itemId");
+  const schedule = await scheduleService.cancel(itemId);
+
+  logger.info("Scheduled publication cancelled via admin API", {
+    requestId,
+    itemId,
+    apiKey: c.get("apiKey"),
+  });
+
+  return c.json({
+    success: true,
+    message: "Publication cancelled",
+    data: formatSchedule(schedule),
+  });
+});
+
+// List failed submissions
+adminRoutes.get("/dead-letters", async (c) => {
+  const status = c.req.query("status") as DeadLetterStatus | undefined;
+
+  if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+    throw new ValidationError(
+      `Status must be one of: ${DEAD_LETTER_STATUSES.join(", ")}`,
+      "status",
+      status,
+    );
+  }
+
+  const deadLetters = await deadLetterService.list(status);
+
+  return c.json({
+    success: true,
+    data: deadLetters.map(summarizeDeadLetter),
+    count: deadLetters.length,
+  });
+});
+
+// Inspect a failed submission, including its form data and attempt history
+adminRoutes.get("/dead-letters/:id", async (c) => {
+  const deadLetter = await deadLetterService.get(c.req.param("id"));
+
+  return c.json({
+    success: true,
+    data: formatDeadLetter(deadLetter),
+  });
+});
+
+// Replay several failed submissions (all pending ones when no IDs are given)
+adminRoutes.post(
+  "/dead-letters/replay",
+  validateBody(deadLetterReplaySchema),
+  async (c) => {
+    const requestId = c.get("requestId");
+    const { ids } = getValidatedData<DeadLetterReplayData>(c);
+
+    const result = await deadLetterService.replayMany(cmsService, ids);
+
+    logger.info("Dead letters replayed via admin API", {
+      requestId,
+      apiKey: c.get("apiKey"),
+      replayed: result.replayed.length,
+      failed: result.failed.length,
+      skipped: result.skipped.length,
+    });
+
+    return c.json({
+      success: result.failed.length === 0,
+      message: `Replayed ${result.replayed.length} of ${
+        result.replayed.length + result.failed.length + result.skipped.length
+      } dead letters`,
+      data: result,
+    });
+  },
+);
+
+// Replay a single failed submission
+adminRoutes.post("/dead-letters/:id/replay", async (c) => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id");
+
+  const result = await deadLetterService.replay(id, cmsService);
+
+  logger.info("Dead letter replayed via admin API", {
+    requestId,
+    deadLetterId: id,
+    apiKey: c.get("apiKey"),
+    success: result.success,
+  });
+
+  return c.json({
+    success: result.success,
+    message: result.success ? "Submission replayed" : "Replay failed",
+    error: result.error,
+    data: formatDeadLetter(result.deadLetter),
+  }, result.success ? 200 : 502);
+});
+
+// Discard a failed submission without replaying it
+adminRoutes.delete("/dead-letters/:id", async (c) => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id");
+  await deadLetterService.discard(id);
+
+  logger.info("Dead letter discarded via admin API", {
+    requestId,
+    deadLetterId: id,
+    apiKey: c.get("apiKey"),
+  });
+
+  return c.json({
+    success: true,
+    message: "Dead letter discarded",
+    data: { id },
+  });
+});
+
+// Revoke every author edit token issued for an item
+adminRoutes.delete("/items/:itemId/edit-tokens", async (c) => {
+  const requestId = c.get("requestId");
+  const itemId = c.req.param("itemId");
+  await editTokenService.revokeItem(itemId);
+
+  logger.info("Edit tokens revoked via admin API", {
+    requestId,
+    itemId,
+    apiKey: c.get("apiKey"),
+  });
+
+  return c.json({
+    success: true,
+    message: "All edit tokens for the item have been revoked",
+    data: { itemId },
+  });
+});
+
+// List outbound webhook subscriptions (without their secrets)
+adminRoutes.get("/webhooks", (c) => {
+  const subscriptions = outboundWebhookService.listSubscriptions();
+
+  return c.json({
+    success: true,
+    data: subscriptions,
+    count: subscriptions.length,
+  });
+});
+
+// Outbound webhook delivery log, newest first
+adminRoutes.get("/webhooks/deliveries", async (c) => {
+  const status = c.req.query("status") as DeliveryStatus | undefined;
+
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    throw new ValidationError(
+      `Status must be one of: ${DELIVERY_STATUSES.join(", ")}`,
+      "status",
+      status,
+    );
+  }
+
+  const deliveries = await outboundWebhookService.list({
+    status,
+    subscriptionId: c.req.query("subscription"),
+    eventId: c.req.query("event"),
+  });
+
+  return c.json({
+    success: true,
+    data: deliveries.map(summarizeDelivery),
+    count: deliveries.length,
+  });
+});
+
+// Inspect a delivery, including the event sent and every attempt
+adminRoutes.get("/webhooks/deliveries/:id", async (c) => {
+  const delivery = await outboundWebhookService.get(c.req.param("id"));
+
+  return c.json({
+    success: true,
+    data: formatDelivery(delivery),
+  });
+});
+
+// Send a delivery again, e.g. once a subscriber has recovered
+adminRoutes.post("/webhooks/deliveries/:id/redeliver", async (c) => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id");
+
+  const delivery = await outboundWebhookService.redeliver(id);
+  const success = delivery.status === "delivered";
+
+  logger.info("Webhook redelivered via admin API", {
+    requestId,
+    deliveryId: id,
+    apiKey: c.get("apiKey"),
+    success,
+  });
+
+  return c.json({
+    success,
+    message: success ? "Webhook delivered" : "Redelivery failed",
+    error: success ? undefined : delivery.lastError,
+    data: formatDelivery(delivery),
+  }, success ? 200 : 502);
+});
+
+function formatSchedule(schedule: ScheduledPublication) {
+  const { claimedUntil: _claimedUntil, ...rest } = schedule;
+
+  return {
+    ...rest,
+    publishAtLocal: formatInTimeZone(new Date(schedule.publishAt), schedule.timezone),
+  };
+}
+
+function formatDeadLetter(deadLetter: DeadLetter) {
+  const { claimedUntil: _claimedUntil, ...rest } = deadLetter;
+  return rest;
+}
+
+function summarizeDeadLetter(deadLetter: DeadLetter) {
+  return {
+    id: deadLetter.id,
+    status: deadLetter.status,
+    articleTitle: deadLetter.data.articleTitle,
+    authorName: deadLetter.data.authorName,
+    itemId: deadLetter.itemId,
+    error: deadLetter.error,
+    attempts: deadLetter.attempts.length,
+    createdAt: deadLetter.createdAt,
+    updatedAt: deadLetter.updatedAt,
+    replayedAt: deadLetter.replayedAt,
+  };
+}
+
+function formatDelivery(delivery: WebhookDelivery) {
+  const { claimedUntil: _claimedUntil, ...rest } = delivery;
+  return rest;
+}
+
+function summarizeDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    eventId: delivery.event.id,
+    type: delivery.event.type,
+    itemId: delivery.event.data.itemId,
+    status: delivery.status,
+    attempts: delivery.attempts.length,
+    lastStatusCode: delivery.attempts.at(-1)?.statusCode,
+    lastError: delivery.lastError,
+    nextAttemptAt: delivery.nextAttemptAt,
+    createdAt: delivery.createdAt,
+    deliveredAt: delivery.deliveredAt,
+  };
+}
@@ -0,0 +1,62 @@
+/// <reference lib="deno.ns" />
+import { Hono } from "@hono/hono";
+import { etag } from "@hono/hono/etag";
+import type { Variables } from "@app-types";
+import { getValidatedData, validateQuery } from "@middleware/validation.ts";
+import { getRequestTenant } from "@middleware/tenant.ts";
+import { getArticleService } from "@services/articleService.ts";
+import { ValidationError } from "@utils/errors.ts";
+import { type ArticleQueryData, articleQuerySchema } from "@utils/validation.ts";
+
+export const articleRoutes = new Hono<{ Variables: Variables }>();
+
+// Strong ETags over the response body; matching If-None-Match requests get a 304
+articleRoutes.use("*", etag());
+
+// Short shared caching; consumers revalidate cheaply with the ETag
+articleRoutes.use("*", async (c, next) => {
+  await next();
+  if (c.req.method === "GET" && (c.res.status === 200 || c.res.status === 304)) {
+    c.header("Cache-Control", "public, max-age=60, must-revalidate");
+  }
+});
+
+// List published articles with filters, sorting and cursor pagination
+articleRoutes.get("/", validateQuery(articleQuerySchema), async (c) => {
+  const query = getValidatedData<ArticleQueryData>(c);
+  if (query.from && query.to && Date.parse(query.from) > Date.parse(query.to)) {
+    throw new ValidationError("from must not be after to", "from", query.from);
+  }
+
+  const page = await getArticleService(getRequestTenant(c)?.id).listArticles(query);
+
+  return c.json({
+    success: true,
+    data: page.articles,
+    count: page.articles.length,
+    pagination: {
+      limit: query.limit,
+      nextCursor: page.nextCursor ?? null,
+      total: page.total,
+    },
+  });
+});
+
+// Get a published article by slug
+articleRoutes.get("/:slug", async (c) => {
+  const article = await getArticleService(getRequestTenant(c)?.id)
+    .getArticle(c.req.param("slug"));
+
+  return c.json({
+    success: true,
+    data: article,
+  });
+});
+
+articleRoutes.options("/", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+articleRoutes.options("/:slug", (_c) => {
+  return new Response(null, { status: 204 });
+});
@@ -3,6 +3,7 @@ import { Hono } from "@hono/hono";
 import { config } from "@config/index.ts";
 import { logger } from "@utils/logger.ts";
 import { getRateLimitStats } from "@middleware/rateLimiter.ts";
+import { getSchemaStatuses } from "@services/cmsService.ts";
 import type { Variables } from "@app-types";
 
 export const healthRoutes = new Hono<{ Variables: Variables }>();
@@ -98,17 +99,28 @@ healthRoutes.get("/ping", (c) => {
 
 // Readiness check for load balancers
 healthRoutes.get("/health/ready", (c) => {
-  const checks = {
+  const readiness = {
     environment: !!config.WEBFLOW_API_TOKEN && !!config.WEBFLOW_COLLECTION_ID,
     memory: Deno.memoryUsage().heapUsed < (512 * 1024 * 1024), // Less than 512MB
   };
 
-  const allChecksPass = Object.values(checks).every((check) => check === true);
+  // Reported only, deliberately: every instance sees the same collections, so failing readiness
+  // would take them all out of rotation, including the compatible collections, edits and
+  // drafts, without fixing anything. Incompatible collections refuse their own submissions.
+  // Collections not fetched yet count as compatible.
+  const schema = getSchemaStatuses();
+  const checks = {
+    ...readiness,
+    schema: schema.every((result) => result.status !== "incompatible"),
+  };
+
+  const allChecksPass = Object.values(readiness).every((check) => check === true);
 
   if (!allChecksPass) {
     return c.json({
       status: "not_ready",
       checks,
+      schema,
       timestamp: new Date().toISOString(),
     }, 503);
   }
@@ -116,6 +128,7 @@ healthRoutes.get("/health/ready", (c) => {
   return c.json({
     status: "ready",
     checks,
+    schema,
     timestamp: new Date().toISOString(),
   });
 });
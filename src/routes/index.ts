@@ -3,6 +3,14 @@ import type { Hono } from "@hono/hono";
 import { healthRoutes } from "./health.ts";
 import { webflowRoutes } from "./webflow.ts";
 import { securityRoutes } from "./security.ts";
+import { adminRoutes } from "./admin.ts";
+import { jobRoutes } from "./jobs.ts";
+import { reviewRoutes } from "./review.ts";
+import { itemRoutes } from "./items.ts";
+import { articleRoutes } from "./articles.ts";
+import { slugRoutes } from "./slugs.ts";
+import { webhookRoutes } from "./webhooks.ts";
+import { handleError } from "@middleware/errorHandler.ts";
 import type { Variables } from "@app-types";
 
 export function registerRoutes(app: Hono<{ Variables: Variables }>): void {
@@ -15,6 +23,27 @@ export function registerRoutes(app: Hono<{ Variables: Variables }>): void {
   // API routes for webflow form submission
   app.route("/api", webflowRoutes);
 
+  // Public read API for published articles
+  app.route("/api/articles", articleRoutes);
+
+  // Live slug feedback for the submission form
+  app.route("/api/slugs", slugRoutes);
+
+  // Webflow webhooks (signature verified)
+  app.route("/api/webhooks", webhookRoutes);
+
+  // Status of asynchronous submissions
+  app.route("/api/jobs", jobRoutes);
+
+  // CMS item lifecycle (admin API key protected)
+  app.route("/api/items", itemRoutes);
+
+  // Editorial review API (reviewer API key protected)
+  app.route("/api/review", reviewRoutes);
+
+  // Admin API (API key protected)
+  app.route("/api/admin", adminRoutes);
+
   // Global 404 handler
   app.notFound((c) => {
     return c.json(
@@ -28,16 +57,6 @@ export function registerRoutes(app: Hono<{ Variables: Variables }>): void {
     );
   });
 
-  // Global error handler (will be enhanced in error handling task)
-  app.onError((err, c) => {
-    console.error("Unhandled error:", err);
-    return c.json(
-      {
-        error: "Internal Server Error",
-        message: "An unexpected error occurred",
-        timestamp: new Date().toISOString(),
-      },
-      500,
-    );
-  });
+  // Global error handler: errors thrown by routes reach onError, not the errorHandler middleware
+  app.onError((err, c) => handleError(err, c));
 }
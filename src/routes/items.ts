@@ -0,0 +1,91 @@
+/// <reference lib="deno.ns" />
+import { type Context, Hono } from "@hono/hono";
+import { config } from "@config/index.ts";
+import { logger } from "@utils/logger.ts";
+import type { Variables } from "@app-types";
+import { apiKeyValidation } from "@middleware/security.ts";
+import { type CMSService, getCMSService, type ItemLifecycleResult } from "@services/cmsService.ts";
+import { EditTokenService } from "@services/editTokenService.ts";
+import { getRequestTenant } from "@middleware/tenant.ts";
+
+export const itemRoutes = new Hono<{ Variables: Variables }>();
+
+// Initialize author edit tokens
+const editTokenService = new EditTokenService();
+
+// Item lifecycle actions require an admin API key
+itemRoutes.use("*", apiKeyValidation(new Set(config.ADMIN_API_KEYS)));
+
+// Take a live item offline
+itemRoutes.post("/:id/unpublish", async (c) => {
+  const result = await getItemCMSService(c).unpublishCMSItem(c.req.param("id") as string);
+  return respond(c, result, "Item unpublished");
+});
+
+// Archive an item (also removes the live copy)
+itemRoutes.post("/:id/archive", async (c) => {
+  const result = await getItemCMSService(c).archiveCMSItem(c.req.param("id") as string);
+  return respond(c, result, "Item archived");
+});
+
+// Delete an item and its live copy
+itemRoutes.delete("/:id", async (c) => {
+  const itemId = c.req.param("id") as string;
+  const result = await getItemCMSService(c).deleteCMSItem(itemId);
+
+  // Edit tokens for a deleted item are useless, so drop them
+  if (result.success) {
+    await editTokenService.revokeItem(itemId);
+  }
+
+  return respond(c, result, "Item deleted");
+});
+
+/**
+ * Items outside the default collection are addressed with `?collection=<key>`
+ */
+function getItemCMSService(c: Context): CMSService {
+  return getCMSService(c.req.query("collection") || undefined, getRequestTenant(c)?.id);
+}
+
+function respond(c: Context, result: ItemLifecycleResult, message: string) {
+  const requestId = c.get("requestId") as string;
+
+  logger.info("Item action via admin API", {
+    requestId,
+    itemId: result.itemId,
+    action: result.action,
+    success: result.success,
+    apiKey: c.get("apiKey"),
+  });
+
+  if (!result.success) {
+    return c.json({
+      success: false,
+      message: `Failed to ${result.action} item`,
+      error: result.error,
+      code: result.errorCode,
+      requestId,
+    }, getFailureStatus(result.statusCode));
+  }
+
+  return c.json({
+    success: true,
+    message,
+    data: {
+      itemId: result.itemId,
+      slug: result.slug,
+      action: result.action,
+    },
+  });
+}
+
+/**
+ * Keep client errors reported by Webflow, report everything else as an upstream failure
+ */
+function getFailureStatus(statusCode?: number): 400 | 404 | 409 | 502 {
+  if (statusCode === 400 || statusCode === 404 || statusCode === 409) {
+    return statusCode;
+  }
+  return 502;
+}
@@ -0,0 +1,69 @@
+/// <reference lib="deno.ns" />
+import { Hono } from "@hono/hono";
+import type { Variables } from "@app-types";
+import { JobService, type SubmissionJob } from "@services/jobService.ts";
+import { EditTokenService } from "@services/editTokenService.ts";
+
+export const jobRoutes = new Hono<{ Variables: Variables }>();
+
+// Initialize job storage
+const jobService = new JobService();
+const editTokenService = new EditTokenService();
+
+// Poll the status of an asynchronous submission
+jobRoutes.get("/:jobId", async (c) => {
+  const job = await jobService.get(c.req.param("jobId"));
+
+  // Clients should keep polling while the job is pending
+  if (job.status === "queued" || job.status === "processing") {
+    c.header("Retry-After", "2");
+  }
+
+  const editToken = await issueEditToken(job);
+
+  return c.json({
+    success: true,
+    data: {
+      ...formatJob(job),
+      editToken: editToken?.token,
+      editTokenExpiresAt: editToken?.expiresAt,
+    },
+  });
+});
+
+jobRoutes.options("/:jobId", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+/**
+ * The author gets an edit token once the item exists, as with synchronous submissions.
+ * It is handed out on the first poll only, and never after the item's tokens were revoked.
+ */
+async function issueEditToken(job: SubmissionJob) {
+  if (job.status !== "completed" || !job.result || !job.data.authorEmail) return undefined;
+  if (job.editTokenIssuedAt || !(await jobService.claimEditToken(job.id))) return undefined;
+  if (await editTokenService.isItemRevoked(job.result.itemId)) return undefined;
+
+  return await editTokenService.issue(job.result.itemId, job.data.authorEmail);
+}
+
+/**
+ * Public view of a job; the submitted form data is not echoed back
+ */
+function formatJob(job: SubmissionJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    step: job.step,
+    attempts: job.attempts,
+    itemId: job.result?.itemId,
+    slug: job.result?.slug,
+    published: job.result?.published ?? false,
+    scheduledFor: job.result?.scheduledFor,
+    scheduleError: job.result?.scheduleError,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
@@ -0,0 +1,335 @@
+/// <reference lib="deno.ns" />
+import { type Context, Hono } from "@hono/hono";
+import { config } from "@config/index.ts";
+import { logger } from "@utils/logger.ts";
+import type { Variables } from "@app-types";
+import { apiKeyValidation } from "@middleware/security.ts";
+import { getValidatedData, validateBody, validateQuery } from "@middleware/validation.ts";
+import {
+  ModerationService,
+  type ReviewStatus,
+  type ReviewSubmission,
+} from "@services/moderationService.ts";
+import { getCMSService } from "@services/cmsService.ts";
+import { getNotificationService } from "@services/notificationService.ts";
+import { RevisionService, summarizeRevision } from "@services/revisionService.ts";
+import { hashToken } from "@utils/kv.ts";
+import { ValidationError } from "@utils/errors.ts";
+import {
+  type ReviewActionData,
+  reviewActionSchema,
+  type ReviewApproveData,
+  reviewApproveSchema,
+  type ReviewNoteData,
+  reviewNoteSchema,
+  type RevisionDiffQueryData,
+  revisionDiffQuerySchema,
+} from "@utils/validation.ts";
+
+export const reviewRoutes = new Hono<{ Variables: Variables }>();
+
+// Initialize review queue, revision history and the CMS service used on approval
+const moderationService = new ModerationService();
+const revisionService = new RevisionService();
+const cmsService = getCMSService();
+const notificationService = getNotificationService();
+
+const REVIEW_STATUSES: ReviewStatus[] = [
+  "submitted",
+  "in_review",
+  "changes_requested",
+  "approved",
+  "rejected",
+];
+
+// Reviewer endpoints require a reviewer or admin API key
+reviewRoutes.use(
+  "*",
+  apiKeyValidation(new Set([...config.REVIEWER_API_KEYS, ...config.ADMIN_API_KEYS])),
+);
+
+// List submissions in the review queue
+reviewRoutes.get("/submissions", async (c) => {
+  const status = c.req.query("status") as ReviewStatus | undefined;
+
+  if (status && !REVIEW_STATUSES.includes(status)) {
+    throw new ValidationError(
+      `Status must be one of: ${REVIEW_STATUSES.join(", ")}`,
+      "status",
+      status,
+    );
+  }
+
+  const submissions = await moderationService.list(status);
+
+  return c.json({
+    success: true,
+    data: submissions.map(summarizeSubmission),
+    count: submissions.length,
+  });
+});
+
+// Get a submission with its content, notes and history
+reviewRoutes.get("/submissions/:id", async (c) => {
+  const submission = await moderationService.get(c.req.param("id"));
+
+  return c.json({
+    success: true,
+    data: submission,
+  });
+});
+
+// Add a reviewer note
+reviewRoutes.post("/submissions/:id/notes", validateBody(reviewNoteSchema), async (c) => {
+  const { note, reviewer } = getValidatedData<ReviewNoteData>(c);
+  const submission = await moderationService.addNote(
+    c.req.param("id") as string,
+    await getReviewer(c, reviewer),
+    note,
+  );
+
+  return c.json({
+    success: true,
+    message: "Note added",
+    data: submission,
+  }, 201);
+});
+
+// Start reviewing a submission
+reviewRoutes.post("/submissions/:id/review", validateBody(reviewActionSchema), async (c) => {
+  const { note, reviewer } = getValidatedData<ReviewActionData>(c);
+  const submission = await moderationService.transition(
+    c.req.param("id") as string,
+    "in_review",
+    await getReviewer(c, reviewer),
+    note,
+  );
+
+  return c.json({
+    success: true,
+    message: "Submission is in review",
+    data: submission,
+  });
+});
+
+// Send a submission back to the author (a note explaining the changes is required)
+reviewRoutes.post(
+  "/submissions/:id/request-changes",
+  validateBody(reviewNoteSchema),
+  async (c) => {
+    const { note, reviewer } = getValidatedData<ReviewNoteData>(c);
+    const submission = await moderationService.transition(
+      c.req.param("id") as string,
+      "changes_requested",
+      await getReviewer(c, reviewer),
+      note,
+    );
+
+    return c.json({
+      success: true,
+      message: "Changes requested",
+      data: submission,
+    });
+  },
+);
+
+// Reject a submission (a note with the reason is required)
+reviewRoutes.post("/submissions/:id/reject", validateBody(reviewNoteSchema), async (c) => {
+  const { note, reviewer } = getValidatedData<ReviewNoteData>(c);
+  const submission = await moderationService.transition(
+    c.req.param("id") as string,
+    "rejected",
+    await getReviewer(c, reviewer),
+    note,
+  );
+
+  notificationService.notify({
+    type: "rejected",
+    title: submission.data.articleTitle,
+    authorName: submission.data.authorName,
+    authorEmail: submission.data.authorEmail,
+    reason: note,
+    reference: submission.id,
+    tenant: submission.data.tenant,
+    collection: submission.data.collection,
+  });
+
+  return c.json({
+    success: true,
+    message: "Submission rejected",
+    data: submission,
+  });
+});
+
+// Approve a submission: creates or updates the CMS item and publishes it unless `publish` is false
+reviewRoutes.post("/submissions/:id/approve", validateBody(reviewApproveSchema), async (c) => {
+  const requestId = c.get("requestId");
+  const id = c.req.param("id") as string;
+  const { note, reviewer, publish } = getValidatedData<ReviewApproveData>(c);
+  const reviewerName = await getReviewer(c, reviewer);
+
+  const result = await moderationService.approve(id, reviewerName, cmsService, {
+    note,
+    publish,
+  });
+
+  logger.info("Submission approval processed", {
+    requestId,
+    submissionId: id,
+    reviewer: reviewerName,
+    success: result.success,
+    itemId: result.submission.itemId,
+  });
+
+  if (!result.success) {
+    return c.json({
+      success: false,
+      message: result.submission.kind === "update"
+        ? "Approval failed: the CMS item could not be updated"
+        : "Approval failed: the CMS item could not be created",
+      error: result.error,
+      data: result.submission,
+    }, getFailureStatus(result.statusCode));
+  }
+
+  return c.json({
+    success: true,
+    message: result.submission.published
+      ? "Submission approved and published"
+      : "Submission approved",
+    data: result.submission,
+  });
+});
+
+// List the revisions of a CMS item, oldest first
+reviewRoutes.get("/items/:itemId/revisions", async (c) => {
+  const revisions = await revisionService.list(c.req.param("itemId") as string);
+
+  return c.json({
+    success: true,
+    data: revisions.map(summarizeRevision),
+    count: revisions.length,
+  });
+});
+
+// Compare two revisions field by field and word by word
+reviewRoutes.get(
+  "/items/:itemId/revisions/diff",
+  validateQuery(revisionDiffQuerySchema),
+  async (c) => {
+    const { from, to } = getValidatedData<RevisionDiffQueryData>(c);
+    const diff = await revisionService.diff(c.req.param("itemId") as string, from, to);
+
+    return c.json({
+      success: true,
+      data: diff,
+    });
+  },
+);
+
+// Get a revision with its content
+reviewRoutes.get("/items/:itemId/revisions/:number", async (c) => {
+  const revision = await revisionService.get(
+    c.req.param("itemId") as string,
+    getRevisionNumber(c),
+  );
+
+  return c.json({
+    success: true,
+    data: revision,
+  });
+});
+
+// Restore a revision: the item is updated with its content and fields
+reviewRoutes.post(
+  "/items/:itemId/revisions/:number/revert",
+  validateBody(reviewActionSchema),
+  async (c) => {
+    const requestId = c.get("requestId");
+    const itemId = c.req.param("itemId") as string;
+    const number = getRevisionNumber(c);
+    const { note, reviewer } = getValidatedData<ReviewActionData>(c);
+    const reviewerName = await getReviewer(c, reviewer);
+
+    const result = await cmsService.revertCMSItem(itemId, number, reviewerName);
+
+    logger.info("Revision revert processed", {
+      requestId,
+      itemId,
+      revision: number,
+      reviewer: reviewerName,
+      note,
+      success: result.success,
+    });
+
+    if (!result.success) {
+      const status = getFailureStatus(result.statusCode);
+      return c.json({
+        success: false,
+        message: status === 404 ? "CMS item not found" : "Failed to revert CMS item",
+        error: result.error,
+      }, status);
+    }
+
+    return c.json({
+      success: true,
+      message: result.changedFields.length > 0
+        ? `Reverted to revision ${number}`
+        : `Item already matches revision ${number}`,
+      data: {
+        itemId,
+        slug: result.slug,
+        revertedFrom: number,
+        revision: result.revision,
+        changedFields: result.changedFields,
+      },
+    });
+  },
+);
+
+function getRevisionNumber(c: Context): number {
+  const value = c.req.param("number") as string;
+  const number = Number(value);
+
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ValidationError("Revision must be a positive integer", "number", value);
+  }
+  return number;
+}
+
+/**
+ * Reviewer name from the request, or a short fingerprint of the API key
+ */
+async function getReviewer(c: Context, reviewer?: string): Promise<string> {
+  if (reviewer) return reviewer;
+
+  const fingerprint = await hashToken(c.get("apiKey") as string);
+  return `key:${fingerprint.substring(0, 8)}`;
+}
+
+/**
+ * Keep client errors of a failed create or update (bad or taken slug, unknown item), report
+ * everything else as an upstream failure
+ */
+function getFailureStatus(statusCode?: number): 400 | 404 | 409 | 502 {
+  if (statusCode === 400 || statusCode === 404 || statusCode === 409) {
+    return statusCode;
+  }
+  return 502;
+}
+
+function summarizeSubmission(submission: ReviewSubmission) {
+  return {
+    id: submission.id,
+    kind: submission.kind ?? "create",
+    status: submission.status,
+    articleTitle: submission.data.articleTitle,
+    authorName: submission.data.authorName,
+    publishNowRequested: submission.publishNowRequested,
+    notes: submission.notes.length,
+    itemId: submission.itemId,
+    createdAt: submission.createdAt,
+    updatedAt: submission.updatedAt,
+    decidedAt: submission.decidedAt,
+  };
+}
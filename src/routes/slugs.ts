@@ -0,0 +1,54 @@
+/// <reference lib="deno.ns" />
+import { Hono } from "@hono/hono";
+import type { Variables } from "@app-types";
+import { getValidatedData, validateQuery } from "@middleware/validation.ts";
+import { getRequestTenant } from "@middleware/tenant.ts";
+import { getCMSService } from "@services/cmsService.ts";
+import {
+  type SlugCheckQueryData,
+  slugCheckQuerySchema,
+  type SlugSuggestQueryData,
+  slugSuggestQuerySchema,
+} from "@utils/validation.ts";
+
+export const slugRoutes = new Hono<{ Variables: Variables }>();
+
+// Check whether a slug can be used
+slugRoutes.get("/check", validateQuery(slugCheckQuerySchema), async (c) => {
+  const { slug, title, collection, locale } = getValidatedData<SlugCheckQueryData>(c);
+  // Shared CMS service of the collection, so checks reuse the slug cache used by submissions
+  const result = await getCMSService(collection, getRequestTenant(c)?.id)
+    .checkSlug(slug, title, locale);
+
+  return c.json({
+    success: true,
+    data: {
+      ...result,
+      available: result.isValid && result.isUnique,
+    },
+  });
+});
+
+// Suggest available slugs for a title
+slugRoutes.get("/suggest", validateQuery(slugSuggestQuerySchema), async (c) => {
+  const { title, limit, collection, locale } = getValidatedData<SlugSuggestQueryData>(c);
+  const suggestions = await getCMSService(collection, getRequestTenant(c)?.id)
+    .suggestSlugs(title, limit, locale);
+
+  return c.json({
+    success: true,
+    data: {
+      title,
+      suggestions,
+    },
+    count: suggestions.length,
+  });
+});
+
+slugRoutes.options("/check", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+slugRoutes.options("/suggest", (_c) => {
+  return new Response(null, { status: 204 });
+});
@@ -1,106 +1,372 @@
 /// <reference lib="deno.ns" />
-import { Hono } from "@hono/hono";
+import { type Context, Hono, type Next } from "@hono/hono";
 import { logger } from "@utils/logger.ts";
+import { config, honorPublishNow } from "@config/index.ts";
 import type { Variables } from "@app-types";
 import {
   createFormValidation,
   draftFormValidation,
   getValidatedData,
   updateFormValidation,
+  validateBody,
   validateContentLength,
   validationRateLimit,
 } from "@middleware/validation.ts";
-import type { DraftFormData, FormData, UpdateFormData } from "@utils/validation.ts";
-import { CMSService } from "@services/cmsService.ts";
+import {
+  type DraftFormData,
+  type FormData,
+  type LocaleVariantData,
+  localeVariantSchema,
+  type PreviewFormData,
+  previewFormDataSchema,
+  type UpdateFormData,
+} from "@utils/validation.ts";
+import { type CMSService, getCMSService } from "@services/cmsService.ts";
+import { resolveCollection } from "@config/collections.ts";
+import { getRequestTenant } from "@middleware/tenant.ts";
+import { type DraftRecord, DraftService } from "@services/draftService.ts";
+import { JobService } from "@services/jobService.ts";
+import { ModerationService } from "@services/moderationService.ts";
+import { type EditTokenClaims, EditTokenService } from "@services/editTokenService.ts";
+import { type DeadLetterAttempt, getDeadLetterService } from "@services/deadLetterService.ts";
+import { getNotificationService } from "@services/notificationService.ts";
 import { parseFormData } from "@middleware/formParser.ts";
+import { idempotency } from "@middleware/idempotency.ts";
+import { AuthenticationError, NotFoundError, ValidationError } from "@utils/errors.ts";
+import { isWebflowError } from "@utils/webflowErrors.ts";
 
 export const webflowRoutes = new Hono<{ Variables: Variables }>();
 
-// Initialize CMS service
-const cmsService = new CMSService();
+// Initialize draft storage
+const draftService = new DraftService();
+
+// Authors are told their submission arrived; editors see it in their digest
+const notificationService = getNotificationService();
+
+// Failed submissions are kept for replay instead of being lost
+const deadLetterService = getDeadLetterService();
+
+// Initialize author edit tokens
+const editTokenService = new EditTokenService();
+
+// Initialize editorial review queue
+const moderationService = new ModerationService();
+
+// Initialize queue for asynchronous submissions
+const jobService = new JobService(undefined, { deadLetterService });
+
+// Replays duplicate submissions instead of creating a second item
+const submissionIdempotency = idempotency();
 
 // Main form submission endpoint with comprehensive validation
 webflowRoutes.post(
   "/webflow-form",
   validationRateLimit(),
+  submissionIdempotency,
+  parseFormData, // Parse form data before validation
+  createFormValidation,
+  selectCollection, // Also checks the content length against the collection's profile
+  (c) => processSubmission(c, getValidatedData<FormData>(c)),
+);
+
+// Submission to a collection named in the route instead of the body
+webflowRoutes.post(
+  "/webflow-form/collections/:collection",
+  validationRateLimit(),
+  submissionIdempotency,
+  parseFormData,
+  createFormValidation,
+  selectCollection,
+  (c) => processSubmission(c, getValidatedData<FormData>(c)),
+);
+
+// Render an article exactly as it would be submitted, without creating anything in Webflow
+webflowRoutes.post(
+  "/webflow-form/preview",
+  validationRateLimit(),
+  parseFormData, // Parse form data before validation
+  validateBody(previewFormDataSchema),
+  async (c) => {
+    const requestId = c.get("requestId") as string;
+    const validatedData = getValidatedData<PreviewFormData>(c);
+
+    const tenant = getRequestTenant(c);
+    const collection = resolveCollection(validatedData, tenant?.collections);
+
+    const preview = await getCMSService(collection.key, tenant?.id).previewCMSItem(validatedData);
+
+    logger.info("Article preview rendered", {
+      requestId,
+      slug: preview.slug,
+      slugAvailable: preview.slugAvailable,
+      warnings: preview.warnings.length,
+    });
+
+    return c.json({
+      success: true,
+      message: preview.warnings.length > 0
+        ? "Preview rendered with warnings"
+        : "Preview rendered successfully",
+      data: preview,
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        type: "preview",
+      },
+    });
+  },
+);
+
+// Draft saving endpoint (more lenient validation)
+webflowRoutes.post(
+  "/webflow-form/draft",
+  validationRateLimit(),
   parseFormData, // Parse form data before validation
+  draftFormValidation,
+  async (c) => {
+    const requestId = c.get("requestId") as string;
+    const validatedData = getValidatedData<DraftFormData>(c);
+
+    logger.info("Processing draft save", {
+      requestId,
+      hasTitle: !!validatedData.articleTitle,
+      hasContent: !!validatedData.articleContent,
+      hasAuthor: !!validatedData.authorName,
+    });
+
+    const { draft, resumeToken } = await draftService.createDraft(validatedData);
+
+    return c.json({
+      success: true,
+      message: "Draft saved successfully",
+      data: {
+        ...formatDraft(draft),
+        resumeToken,
+      },
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        type: "draft",
+      },
+    }, 201);
+  },
+);
+
+// Resume a saved draft
+webflowRoutes.get("/webflow-form/draft/:draftId", async (c) => {
+  const draft = await draftService.getDraft(c.req.param("draftId"), getResumeToken(c));
+
+  return c.json({
+    success: true,
+    data: formatDraft(draft),
+  });
+});
+
+// Update fields of a saved draft
+webflowRoutes.patch(
+  "/webflow-form/draft/:draftId",
+  validationRateLimit(),
+  parseFormData,
+  draftFormValidation,
+  async (c) => {
+    const requestId = c.get("requestId") as string;
+    const draftId = c.req.param("draftId") as string;
+    const validatedData = getValidatedData<DraftFormData>(c);
+
+    const draft = await draftService.updateDraft(draftId, getResumeToken(c), validatedData);
+
+    return c.json({
+      success: true,
+      message: "Draft updated successfully",
+      data: formatDraft(draft),
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        type: "draft",
+      },
+    });
+  },
+);
+
+// Discard a saved draft
+webflowRoutes.delete("/webflow-form/draft/:draftId", async (c) => {
+  const draftId = c.req.param("draftId");
+  await draftService.deleteDraft(draftId, getResumeToken(c));
+
+  return c.json({
+    success: true,
+    message: "Draft deleted successfully",
+    data: { draftId },
+  });
+});
+
+// Promote a draft to a full submission (runs the regular create validation)
+webflowRoutes.post(
+  "/webflow-form/draft/:draftId/submit",
+  validationRateLimit(),
+  submissionIdempotency,
+  loadDraftSubmission,
   createFormValidation,
-  validateContentLength({ minWords: 20, maxWords: 10000 }), // Reduced for medical professionals
+  selectCollection,
+  async (c) => {
+    const draftId = c.req.param("draftId") as string;
+    const response = await processSubmission(c, getValidatedData<FormData>(c));
+
+    // The draft is no longer needed once the article exists
+    if (response.ok) {
+      await draftService.deleteDraft(draftId, getResumeToken(c));
+    }
+
+    return response;
+  },
+);
+
+// Items submitted by the holder of an edit token
+webflowRoutes.get("/my-articles", async (c) => {
+  const claims = await authorizeEditToken(c);
+  const articles = await editTokenService.listAuthorItems(claims.emailHash);
+
+  return c.json({
+    success: true,
+    data: articles,
+    count: articles.length,
+  });
+});
+
+// Get an item for editing (requires an edit token for that item)
+webflowRoutes.get("/webflow-form/:itemId", requireEditToken, async (c) => {
+  const itemId = c.req.param("itemId") as string;
+
+  let item;
+  try {
+    item = await getItemCMSService(c).getCMSItem(itemId);
+  } catch (error) {
+    if (isWebflowError(error) && error.httpStatus === 404) {
+      throw new NotFoundError("CMS item");
+    }
+    throw error;
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      itemId: item.id,
+      slug: item.fieldData.slug,
+      isDraft: item.isDraft,
+      isArchived: item.isArchived,
+      lastUpdated: item.lastUpdated,
+      fieldData: item.fieldData,
+    },
+  });
+});
+
+// Revoke the edit token sent with the request
+webflowRoutes.delete("/webflow-form/:itemId/edit-token", async (c) => {
+  const itemId = c.req.param("itemId") as string;
+  await authorizeEditToken(c, itemId);
+  await editTokenService.revoke(getEditToken(c));
+
+  return c.json({
+    success: true,
+    message: "Edit token revoked",
+    data: { itemId },
+  });
+});
+
+// Update existing item endpoint (patch semantics: only submitted fields change)
+webflowRoutes.put(
+  "/webflow-form/:itemId",
+  validationRateLimit(),
+  requireEditToken,
+  parseFormData, // Parse form data before validation
+  updateFormValidation,
+  selectLocale,
+  (c, next) => validateContentLength(getItemCMSService(c).collection.validation)(c, next),
   async (c) => {
     const requestId = c.get("requestId") as string;
-    const validatedData = getValidatedData<FormData>(c);
+    const itemId = c.req.param("itemId") as string;
+    const validatedData = getValidatedData<UpdateFormData>(c);
+    const cmsService = getItemCMSService(c);
 
-    logger.info("Processing validated form submission", {
+    logger.info("Processing form update", {
       requestId,
-      authorName: validatedData.authorName,
-      articleTitle: validatedData.articleTitle.substring(0, 50) + "...",
-      contentWords: extractWordCount(validatedData.articleContent),
-      publishNow: validatedData.publishNow,
+      itemId,
+      submittedFields: Object.keys(validatedData).filter((key) =>
+        validatedData[key as keyof UpdateFormData] !== undefined
+      ),
     });
 
+    // With moderation, an author's changes wait for review like new submissions
+    if (isModerated(c)) {
+      return await holdUpdateForReview(c, cmsService, itemId, validatedData);
+    }
+
     try {
-      // Create CMS item (as draft by default, unless publishNow is true)
-      const result = await cmsService.createCMSItem(
-        validatedData,
-        !validatedData.publishNow, // isDraft
-      );
+      const result = await cmsService.updateCMSItem(itemId, validatedData);
 
       if (!result.success) {
-        logger.error("Failed to create CMS item", {
+        const status = getUpdateFailureStatus(result.statusCode);
+
+        logger.error("Failed to update CMS item", {
           requestId,
+          itemId,
           error: result.error ? new Error(result.error) : undefined,
         });
         return c.json({
           success: false,
-          message: "Failed to create CMS item",
+          message: describeUpdateFailure(status, "Failed to update CMS item"),
+          code: result.errorCode,
           error: result.error,
-        }, 500);
+        }, status);
       }
 
-      // If publishNow is true, publish the item
-      if (validatedData.publishNow && result.item) {
-        const publishResult = await cmsService.publishCMSItem(result.item.id);
+      // Publish the updated item if requested
+      let published = false;
+      if (validatedData.publishNow && honorsPublishNow(c)) {
+        const publishResult = await cmsService.publishCMSItem(itemId);
+        published = publishResult.success;
         if (!publishResult.success) {
-          logger.warn("Item created but publishing failed", {
+          logger.warn("Item updated but publishing failed", {
             requestId,
-            itemId: result.item.id,
+            itemId,
             error: publishResult.error ? new Error(publishResult.error) : undefined,
           });
         }
       }
 
-      logger.info("CMS item created successfully", {
+      logger.info("CMS item update completed", {
         requestId,
-        itemId: result.item?.id,
-        slug: result.slug,
-        published: validatedData.publishNow,
+        itemId,
+        changedFields: result.changedFields,
+        published,
       });
 
       return c.json({
         success: true,
-        message: "Article created successfully",
+        message: result.changedFields.length > 0
+          ? "Article updated successfully"
+          : "No changes to apply",
         data: {
-          itemId: result.item?.id,
+          itemId,
           slug: result.slug,
-          authorName: validatedData.authorName,
-          articleTitle: validatedData.articleTitle,
-          metaDescription: validatedData.metaDescription,
-          contentPreview: extractTextPreview(validatedData.articleContent, 100),
-          wordCount: extractWordCount(validatedData.articleContent),
-          published: validatedData.publishNow,
-          categories: validatedData.categories?.length || 0,
-          tags: validatedData.tags?.length || 0,
+          changedFields: result.changedFields,
+          revision: result.revision,
+          published,
+          contentWords: validatedData.articleContent
+            ? extractWordCount(validatedData.articleContent)
+            : undefined,
         },
         item: result.item,
         processing: {
           timestamp: new Date().toISOString(),
           requestId,
-          status: "completed",
+          type: "update",
         },
       });
     } catch (error) {
-      logger.error("Unexpected error in form submission", {
+      logger.error("Unexpected error in form update", {
         requestId,
+        itemId,
         error: error instanceof Error ? error : new Error("Unknown error"),
       });
       return c.json({
@@ -112,75 +378,79 @@ webflowRoutes.post(
   },
 );
 
-// Draft saving endpoint (more lenient validation)
-webflowRoutes.post(
-  "/webflow-form/draft",
+// Translate an existing item into one of the site's secondary locales (creates or replaces the variant)
+webflowRoutes.put(
+  "/webflow-form/:itemId/locales/:locale",
   validationRateLimit(),
-  parseFormData, // Parse form data before validation
-  draftFormValidation,
-  (c) => {
+  requireEditToken,
+  parseFormData,
+  validateBody(localeVariantSchema),
+  selectLocale,
+  (c, next) => validateContentLength(getItemCMSService(c).collection.validation)(c, next),
+  async (c) => {
     const requestId = c.get("requestId") as string;
-    const validatedData = getValidatedData<DraftFormData>(c);
+    const itemId = c.req.param("itemId") as string;
+    const { locale, ...variant } = getValidatedData<LocaleVariantData & { locale: string }>(c);
+    const cmsService = getItemCMSService(c);
 
-    logger.info("Processing draft save", {
-      requestId,
-      hasTitle: !!validatedData.articleTitle,
-      hasContent: !!validatedData.articleContent,
-      hasAuthor: !!validatedData.authorName,
-    });
+    logger.info("Processing locale variant", { requestId, itemId, locale });
 
-    return c.json({
-      success: true,
-      message: "Draft saved successfully",
-      data: {
-        fieldsPresent: Object.keys(validatedData).filter((key) =>
-          validatedData[key as keyof DraftFormData] !== undefined
-        ),
-        wordCount: validatedData.articleContent
-          ? extractWordCount(validatedData.articleContent)
-          : 0,
-      },
-      processing: {
-        timestamp: new Date().toISOString(),
-        requestId,
-        type: "draft",
-      },
-    });
-  },
-);
+    if (isModerated(c)) {
+      return await holdUpdateForReview(c, cmsService, itemId, { ...variant, locale });
+    }
 
-// Update existing item endpoint
-webflowRoutes.put(
-  "/webflow-form/:itemId",
-  validationRateLimit(),
-  parseFormData, // Parse form data before validation
-  updateFormValidation,
-  validateContentLength({ minWords: 20, maxWords: 10000 }), // Reduced for medical professionals
-  (c) => {
-    const requestId = c.get("requestId") as string;
-    const itemId = c.req.param("itemId");
-    const validatedData = getValidatedData<UpdateFormData>(c);
+    const result = await cmsService.saveLocaleVariant(itemId, locale, variant);
 
-    logger.info("Processing form update", {
-      requestId,
-      itemId,
-      updatedFields: Object.keys(validatedData).filter((key) =>
-        validatedData[key as keyof UpdateFormData] !== undefined
-      ),
-    });
+    if (!result.success) {
+      const status = getUpdateFailureStatus(result.statusCode);
+
+      logger.error("Failed to save locale variant", {
+        requestId,
+        itemId,
+        locale,
+        error: result.error ? new Error(result.error) : undefined,
+      });
+      return c.json({
+        success: false,
+        message: describeUpdateFailure(status, "Failed to save locale variant"),
+        code: result.errorCode,
+        error: result.error,
+      }, status);
+    }
+
+    // Only this locale is published; the other variants keep their state
+    let published = false;
+    if (variant.publishNow && honorsPublishNow(c)) {
+      const { cmsLocaleId } = (await cmsService.resolveLocale(locale))!;
+      const publishResult = await cmsService.publishCMSItem(itemId, [cmsLocaleId]);
+      published = publishResult.success;
+      if (!publishResult.success) {
+        logger.warn("Locale variant saved but publishing failed", {
+          requestId,
+          itemId,
+          locale,
+          error: publishResult.error ? new Error(publishResult.error) : undefined,
+        });
+      }
+    }
 
     return c.json({
       success: true,
-      message: "Form update validated successfully",
+      message: result.changedFields.length > 0
+        ? "Locale variant saved successfully"
+        : "No changes to apply",
       data: {
         itemId,
-        updatedFields: Object.keys(validatedData).length,
-        contentWords: extractWordCount(validatedData.articleContent),
+        locale,
+        slug: result.slug,
+        changedFields: result.changedFields,
+        revision: result.revision,
+        published,
       },
       processing: {
         timestamp: new Date().toISOString(),
         requestId,
-        type: "update",
+        type: "locale-variant",
       },
     });
   },
@@ -192,6 +462,14 @@ webflowRoutes.options("/webflow-form", (_c) => {
   return new Response(null, { status: 204 });
 });
 
+webflowRoutes.options("/webflow-form/collections/:collection", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+webflowRoutes.options("/webflow-form/preview", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
 webflowRoutes.options("/webflow-form/draft", (_c) => {
   return new Response(null, { status: 204 });
 });
@@ -200,6 +478,529 @@ webflowRoutes.options("/webflow-form/:itemId", (_c) => {
   return new Response(null, { status: 204 });
 });
 
+webflowRoutes.options("/webflow-form/:itemId/edit-token", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+webflowRoutes.options("/webflow-form/:itemId/locales/:locale", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+webflowRoutes.options("/my-articles", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+webflowRoutes.options("/webflow-form/draft/:draftId", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+webflowRoutes.options("/webflow-form/draft/:draftId/submit", (_c) => {
+  return new Response(null, { status: 204 });
+});
+
+/**
+ * Response for a submission whose images could not be stored; nothing else was created
+ */
+function imageUploadFailed(c: Context, requestId: string, error: unknown): Response {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error("Failed to upload submission images", {
+    requestId,
+    error: error instanceof Error ? error : new Error(message),
+  });
+
+  if (error instanceof ValidationError) {
+    return c.json({
+      success: false,
+      message: "Invalid image",
+      error: message,
+      field: error.field,
+    }, 400);
+  }
+
+  const statusCode = isWebflowError(error) ? error.httpStatus : undefined;
+  const unavailable = !statusCode || statusCode === 429 || statusCode >= 500;
+  return c.json({
+    success: false,
+    message: "Failed to upload images to Webflow",
+    error: message,
+  }, unavailable ? 503 : 502);
+}
+
+/**
+ * Keep the client errors of a failed update (bad slug, taken slug, unknown item), report
+ * everything else as a server failure
+ */
+function getUpdateFailureStatus(statusCode?: number): 400 | 404 | 409 | 500 {
+  if (statusCode === 400 || statusCode === 404 || statusCode === 409) {
+    return statusCode;
+  }
+  return 500;
+}
+
+function describeUpdateFailure(status: 400 | 404 | 409 | 500, fallback: string): string {
+  switch (status) {
+    case 400:
+      return "Invalid update";
+    case 404:
+      return "CMS item not found";
+    case 409:
+      return "Slug already in use";
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Queue an author's changes to an existing item for editorial review
+ */
+async function holdUpdateForReview(
+  c: Context,
+  cmsService: CMSService,
+  itemId: string,
+  updates: UpdateFormData,
+): Promise<Response> {
+  const requestId = c.get("requestId") as string;
+
+  // As with new submissions, the review queue only holds hosted image URLs
+  try {
+    updates = await cmsService.uploadImages(updates);
+  } catch (error) {
+    return imageUploadFailed(c, requestId, error);
+  }
+
+  const submission = await moderationService.submitUpdate(
+    itemId,
+    { ...updates, collection: cmsService.collection.key, tenant: getRequestTenant(c)?.id },
+    !!updates.publishNow,
+    requestId,
+  );
+
+  return c.json({
+    success: true,
+    message: "Changes submitted for editorial review",
+    data: {
+      submissionId: submission.id,
+      status: submission.status,
+      itemId,
+      locale: updates.locale,
+    },
+    processing: {
+      timestamp: new Date().toISOString(),
+      requestId,
+      status: "pending_review",
+    },
+  }, 202);
+}
+
+/**
+ * Create (and optionally publish) a CMS item from validated form data
+ */
+async function processSubmission(c: Context, validatedData: FormData): Promise<Response> {
+  const requestId = c.get("requestId") as string;
+  // A scheduled item is published by the scheduler, not immediately,
+  // and the environment policy decides whether publishNow is honored at all
+  const publishNow = validatedData.publishNow && !validatedData.publishAt && honorsPublishNow(c);
+  const asyncMode = wantsAsync(c);
+  const moderated = isModerated(c);
+  const cmsService = getCMSService(validatedData.collection, validatedData.tenant);
+
+  logger.info("Processing validated form submission", {
+    requestId,
+    authorName: validatedData.authorName,
+    articleTitle: validatedData.articleTitle.substring(0, 50) + "...",
+    contentWords: extractWordCount(validatedData.articleContent),
+    publishNow,
+    publishAt: validatedData.publishAt,
+    collection: cmsService.collection.key,
+    tenant: validatedData.tenant,
+    async: asyncMode,
+    moderated,
+  });
+
+  // Under a strict policy, unknown categories and tags are refused before anything is stored
+  try {
+    await cmsService.checkTerms(validatedData);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return c.json({
+        success: false,
+        message: "Unknown categories or tags",
+        error: error.message,
+        field: error.field,
+      }, 400);
+    }
+    // The terms are resolved again when the item is created
+    logger.warn("Could not check categories and tags", {
+      requestId,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+
+  // Images go to Webflow Assets first, so queued and reviewed submissions only hold their URLs
+  try {
+    validatedData = await cmsService.uploadImages(validatedData);
+  } catch (error) {
+    return imageUploadFailed(c, requestId, error);
+  }
+
+  notificationService.notify({
+    type: "received",
+    title: validatedData.articleTitle,
+    authorName: validatedData.authorName,
+    authorEmail: validatedData.authorEmail,
+    tenant: validatedData.tenant,
+    collection: cmsService.collection.key,
+  });
+
+  // With moderation, nothing reaches the CMS until a reviewer approves it
+  if (moderated) {
+    const submission = await moderationService.submit(
+      validatedData,
+      !!validatedData.publishNow,
+      requestId,
+    );
+
+    return c.json({
+      success: true,
+      message: "Article submitted for editorial review",
+      data: {
+        submissionId: submission.id,
+        status: submission.status,
+        articleTitle: validatedData.articleTitle,
+        wordCount: extractWordCount(validatedData.articleContent),
+      },
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        status: "pending_review",
+      },
+    }, 202);
+  }
+
+  // Async mode: queue the work and let the client poll the job
+  if (asyncMode) {
+    const job = await jobService.enqueue(validatedData, publishNow, requestId);
+    const statusUrl = `/api/jobs/${job.id}`;
+
+    c.header("Location", statusUrl);
+    return c.json({
+      success: true,
+      message: "Article submission accepted for processing",
+      data: {
+        jobId: job.id,
+        status: job.status,
+        statusUrl,
+        articleTitle: validatedData.articleTitle,
+        wordCount: extractWordCount(validatedData.articleContent),
+      },
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        status: "queued",
+      },
+    }, 202);
+  }
+
+  try {
+    // Create CMS item (as draft by default, unless publishNow is true)
+    const result = await cmsService.createCMSItem(
+      validatedData,
+      !publishNow, // isDraft
+    );
+
+    if (!result.success) {
+      logger.error("Failed to create CMS item", {
+        requestId,
+        error: result.error ? new Error(result.error) : undefined,
+      });
+
+      const deadLetterId = await saveFailedSubmission(requestId, validatedData, publishNow, {
+        message: result.error ?? "Failed to create CMS item",
+        code: result.errorCode,
+        statusCode: result.statusCode,
+      });
+
+      // Webflow being unavailable is reported as such; the article is kept either way
+      const unavailable = !result.statusCode || result.statusCode === 429 ||
+        result.statusCode >= 500;
+      return c.json({
+        success: false,
+        message: deadLetterId
+          ? "Failed to create CMS item. Your article has been saved and will be retried."
+          : "Failed to create CMS item",
+        error: result.error,
+        data: deadLetterId ? { deadLetterId } : undefined,
+      }, unavailable ? 503 : 500);
+    }
+
+    // If publishNow is true, publish the item
+    let published = false;
+    let deadLetterId: string | undefined;
+    if (publishNow && result.item) {
+      const publishResult = await cmsService.publishCMSItem(result.item.id);
+      published = publishResult.success;
+      if (!publishResult.success) {
+        logger.warn("Item created but publishing failed", {
+          requestId,
+          itemId: result.item.id,
+          error: publishResult.error ? new Error(publishResult.error) : undefined,
+        });
+
+        // A replay only publishes the existing item
+        deadLetterId = await saveFailedSubmission(
+          requestId,
+          validatedData,
+          publishNow,
+          {
+            message: `Item created but publishing failed: ${publishResult.error}`,
+            code: publishResult.errorCode,
+            statusCode: publishResult.statusCode,
+          },
+          result.item.id,
+        );
+      }
+    }
+
+    // Lets the author revise the article later
+    const editToken = result.item && validatedData.authorEmail
+      ? await editTokenService.issue(result.item.id, validatedData.authorEmail)
+      : undefined;
+
+    logger.info("CMS item created successfully", {
+      requestId,
+      itemId: result.item?.id,
+      slug: result.slug,
+      published,
+      scheduledFor: result.scheduledFor,
+    });
+
+    return c.json({
+      success: true,
+      message: "Article created successfully",
+      data: {
+        itemId: result.item?.id,
+        slug: result.slug,
+        authorName: validatedData.authorName,
+        articleTitle: validatedData.articleTitle,
+        metaDescription: validatedData.metaDescription,
+        contentPreview: extractTextPreview(validatedData.articleContent, 100),
+        wordCount: extractWordCount(validatedData.articleContent),
+        published,
+        scheduledFor: result.scheduledFor,
+        scheduleError: result.scheduleError,
+        deadLetterId,
+        editToken: editToken?.token,
+        editTokenExpiresAt: editToken?.expiresAt,
+        categories: validatedData.categories?.length || 0,
+        tags: validatedData.tags?.length || 0,
+      },
+      item: result.item,
+      processing: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        status: "completed",
+      },
+    });
+  } catch (error) {
+    logger.error("Unexpected error in form submission", {
+      requestId,
+      error: error instanceof Error ? error : new Error("Unknown error"),
+    });
+
+    const deadLetterId = await saveFailedSubmission(requestId, validatedData, publishNow, {
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return c.json({
+      success: false,
+      message: "An unexpected error occurred",
+      error: error instanceof Error ? error.message : "Unknown error",
+      data: deadLetterId ? { deadLetterId } : undefined,
+    }, 500);
+  }
+}
+
+/**
+ * Keep a failed submission in the dead-letter store; returns its ID when stored
+ */
+async function saveFailedSubmission(
+  requestId: string,
+  data: FormData,
+  publishNow: boolean,
+  failure: Omit<DeadLetterAttempt, "at" | "source">,
+  itemId?: string,
+): Promise<string | undefined> {
+  try {
+    const deadLetter = await deadLetterService.record({
+      data,
+      publishNow,
+      itemId,
+      attempts: [{ source: "submission", ...failure }],
+      requestId,
+    });
+    return deadLetter.id;
+  } catch (error) {
+    logger.error("Failed to store submission in dead-letter store", {
+      requestId,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Clients opt into async processing with `?async=true` or `Prefer: respond-async`
+ */
+function wantsAsync(c: Context): boolean {
+  return c.req.query("async") === "true" ||
+    (c.req.header("prefer")?.toLowerCase().includes("respond-async") ?? false);
+}
+
+/**
+ * Merge the stored draft with the request body so it can be validated as a full submission
+ */
+async function loadDraftSubmission(c: Context, next: Next) {
+  const draft = await draftService.getDraft(c.req.param("draftId") as string, getResumeToken(c));
+
+  let overrides: Record<string, unknown> = {};
+  try {
+    const body = await c.req.json();
+    if (body && typeof body === "object") {
+      overrides = body as Record<string, unknown>;
+    }
+  } catch {
+    // An empty body submits the draft as saved
+  }
+
+  const submission = { ...draft.data, ...overrides };
+  // deno-lint-ignore no-explicit-any
+  c.req.json = () => Promise.resolve(submission as any);
+
+  await next();
+}
+
+/**
+ * Resolve the target collection from the route, `collection` or `formId`, record its key
+ * on the submission and check the content length against the collection's validation profile.
+ * Submissions are refused while the collection's fields in Webflow do not match the mapping.
+ */
+async function selectCollection(c: Context, next: Next) {
+  const { formId, ...submission } = getValidatedData<FormData>(c);
+  const tenant = getRequestTenant(c);
+  const collection = resolveCollection({
+    collection: c.req.param("collection") ?? submission.collection,
+    formId,
+  }, tenant?.collections);
+  const cmsService = getCMSService(collection.key, tenant?.id);
+
+  // Every item would fail to be created, so nothing is accepted into moderation or the queue
+  const schema = await cmsService.currentSchemaStatus();
+  if (schema?.status === "incompatible") {
+    logger.warn("Submission refused: collection fields do not match the mapping", {
+      requestId: c.get("requestId") as string,
+      collection: collection.key,
+      tenant: tenant?.id,
+    });
+    return c.json({
+      success: false,
+      message: "Submissions are paused until the collection's fields in Webflow are fixed",
+      errors: schema.issues.map((issue) => issue.message),
+    }, 503);
+  }
+
+  // Unknown locales are rejected before the submission is moderated, queued or created
+  const locale = await cmsService.resolveLocale(submission.locale);
+
+  c.set("validatedData", {
+    ...submission,
+    collection: collection.key,
+    tenant: tenant?.id,
+    ...(locale && { locale: locale.code }),
+  });
+  return await validateContentLength(collection.validation)(c, next);
+}
+
+/**
+ * Check the locale of an item request (route or body) against the site's CMS locales
+ * and record its exact code on the validated data
+ */
+async function selectLocale(c: Context, next: Next) {
+  const data = getValidatedData<{ locale?: string }>(c);
+  const locale = await getItemCMSService(c).resolveLocale(c.req.param("locale") ?? data.locale);
+
+  if (locale) {
+    c.set("validatedData", { ...data, locale: locale.code });
+  }
+  await next();
+}
+
+/**
+ * CMS service of the collection an existing item belongs to (`?collection=`, default otherwise)
+ */
+function getItemCMSService(c: Context): CMSService {
+  return getCMSService(c.req.query("collection") || undefined, getRequestTenant(c)?.id);
+}
+
+/**
+ * Whether new articles and changes wait for editorial review: the tenant's setting,
+ * otherwise the environment's
+ */
+function isModerated(c: Context): boolean {
+  return getRequestTenant(c)?.features.moderation ?? config.MODERATION_ENABLED;
+}
+
+/**
+ * Whether publishNow is honored: the tenant's setting, otherwise the environment policy
+ */
+function honorsPublishNow(c: Context): boolean {
+  return getRequestTenant(c)?.features.publishNow ?? honorPublishNow;
+}
+
+/**
+ * Only the holder of an edit token for the item may continue
+ */
+async function requireEditToken(c: Context, next: Next) {
+  await authorizeEditToken(c, c.req.param("itemId") as string);
+  await next();
+}
+
+async function authorizeEditToken(c: Context, itemId?: string): Promise<EditTokenClaims> {
+  return await editTokenService.verify(getEditToken(c), itemId);
+}
+
+function getEditToken(c: Context): string {
+  const authorization = c.req.header("authorization");
+  const token = c.req.header("x-edit-token") ||
+    (authorization?.startsWith("Bearer ") ? authorization.substring(7).trim() : undefined);
+
+  if (!token) {
+    throw new AuthenticationError("Edit token is required");
+  }
+  return token;
+}
+
+function getResumeToken(c: Context): string {
+  const token = c.req.header("x-resume-token");
+  if (!token) {
+    throw new AuthenticationError("Resume token is required");
+  }
+  return token;
+}
+
+function formatDraft(draft: DraftRecord) {
+  return {
+    draftId: draft.id,
+    draft: draft.data,
+    fieldsPresent: Object.keys(draft.data).filter((key) =>
+      draft.data[key as keyof DraftFormData] !== undefined
+    ),
+    wordCount: draft.data.articleContent ? extractWordCount(draft.data.articleContent) : 0,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt,
+    expiresAt: draft.expiresAt,
+  };
+}
+
 // Helper functions for content processing
 function extractTextPreview(
   delta: { ops?: Array<{ insert?: unknown }> },
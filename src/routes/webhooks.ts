@@ -0,0 +1,116 @@
+/// <reference lib="deno.ns" />
+import { Hono } from "@hono/hono";
+import type { Variables } from "@app-types";
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { findTenantBySite, tenantRegistry } from "@config/tenants.ts";
+import {
+  registerCacheInvalidation,
+  WEBHOOK_TRIGGERS,
+  type WebhookEvent,
+  WebhookService,
+} from "@services/webhookService.ts";
+import { hashToken } from "@utils/kv.ts";
+import { AuthenticationError } from "@utils/errors.ts";
+import { webflowWebhookSchema } from "@utils/validation.ts";
+import type { WebflowWebhookTrigger } from "../types/webflow.ts";
+
+export const webhookRoutes = new Hono<{ Variables: Variables }>();
+
+// Initialize webhook dispatch
+const webhookService = new WebhookService();
+registerCacheInvalidation(webhookService);
+
+// Receive Webflow webhooks (signed with the webhook secret, no API key)
+webhookRoutes.post("/webflow", async (c) => {
+  const requestId = c.get("requestId");
+  const body = await c.req.text();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return c.json({ error: "Bad Request", message: "Body must be JSON" }, 400);
+  }
+
+  const parsed = webflowWebhookSchema.safeParse(json);
+  if (!parsed.success) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: parsed.error.errors[0]?.message ?? "Invalid webhook payload",
+      },
+      400,
+    );
+  }
+
+  const { triggerType, payload } = parsed.data;
+
+  // In multi-tenant mode the site identifies the tenant and its secret
+  const tenant = tenantRegistry ? findTenantBySite(payload.siteId) : undefined;
+  if (tenantRegistry && !tenant) {
+    logger.warn("Webhook for an unknown site", { requestId, siteId: payload.siteId });
+    return c.json({ error: "Unauthorized", message: "Unknown site" }, 401);
+  }
+
+  const secret = tenant?.webflow.webhookSecret ?? config.WEBFLOW_WEBHOOK_SECRET;
+  if (!secret) {
+    return c.json(
+      { error: "Service Unavailable", message: "Webhooks are not configured" },
+      503,
+    );
+  }
+
+  try {
+    await webhookService.verifySignature(body, {
+      timestamp: c.req.header("x-webflow-timestamp"),
+      signature: c.req.header("x-webflow-signature"),
+    }, secret);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      logger.warn("Webhook rejected", { requestId, triggerType, reason: error.message });
+      return c.json({ error: "Unauthorized", message: error.message }, 401);
+    }
+    throw error;
+  }
+
+  // Acknowledge what we do not act on, so Webflow does not retry it
+  const handled = WEBHOOK_TRIGGERS.includes(triggerType as WebflowWebhookTrigger);
+  if (!handled || (!tenant && payload.siteId !== config.WEBFLOW_SITE_ID)) {
+    return c.json({ success: true, message: "Webhook ignored", data: { triggerType } });
+  }
+
+  const event = {
+    id: await hashToken(body),
+    triggerType,
+    payload,
+    tenant: tenant?.id,
+    receivedAt: new Date().toISOString(),
+  } as WebhookEvent;
+
+  try {
+    const result = await webhookService.receive(event);
+
+    return c.json({
+      success: true,
+      message: result.duplicate ? "Webhook already processed" : "Webhook processed",
+      data: { eventId: event.id, triggerType, duplicate: result.duplicate },
+    });
+  } catch (error) {
+    // A failed response makes Webflow retry the delivery
+    logger.error("Webhook handler failed", {
+      requestId,
+      eventId: event.id,
+      triggerType,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+    return c.json(
+      { error: "Internal Server Error", message: "Webhook could not be processed" },
+      500,
+    );
+  }
+});
+
+webhookRoutes.options("/webflow", (_c) => {
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,315 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { type CMSService, getCMSService } from "@services/cmsService.ts";
+import { fromBase64Url, toBase64Url } from "@utils/hmac.ts";
+import { NotFoundError, ValidationError } from "@utils/errors.ts";
+import type { WebflowCollectionItem, WebflowFieldData } from "../types/webflow.ts";
+
+/**
+ * Public representation of a published article
+ */
+export interface Article {
+  id: string;
+  slug: string;
+  title: string;
+  author: string;
+  authorId?: string; // Item of the author's profile in the Authors collection
+  metaDescription: string;
+  html: string;
+  readingTime?: string;
+  intro?: string;
+  categories: string[];
+  tags: string[];
+  featuredImage?: string;
+  publishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ArticleSortField = "publishedAt" | "createdAt" | "updatedAt" | "title";
+
+export interface ArticleQuery {
+  limit: number;
+  cursor?: string;
+  author?: string;
+  tag?: string;
+  category?: string;
+  from?: string; // Inclusive lower bound on publishedAt
+  to?: string; // Inclusive upper bound on publishedAt
+  sort: ArticleSortField;
+  order: "asc" | "desc";
+}
+
+export interface ArticlePage {
+  articles: Article[];
+  nextCursor?: string;
+  total: number; // Matches for the filters, across all pages
+}
+
+export interface ArticleServiceOptions {
+  cacheTtlMs?: number;
+}
+
+interface Cursor {
+  s: string; // Sort the cursor was issued for
+  v: string; // Sort value of the last article on the page
+  id: string;
+}
+
+const WEBFLOW_PAGE_SIZE = 100;
+
+/**
+ * Read-only view of published articles for the public API.
+ * The collection is loaded in full and cached briefly; filtering, sorting and
+ * keyset pagination happen here because the Webflow API cannot do them.
+ */
+export class ArticleService {
+  private readonly cmsService: CMSService;
+  private readonly cacheTtlMs: number;
+  private cache?: { articles: Article[]; loadedAt: number };
+  private loading?: Promise<Article[]>;
+
+  constructor(cmsService?: CMSService, options: ArticleServiceOptions = {}) {
+    this.cmsService = cmsService || getCMSService();
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 1000; // 1 minute
+  }
+
+  /**
+   * List published articles matching the query
+   */
+  async listArticles(query: ArticleQuery): Promise<ArticlePage> {
+    const sortKey = `${query.sort}:${query.order}`;
+    const cursor = query.cursor ? this.decodeCursor(query.cursor, sortKey) : undefined;
+
+    const matches = (await this.getPublishedArticles())
+      .filter((article) => this.matches(article, query))
+      .sort((a, b) => this.compare(a, b, query));
+
+    let start = 0;
+    if (cursor) {
+      // Keyset pagination: continue after the last article of the previous page
+      const last = { value: cursor.v, id: cursor.id };
+      start = matches.findIndex((article) => this.isAfter(article, last, query));
+      if (start === -1) start = matches.length;
+    }
+
+    const articles = matches.slice(start, start + query.limit);
+    const hasMore = start + query.limit < matches.length;
+    const lastArticle = articles[articles.length - 1];
+
+    return {
+      articles,
+      nextCursor: hasMore && lastArticle
+        ? this.encodeCursor({
+          s: sortKey,
+          v: this.sortValue(lastArticle, query.sort),
+          id: lastArticle.id,
+        })
+        : undefined,
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Get a single published article by slug
+   */
+  async getArticle(slug: string): Promise<Article> {
+    const article = (await this.getPublishedArticles()).find((entry) => entry.slug === slug);
+
+    if (!article) {
+      throw new NotFoundError("Article");
+    }
+
+    return article;
+  }
+
+  /**
+   * Drop the cached collection so the next read loads fresh data
+   */
+  invalidate(): void {
+    this.cache = undefined;
+  }
+
+  private async getPublishedArticles(): Promise<Article[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtlMs) {
+      return this.cache.articles;
+    }
+
+    // Concurrent requests share one load
+    if (!this.loading) {
+      this.loading = this.loadPublishedArticles()
+        .then((articles) => {
+          this.cache = { articles, loadedAt: Date.now() };
+          return articles;
+        })
+        .finally(() => {
+          this.loading = undefined;
+        });
+    }
+
+    return await this.loading;
+  }
+
+  private async loadPublishedArticles(): Promise<Article[]> {
+    const items: WebflowCollectionItem[] = [];
+    let offset = 0;
+
+    while (true) {
+      const response = await this.cmsService.getCMSItems(WEBFLOW_PAGE_SIZE, String(offset));
+      const page = response.items ?? [];
+      items.push(...page);
+      offset += page.length;
+
+      if (page.length < WEBFLOW_PAGE_SIZE || offset >= (response.pagination?.total ?? 0)) {
+        break;
+      }
+    }
+
+    const articles = items.filter(isPublished).map((item) =>
+      normalizeArticle(item, this.cmsService.fromCollectionFields(item.fieldData))
+    );
+
+    logger.debug("Loaded published articles", {
+      items: items.length,
+      published: articles.length,
+    });
+
+    return articles;
+  }
+
+  private matches(article: Article, query: ArticleQuery): boolean {
+    if (query.author && article.author.toLowerCase() !== query.author.toLowerCase()) {
+      return false;
+    }
+    if (query.tag && !includesIgnoreCase(article.tags, query.tag)) {
+      return false;
+    }
+    if (query.category && !includesIgnoreCase(article.categories, query.category)) {
+      return false;
+    }
+    if (query.from || query.to) {
+      const publishedAt = article.publishedAt ? Date.parse(article.publishedAt) : NaN;
+      if (isNaN(publishedAt)) return false;
+      if (query.from && publishedAt < Date.parse(query.from)) return false;
+      if (query.to && publishedAt > Date.parse(query.to)) return false;
+    }
+    return true;
+  }
+
+  private compare(a: Article, b: Article, query: ArticleQuery): number {
+    const direction = query.order === "asc" ? 1 : -1;
+    const byValue = this.sortValue(a, query.sort).localeCompare(this.sortValue(b, query.sort));
+    // The ID breaks ties so the order (and the cursor) is stable
+    return (byValue || a.id.localeCompare(b.id)) * direction;
+  }
+
+  private isAfter(article: Article, last: { value: string; id: string }, query: ArticleQuery) {
+    const direction = query.order === "asc" ? 1 : -1;
+    const byValue = this.sortValue(article, query.sort).localeCompare(last.value);
+    return (byValue || article.id.localeCompare(last.id)) * direction > 0;
+  }
+
+  private sortValue(article: Article, sort: ArticleSortField): string {
+    switch (sort) {
+      case "title":
+        return article.title.toLowerCase();
+      case "publishedAt":
+        return article.publishedAt ?? "";
+      default:
+        return article[sort];
+    }
+  }
+
+  private encodeCursor(cursor: Cursor): string {
+    return toBase64Url(new TextEncoder().encode(JSON.stringify(cursor)));
+  }
+
+  private decodeCursor(value: string, sortKey: string): Cursor {
+    let cursor: Cursor;
+    try {
+      cursor = JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+    } catch {
+      throw new ValidationError("Invalid cursor", "cursor", value);
+    }
+
+    if (typeof cursor?.v !== "string" || typeof cursor?.id !== "string") {
+      throw new ValidationError("Invalid cursor", "cursor", value);
+    }
+    if (cursor.s !== sortKey) {
+      throw new ValidationError("Cursor does not match the requested sort order", "cursor", value);
+    }
+
+    return cursor;
+  }
+}
+
+// Read models over the shared CMS services, one per tenant ("" without tenants)
+const sharedArticleServices = new Map<string, ArticleService>();
+
+/**
+ * Shared article service of a tenant (the deployment configuration without one),
+ * so the public API and cache invalidation use the same cache
+ */
+export function getArticleService(tenantId?: string): ArticleService {
+  let service = sharedArticleServices.get(tenantId ?? "");
+
+  if (!service) {
+    service = new ArticleService(getCMSService(undefined, tenantId));
+    sharedArticleServices.set(tenantId ?? "", service);
+  }
+  return service;
+}
+
+/**
+ * Only items that are live on the site are public
+ */
+function isPublished(item: WebflowCollectionItem): boolean {
+  return !item.isDraft && !item.isArchived && !!item.lastPublished;
+}
+
+// `fields` uses the generated field names, whatever the collection calls them
+function normalizeArticle(
+  item: WebflowCollectionItem,
+  fields: WebflowFieldData,
+): Article {
+  return {
+    id: item.id,
+    slug: fields.slug,
+    title: fields.name,
+    author: fields["author-name"] ?? "",
+    authorId: typeof fields.author === "string" ? fields.author : undefined,
+    metaDescription: fields["meta-description"] ?? "",
+    html: fields.post ?? "",
+    readingTime: fields["reading-time"],
+    intro: fields["intro-text"],
+    categories: toList(fields.categories),
+    tags: toList(fields.tags),
+    featuredImage: toImageUrl(fields["featured-image"]),
+    publishedAt: fields["published-on"] ?? item.lastPublished,
+    createdAt: fields["created-on"] ?? item.createdOn,
+    updatedAt: item.lastUpdated,
+  };
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === "string");
+  }
+  if (typeof value === "string" && value.trim()) {
+    return value.split(",").map((entry) => entry.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+function toImageUrl(value: unknown): string | undefined {
+  if (typeof value === "string") return value || undefined;
+  if (value && typeof value === "object" && typeof (value as { url?: unknown }).url === "string") {
+    return (value as { url: string }).url;
+  }
+  return undefined;
+}
+
+function includesIgnoreCase(values: string[], needle: string): boolean {
+  const lower = needle.toLowerCase();
+  return values.some((value) => value.toLowerCase() === lower);
+}
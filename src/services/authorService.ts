@@ -0,0 +1,254 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { generateSlug } from "@utils/slugGenerator.ts";
+import type { AuthorSettings } from "@config/collections.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { WebflowCollectionItem, WebflowFieldData } from "../types/webflow.ts";
+
+/**
+ * What a submission tells about its author
+ */
+export interface AuthorProfile {
+  name: string;
+  email?: string;
+  phone?: string;
+  credentials?: string;
+  bio?: string;
+  avatar?: string; // Image URL
+}
+
+export interface AuthorCacheOptions {
+  cacheTimeout?: number; // How long the loaded authors are trusted
+  refreshInterval?: number; // Minimum age before an unknown author triggers a reload
+}
+
+interface AuthorEntry {
+  id: string;
+  email?: string;
+}
+
+interface AuthorIndex {
+  byEmail: Map<string, string>;
+  byName: Map<string, AuthorEntry>;
+  slugs: Set<string>;
+  loadedAt: number;
+}
+
+// Titles and post-nominal letters that do not tell authors apart
+const HONORIFICS = new Set(["dr", "prof", "mr", "mrs", "ms", "mx"]);
+const POST_NOMINALS = new Set(["md", "phd", "do", "rn", "np", "pa", "dds", "dmd", "mph", "mba"]);
+
+/**
+ * Matches submissions to items of an Authors collection, so an author's articles reference
+ * one profile however the name was typed. Authors match by email first, then by normalized
+ * name (unless both have different emails); unknown authors get a new item holding their
+ * profile. Contact details are only written to the author item, never to the article.
+ */
+export class AuthorService {
+  private index?: Promise<AuthorIndex>;
+  private readonly creating = new Map<string, Promise<string>>();
+  private readonly fields: Record<string, string>;
+  private readonly cacheTimeout: number;
+  private readonly refreshInterval: number;
+  private authorsService?: WebflowService;
+
+  constructor(
+    private readonly webflowService: WebflowService,
+    private readonly settings?: AuthorSettings,
+    options: AuthorCacheOptions = {},
+  ) {
+    this.fields = settings?.fields ?? {};
+    this.cacheTimeout = options.cacheTimeout ?? 10 * 60 * 1000; // 10 minutes
+    this.refreshInterval = options.refreshInterval ?? 60 * 1000; // 1 minute
+  }
+
+  /**
+   * Whether articles of this collection reference an Authors collection
+   */
+  isConfigured(): boolean {
+    return !!this.settings;
+  }
+
+  /**
+   * ID of the author's item, created from the profile on the author's first submission
+   */
+  async resolve(profile: AuthorProfile): Promise<string | undefined> {
+    if (!this.settings) return undefined;
+
+    let index = await this.getIndex();
+    let id = findAuthor(index, profile);
+
+    if (!id && Date.now() - index.loadedAt >= this.refreshInterval) {
+      this.index = undefined;
+      index = await this.getIndex();
+      id = findAuthor(index, profile);
+    }
+
+    return id ?? await this.createAuthor(profile);
+  }
+
+  /**
+   * Forget the loaded authors, e.g. after profiles were edited in Webflow
+   */
+  clearCache(): void {
+    this.index = undefined;
+  }
+
+  private getIndex(): Promise<AuthorIndex> {
+    const cached = this.index;
+    if (cached) {
+      return cached.then((index) => {
+        if (Date.now() - index.loadedAt < this.cacheTimeout) return index;
+        if (this.index === cached) this.index = undefined;
+        return this.getIndex();
+      });
+    }
+
+    const loading = this.loadIndex();
+    this.index = loading;
+    // A failed load is not cached, so the next submission tries again
+    loading.catch(() => {
+      if (this.index === loading) this.index = undefined;
+    });
+    return loading;
+  }
+
+  private async loadIndex(): Promise<AuthorIndex> {
+    const index: AuthorIndex = {
+      byEmail: new Map(),
+      byName: new Map(),
+      slugs: new Set(),
+      loadedAt: Date.now(),
+    };
+
+    for (const item of await this.service().getAllCollectionItems()) {
+      this.addToIndex(index, item);
+    }
+
+    logger.debug("Loaded authors", { count: index.slugs.size });
+    return index;
+  }
+
+  private addToIndex(index: AuthorIndex, item: WebflowCollectionItem): void {
+    const email = item.fieldData[this.fieldName("email")];
+    const entry: AuthorEntry = {
+      id: item.id,
+      email: typeof email === "string" && email ? normalizeEmail(email) : undefined,
+    };
+
+    if (entry.email) index.byEmail.set(entry.email, item.id);
+    if (typeof item.fieldData.slug === "string") index.slugs.add(item.fieldData.slug);
+    if (item.isArchived || typeof item.fieldData.name !== "string") return;
+
+    const name = normalizeAuthorName(item.fieldData.name);
+    if (name && !index.byName.has(name)) index.byName.set(name, entry);
+  }
+
+  /**
+   * Add an author item; concurrent submissions of the same new author share one creation
+   */
+  private createAuthor(profile: AuthorProfile): Promise<string> {
+    const key = profile.email
+      ? `email:${normalizeEmail(profile.email)}`
+      : `name:${normalizeAuthorName(profile.name)}`;
+    const pending = this.creating.get(key);
+    if (pending) return pending;
+
+    const creation = (async () => {
+      const index = await this.getIndex();
+      const item = await this.service().createCollectionItem({
+        isDraft: false,
+        isArchived: false,
+        fieldData: this.toFieldData(profile, uniqueSlug(profile.name, index.slugs)),
+      });
+
+      // Published so that live articles can show the profile
+      try {
+        await this.service().publishItem(item.id);
+      } catch (error) {
+        logger.warn("Created author could not be published", {
+          itemId: item.id,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+
+      this.addToIndex(index, item);
+      logger.info("Created author profile", { itemId: item.id, name: profile.name });
+      return item.id;
+    })();
+
+    this.creating.set(key, creation);
+    creation.finally(() => this.creating.delete(key)).catch(() => {});
+    return creation;
+  }
+
+  private toFieldData(profile: AuthorProfile, slug: string): Partial<WebflowFieldData> {
+    const fieldData: Partial<WebflowFieldData> = { name: profile.name.trim(), slug };
+    const values: Record<string, unknown> = {
+      email: profile.email,
+      phone: profile.phone,
+      credentials: profile.credentials,
+      bio: profile.bio,
+      avatar: profile.avatar ? { url: profile.avatar, alt: profile.name } : undefined,
+    };
+
+    for (const [field, value] of Object.entries(values)) {
+      if (value) fieldData[this.fieldName(field)] = value;
+    }
+    return fieldData;
+  }
+
+  private fieldName(field: string): string {
+    return this.fields[field] ?? field;
+  }
+
+  private service(): WebflowService {
+    this.authorsService ??= this.webflowService.forCollection(this.settings!.collectionId);
+    return this.authorsService;
+  }
+}
+
+/**
+ * Name reduced to what tells authors apart: "Dr. José García-López, MD" and
+ * "jose garcia lopez" both become "jose garcia lopez"
+ */
+export function normalizeAuthorName(name: string): string {
+  const words = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(",")[0]
+    .replace(/[-_]/g, " ")
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && HONORIFICS.has(words[0])) words.shift();
+  while (words.length > 1 && POST_NOMINALS.has(words[words.length - 1])) words.pop();
+
+  return words.join(" ");
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function findAuthor(index: AuthorIndex, profile: AuthorProfile): string | undefined {
+  const email = profile.email ? normalizeEmail(profile.email) : undefined;
+  if (email && index.byEmail.has(email)) return index.byEmail.get(email);
+
+  // Same name with a different email is a different person
+  const entry = index.byName.get(normalizeAuthorName(profile.name));
+  if (entry && (!email || !entry.email)) return entry.id;
+
+  return undefined;
+}
+
+function uniqueSlug(name: string, taken: Set<string>): string {
+  const base = generateSlug(normalizeAuthorName(name) || name) || "author";
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
@@ -1,65 +1,279 @@
 /// <reference lib="deno.ns" />
 import { logger } from "@utils/logger.ts";
+import {
+  type CollectionConfig,
+  collectionRegistry,
+  getCollection,
+  type MappableField,
+  TAXONOMIES,
+  type Taxonomy,
+} from "@config/collections.ts";
+import { getTenant, tenantRegistry } from "@config/tenants.ts";
 import { createWebflowService, type WebflowService } from "@services/webflowService.ts";
-import { SlugService } from "@services/slugService.ts";
+import { type SlugCheckResult, SlugService } from "@services/slugService.ts";
+import { type ImageFields, ImageService } from "@services/imageService.ts";
+import { TaxonomyService } from "@services/taxonomyService.ts";
+import { AuthorService } from "@services/authorService.ts";
+import { SchemaService, type SchemaStatus } from "@services/schemaService.ts";
+import { type ScheduleRunResult, ScheduleService } from "@services/scheduleService.ts";
+import { EditTokenService } from "@services/editTokenService.ts";
+import { type NewRevision, RevisionService } from "@services/revisionService.ts";
+import {
+  type OutboundEventData,
+  OutboundWebhookService,
+} from "@services/outboundWebhookService.ts";
+import { NotificationService, type TrackedItem } from "@services/notificationService.ts";
 import { convertDeltaToHtml } from "@services/contentProcessor.ts";
 import { generateMetadata } from "@services/metadataGenerator.ts";
-import type { WebflowCollectionItem, WebflowFieldData } from "../types/webflow.ts";
-import type { FormData } from "../types/form.ts";
+import {
+  createPartialUpdate,
+  type WebflowFieldData as MappedFieldData,
+} from "@services/fieldMapper.ts";
+import { getUserFriendlyMessage, isWebflowError } from "@utils/webflowErrors.ts";
+import { ConflictError, isBaseError, NotFoundError, ValidationError } from "@utils/errors.ts";
+import type { OutboundEventType } from "@config/outboundWebhooks.ts";
+import type {
+  WebflowCollectionItem,
+  WebflowFieldData,
+  WebflowImage,
+  WebflowLocale,
+} from "../types/webflow.ts";
+import type {
+  FormData,
+  LocaleVariantData,
+  PreviewFormData,
+  QuillDelta,
+  UpdateFormData,
+} from "../types/form.ts";
 
 export interface CMSItemResult {
   success: boolean;
   item?: WebflowCollectionItem;
   error?: string;
   slug?: string;
+  statusCode?: number;
+  errorCode?: string;
+  scheduledFor?: string;
+  scheduleError?: string; // The item exists, but its publication could not be scheduled
+}
+
+export interface CMSUpdateResult extends CMSItemResult {
+  changedFields: string[];
+  revision?: number;
+}
+
+export interface CreateOptions {
+  retry?: boolean; // A retry or replay of a submission whose article.submitted was already sent
+}
+
+export interface UpdateOptions {
+  submittedBy?: string; // Defaults to the submitted or stored author name
+  revertedFrom?: number; // Set when the update restores an earlier revision
+  restoredContent?: Partial<WebflowFieldData>; // Stored content of a revision without a delta
 }
 
 export interface PublishResult {
   success: boolean;
   itemId: string;
   error?: string;
+  statusCode?: number;
+  errorCode?: string;
+}
+
+export interface ItemLifecycleResult extends PublishResult {
+  action: "unpublish" | "archive" | "delete";
+  slug?: string;
+}
+
+export interface ArticlePreview {
+  html: string;
+  slug: string;
+  slugAvailable: boolean; // Whether submitting now would keep this slug
+  slugSuggestions?: string[];
+  readingTime: string;
+  introText: string;
+  wordCount: number;
+  characterCount: number;
+  imageCount: number;
+  linkCount: number;
+  hasVideo: boolean;
+  publishedOn?: string;
+  warnings: string[];
+}
+
+/**
+ * Where an item lives: a collection key and, in multi-tenant mode, a tenant ID.
+ * Unset values mean the default collection and the deployment configuration.
+ */
+export interface CMSTarget {
+  collection?: string;
+  tenant?: string;
 }
 
 export class CMSService {
+  readonly collection: CollectionConfig;
+  readonly tenantId?: string;
   private webflowService: WebflowService;
   private slugService: SlugService;
+  private imageService: ImageService;
+  private taxonomies: TaxonomyService;
+  private authors: AuthorService;
+  private schema: SchemaService;
+  private scheduleService: ScheduleService;
+  private editTokenService: EditTokenService;
+  private revisionService: RevisionService;
+  private outboundWebhooks: OutboundWebhookService;
+  private notifications: NotificationService;
+  private siteTimezone?: string;
+  private siteLocales?: WebflowLocale[];
+  private localeSlugServices = new Map<string, SlugService>();
 
-  constructor(webflowService?: WebflowService) {
-    this.webflowService = webflowService || createWebflowService();
-    this.slugService = new SlugService(this.webflowService);
+  constructor(
+    webflowService?: WebflowService,
+    scheduleService?: ScheduleService,
+    editTokenService?: EditTokenService,
+    revisionService?: RevisionService,
+    collection?: CollectionConfig,
+    tenantId?: string,
+    outboundWebhooks?: OutboundWebhookService,
+    notifications?: NotificationService,
+  ) {
+    this.collection = collection || getCollection();
+    this.tenantId = tenantId;
+    this.webflowService = webflowService || createWebflowService(this.collection.collectionId);
+    this.slugService = new SlugService(this.webflowService, this.collection.slugs);
+    this.imageService = new ImageService(this.webflowService);
+    this.taxonomies = new TaxonomyService(this.webflowService, this.collection.references);
+    this.authors = new AuthorService(this.webflowService, this.collection.references.authors);
+    this.schema = new SchemaService(this.webflowService, this.collection, tenantId);
+    this.scheduleService = scheduleService || new ScheduleService();
+    this.editTokenService = editTokenService || new EditTokenService();
+    this.revisionService = revisionService || new RevisionService();
+    this.outboundWebhooks = outboundWebhooks || new OutboundWebhookService();
+    this.notifications = notifications || new NotificationService();
   }
 
   /**
-   * Create a new CMS item from form data
+   * Create a new CMS item from form data.
+   * Items with a future `publishAt` are always created as drafts and scheduled.
    */
-  async createCMSItem(formData: FormData, isDraft = true): Promise<CMSItemResult> {
+  async createCMSItem(
+    formData: FormData,
+    isDraft = true,
+    options: CreateOptions = {},
+  ): Promise<CMSItemResult> {
     try {
+      if (formData.publishAt) {
+        isDraft = true;
+      }
+
       logger.info("Creating CMS item", {
         title: formData.articleTitle,
         author: formData.authorName,
         isDraft,
+        publishAt: formData.publishAt,
       });
 
+      if (!options.retry) {
+        this.emitEvent("article.submitted", {
+          title: formData.articleTitle,
+          authorName: formData.authorName,
+          locale: formData.locale,
+        });
+      }
+
+      const locale = await this.resolveLocale(formData.locale);
+
+      // Store inline images in Webflow Assets and point the content at them
+      formData = await this.imageService.uploadImages(formData);
+
       // Map form data to Webflow field structure
-      const fieldData = await this.mapFormDataToWebflowFields(formData);
+      const fieldData = await this.mapFormDataToWebflowFields(formData, locale);
 
       // Create the item
       const item = await this.webflowService.createCollectionItem({
         isDraft,
         isArchived: false,
-        fieldData,
+        cmsLocaleId: locale?.cmsLocaleId,
+        fieldData: this.toCollectionFields(fieldData),
       });
 
       logger.info("CMS item created successfully", {
         itemId: item.id,
         slug: fieldData.slug,
         title: fieldData.name,
+        locale: locale?.code,
+      });
+
+      if (fieldData.slug) {
+        this.slugServiceFor(locale).markSlugTaken(fieldData.slug, item.id);
+      }
+
+      if (formData.authorEmail) {
+        await this.recordAuthorItem(formData.authorEmail, {
+          itemId: item.id,
+          slug: fieldData.slug,
+          title: fieldData.name ?? formData.articleTitle,
+        });
+      }
+
+      await this.trackForNotifications(item.id, {
+        title: fieldData.name ?? formData.articleTitle,
+        authorName: formData.authorName,
+        authorEmail: formData.authorEmail,
+        slug: fieldData.slug,
+      });
+
+      await this.recordRevision({
+        itemId: item.id,
+        action: "create",
+        submittedBy: describeSubmitter(formData.authorName, formData.authorEmail),
+        delta: formData.articleContent,
+        html: fieldData.post ?? "",
+        fieldData: this.toCollectionFields(fieldData),
+        changedFields: [],
+        locale: revisionLocale(locale),
+      });
+
+      // The item exists from here on, so a failed schedule must not report the submission as failed
+      let scheduledFor: string | undefined;
+      let scheduleError: string | undefined;
+      if (formData.publishAt) {
+        try {
+          const schedule = await this.scheduleService.schedule(
+            item.id,
+            new Date(formData.publishAt),
+            await this.getSiteTimezone(),
+            { collection: this.collection.key, tenant: this.tenantId },
+          );
+          scheduledFor = schedule.publishAt;
+        } catch (error) {
+          logger.error("Item created but its publication could not be scheduled", {
+            itemId: item.id,
+            publishAt: formData.publishAt,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+          scheduleError = "The article was saved as a draft, but its publication could not be " +
+            "scheduled";
+        }
+      }
+
+      this.emitEvent("article.created", {
+        itemId: item.id,
+        slug: fieldData.slug,
+        title: fieldData.name ?? formData.articleTitle,
+        authorName: formData.authorName,
+        locale: locale?.code,
+        isDraft,
+        scheduledFor,
       });
 
       return {
         success: true,
         item,
         slug: fieldData.slug,
+        scheduledFor,
+        scheduleError,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -69,13 +283,40 @@ export class CMSService {
         error: new Error(errorMessage),
       });
 
+      const statusCode = isWebflowError(error) ? error.httpStatus : undefined;
+      this.emitEvent("article.failed", {
+        operation: "create",
+        title: formData.articleTitle,
+        locale: formData.locale,
+        error: errorMessage,
+        statusCode,
+      });
+
       return {
         success: false,
         error: errorMessage,
+        statusCode,
+        errorCode: isWebflowError(error) ? error.code : undefined,
       };
     }
   }
 
+  /**
+   * Store images sent as `data:` URIs in Webflow Assets ahead of creating or updating the item,
+   * so a submission kept for later (in a queue or for review) only holds the hosted URLs
+   */
+  uploadImages<T extends ImageFields>(data: T): Promise<T> {
+    return this.imageService.uploadImages(data);
+  }
+
+  /**
+   * Refuse categories and tags without a term where the collection rejects unknown terms,
+   * before a submission is queued or held for review
+   */
+  checkTerms(data: Partial<Record<Taxonomy, string[]>>): Promise<void> {
+    return this.taxonomies.check(data);
+  }
+
   /**
    * Create and immediately publish a CMS item
    */
@@ -130,16 +371,24 @@ export class CMSService {
   }
 
   /**
-   * Publish an existing CMS item
+   * Publish an existing CMS item, optionally only some of its locales
    */
-  async publishCMSItem(itemId: string): Promise<PublishResult> {
+  async publishCMSItem(itemId: string, cmsLocaleIds?: string[]): Promise<PublishResult> {
     try {
-      logger.info("Publishing CMS item", { itemId });
+      logger.info("Publishing CMS item", { itemId, cmsLocaleIds });
 
-      await this.webflowService.publishItem(itemId);
+      await this.webflowService.publishItem(itemId, cmsLocaleIds);
 
       logger.info("CMS item published successfully", { itemId });
 
+      this.emitEvent("article.published", { itemId, cmsLocaleIds });
+      this.notifications.notify({
+        type: "published",
+        itemId,
+        tenant: this.tenantId,
+        collection: this.collection.key,
+      });
+
       return {
         success: true,
         itemId,
@@ -152,62 +401,575 @@ export class CMSService {
         error: new Error(errorMessage),
       });
 
+      const statusCode = isWebflowError(error) ? error.httpStatus : undefined;
+      this.emitEvent("article.failed", {
+        operation: "publish",
+        itemId,
+        cmsLocaleIds,
+        error: errorMessage,
+        statusCode,
+      });
+
+      return {
+        success: false,
+        itemId,
+        error: errorMessage,
+        statusCode,
+        errorCode: isWebflowError(error) ? error.code : undefined,
+      };
+    }
+  }
+
+  /**
+   * Take a live item offline; the staged item stays in the CMS
+   */
+  unpublishCMSItem(itemId: string): Promise<ItemLifecycleResult> {
+    return this.runLifecycleAction(itemId, "unpublish", async () => {
+      await this.webflowService.unpublishItem(itemId);
+    });
+  }
+
+  /**
+   * Archive an item and remove its live copy
+   */
+  archiveCMSItem(itemId: string): Promise<ItemLifecycleResult> {
+    return this.runLifecycleAction(itemId, "archive", async (item) => {
+      await this.webflowService.setItemArchived(itemId, true);
+      if (!item.isDraft) {
+        await this.unpublishIfLive(itemId);
+      }
+    });
+  }
+
+  /**
+   * Delete an item, including its live copy
+   */
+  deleteCMSItem(itemId: string): Promise<ItemLifecycleResult> {
+    return this.runLifecycleAction(itemId, "delete", async () => {
+      await this.unpublishIfLive(itemId);
+      await this.webflowService.deleteItem(itemId);
+    });
+  }
+
+  /**
+   * Shared flow for unpublish/archive/delete: load the item, run the Webflow calls,
+   * then cancel any pending schedule and release the slug from the cache
+   */
+  private async runLifecycleAction(
+    itemId: string,
+    action: ItemLifecycleResult["action"],
+    run: (item: WebflowCollectionItem) => Promise<void>,
+  ): Promise<ItemLifecycleResult> {
+    try {
+      logger.info("Running CMS item action", { itemId, action });
+
+      const item = await this.webflowService.getCollectionItem(itemId);
+      await run(item);
+
+      await this.cancelPendingSchedule(itemId);
+      if (item.fieldData.slug) {
+        this.slugService.releaseSlug(item.fieldData.slug);
+      }
+
+      logger.info("CMS item action completed", { itemId, action, slug: item.fieldData.slug });
+
+      return { success: true, itemId, action, slug: item.fieldData.slug };
+    } catch (error) {
+      const errorMessage = isWebflowError(error)
+        ? getUserFriendlyMessage(error)
+        : error instanceof Error
+        ? error.message
+        : String(error);
+
+      logger.error("CMS item action failed", {
+        itemId,
+        action,
+        error: error instanceof Error ? error : new Error(errorMessage),
+      });
+
       return {
         success: false,
         itemId,
+        action,
         error: errorMessage,
+        statusCode: isWebflowError(error) ? error.httpStatus : undefined,
+        errorCode: isWebflowError(error) ? error.code : undefined,
       };
     }
   }
 
   /**
-   * Update an existing CMS item
+   * Remove the live copy of an item; an item that was never published is not an error
    */
-  async updateCMSItem(itemId: string, formData: FormData): Promise<CMSItemResult> {
+  private async unpublishIfLive(itemId: string): Promise<void> {
+    try {
+      await this.webflowService.unpublishItem(itemId);
+    } catch (error) {
+      if (isWebflowError(error) && error.httpStatus === 404) return;
+      throw error;
+    }
+  }
+
+  /**
+   * An item taken offline must not be published again by the scheduler
+   */
+  private async cancelPendingSchedule(itemId: string): Promise<void> {
+    try {
+      const schedule = await this.scheduleService.get(itemId);
+      if (schedule.status === "pending") {
+        await this.scheduleService.cancel(itemId);
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        logger.warn("Failed to cancel schedule for item", {
+          itemId,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+  }
+
+  /**
+   * Add an item to its author's article list; failures do not fail the submission
+   */
+  private async recordAuthorItem(
+    authorEmail: string,
+    item: { itemId: string; slug?: string; title: string },
+  ): Promise<void> {
+    try {
+      await this.editTokenService.recordAuthorItem(authorEmail, item);
+    } catch (error) {
+      logger.warn("Failed to record item for author", {
+        itemId: item.itemId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  /**
+   * Remember the item's author for its publication email; failures do not fail the submission
+   */
+  private async trackForNotifications(itemId: string, item: TrackedItem): Promise<void> {
+    try {
+      await this.notifications.trackItem(itemId, item);
+    } catch (error) {
+      logger.warn("Failed to track item for notifications", {
+        itemId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  /**
+   * Notify outbound webhook subscribers without waiting; failures do not fail the operation
+   */
+  private emitEvent(type: OutboundEventType, data: OutboundEventData): void {
+    this.outboundWebhooks.emit(type, data, {
+      tenant: this.tenantId,
+      collection: this.collection.key,
+    }).catch((error) => {
+      logger.warn("Failed to queue outbound webhook event", {
+        type,
+        itemId: data.itemId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+  }
+
+  /**
+   * Store a revision of an item; failures do not fail the create or update
+   */
+  private async recordRevision(revision: NewRevision): Promise<number | undefined> {
+    try {
+      return (await this.revisionService.record({
+        ...revision,
+        collection: this.collection.key,
+        tenant: this.tenantId,
+      })).number;
+    } catch (error) {
+      logger.warn("Failed to record revision for item", {
+        itemId: revision.itemId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Publish all scheduled items whose publication time has arrived,
+   * each through the service of the collection it was created in
+   */
+  publishScheduledItems(now = new Date()): Promise<ScheduleRunResult> {
+    return this.scheduleService.processDue(
+      (itemId, schedule) => this.forTarget(schedule).publishCMSItem(itemId),
+      now,
+    );
+  }
+
+  /**
+   * Service for the collection and tenant of stored data (a submission, schedule or revision);
+   * this one when they match its own. A missing collection means the tenant's default one.
+   */
+  forTarget(target: CMSTarget): CMSService {
+    if (
+      target.tenant === this.tenantId &&
+      (!target.collection || target.collection === this.collection.key)
+    ) {
+      return this;
+    }
+    return getCMSService(target.collection, target.tenant);
+  }
+
+  /**
+   * Get the site time zone (cached), falling back to UTC if the site cannot be read
+   */
+  async getSiteTimezone(): Promise<string> {
+    if (this.siteTimezone) {
+      return this.siteTimezone;
+    }
+
+    try {
+      const site = await this.webflowService.getSite();
+      this.siteTimezone = site.timezone || "UTC";
+    } catch (error) {
+      logger.warn("Failed to load site timezone, using UTC", {
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return "UTC";
+    }
+
+    return this.siteTimezone;
+  }
+
+  /**
+   * Get the enabled CMS locales of the site (cached)
+   */
+  async getLocales(): Promise<WebflowLocale[]> {
+    if (!this.siteLocales) {
+      const site = await this.webflowService.getSite();
+      this.siteLocales = (site.locales ?? []).filter((locale) => locale.isEnabled);
+    }
+    return this.siteLocales;
+  }
+
+  /**
+   * Find a site locale by code, falling back to a locale of the same language ("fr-CA" for "fr").
+   * Returns undefined without a code, meaning the primary locale.
+   */
+  async resolveLocale(code?: string): Promise<WebflowLocale | undefined> {
+    if (!code) {
+      return undefined;
+    }
+
+    const locales = await this.getLocales();
+    const wanted = code.toLowerCase().replace("_", "-");
+    const locale = locales.find((entry) => entry.code.toLowerCase() === wanted) ??
+      locales.find((entry) => languageOf(entry.code) === languageOf(wanted));
+
+    if (!locale) {
+      throw new ValidationError(
+        `Unknown locale "${code}". Available: ${
+          locales.map((entry) => entry.code).join(", ") || "none"
+        }`,
+        "locale",
+        code,
+      );
+    }
+
+    return locale;
+  }
+
+  /**
+   * Slug service of a locale. Secondary locales have their own slugs,
+   * which only need to be unique within that locale.
+   */
+  private slugServiceFor(locale?: WebflowLocale): SlugService {
+    if (!locale || locale.isPrimary) {
+      return this.slugService;
+    }
+
+    let service = this.localeSlugServices.get(locale.cmsLocaleId);
+    if (!service) {
+      service = new SlugService(this.webflowService, {
+        ...this.collection.slugs,
+        cmsLocaleId: locale.cmsLocaleId,
+      });
+      this.localeSlugServices.set(locale.cmsLocaleId, service);
+    }
+    return service;
+  }
+
+  /**
+   * Update an existing CMS item with patch semantics.
+   * Only fields present in `updates` are written; unchanged values are skipped.
+   * Every change is stored as a new revision.
+   */
+  async updateCMSItem(
+    itemId: string,
+    updates: UpdateFormData,
+    options: UpdateOptions = {},
+  ): Promise<CMSUpdateResult> {
     try {
       logger.info("Updating CMS item", {
         itemId,
-        title: formData.articleTitle,
+        fields: Object.keys(updates).filter((key) =>
+          updates[key as keyof UpdateFormData] !== undefined
+        ),
       });
 
-      // Map form data to Webflow field structure
-      const fieldData = await this.mapFormDataToWebflowFields(formData);
+      const locale = await this.resolveLocale(updates.locale);
+      const current = await this.webflowService.getCollectionItem(itemId, locale?.cmsLocaleId);
+      updates = await this.imageService.uploadImages(updates);
+
+      // Map only the submitted fields to Webflow field structure
+      const fieldData = this.toCollectionFields({
+        ...(await this.mapUpdateToWebflowFields(updates, current, locale)),
+        ...options.restoredContent,
+      });
 
-      // Add update timestamp
-      fieldData["updated-on"] = new Date().toISOString();
+      // Drop values that already match the stored item
+      const changes = createPartialUpdate(
+        current.fieldData as unknown as MappedFieldData,
+        fieldData as Partial<MappedFieldData>,
+      ) as Partial<WebflowFieldData>;
+      const changedFields = Object.keys(changes).filter((key) => key !== "updated-on");
+
+      if (changedFields.length === 0) {
+        logger.info("CMS item unchanged, skipping update", { itemId });
+
+        return {
+          success: true,
+          item: current,
+          slug: current.fieldData.slug,
+          changedFields,
+        };
+      }
 
       // Update the item
       const item = await this.webflowService.updateCollectionItem(itemId, {
-        fieldData,
+        cmsLocaleId: locale?.cmsLocaleId,
+        fieldData: changes,
       });
 
       logger.info("CMS item updated successfully", {
         itemId,
-        slug: fieldData.slug,
-        title: fieldData.name,
+        slug: item.fieldData?.slug ?? current.fieldData.slug,
+        locale: locale?.code,
+        changedFields,
+      });
+
+      const revision = await this.recordUpdateRevision(current, item, changes, changedFields, {
+        ...options,
+        submittedBy: options.submittedBy ??
+          describeSubmitter(
+            updates.authorName ??
+              current.fieldData[this.fieldName("author-name")] as string | undefined,
+            updates.authorEmail,
+          ),
+        delta: updates.articleContent,
+        locale: revisionLocale(locale),
+      });
+
+      const slug = item.fieldData?.slug ?? current.fieldData.slug;
+      this.emitEvent("article.updated", {
+        itemId,
+        slug,
+        title: item.fieldData?.name ?? current.fieldData.name,
+        locale: locale?.code,
+        changedFields,
+        revision,
       });
 
       return {
         success: true,
         item,
-        slug: fieldData.slug,
+        slug,
+        changedFields,
+        revision,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       logger.error("Failed to update CMS item", {
         itemId,
-        title: formData.articleTitle,
         error: new Error(errorMessage),
       });
 
+      // Rejected slugs and locales keep their client error status
+      const statusCode = isWebflowError(error)
+        ? error.httpStatus
+        : isBaseError(error)
+        ? error.statusCode
+        : undefined;
+      this.emitEvent("article.failed", {
+        operation: "update",
+        itemId,
+        locale: updates.locale,
+        error: errorMessage,
+        statusCode,
+      });
+
       return {
         success: false,
         error: errorMessage,
+        statusCode,
+        errorCode: isWebflowError(error) || isBaseError(error) ? error.code : undefined,
+        changedFields: [],
       };
     }
   }
 
+  /**
+   * Write the translation of an existing item into a secondary locale.
+   * Its reading time and intro text follow the locale's language rules; a submitted slug
+   * only needs to be unique within the locale, otherwise the variant keeps its slug.
+   */
+  async saveLocaleVariant(
+    itemId: string,
+    localeCode: string,
+    variant: LocaleVariantData,
+    options: UpdateOptions = {},
+  ): Promise<CMSUpdateResult> {
+    const locale = await this.resolveLocale(localeCode);
+
+    if (locale?.isPrimary) {
+      throw new ValidationError(
+        `"${locale.code}" is the primary locale; update the item itself instead`,
+        "locale",
+        localeCode,
+      );
+    }
+
+    logger.info("Saving locale variant", { itemId, locale: locale?.code });
+
+    return this.updateCMSItem(itemId, { ...variant, locale: locale?.code }, options);
+  }
+
+  /**
+   * Restore an earlier revision by updating the item with its content and fields
+   */
+  async revertCMSItem(
+    itemId: string,
+    revisionNumber: number,
+    revertedBy: string,
+  ): Promise<CMSUpdateResult> {
+    const revision = await this.revisionService.get(itemId, revisionNumber);
+    // The item is updated through the collection it was recorded in
+    const service = this.forTarget(revision);
+    const fields = service.fromCollectionFields(revision.fieldData);
+
+    // Revisions without a delta (e.g. the baseline of an item created in Webflow) can only be
+    // restored from their stored HTML and the metadata generated with it
+    const restoredContent: Partial<WebflowFieldData> = {};
+    if (!revision.delta) {
+      restoredContent.post = revision.html;
+      for (const field of ["reading-time", "intro-text"] as const) {
+        if (fields[field] !== undefined) restoredContent[field] = fields[field];
+      }
+    }
+
+    logger.info("Reverting CMS item", { itemId, revision: revisionNumber, revertedBy });
+
+    return service.updateCMSItem(itemId, {
+      articleTitle: fields.name,
+      authorName: fields["author-name"],
+      metaDescription: fields["meta-description"],
+      slug: fields.slug,
+      articleContent: revision.delta,
+      locale: revision.locale,
+    }, { submittedBy: revertedBy, revertedFrom: revisionNumber, restoredContent });
+  }
+
+  /**
+   * Record a revision after an update. Items created before revisions were kept, and locales
+   * changed for the first time, get a baseline revision of their previous state first, so the
+   * change can be diffed.
+   */
+  private async recordUpdateRevision(
+    current: WebflowCollectionItem,
+    updated: WebflowCollectionItem,
+    changes: Partial<WebflowFieldData>,
+    changedFields: string[],
+    options: UpdateOptions & { submittedBy: string; delta?: QuillDelta; locale?: string },
+  ): Promise<number | undefined> {
+    let previous;
+    try {
+      // Each locale has its own content, so only its own revisions describe it
+      previous = await this.revisionService.latest(current.id, { locale: options.locale });
+    } catch (error) {
+      logger.warn("Failed to load latest revision for item", {
+        itemId: current.id,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return undefined;
+    }
+
+    if (!previous) {
+      await this.recordRevision({
+        itemId: current.id,
+        action: "baseline",
+        submittedBy: "webflow",
+        html: String(current.fieldData[this.fieldName("post")] ?? ""),
+        fieldData: current.fieldData,
+        changedFields: [],
+        locale: options.locale,
+      });
+    }
+
+    const fieldData = { ...current.fieldData, ...changes, ...updated.fieldData };
+
+    return await this.recordRevision({
+      itemId: current.id,
+      action: options.revertedFrom !== undefined ? "revert" : "update",
+      submittedBy: options.submittedBy,
+      // The previous delta only still describes the content when the post was not replaced
+      delta: options.delta ??
+        (changedFields.includes(this.fieldName("post")) ? undefined : previous?.delta),
+      html: String(fieldData[this.fieldName("post")] ?? ""),
+      fieldData,
+      changedFields,
+      revertedFrom: options.revertedFrom,
+      locale: options.locale,
+    });
+  }
+
+  /**
+   * Check a slug for format, reserved words and uniqueness, using the shared slug cache
+   */
+  async checkSlug(slug: string, title?: string, locale?: string): Promise<SlugCheckResult> {
+    return this.slugServiceFor(await this.resolveLocale(locale)).checkSlug(slug, title);
+  }
+
+  /**
+   * Suggest available slugs for a title
+   */
+  async suggestSlugs(title: string, limit?: number, locale?: string): Promise<string[]> {
+    return this.slugServiceFor(await this.resolveLocale(locale)).suggestSlugs(title, limit);
+  }
+
+  /**
+   * Bring the slug caches in line with a change made outside the middleware (e.g. in the
+   * Webflow Designer). The item's cached slugs are dropped; its current slug, when known,
+   * is recorded as taken in the locale it belongs to.
+   */
+  async syncItem(
+    itemId: string,
+    current: { slug?: string; cmsLocaleId?: string } = {},
+  ): Promise<void> {
+    this.slugService.releaseItem(itemId);
+    this.localeSlugServices.forEach((service) => service.releaseItem(itemId));
+
+    // Slugs of a locale the site no longer has enabled are re-checked on next use instead
+    const locale = current.cmsLocaleId
+      ? (await this.getLocales()).find((entry) => entry.cmsLocaleId === current.cmsLocaleId)
+      : undefined;
+    if (current.slug && (!current.cmsLocaleId || locale)) {
+      this.slugServiceFor(locale).markSlugTaken(current.slug, itemId);
+    }
+
+    logger.debug("CMS item caches synced", { itemId, slug: current.slug, locale: locale?.code });
+  }
+
   /**
    * Check if a slug exists in the collection
    */
@@ -278,50 +1040,135 @@ export class CMSService {
   }
 
   /**
-   * Map form data to Webflow field structure
+   * Render an article the way it would be created, without writing to Webflow.
+   * Slug uniqueness is checked against the collection (through the slug cache) but not reserved.
    */
-  private async mapFormDataToWebflowFields(formData: FormData): Promise<Partial<WebflowFieldData>> {
-    // Convert Quill Delta to HTML
-    logger.debug("Converting Quill Delta to HTML", {
-      hasOps: !!formData.articleContent?.ops,
-      opsType: Array.isArray(formData.articleContent?.ops)
-        ? "array"
-        : typeof formData.articleContent?.ops,
-      opsLength: formData.articleContent?.ops ? Object.keys(formData.articleContent.ops).length : 0,
-    });
+  async previewCMSItem(formData: PreviewFormData): Promise<ArticlePreview> {
+    const locale = await this.resolveLocale(formData.locale);
+    const slugService = this.slugServiceFor(locale);
+    const { htmlContent, metadata, conversionResult } = await this.renderContent(
+      formData.articleContent,
+      formData.articleTitle,
+      formData.publishNow,
+      formData.slug,
+      false,
+      locale?.code,
+    );
 
-    const conversionResult = await convertDeltaToHtml(formData.articleContent);
-    if (conversionResult.errors.length > 0) {
-      throw new Error(`Failed to convert content: ${conversionResult.errors.join(", ")}`);
+    // Conversion problems fail a real submission, so they are surfaced as warnings here
+    const warnings = conversionResult.errors.map((error) => `Content: ${error}`);
+
+    let slug = metadata.slug;
+    let slugAvailable = false;
+    let slugSuggestions: string[] | undefined;
+
+    if (formData.slug) {
+      const validation = await slugService.validateSlug(formData.slug);
+      slug = formData.slug;
+      slugAvailable = validation.isValid && validation.isUnique;
+      slugSuggestions = validation.suggestions;
+      if (!slugAvailable) {
+        warnings.push(`Slug "${formData.slug}": ${validation.errors?.join(", ")}`);
+      }
+    } else {
+      const slugResult = await slugService.generateUniqueSlug(formData.articleTitle);
+      slugAvailable = slugResult.isValid && slugResult.isUnique;
+      if (slugAvailable) {
+        slug = slugResult.finalSlug!;
+      } else {
+        warnings.push(`Slug could not be generated: ${slugResult.errors?.join(", ")}`);
+      }
     }
-    const htmlContent = conversionResult.html;
 
-    logger.debug("HTML conversion result", {
-      htmlLength: htmlContent.length,
-      htmlPreview: htmlContent.substring(0, 100),
-      wordCount: conversionResult.wordCount,
-    });
+    if (!metadata.introText) {
+      warnings.push("Intro text is empty; add a paragraph of text near the start");
+    }
 
-    // Generate metadata
-    const metadata = generateMetadata({
+    logger.debug("Rendered article preview", {
       title: formData.articleTitle,
-      htmlContent,
-      publishNow: formData.publishNow,
-      customSlug: formData.slug,
+      slug,
+      slugAvailable,
+      warnings: warnings.length,
     });
 
+    return {
+      html: htmlContent,
+      slug,
+      slugAvailable,
+      slugSuggestions,
+      readingTime: metadata.readingTime,
+      introText: metadata.introText,
+      wordCount: metadata.wordCount,
+      characterCount: metadata.characterCount,
+      imageCount: conversionResult.imageCount,
+      linkCount: conversionResult.linkCount,
+      hasVideo: conversionResult.hasVideo,
+      publishedOn: metadata.publishedOn,
+      warnings,
+    };
+  }
+
+  /**
+   * Webflow field slug a generated field is written to in this collection
+   */
+  private fieldName(field: MappableField): string {
+    return this.collection.fields[field] ?? field;
+  }
+
+  /**
+   * Rename generated fields to the collection's field slugs
+   */
+  private toCollectionFields(fieldData: Partial<WebflowFieldData>): Partial<WebflowFieldData> {
+    const mapped: Partial<WebflowFieldData> = {};
+    for (const [field, value] of Object.entries(fieldData)) {
+      mapped[this.fieldName(field as MappableField)] = value;
+    }
+    return mapped;
+  }
+
+  /**
+   * Rename the collection's field slugs back to the generated field names
+   */
+  fromCollectionFields<T extends Partial<WebflowFieldData>>(fieldData: T): T {
+    const renamed = new Map(
+      Object.entries(this.collection.fields).map(([field, slug]) => [slug, field]),
+    );
+    const mapped: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(fieldData)) {
+      mapped[renamed.get(field) ?? field] = value;
+    }
+    return mapped as T;
+  }
+
+  /**
+   * Map form data to Webflow field structure
+   */
+  private async mapFormDataToWebflowFields(
+    formData: FormData,
+    locale?: WebflowLocale,
+  ): Promise<Partial<WebflowFieldData>> {
+    const slugService = this.slugServiceFor(locale);
+    const { htmlContent, metadata } = await this.renderContent(
+      formData.articleContent,
+      formData.articleTitle,
+      formData.publishNow,
+      formData.slug,
+      true,
+      locale?.code,
+    );
+
     // Generate unique slug
     let slug = metadata.slug;
     if (formData.slug) {
       // Validate provided slug
-      const validation = await this.slugService.validateSlug(formData.slug);
+      const validation = await slugService.validateSlug(formData.slug);
       if (!validation.isValid || !validation.isUnique) {
         throw new Error(`Invalid slug "${formData.slug}": ${validation.errors?.join(", ")}`);
       }
       slug = formData.slug;
     } else {
       // Use generated slug and ensure uniqueness
-      const slugResult = await this.slugService.generateUniqueSlug(formData.articleTitle);
+      const slugResult = await slugService.generateUniqueSlug(formData.articleTitle);
       if (slugResult.isValid && slugResult.isUnique) {
         slug = slugResult.finalSlug!;
       } else {
@@ -345,9 +1192,195 @@ export class CMSService {
       "created-on": metadata.createdOn,
       "updated-on": metadata.updatedOn,
       "published-on": formData.publishNow ? metadata.publishedOn : undefined,
+
+      "featured-image": toImageField(formData),
+
+      ...(await this.resolveTerms(formData)),
+      ...(await this.resolveAuthor(formData)),
     };
   }
 
+  /**
+   * Map a partial update to Webflow field structure.
+   * The existing slug is kept unless a different one is submitted.
+   */
+  private async mapUpdateToWebflowFields(
+    updates: UpdateFormData,
+    current: WebflowCollectionItem,
+    locale?: WebflowLocale,
+  ): Promise<Partial<WebflowFieldData>> {
+    const fieldData: Partial<WebflowFieldData> = {};
+
+    if (updates.articleTitle !== undefined) fieldData.name = updates.articleTitle;
+    if (updates.authorName !== undefined) fieldData["author-name"] = updates.authorName;
+    if (updates.metaDescription !== undefined) {
+      fieldData["meta-description"] = updates.metaDescription;
+    }
+
+    // Regenerate derived metadata only when the content itself was submitted
+    if (updates.articleContent) {
+      const { htmlContent, metadata } = await this.renderContent(
+        updates.articleContent,
+        updates.articleTitle ?? current.fieldData.name,
+        updates.publishNow,
+        undefined,
+        true,
+        locale?.code,
+      );
+
+      fieldData.post = htmlContent;
+      fieldData["reading-time"] = metadata.readingTime;
+      fieldData["intro-text"] = metadata.introText;
+    }
+
+    const currentImage = current.fieldData[this.fieldName("featured-image")] as
+      | WebflowImage
+      | string
+      | null
+      | undefined;
+    const currentImageUrl = typeof currentImage === "string" ? currentImage : currentImage?.url;
+    if (updates.featuredImage !== undefined && updates.featuredImage !== currentImageUrl) {
+      fieldData["featured-image"] = toImageField(updates);
+    } else if (updates.featuredImageAlt !== undefined && currentImageUrl) {
+      fieldData["featured-image"] = {
+        ...(typeof currentImage === "object" ? currentImage : { url: currentImageUrl }),
+        alt: updates.featuredImageAlt || null,
+      };
+    }
+
+    if (updates.slug && updates.slug !== current.fieldData.slug) {
+      const validation = await this.slugServiceFor(locale).validateSlug(updates.slug);
+      if (!validation.isValid) {
+        throw new ValidationError(
+          `Invalid slug "${updates.slug}": ${validation.errors?.join(", ")}`,
+          "slug",
+          updates.slug,
+        );
+      }
+      if (!validation.isUnique) {
+        throw new ConflictError(`Slug "${updates.slug}" is already in use`, "slug");
+      }
+      fieldData.slug = updates.slug;
+    }
+
+    // A new name or email may belong to another author profile
+    const authorFields = updates.authorName !== undefined || updates.authorEmail !== undefined
+      ? await this.resolveAuthor({
+        ...updates,
+        authorName: updates.authorName ?? String(current.fieldData[this.fieldName("author-name")]),
+      })
+      : {};
+
+    return { ...fieldData, ...(await this.resolveTerms(updates)), ...authorFields };
+  }
+
+  /**
+   * Reference to the author's profile in the Authors collection, which holds the contact
+   * details and profile fields; they are never written to the article itself
+   */
+  private async resolveAuthor(
+    data:
+      & Pick<
+        FormData,
+        "authorEmail" | "authorPhone" | "authorCredentials" | "authorBio" | "authorAvatar"
+      >
+      & { authorName: string },
+  ): Promise<Partial<WebflowFieldData>> {
+    if (!this.authors.isConfigured()) return {};
+
+    const author = await this.authors.resolve({
+      name: data.authorName,
+      email: data.authorEmail,
+      phone: data.authorPhone,
+      credentials: data.authorCredentials,
+      bio: data.authorBio,
+      avatar: data.authorAvatar,
+    });
+    return author ? { author } : {};
+  }
+
+  /**
+   * Item IDs of the submitted categories and tags for the multi-reference fields.
+   * Taxonomies without a reference collection are not written; Webflow only takes IDs there.
+   */
+  private async resolveTerms(
+    data: Partial<Record<Taxonomy, string[]>>,
+  ): Promise<Partial<WebflowFieldData>> {
+    const fieldData: Partial<WebflowFieldData> = {};
+    for (const taxonomy of TAXONOMIES) {
+      const names = data[taxonomy];
+      if (names === undefined || !this.taxonomies.isConfigured(taxonomy)) continue;
+      fieldData[taxonomy] = await this.taxonomies.resolve(taxonomy, names);
+    }
+    return fieldData;
+  }
+
+  /**
+   * Convert Quill Delta to HTML and generate the derived article metadata.
+   * Conversion errors throw unless `strict` is false (previews report them instead).
+   * Reading time and intro text follow the rules of the content's language.
+   */
+  private async renderContent(
+    articleContent: FormData["articleContent"],
+    title: string,
+    publishNow?: boolean,
+    customSlug?: string,
+    strict = true,
+    language?: string,
+  ) {
+    // Convert Quill Delta to HTML
+    logger.debug("Converting Quill Delta to HTML", {
+      hasOps: !!articleContent?.ops,
+      opsType: Array.isArray(articleContent?.ops) ? "array" : typeof articleContent?.ops,
+      opsLength: articleContent?.ops ? Object.keys(articleContent.ops).length : 0,
+    });
+
+    const conversionResult = await convertDeltaToHtml(articleContent);
+    if (strict && conversionResult.errors.length > 0) {
+      throw new Error(`Failed to convert content: ${conversionResult.errors.join(", ")}`);
+    }
+    const htmlContent = conversionResult.html;
+
+    logger.debug("HTML conversion result", {
+      htmlLength: htmlContent.length,
+      htmlPreview: htmlContent.substring(0, 100),
+      wordCount: conversionResult.wordCount,
+    });
+
+    // Generate metadata
+    const metadata = generateMetadata({
+      title,
+      htmlContent,
+      publishNow,
+      customSlug,
+      language,
+    });
+
+    return { htmlContent, metadata, conversionResult };
+  }
+
+  /**
+   * Compare the collection's fields in Webflow with the fields submissions write
+   */
+  checkSchema(): Promise<SchemaStatus> {
+    return this.schema.check();
+  }
+
+  /**
+   * Result of the last schema check, if any
+   */
+  get schemaStatus(): SchemaStatus | undefined {
+    return this.schema.status;
+  }
+
+  /**
+   * Result of the last schema check, checked again first when it found problems a while ago.
+   * Submissions are refused while the result is "incompatible".
+   */
+  currentSchemaStatus(): Promise<SchemaStatus | undefined> {
+    return this.schema.current();
+  }
+
   /**
    * Test CMS operations
    */
@@ -371,4 +1404,97 @@ export class CMSService {
       return false;
     }
   }
+
+  /**
+   * Clean up resources (useful for testing)
+   */
+  destroy(): void {
+    this.slugService.destroy();
+    this.localeSlugServices.forEach((service) => service.destroy());
+  }
+}
+
+const sharedCMSServices = new Map<string, CMSService>();
+
+/**
+ * Shared CMS service of a collection (the default one without a key),
+ * so routes and workers use one slug cache per collection.
+ * With a tenant ID, the collection and Webflow credentials are the tenant's.
+ */
+export function getCMSService(collectionKey?: string, tenantId?: string): CMSService {
+  const tenant = tenantId ? getTenant(tenantId) : undefined;
+  const collection = getCollection(collectionKey, tenant?.collections);
+  const cacheKey = tenant ? `${tenant.id}/${collection.key}` : collection.key;
+  let service = sharedCMSServices.get(cacheKey);
+
+  if (!service) {
+    service = new CMSService(
+      tenant ? createWebflowService(collection.collectionId, tenant.webflow) : undefined,
+      undefined,
+      undefined,
+      undefined,
+      collection,
+      tenant?.id,
+    );
+    sharedCMSServices.set(cacheKey, service);
+  }
+  return service;
+}
+
+/**
+ * Check the schema of every configured collection, the tenants' ones included
+ */
+export function checkCollectionSchemas(): Promise<SchemaStatus[]> {
+  const targets: Array<[string, string | undefined]> = [
+    ...collectionRegistry.collections.keys(),
+  ].map((key) => [key, undefined]);
+  for (const tenant of tenantRegistry?.values() ?? []) {
+    for (const key of tenant.collections.collections.keys()) {
+      targets.push([key, tenant.id]);
+    }
+  }
+
+  return Promise.all(targets.map(([key, tenant]) => getCMSService(key, tenant).checkSchema()));
+}
+
+/**
+ * Results of the schema checks run so far, one per collection
+ */
+export function getSchemaStatuses(): SchemaStatus[] {
+  return [...sharedCMSServices.values()]
+    .map((service) => service.schemaStatus)
+    .filter((status): status is SchemaStatus => !!status);
+}
+
+/**
+ * Language subtag of a locale code, e.g. "fr" for "fr-CA"
+ */
+function languageOf(code: string): string {
+  return code.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Locale recorded on revisions: secondary locales by code, the primary locale unset
+ */
+function revisionLocale(locale?: WebflowLocale): string | undefined {
+  return locale && !locale.isPrimary ? locale.code : undefined;
+}
+
+/**
+ * Value of the featured image field: the uploaded asset, or a linked image for Webflow to import.
+ * An empty URL clears the field.
+ */
+function toImageField(data: ImageFields): WebflowImage | null | undefined {
+  if (data.featuredImageAsset) return data.featuredImageAsset;
+  if (data.featuredImage === undefined) return undefined;
+  if (data.featuredImage === "") return null;
+  return { url: data.featuredImage, alt: data.featuredImageAlt || data.articleTitle || null };
+}
+
+/**
+ * Name and email of whoever submitted a change, as stored on revisions
+ */
+function describeSubmitter(name?: string, email?: string): string {
+  if (name && email) return `${name} <${email}>`;
+  return name || email || "unknown";
 }
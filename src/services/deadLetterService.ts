@@ -0,0 +1,385 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { ConflictError, NotFoundError } from "@utils/errors.ts";
+import type { CMSService } from "@services/cmsService.ts";
+import { getNotificationService, NotificationService } from "@services/notificationService.ts";
+import type { FormData } from "../types/form.ts";
+
+export type DeadLetterStatus = "pending" | "replaying" | "replayed";
+export type DeadLetterSource = "submission" | "job" | "replay";
+
+export interface DeadLetterAttempt {
+  at: string;
+  source: DeadLetterSource;
+  message: string;
+  code?: string;
+  statusCode?: number;
+}
+
+export interface DeadLetter {
+  id: string;
+  status: DeadLetterStatus;
+  data: FormData;
+  publishNow: boolean;
+  itemId?: string; // Set once the item exists, so a replay only publishes it
+  slug?: string;
+  error: Omit<DeadLetterAttempt, "at" | "source">;
+  attempts: DeadLetterAttempt[];
+  requestId?: string;
+  jobId?: string;
+  claimedUntil?: number;
+  createdAt: string;
+  updatedAt: string;
+  replayedAt?: string;
+}
+
+export interface DeadLetterInput {
+  data: FormData;
+  publishNow: boolean;
+  itemId?: string;
+  attempts: Array<Omit<DeadLetterAttempt, "at"> & { at?: string }>;
+  requestId?: string;
+  jobId?: string;
+}
+
+export interface DeadLetterReplayResult {
+  success: boolean;
+  deadLetter: DeadLetter;
+  error?: string;
+}
+
+export interface BulkReplayResult {
+  replayed: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+export interface DeadLetterServiceOptions {
+  claimTimeoutMs?: number;
+  notifications?: NotificationService; // Editors hear about failures in their digest
+}
+
+const DEAD_LETTER_PREFIX = "dead_letters";
+
+/**
+ * Keeps submissions that could not reach Webflow so they can be replayed later
+ */
+export class DeadLetterService {
+  private kv?: Deno.Kv;
+  private readonly claimTimeoutMs: number;
+  private readonly notifications: NotificationService;
+
+  constructor(kv?: Deno.Kv, options: DeadLetterServiceOptions = {}) {
+    this.kv = kv;
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 5 * 60 * 1000; // 5 minutes
+    this.notifications = options.notifications ?? new NotificationService();
+  }
+
+  /**
+   * Persist a failed submission with its error and attempt history
+   */
+  async record(input: DeadLetterInput): Promise<DeadLetter> {
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+
+    const attempts: DeadLetterAttempt[] = input.attempts.map((attempt) => ({
+      ...attempt,
+      at: attempt.at ?? now,
+    }));
+    const last = attempts[attempts.length - 1];
+
+    const deadLetter: DeadLetter = {
+      id: crypto.randomUUID(),
+      status: "pending",
+      data: input.data,
+      publishNow: input.publishNow,
+      itemId: input.itemId,
+      error: {
+        message: last?.message ?? "Unknown error",
+        code: last?.code,
+        statusCode: last?.statusCode,
+      },
+      attempts,
+      requestId: input.requestId,
+      jobId: input.jobId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await kv.set([DEAD_LETTER_PREFIX, deadLetter.id], deadLetter);
+
+    logger.warn("Submission moved to dead-letter store", {
+      deadLetterId: deadLetter.id,
+      requestId: input.requestId,
+      jobId: input.jobId,
+      itemId: input.itemId,
+      title: input.data.articleTitle,
+      error: new Error(deadLetter.error.message),
+    });
+
+    this.notifications.notify({
+      type: "failed",
+      title: input.data.articleTitle,
+      authorName: input.data.authorName,
+      itemId: input.itemId,
+      reason: deadLetter.error.message,
+      reference: deadLetter.id,
+      tenant: input.data.tenant,
+      collection: input.data.collection,
+    });
+
+    return deadLetter;
+  }
+
+  /**
+   * Get a dead letter by ID
+   */
+  async get(id: string): Promise<DeadLetter> {
+    const kv = await this.getStore();
+    const entry = await kv.get<DeadLetter>([DEAD_LETTER_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Dead letter");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * List dead letters, optionally filtered by status, oldest first
+   */
+  async list(status?: DeadLetterStatus): Promise<DeadLetter[]> {
+    const kv = await this.getStore();
+    const records: DeadLetter[] = [];
+
+    for await (const entry of kv.list<DeadLetter>({ prefix: [DEAD_LETTER_PREFIX] })) {
+      if (!status || entry.value.status === status) {
+        records.push(entry.value);
+      }
+    }
+
+    return records.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  }
+
+  /**
+   * Replay a dead letter through the normal CMS path.
+   * Replaying an already replayed entry is a no-op, and an item created by an
+   * earlier attempt is only published, never created again.
+   */
+  async replay(id: string, cmsService: CMSService): Promise<DeadLetterReplayResult> {
+    const kv = await this.getStore();
+    const deadLetter = await this.claim(kv, id);
+
+    if (deadLetter.status === "replayed") {
+      return { success: true, deadLetter };
+    }
+
+    cmsService = cmsService.forTarget(deadLetter.data);
+
+    let itemId = deadLetter.itemId;
+    if (!itemId) {
+      // The submission was announced when it first came in
+      const createResult = await cmsService.createCMSItem(deadLetter.data, !deadLetter.publishNow, {
+        retry: true,
+      });
+
+      if (!createResult.success || !createResult.item) {
+        return await this.recordFailure(kv, deadLetter, {
+          message: createResult.error ?? "Failed to create CMS item",
+          code: createResult.errorCode,
+          statusCode: createResult.statusCode,
+        });
+      }
+
+      // Persist the item ID right away so a failed publish never leads to a second item
+      itemId = createResult.item.id;
+      deadLetter.itemId = itemId;
+      deadLetter.slug = createResult.slug;
+      await this.save(kv, deadLetter);
+    }
+
+    if (deadLetter.publishNow) {
+      const publishResult = await cmsService.publishCMSItem(itemId);
+
+      if (!publishResult.success) {
+        return await this.recordFailure(kv, deadLetter, {
+          message: `Item created but publishing failed: ${publishResult.error}`,
+          code: publishResult.errorCode,
+          statusCode: publishResult.statusCode,
+        });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const replayed: DeadLetter = {
+      ...deadLetter,
+      status: "replayed",
+      claimedUntil: undefined,
+      updatedAt: now,
+      replayedAt: now,
+    };
+    await this.save(kv, replayed);
+
+    logger.info("Dead letter replayed", {
+      deadLetterId: id,
+      itemId: replayed.itemId,
+      attempts: replayed.attempts.length,
+    });
+
+    return { success: true, deadLetter: replayed };
+  }
+
+  /**
+   * Replay several dead letters one after another (all pending entries when no IDs are given)
+   */
+  async replayMany(cmsService: CMSService, ids?: string[]): Promise<BulkReplayResult> {
+    const targets = ids ?? (await this.list("pending")).map((deadLetter) => deadLetter.id);
+    const result: BulkReplayResult = { replayed: [], failed: [], skipped: [] };
+
+    for (const id of targets) {
+      try {
+        const replay = await this.replay(id, cmsService);
+        result[replay.success ? "replayed" : "failed"].push(id);
+      } catch (error) {
+        // Missing or concurrently replayed entries do not stop the batch
+        if (error instanceof NotFoundError || error instanceof ConflictError) {
+          result.skipped.push(id);
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    logger.info("Bulk dead-letter replay finished", {
+      replayed: result.replayed.length,
+      failed: result.failed.length,
+      skipped: result.skipped.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Remove a dead letter without replaying it
+   */
+  async discard(id: string): Promise<DeadLetter> {
+    const kv = await this.getStore();
+    const entry = await kv.get<DeadLetter>([DEAD_LETTER_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Dead letter");
+    }
+    if (this.isClaimed(entry.value)) {
+      throw new ConflictError("Dead letter is being replayed", "deadLetter", { id });
+    }
+
+    const result = await kv.atomic()
+      .check(entry)
+      .delete([DEAD_LETTER_PREFIX, id])
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Dead letter was modified concurrently, please retry", "deadLetter", {
+        id,
+      });
+    }
+
+    logger.info("Dead letter discarded", { deadLetterId: id, itemId: entry.value.itemId });
+
+    return entry.value;
+  }
+
+  /**
+   * Mark an entry as replaying so concurrent replays cannot create duplicates
+   */
+  private async claim(kv: Deno.Kv, id: string): Promise<DeadLetter> {
+    const entry = await kv.get<DeadLetter>([DEAD_LETTER_PREFIX, id]);
+    const deadLetter = entry.value;
+
+    if (!deadLetter) {
+      throw new NotFoundError("Dead letter");
+    }
+    if (deadLetter.status === "replayed") {
+      return deadLetter;
+    }
+    if (this.isClaimed(deadLetter)) {
+      throw new ConflictError("Dead letter is already being replayed", "deadLetter", { id });
+    }
+
+    const claimed: DeadLetter = {
+      ...deadLetter,
+      status: "replaying",
+      claimedUntil: Date.now() + this.claimTimeoutMs,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set([DEAD_LETTER_PREFIX, id], claimed)
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Dead letter is already being replayed", "deadLetter", { id });
+    }
+
+    return claimed;
+  }
+
+  private async recordFailure(
+    kv: Deno.Kv,
+    deadLetter: DeadLetter,
+    failure: Omit<DeadLetterAttempt, "at" | "source">,
+  ): Promise<DeadLetterReplayResult> {
+    const updated: DeadLetter = {
+      ...deadLetter,
+      status: "pending",
+      claimedUntil: undefined,
+      error: failure,
+      attempts: [
+        ...deadLetter.attempts,
+        { at: new Date().toISOString(), source: "replay", ...failure },
+      ],
+    };
+    await this.save(kv, updated);
+
+    logger.warn("Dead letter replay failed", {
+      deadLetterId: deadLetter.id,
+      itemId: deadLetter.itemId,
+      attempts: updated.attempts.length,
+      error: new Error(failure.message),
+    });
+
+    return { success: false, deadLetter: updated, error: failure.message };
+  }
+
+  private isClaimed(deadLetter: DeadLetter): boolean {
+    return deadLetter.status === "replaying" && !!deadLetter.claimedUntil &&
+      deadLetter.claimedUntil > Date.now();
+  }
+
+  private async save(kv: Deno.Kv, deadLetter: DeadLetter): Promise<void> {
+    deadLetter.updatedAt = new Date().toISOString();
+    await kv.set([DEAD_LETTER_PREFIX, deadLetter.id], deadLetter);
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
+
+let sharedDeadLetterService: DeadLetterService | undefined;
+
+/**
+ * Shared dead-letter store, so submissions failed in a route or given up by the job worker
+ * notify editors the same way
+ */
+export function getDeadLetterService(): DeadLetterService {
+  sharedDeadLetterService ??= new DeadLetterService(undefined, {
+    notifications: getNotificationService(),
+  });
+  return sharedDeadLetterService;
+}
@@ -0,0 +1,154 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { AuthorizationError, ConflictError, NotFoundError } from "@utils/errors.ts";
+import { generateToken, getKv, hashToken, timingSafeEqual } from "@utils/kv.ts";
+import type { DraftFormData } from "@utils/validation.ts";
+
+export interface DraftRecord {
+  id: string;
+  data: DraftFormData;
+  resumeTokenHash: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface DraftCreateResult {
+  draft: DraftRecord;
+  resumeToken: string;
+}
+
+export interface DraftServiceOptions {
+  ttlMs?: number;
+}
+
+const DRAFT_PREFIX = "drafts";
+
+/**
+ * Server-side draft storage backed by Deno KV.
+ * Each draft is readable only with the resume token returned at creation.
+ */
+export class DraftService {
+  private kv?: Deno.Kv;
+  private readonly ttlMs: number;
+
+  constructor(kv?: Deno.Kv, options: DraftServiceOptions = {}) {
+    this.kv = kv;
+    this.ttlMs = options.ttlMs ?? config.DRAFT_TTL_MS;
+  }
+
+  /**
+   * Save a new draft and issue its resume token
+   */
+  async createDraft(data: DraftFormData): Promise<DraftCreateResult> {
+    const kv = await this.getStore();
+    const resumeToken = generateToken();
+    const now = new Date();
+
+    const draft: DraftRecord = {
+      id: crypto.randomUUID(),
+      data,
+      resumeTokenHash: await hashToken(resumeToken),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+    };
+
+    await kv.set([DRAFT_PREFIX, draft.id], draft, { expireIn: this.ttlMs });
+
+    logger.info("Draft created", {
+      draftId: draft.id,
+      fields: Object.keys(data),
+      expiresAt: draft.expiresAt,
+    });
+
+    return { draft, resumeToken };
+  }
+
+  /**
+   * Load a draft, verifying the resume token
+   */
+  async getDraft(id: string, resumeToken: string): Promise<DraftRecord> {
+    const entry = await this.getEntry(id, resumeToken);
+    return entry.value;
+  }
+
+  /**
+   * Merge new field values into a draft and extend its expiry
+   */
+  async updateDraft(
+    id: string,
+    resumeToken: string,
+    data: DraftFormData,
+  ): Promise<DraftRecord> {
+    const kv = await this.getStore();
+    const entry = await this.getEntry(id, resumeToken);
+    const now = new Date();
+
+    const draft: DraftRecord = {
+      ...entry.value,
+      data: { ...entry.value.data, ...data },
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+    };
+
+    // Guard against a concurrent save overwriting this one
+    const result = await kv.atomic()
+      .check(entry)
+      .set([DRAFT_PREFIX, id], draft, { expireIn: this.ttlMs })
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Draft was modified concurrently, please retry", "draft", {
+        draftId: id,
+      });
+    }
+
+    logger.info("Draft updated", {
+      draftId: id,
+      fields: Object.keys(data),
+    });
+
+    return draft;
+  }
+
+  /**
+   * Delete a draft
+   */
+  async deleteDraft(id: string, resumeToken: string): Promise<void> {
+    const kv = await this.getStore();
+    await this.getEntry(id, resumeToken);
+    await kv.delete([DRAFT_PREFIX, id]);
+
+    logger.info("Draft deleted", { draftId: id });
+  }
+
+  private async getEntry(
+    id: string,
+    resumeToken: string,
+  ): Promise<Deno.KvEntry<DraftRecord>> {
+    const kv = await this.getStore();
+    const entry = await kv.get<DraftRecord>([DRAFT_PREFIX, id]);
+
+    // KV expiry is lazy, so also honor the recorded expiry time
+    if (!entry.value || Date.parse(entry.value.expiresAt) <= Date.now()) {
+      throw new NotFoundError("Draft");
+    }
+
+    const tokenHash = await hashToken(resumeToken);
+    if (!timingSafeEqual(tokenHash, entry.value.resumeTokenHash)) {
+      logger.warn("Invalid draft resume token", { draftId: id });
+      throw new AuthorizationError("Invalid resume token");
+    }
+
+    return entry as Deno.KvEntry<DraftRecord>;
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
@@ -0,0 +1,213 @@
+/// <reference lib="deno.ns" />
+import { config } from "@config/index.ts";
+import { logger } from "@utils/logger.ts";
+import { generateToken, getKv } from "@utils/kv.ts";
+import { fromBase64Url, hmacSignBase64Url, hmacVerifyBase64Url, toBase64Url } from "@utils/hmac.ts";
+import { AuthenticationError, AuthorizationError } from "@utils/errors.ts";
+
+export interface EditTokenClaims {
+  jti: string; // Token ID, used for revocation
+  itemId: string;
+  emailHash: string; // Keyed hash of the author email
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedEditToken {
+  token: string;
+  expiresAt: string;
+}
+
+export interface AuthorItem {
+  itemId: string;
+  slug?: string;
+  title: string;
+  createdAt: string;
+}
+
+export interface EditTokenServiceOptions {
+  secret?: string;
+  ttlMs?: number;
+}
+
+const REVOKED_TOKEN_PREFIX = "edit_tokens_revoked";
+const REVOKED_ITEM_PREFIX = "edit_tokens_revoked_items";
+const AUTHOR_ITEMS_PREFIX = "author_items";
+
+// Used when EDIT_TOKEN_SECRET is not configured outside production; tokens then only last until
+// restart
+let fallbackSecret: string | undefined;
+
+function getDefaultSecret(): string {
+  if (config.EDIT_TOKEN_SECRET) return config.EDIT_TOKEN_SECRET;
+
+  if (!fallbackSecret) {
+    fallbackSecret = generateToken();
+    logger.warn("EDIT_TOKEN_SECRET is not set; edit tokens will not survive a restart");
+  }
+  return fallbackSecret;
+}
+
+/**
+ * Signed, expiring tokens that let authors edit their own articles.
+ * A token is an HMAC over the item ID and author email, so it cannot be moved to another item.
+ */
+export class EditTokenService {
+  private kv?: Deno.Kv;
+  private readonly secret: string;
+  private readonly ttlMs: number;
+
+  constructor(kv?: Deno.Kv, options: EditTokenServiceOptions = {}) {
+    this.kv = kv;
+    this.secret = options.secret ?? getDefaultSecret();
+    this.ttlMs = options.ttlMs ?? config.EDIT_TOKEN_TTL_MS;
+  }
+
+  /**
+   * Issue an edit token for an item and its author
+   */
+  async issue(itemId: string, authorEmail: string): Promise<IssuedEditToken> {
+    const now = Date.now();
+    const claims: EditTokenClaims = {
+      jti: crypto.randomUUID(),
+      itemId,
+      emailHash: await this.hashEmail(authorEmail),
+      iat: now,
+      exp: now + this.ttlMs,
+    };
+
+    const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+    const signature = await hmacSignBase64Url(this.secret, payload);
+
+    return {
+      token: `${payload}.${signature}`,
+      expiresAt: new Date(claims.exp).toISOString(),
+    };
+  }
+
+  /**
+   * Verify a token and, when given, that it belongs to the item
+   */
+  async verify(token: string, itemId?: string): Promise<EditTokenClaims> {
+    const claims = await this.decode(token);
+
+    if (claims.exp <= Date.now()) {
+      throw new AuthenticationError("Edit token has expired");
+    }
+
+    const kv = await this.getStore();
+    const [revokedToken, revokedItem] = await kv.getMany<[string, number]>([
+      [REVOKED_TOKEN_PREFIX, claims.jti],
+      [REVOKED_ITEM_PREFIX, claims.itemId],
+    ]);
+
+    if (revokedToken.value || (revokedItem.value && claims.iat <= revokedItem.value)) {
+      throw new AuthenticationError("Edit token has been revoked");
+    }
+
+    if (itemId && claims.itemId !== itemId) {
+      throw new AuthorizationError("Edit token is not valid for this item", { itemId });
+    }
+
+    return claims;
+  }
+
+  /**
+   * Whether the item's tokens were revoked; no new tokens are handed out for such an item
+   */
+  async isItemRevoked(itemId: string): Promise<boolean> {
+    const kv = await this.getStore();
+    const revoked = await kv.get<number>([REVOKED_ITEM_PREFIX, itemId]);
+    return revoked.value !== null;
+  }
+
+  /**
+   * Revoke a single token
+   */
+  async revoke(token: string): Promise<EditTokenClaims> {
+    const claims = await this.verify(token);
+    const kv = await this.getStore();
+
+    await kv.set([REVOKED_TOKEN_PREFIX, claims.jti], claims.itemId, {
+      expireIn: Math.max(claims.exp - Date.now(), 1),
+    });
+
+    logger.info("Edit token revoked", { itemId: claims.itemId, tokenId: claims.jti });
+
+    return claims;
+  }
+
+  /**
+   * Revoke every token issued so far for an item
+   */
+  async revokeItem(itemId: string): Promise<void> {
+    const kv = await this.getStore();
+    await kv.set([REVOKED_ITEM_PREFIX, itemId], Date.now());
+
+    logger.info("All edit tokens revoked for item", { itemId });
+  }
+
+  /**
+   * Remember that an author submitted an item, for the author's article list
+   */
+  async recordAuthorItem(
+    authorEmail: string,
+    item: Omit<AuthorItem, "createdAt">,
+  ): Promise<void> {
+    const kv = await this.getStore();
+    const emailHash = await this.hashEmail(authorEmail);
+
+    await kv.set(
+      [AUTHOR_ITEMS_PREFIX, emailHash, item.itemId],
+      {
+        ...item,
+        createdAt: new Date().toISOString(),
+      } satisfies AuthorItem,
+    );
+  }
+
+  /**
+   * List the items submitted by the author a token belongs to, newest first
+   */
+  async listAuthorItems(emailHash: string): Promise<AuthorItem[]> {
+    const kv = await this.getStore();
+    const items: AuthorItem[] = [];
+
+    for await (const entry of kv.list<AuthorItem>({ prefix: [AUTHOR_ITEMS_PREFIX, emailHash] })) {
+      items.push(entry.value);
+    }
+
+    return items.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  private async decode(token: string): Promise<EditTokenClaims> {
+    const [payload, signature, extra] = token.split(".");
+
+    if (!payload || !signature || extra !== undefined) {
+      throw new AuthenticationError("Invalid edit token");
+    }
+    if (!(await hmacVerifyBase64Url(this.secret, payload, signature))) {
+      throw new AuthenticationError("Invalid edit token");
+    }
+
+    try {
+      return JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as EditTokenClaims;
+    } catch {
+      throw new AuthenticationError("Invalid edit token");
+    }
+  }
+
+  /**
+   * Keyed hash so author emails are never stored or exposed in tokens
+   */
+  private hashEmail(email: string): Promise<string> {
+    return hmacSignBase64Url(this.secret, `email:${email.trim().toLowerCase()}`);
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
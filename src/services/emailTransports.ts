@@ -0,0 +1,137 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { addressOf, buildMimeMessage, type MimeMessage } from "@utils/mime.ts";
+import { sendSmtp, type SmtpOptions } from "@utils/smtp.ts";
+import { ExternalServiceError } from "@utils/errors.ts";
+
+export type EmailMessage = MimeMessage;
+
+/**
+ * Sends notification emails. Implementations throw on failure; errors that retry()
+ * considers transient (ExternalServiceError, TimeoutError, 5xx statuses) are retried.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportName = "none" | "console" | "file" | "smtp" | "http";
+
+/**
+ * Delivers through an SMTP server
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await sendSmtp(
+      this.options,
+      { from: addressOf(message.from), to: message.to.map(addressOf) },
+      buildMimeMessage(message),
+    );
+  }
+}
+
+/**
+ * Logs messages instead of sending them, for development
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  send(message: EmailMessage): Promise<void> {
+    logger.info("Email (console transport)", {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Writes each message as an .eml file that mail clients can open, for development
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await Deno.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const path = `${this.dir}/${stamp}-${crypto.randomUUID().slice(0, 8)}.eml`;
+    await Deno.writeTextFile(path, buildMimeMessage(message));
+    logger.debug("Email written to file", { path, to: message.to, subject: message.subject });
+  }
+}
+
+/**
+ * POSTs each message as JSON, e.g. to a local mail catcher standing in for SMTP in tests
+ */
+export class HttpTransport implements EmailTransport {
+  readonly name = "http";
+
+  constructor(
+    private readonly url: string,
+    private readonly fetchFn: typeof fetch = fetch,
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+      });
+    } catch (error) {
+      throw new ExternalServiceError(
+        "mail-http",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw Object.assign(new Error(`Mail endpoint responded with ${response.status}`), {
+        status: response.status,
+      });
+    }
+  }
+}
+
+/**
+ * Transport selected by NOTIFY_TRANSPORT; undefined when notifications are off
+ */
+export function createEmailTransport(
+  name: EmailTransportName = config.NOTIFY_TRANSPORT,
+): EmailTransport | undefined {
+  switch (name) {
+    case "none":
+      return undefined;
+    case "console":
+      return new ConsoleTransport();
+    case "file":
+      return new FileTransport(config.NOTIFY_FILE_DIR);
+    case "smtp":
+      if (!config.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required when NOTIFY_TRANSPORT is smtp");
+      }
+      return new SmtpTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        username: config.SMTP_USERNAME || undefined,
+        password: config.SMTP_PASSWORD || undefined,
+      });
+    case "http":
+      if (!config.NOTIFY_HTTP_URL) {
+        throw new Error("NOTIFY_HTTP_URL is required when NOTIFY_TRANSPORT is http");
+      }
+      return new HttpTransport(config.NOTIFY_HTTP_URL);
+  }
+}
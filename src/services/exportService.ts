@@ -0,0 +1,256 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { hashToken } from "@utils/kv.ts";
+import { htmlToMarkdown, stringifyFrontMatter } from "@utils/markdown.ts";
+import { createWebflowService, type WebflowService } from "@services/webflowService.ts";
+import type { WebflowCollectionItem } from "../types/webflow.ts";
+
+export interface ExportOptions {
+  markdown?: boolean; // Also write a Markdown file per item
+  pageSize?: number;
+}
+
+export interface ExportManifestFile {
+  path: string; // Relative to the export directory
+  itemId: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface ExportManifest {
+  exportedAt: string;
+  itemCount: number;
+  markdown: boolean;
+  files: ExportManifestFile[];
+}
+
+/**
+ * How many snapshots to keep; a snapshot is removed when it falls outside either limit
+ */
+export interface RetentionPolicy {
+  keep?: number; // Newest snapshots to keep
+  maxAgeDays?: number;
+}
+
+export interface SnapshotResult {
+  path: string;
+  manifest: ExportManifest;
+  pruned: string[];
+}
+
+const SNAPSHOT_PREFIX = "snapshot-";
+const SNAPSHOT_PATTERN = /^snapshot-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/;
+
+/**
+ * Export of the whole collection to local files, used by the export command
+ * and by the scheduled backup job
+ */
+export class ExportService {
+  private readonly webflowService: WebflowService;
+
+  constructor(webflowService?: WebflowService) {
+    this.webflowService = webflowService || createWebflowService();
+  }
+
+  /**
+   * Fetch every item in the collection, page by page
+   */
+  async fetchAllItems(pageSize = 100): Promise<WebflowCollectionItem[]> {
+    const items: WebflowCollectionItem[] = [];
+
+    for (let offset = 0;; offset += pageSize) {
+      const response = await this.webflowService.getCollectionItems({
+        limit: pageSize,
+        offset: String(offset),
+      });
+      const page = response.items ?? [];
+      items.push(...page);
+
+      const total = response.pagination?.total ?? 0;
+      if (page.length < pageSize || items.length >= total) break;
+    }
+
+    return items;
+  }
+
+  /**
+   * Write every item as JSON (and optionally Markdown) plus a manifest with checksums
+   */
+  async exportCollection(dir: string, options: ExportOptions = {}): Promise<ExportManifest> {
+    const { markdown = false, pageSize = 100 } = options;
+    const items = await this.fetchAllItems(pageSize);
+    const files: ExportManifestFile[] = [];
+    const usedNames = new Set<string>();
+
+    await Deno.mkdir(`${dir}/items`, { recursive: true });
+    if (markdown) {
+      await Deno.mkdir(`${dir}/markdown`, { recursive: true });
+    }
+
+    for (const item of items) {
+      const name = fileName(item, usedNames);
+
+      files.push(
+        await writeFile(dir, `items/${name}.json`, item.id, JSON.stringify(item, null, 2) + "\n"),
+      );
+
+      if (markdown) {
+        files.push(await writeFile(dir, `markdown/${name}.md`, item.id, itemToMarkdown(item)));
+      }
+    }
+
+    const manifest: ExportManifest = {
+      exportedAt: new Date().toISOString(),
+      itemCount: items.length,
+      markdown,
+      files,
+    };
+    await Deno.writeTextFile(`${dir}/manifest.json`, JSON.stringify(manifest, null, 2) + "\n");
+
+    logger.info("Collection exported", { dir, items: items.length, files: files.length });
+
+    return manifest;
+  }
+
+  /**
+   * Export into a new timestamped directory under `rootDir`, then prune old snapshots.
+   * The export is written to a temporary directory first so a failed run never
+   * leaves a partial snapshot behind.
+   */
+  async createSnapshot(
+    rootDir: string,
+    options: ExportOptions & { retention?: RetentionPolicy; now?: Date } = {},
+  ): Promise<SnapshotResult> {
+    const now = options.now ?? new Date();
+    const name = SNAPSHOT_PREFIX + now.toISOString().replace(/[:.]/g, "-");
+    const path = `${rootDir}/${name}`;
+    const partial = `${rootDir}/.${name}.partial`;
+
+    await Deno.mkdir(rootDir, { recursive: true });
+
+    let manifest: ExportManifest;
+    try {
+      manifest = await this.exportCollection(partial, options);
+      await Deno.rename(partial, path);
+    } catch (error) {
+      await Deno.remove(partial, { recursive: true }).catch(() => {});
+      throw error;
+    }
+
+    const pruned = options.retention
+      ? await this.pruneSnapshots(rootDir, options.retention, now)
+      : [];
+
+    logger.info("Backup snapshot created", {
+      path,
+      items: manifest.itemCount,
+      pruned: pruned.length,
+    });
+
+    return { path, manifest, pruned };
+  }
+
+  /**
+   * Remove snapshots outside the retention policy. The newest snapshot is always kept.
+   * Returns the names of the removed snapshots.
+   */
+  async pruneSnapshots(
+    rootDir: string,
+    retention: RetentionPolicy,
+    now = new Date(),
+  ): Promise<string[]> {
+    const snapshots: { name: string; createdAt: number }[] = [];
+
+    for await (const entry of Deno.readDir(rootDir)) {
+      const createdAt = entry.isDirectory ? snapshotTime(entry.name) : undefined;
+      if (createdAt !== undefined) {
+        snapshots.push({ name: entry.name, createdAt });
+      }
+    }
+
+    snapshots.sort((a, b) => b.createdAt - a.createdAt);
+
+    const cutoff = retention.maxAgeDays !== undefined
+      ? now.getTime() - retention.maxAgeDays * 24 * 60 * 60 * 1000
+      : undefined;
+
+    const expired = snapshots.filter((snapshot, index) =>
+      index > 0 &&
+      ((retention.keep !== undefined && index >= retention.keep) ||
+        (cutoff !== undefined && snapshot.createdAt < cutoff))
+    );
+
+    for (const snapshot of expired) {
+      await Deno.remove(`${rootDir}/${snapshot.name}`, { recursive: true });
+    }
+
+    if (expired.length > 0) {
+      logger.info("Old backup snapshots removed", {
+        rootDir,
+        removed: expired.map((snapshot) => snapshot.name),
+      });
+    }
+
+    return expired.map((snapshot) => snapshot.name);
+  }
+}
+
+/**
+ * Markdown document for an item: front matter with the item fields and the `post` body
+ */
+export function itemToMarkdown(item: WebflowCollectionItem): string {
+  const { post, ...fields } = item.fieldData;
+  const attributes: Record<string, unknown> = {
+    id: item.id,
+    title: fields.name,
+    slug: fields.slug,
+    author: fields["author-name"],
+    description: fields["meta-description"],
+    draft: item.isDraft,
+    archived: item.isArchived,
+    createdOn: item.createdOn,
+    lastUpdated: item.lastUpdated,
+    lastPublished: item.lastPublished,
+  };
+
+  // Remaining scalar and list fields are kept under their Webflow names
+  for (const [key, value] of Object.entries(fields)) {
+    if (["name", "slug", "author-name", "meta-description"].includes(key)) continue;
+    if (["string", "number", "boolean"].includes(typeof value) || Array.isArray(value)) {
+      attributes[key] = value;
+    }
+  }
+
+  return stringifyFrontMatter(attributes, typeof post === "string" ? htmlToMarkdown(post) : "");
+}
+
+function fileName(item: WebflowCollectionItem, usedNames: Set<string>): string {
+  const slug = String(item.fieldData?.slug ?? "").replace(/[^a-z0-9-]/gi, "");
+  const name = slug && !usedNames.has(slug) ? slug : item.id;
+  usedNames.add(name);
+  return name;
+}
+
+async function writeFile(
+  dir: string,
+  path: string,
+  itemId: string,
+  content: string,
+): Promise<ExportManifestFile> {
+  await Deno.writeTextFile(`${dir}/${path}`, content);
+  return {
+    path,
+    itemId,
+    bytes: new TextEncoder().encode(content).length,
+    sha256: await hashToken(content),
+  };
+}
+
+function snapshotTime(name: string): number | undefined {
+  const match = name.match(SNAPSHOT_PATTERN);
+  if (!match) return undefined;
+
+  const [, date, hours, minutes, seconds, millis] = match;
+  const time = Date.parse(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  return Number.isNaN(time) ? undefined : time;
+}
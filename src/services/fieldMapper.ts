@@ -30,8 +30,7 @@ export interface WebflowFieldData {
   "featured-image"?: string;
   categories?: string[];
   tags?: string[];
-  "author-email"?: string;
-  "author-phone"?: string;
+  author?: string; // Item ID of the author's profile in the Authors collection
 }
 
 /**
@@ -65,8 +64,6 @@ const FIELD_MAPPING = {
   featuredImage: "featured-image",
   categories: "categories",
   tags: "tags",
-  authorEmail: "author-email",
-  authorPhone: "author-phone",
 } as const;
 
 /**
@@ -89,12 +86,13 @@ const FIELD_LENGTH_LIMITS = {
   slug: 256,
   "reading-time": 50,
   "intro-text": 300,
-  "author-email": 256,
-  "author-phone": 50,
 } as const;
 
 /**
- * Map form data and metadata to Webflow CMS fields
+ * Map form data and metadata to Webflow CMS fields.
+ * `references` holds the item IDs categories, tags and the author resolved to; reference
+ * fields take those in place of the submitted names. The author's email and phone are
+ * never mapped, as article fields are public.
  */
 export function mapToWebflowFields(
   formData: FormData,
@@ -103,9 +101,10 @@ export function mapToWebflowFields(
   options: {
     isUpdate?: boolean;
     includeOptionalFields?: boolean;
+    references?: { categories?: string[]; tags?: string[]; author?: string };
   } = {},
 ): WebflowCmsItem {
-  const { isUpdate = false, includeOptionalFields = true } = options;
+  const { isUpdate = false, includeOptionalFields = true, references = {} } = options;
 
   // Start with required fields
   const fieldData: Partial<WebflowFieldData> = {
@@ -133,11 +132,13 @@ export function mapToWebflowFields(
   // Add optional fields if they exist
   if (includeOptionalFields) {
     // Categories and tags
-    if (formData.categories && formData.categories.length > 0) {
-      fieldData.categories = formData.categories;
+    const categories = references.categories ?? formData.categories;
+    if (categories && categories.length > 0) {
+      fieldData.categories = categories;
     }
-    if (formData.tags && formData.tags.length > 0) {
-      fieldData.tags = formData.tags;
+    const tags = references.tags ?? formData.tags;
+    if (tags && tags.length > 0) {
+      fieldData.tags = tags;
     }
 
     // Featured image
@@ -145,12 +146,9 @@ export function mapToWebflowFields(
       fieldData["featured-image"] = formData.featuredImage;
     }
 
-    // Author contact info
-    if (formData.authorEmail) {
-      fieldData["author-email"] = formData.authorEmail;
-    }
-    if (formData.authorPhone) {
-      fieldData["author-phone"] = formData.authorPhone;
+    // Author profile
+    if (references.author) {
+      fieldData.author = references.author;
     }
   }
 
@@ -0,0 +1,126 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+
+export interface StoredResponse {
+  status: number;
+  body: string;
+  contentType?: string;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  bodyHash: string;
+  state: "in_progress" | "completed";
+  response?: StoredResponse;
+  createdAt: string;
+}
+
+export type IdempotencyBeginResult =
+  | { outcome: "started" }
+  | { outcome: "replay"; response: StoredResponse }
+  | { outcome: "in_progress" }
+  | { outcome: "mismatch" };
+
+export interface IdempotencyServiceOptions {
+  ttlMs?: number;
+  lockTimeoutMs?: number;
+}
+
+const IDEMPOTENCY_PREFIX = "idempotency";
+
+/**
+ * Stores the first response for an idempotency key so retries can be replayed
+ */
+export class IdempotencyService {
+  private kv?: Deno.Kv;
+  private readonly ttlMs: number;
+  private readonly lockTimeoutMs: number;
+
+  constructor(kv?: Deno.Kv, options: IdempotencyServiceOptions = {}) {
+    this.kv = kv;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000; // 24 hours
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 60 * 1000; // 1 minute
+  }
+
+  /**
+   * Claim a key for a request, or report how an earlier request with it ended
+   */
+  async begin(key: string, bodyHash: string, ttlMs = this.ttlMs): Promise<IdempotencyBeginResult> {
+    const kv = await this.getStore();
+    const entry = await kv.get<IdempotencyRecord>([IDEMPOTENCY_PREFIX, key]);
+    const existing = entry.value;
+
+    if (existing) {
+      if (existing.bodyHash !== bodyHash) {
+        return { outcome: "mismatch" };
+      }
+      if (existing.state === "completed" && existing.response) {
+        return { outcome: "replay", response: existing.response };
+      }
+
+      // A stale in-progress claim (crashed request) may be taken over
+      const lockAge = Date.now() - Date.parse(existing.createdAt);
+      if (lockAge < this.lockTimeoutMs) {
+        return { outcome: "in_progress" };
+      }
+    }
+
+    const record: IdempotencyRecord = {
+      key,
+      bodyHash,
+      state: "in_progress",
+      createdAt: new Date().toISOString(),
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set([IDEMPOTENCY_PREFIX, key], record, { expireIn: ttlMs })
+      .commit();
+
+    // Another request claimed the key between our read and write
+    if (!result.ok) {
+      return { outcome: "in_progress" };
+    }
+
+    return { outcome: "started" };
+  }
+
+  /**
+   * Store the response for a claimed key
+   */
+  async complete(
+    key: string,
+    bodyHash: string,
+    response: StoredResponse,
+    ttlMs = this.ttlMs,
+  ): Promise<void> {
+    const kv = await this.getStore();
+    const record: IdempotencyRecord = {
+      key,
+      bodyHash,
+      state: "completed",
+      response,
+      createdAt: new Date().toISOString(),
+    };
+
+    await kv.set([IDEMPOTENCY_PREFIX, key], record, { expireIn: ttlMs });
+
+    logger.debug("Idempotent response stored", { key, status: response.status });
+  }
+
+  /**
+   * Release a claimed key without storing a response so the request can be retried
+   */
+  async release(key: string): Promise<void> {
+    const kv = await this.getStore();
+    await kv.delete([IDEMPOTENCY_PREFIX, key]);
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
@@ -0,0 +1,142 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { ValidationError } from "@utils/errors.ts";
+import { decodeDataUri, type ImageLimits, isDataUri, validateImage } from "@utils/images.ts";
+import { generateSlug } from "@utils/slugGenerator.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { WebflowImage } from "../types/webflow.ts";
+import type { QuillDelta } from "../types/form.ts";
+
+/**
+ * Fields of a submission or update that can carry images
+ */
+export interface ImageFields {
+  articleTitle?: string;
+  articleContent?: QuillDelta;
+  featuredImage?: string;
+  featuredImageAlt?: string;
+  featuredImageAsset?: WebflowImage;
+}
+
+/**
+ * Stores images sent inline as `data:` URIs in the site's Webflow Assets and points the
+ * submission at the hosted files. Images are checked again here, since not every caller
+ * goes through the request validation (e.g. the bulk import).
+ */
+export class ImageService {
+  private readonly limits: ImageLimits;
+
+  constructor(private readonly webflowService: WebflowService, limits?: ImageLimits) {
+    this.limits = limits ?? {
+      maxBytes: config.IMAGE_MAX_BYTES,
+      maxWidth: config.IMAGE_MAX_WIDTH,
+      maxHeight: config.IMAGE_MAX_HEIGHT,
+    };
+  }
+
+  /**
+   * Whether the data still holds images to upload
+   */
+  hasPendingImages(data: ImageFields): boolean {
+    return (!!data.featuredImage && isDataUri(data.featuredImage)) ||
+      (data.articleContent?.ops ?? []).some((op) =>
+        typeof op.insert === "object" && typeof op.insert.image === "string" &&
+        isDataUri(op.insert.image)
+      );
+  }
+
+  /**
+   * Upload the featured image and embedded images given as `data:` URIs. Returns the data
+   * with the hosted URLs in their place and `featuredImageAsset` set for an uploaded featured
+   * image; data without such images is returned as is. The same image is uploaded once.
+   */
+  async uploadImages<T extends ImageFields>(data: T): Promise<T> {
+    if (!this.hasPendingImages(data)) return data;
+
+    const baseName = data.articleTitle ? generateSlug(data.articleTitle).slice(0, 60) : "";
+    const uploads = new Map<string, Promise<string>>();
+    const result: T = { ...data };
+    let count = 0;
+
+    const upload = (uri: string, field: string, name: string) => {
+      let hosted = uploads.get(uri);
+      if (!hosted) {
+        hosted = this.uploadImage(uri, field, name).then((asset) => asset.url);
+        uploads.set(uri, hosted);
+        count++;
+      }
+      return hosted;
+    };
+
+    if (data.featuredImage && isDataUri(data.featuredImage)) {
+      const asset = await this.uploadImage(
+        data.featuredImage,
+        "featuredImage",
+        [baseName, "featured"].filter(Boolean).join("-"),
+      );
+      uploads.set(data.featuredImage, Promise.resolve(asset.url));
+      count++;
+
+      result.featuredImage = asset.url;
+      result.featuredImageAsset = {
+        fileId: asset.fileId,
+        url: asset.url,
+        alt: data.featuredImageAlt || data.articleTitle || null,
+      };
+    }
+
+    if (data.articleContent?.ops) {
+      const ops = [];
+      for (const [index, op] of data.articleContent.ops.entries()) {
+        const image = typeof op.insert === "object" ? op.insert.image : undefined;
+        if (typeof op.insert !== "object" || typeof image !== "string" || !isDataUri(image)) {
+          ops.push(op);
+          continue;
+        }
+
+        const url = await upload(
+          image,
+          `articleContent.ops[${index}].insert.image`,
+          [baseName, `image-${index + 1}`].filter(Boolean).join("-"),
+        );
+        ops.push({ ...op, insert: { ...op.insert, image: url } });
+      }
+      result.articleContent = { ...data.articleContent, ops };
+    }
+
+    logger.info("Uploaded submission images", {
+      title: data.articleTitle,
+      uploaded: count,
+    });
+
+    return result;
+  }
+
+  /**
+   * Validate one image by its content and store it in Webflow Assets
+   */
+  private async uploadImage(
+    uri: string,
+    field: string,
+    name: string,
+  ): Promise<{ fileId: string; url: string }> {
+    const decoded = decodeDataUri(uri);
+    if (!decoded) {
+      throw new ValidationError("Image data must be a base64 data: URI", field);
+    }
+
+    const { image, error } = validateImage(decoded.bytes, this.limits);
+    if (!image) {
+      throw new ValidationError(error, field);
+    }
+
+    const asset = await this.webflowService.uploadAsset({
+      fileName: `${name}.${image.extension}`,
+      bytes: decoded.bytes,
+      contentType: image.mimeType,
+    });
+
+    return { fileId: asset.id, url: asset.url };
+  }
+}
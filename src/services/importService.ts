@@ -0,0 +1,350 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { type CMSService, getCMSService } from "@services/cmsService.ts";
+import { markdownToDelta, parseFrontMatter } from "@utils/markdown.ts";
+import { validateContent, validateFormData } from "@utils/validation.ts";
+import type { FormData } from "../types/form.ts";
+
+/**
+ * One article to import, with its raw fields as read from the source file
+ */
+export interface ImportSource {
+  id: string; // Stable key used to resume, e.g. the file path
+  fields: Record<string, unknown>;
+}
+
+export type ImportArticleStatus = "created" | "validated" | "skipped" | "failed";
+
+export interface ImportArticleResult {
+  id: string;
+  title?: string;
+  status: ImportArticleStatus;
+  itemId?: string;
+  slug?: string;
+  published?: boolean;
+  scheduledFor?: string;
+  errors?: string[];
+  warnings?: string[];
+}
+
+export interface ImportedItem {
+  itemId: string;
+  slug?: string;
+  published: boolean;
+  importedAt: string;
+}
+
+/**
+ * Articles created by earlier runs, keyed by source ID
+ */
+export interface ImportState {
+  items: Record<string, ImportedItem>;
+}
+
+export interface ImportReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  stoppedReason?: string; // Set when the run stopped early and should be resumed
+  totals: Record<ImportArticleStatus | "total", number>;
+  articles: ImportArticleResult[];
+}
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  publish?: boolean; // Publish created items unless they are scheduled
+  batchSize?: number;
+  batchDelayMs?: number; // Pause between batches to stay under the Webflow rate limit
+  minWords?: number;
+  onCheckpoint?: (state: ImportState) => Promise<void> | void;
+  onProgress?: (result: ImportArticleResult) => void;
+}
+
+/**
+ * Bulk import of existing articles through the same pipeline as form submissions.
+ * Items are created one at a time in batches; progress is checkpointed after
+ * every item so an interrupted run can be resumed without duplicates.
+ */
+export class ImportService {
+  private readonly cmsService: CMSService;
+
+  constructor(cmsService?: CMSService) {
+    this.cmsService = cmsService || getCMSService();
+  }
+
+  /**
+   * Import articles, skipping those already recorded in `state`
+   */
+  async run(
+    sources: ImportSource[],
+    state: ImportState,
+    options: ImportOptions = {},
+  ): Promise<ImportReport> {
+    const {
+      dryRun = false,
+      publish = false,
+      batchSize = 5,
+      batchDelayMs = 15000,
+      minWords = 50,
+    } = options;
+
+    const startedAt = new Date().toISOString();
+    const articles: ImportArticleResult[] = [];
+    const plannedSlugs = new Set<string>();
+    let stoppedReason: string | undefined;
+
+    logger.info("Starting article import", {
+      articles: sources.length,
+      alreadyImported: Object.keys(state.items).length,
+      dryRun,
+      publish,
+      batchSize,
+    });
+
+    for (let start = 0; start < sources.length && !stoppedReason; start += batchSize) {
+      const batch = sources.slice(start, start + batchSize);
+      let created = 0;
+
+      for (const source of batch) {
+        const outcome = await this.importOne(source, state, {
+          dryRun,
+          publish,
+          minWords,
+          onCheckpoint: options.onCheckpoint,
+        });
+        const result = outcome.result;
+
+        if (dryRun && result.slug) {
+          if (plannedSlugs.has(result.slug)) {
+            result.warnings = [
+              ...(result.warnings ?? []),
+              `Slug "${result.slug}" is also used by another article in this import`,
+            ];
+          }
+          plannedSlugs.add(result.slug);
+        }
+
+        if (result.status === "created") {
+          created++;
+        }
+
+        articles.push(result);
+        options.onProgress?.(result);
+
+        if (outcome.stop) {
+          stoppedReason = outcome.stop;
+          break;
+        }
+      }
+
+      // Only batches that called Webflow need to wait
+      const more = start + batchSize < sources.length;
+      if (more && !stoppedReason && created > 0 && batchDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, batchDelayMs));
+      }
+    }
+
+    const totals = { total: sources.length, created: 0, validated: 0, skipped: 0, failed: 0 };
+    for (const article of articles) {
+      totals[article.status]++;
+    }
+
+    logger.info("Article import finished", { ...totals, dryRun, stoppedReason });
+
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      dryRun,
+      stoppedReason,
+      totals,
+      articles,
+    };
+  }
+
+  private async importOne(
+    source: ImportSource,
+    state: ImportState,
+    options:
+      & Required<Pick<ImportOptions, "dryRun" | "publish" | "minWords">>
+      & Pick<ImportOptions, "onCheckpoint">,
+  ): Promise<{ result: ImportArticleResult; stop?: string }> {
+    const previous = state.items[source.id];
+    if (previous) {
+      return {
+        result: {
+          id: source.id,
+          status: "skipped",
+          itemId: previous.itemId,
+          slug: previous.slug,
+          published: previous.published,
+        },
+      };
+    }
+
+    const validation = validateImportedArticle(source.fields, options.minWords);
+    const title = validation.data?.articleTitle ??
+      stringField(source.fields, "articleTitle", "title");
+
+    if (!validation.data) {
+      return {
+        result: { id: source.id, title, status: "failed", errors: validation.errors },
+      };
+    }
+
+    const formData = validation.data;
+
+    if (options.dryRun) {
+      const preview = await this.cmsService.previewCMSItem(formData);
+      return {
+        result: {
+          id: source.id,
+          title,
+          status: preview.slugAvailable ? "validated" : "failed",
+          slug: preview.slug,
+          warnings: preview.warnings.length > 0 ? preview.warnings : undefined,
+        },
+      };
+    }
+
+    const createResult = await this.cmsService.createCMSItem(formData, true);
+
+    if (!createResult.success || !createResult.item) {
+      const error = createResult.error ?? "Failed to create CMS item";
+      return {
+        result: { id: source.id, title, status: "failed", errors: [error] },
+        // Stop when Webflow itself is failing; later articles would fail the same way
+        stop: isFatalStatus(createResult.statusCode) ? error : undefined,
+      };
+    }
+
+    const item: ImportedItem = {
+      itemId: createResult.item.id,
+      slug: createResult.slug,
+      published: false,
+      importedAt: new Date().toISOString(),
+    };
+    state.items[source.id] = item;
+
+    // Saved before publishing, so a crash cannot lead to a duplicate on resume
+    await options.onCheckpoint?.(state);
+
+    const warnings: string[] = [];
+    if (createResult.scheduleError) warnings.push(createResult.scheduleError);
+    if (options.publish && !formData.publishAt) {
+      const publishResult = await this.cmsService.publishCMSItem(item.itemId);
+      item.published = publishResult.success;
+      if (publishResult.success) {
+        await options.onCheckpoint?.(state);
+      } else {
+        warnings.push(`Created but not published: ${publishResult.error}`);
+      }
+    }
+
+    return {
+      result: {
+        id: source.id,
+        title,
+        status: "created",
+        itemId: item.itemId,
+        slug: item.slug,
+        published: item.published,
+        scheduledFor: createResult.scheduledFor,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      },
+    };
+  }
+}
+
+/**
+ * Read a Markdown file with front matter into import fields
+ */
+export function parseMarkdownArticle(text: string): Record<string, unknown> {
+  const { attributes, body } = parseFrontMatter(text);
+  return { ...attributes, markdown: body };
+}
+
+/**
+ * Read a JSON array of articles into import fields
+ */
+export function parseJsonArticles(text: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(text);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON import file must contain an array of articles");
+  }
+
+  return parsed.map((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`Article at index ${index} must be an object`);
+    }
+    return entry as Record<string, unknown>;
+  });
+}
+
+/**
+ * Map import fields (form field names or common front matter aliases) to form data
+ * and validate them with the submission rules
+ */
+export function validateImportedArticle(
+  fields: Record<string, unknown>,
+  minWords = 50,
+): { data?: FormData; errors?: string[] } {
+  const markdown = stringField(fields, "markdown", "body", "content");
+  const articleContent = fields.articleContent ??
+    (markdown ? markdownToDelta(markdown) : undefined);
+
+  const candidate = {
+    authorName: stringField(fields, "authorName", "author"),
+    authorEmail: stringField(fields, "authorEmail", "email"),
+    articleTitle: stringField(fields, "articleTitle", "title"),
+    metaDescription: stringField(fields, "metaDescription", "description", "excerpt"),
+    articleContent,
+    slug: stringField(fields, "slug"),
+    categories: listField(fields, "categories"),
+    tags: listField(fields, "tags"),
+    publishAt: stringField(fields, "publishAt"),
+    featuredImage: stringField(fields, "featuredImage", "image"),
+    publishNow: false,
+  };
+
+  const validation = validateFormData(candidate);
+  if (!validation.success || !validation.data) {
+    return {
+      errors: (validation.errors ?? []).map((error) => `${error.field}: ${error.message}`),
+    };
+  }
+
+  const contentValidation = validateContent(validation.data.articleContent, {
+    minWords,
+    validateUrls: true,
+  });
+  if (!contentValidation.success) {
+    return {
+      errors: (contentValidation.errors ?? []).map((error) => `${error.field}: ${error.message}`),
+    };
+  }
+
+  return { data: validation.data };
+}
+
+function stringField(fields: Record<string, unknown>, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = fields[name];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function listField(fields: Record<string, unknown>, name: string): string[] | undefined {
+  const value = fields[name];
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value.trim()) {
+    return value.split(",").map((entry) => entry.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function isFatalStatus(statusCode?: number): boolean {
+  return statusCode === 401 || statusCode === 403 || statusCode === 429 ||
+    (statusCode !== undefined && statusCode >= 500);
+}
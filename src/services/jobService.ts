@@ -0,0 +1,382 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { NotFoundError } from "@utils/errors.ts";
+import { WebflowErrorCode } from "@utils/webflowErrors.ts";
+import type { CMSService } from "@services/cmsService.ts";
+import { DeadLetterService } from "@services/deadLetterService.ts";
+import type { FormData } from "../types/form.ts";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed";
+export type JobStep = "queued" | "creating" | "publishing" | "done";
+
+export interface JobError {
+  message: string;
+  code?: string;
+  statusCode?: number;
+  retryable: boolean;
+}
+
+export interface JobFailure extends JobError {
+  at: string;
+}
+
+export interface JobResult {
+  itemId: string;
+  slug?: string;
+  published: boolean;
+  scheduledFor?: string;
+  scheduleError?: string;
+}
+
+export interface SubmissionJob {
+  id: string;
+  status: JobStatus;
+  step: JobStep;
+  data: FormData;
+  publishNow: boolean;
+  attempts: number;
+  requestId?: string;
+  claimedUntil?: number;
+  result?: JobResult;
+  error?: JobError;
+  failures?: JobFailure[];
+  deadLetterId?: string;
+  editTokenIssuedAt?: string; // The author's edit token is handed out on one poll only
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobServiceOptions {
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  claimTimeoutMs?: number;
+  ttlMs?: number;
+  deadLetterService?: DeadLetterService;
+}
+
+interface JobMessage {
+  type: "submission-job";
+  jobId: string;
+}
+
+const JOB_PREFIX = "jobs";
+
+/**
+ * Durable queue for asynchronous submissions backed by Deno KV.
+ * The job record tracks progress so a retry never creates the item twice.
+ */
+export class JobService {
+  private kv?: Deno.Kv;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly claimTimeoutMs: number;
+  private readonly ttlMs: number;
+  private readonly deadLetterService: DeadLetterService;
+
+  constructor(kv?: Deno.Kv, options: JobServiceOptions = {}) {
+    this.kv = kv;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 5000;
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 5 * 60 * 1000; // 5 minutes
+    this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.deadLetterService = options.deadLetterService ?? new DeadLetterService(kv);
+  }
+
+  /**
+   * Store a submission and queue it for the worker
+   */
+  async enqueue(
+    data: FormData,
+    publishNow: boolean,
+    requestId?: string,
+  ): Promise<SubmissionJob> {
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+
+    const job: SubmissionJob = {
+      id: crypto.randomUUID(),
+      status: "queued",
+      step: "queued",
+      data,
+      publishNow,
+      attempts: 0,
+      requestId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await kv.atomic()
+      .set([JOB_PREFIX, job.id], job, { expireIn: this.ttlMs })
+      .enqueue({ type: "submission-job", jobId: job.id } satisfies JobMessage)
+      .commit();
+
+    logger.info("Submission job queued", {
+      jobId: job.id,
+      requestId,
+      title: data.articleTitle,
+      publishNow,
+    });
+
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async get(jobId: string): Promise<SubmissionJob> {
+    const kv = await this.getStore();
+    const entry = await kv.get<SubmissionJob>([JOB_PREFIX, jobId]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Job");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Mark the author's edit token of a completed job as handed out.
+   * Returns false when it already was, so concurrent polls cannot both receive a token.
+   */
+  async claimEditToken(jobId: string): Promise<boolean> {
+    const kv = await this.getStore();
+    const entry = await kv.get<SubmissionJob>([JOB_PREFIX, jobId]);
+    const job = entry.value;
+
+    if (!job || job.status !== "completed" || job.editTokenIssuedAt) return false;
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([JOB_PREFIX, jobId], { ...job, editTokenIssuedAt: new Date().toISOString() }, {
+        expireIn: this.ttlMs,
+      })
+      .commit();
+
+    return commit.ok;
+  }
+
+  /**
+   * Run a queued job: create the item, then publish it if requested.
+   * Steps that already succeeded on an earlier attempt are skipped.
+   */
+  async process(jobId: string, cmsService: CMSService): Promise<SubmissionJob | null> {
+    const kv = await this.getStore();
+    const job = await this.claim(kv, jobId);
+    if (!job) return null;
+
+    cmsService = cmsService.forTarget(job.data);
+
+    let result = job.result;
+    if (!result) {
+      const createResult = await cmsService.createCMSItem(job.data, !job.publishNow, {
+        retry: job.attempts > 1,
+      });
+
+      if (!createResult.success || !createResult.item) {
+        return await this.recordFailure(kv, job, {
+          message: createResult.error ?? "Failed to create CMS item",
+          code: createResult.errorCode,
+          statusCode: createResult.statusCode,
+          retryable: isRetryableFailure(createResult),
+        });
+      }
+
+      result = {
+        itemId: createResult.item.id,
+        slug: createResult.slug,
+        published: false,
+        scheduledFor: createResult.scheduledFor,
+        scheduleError: createResult.scheduleError,
+      };
+      job.result = result;
+      job.step = job.publishNow ? "publishing" : "done";
+      await this.save(kv, job);
+    }
+
+    if (job.publishNow && !result.published) {
+      const publishResult = await cmsService.publishCMSItem(result.itemId);
+
+      if (!publishResult.success) {
+        return await this.recordFailure(kv, job, {
+          message: `Item created but publishing failed: ${publishResult.error}`,
+          code: publishResult.errorCode,
+          statusCode: publishResult.statusCode,
+          retryable: isRetryableFailure(publishResult),
+        });
+      }
+
+      result.published = true;
+    }
+
+    const now = new Date().toISOString();
+    const completed: SubmissionJob = {
+      ...job,
+      status: "completed",
+      step: "done",
+      claimedUntil: undefined,
+      error: undefined,
+      updatedAt: now,
+      completedAt: now,
+    };
+    await this.save(kv, completed);
+
+    logger.info("Submission job completed", {
+      jobId,
+      requestId: job.requestId,
+      itemId: completed.result?.itemId,
+      attempts: completed.attempts,
+    });
+
+    return completed;
+  }
+
+  /**
+   * Start consuming queued jobs
+   */
+  async listen(cmsService: CMSService): Promise<void> {
+    const kv = await this.getStore();
+
+    await kv.listenQueue(async (message: unknown) => {
+      if (!isJobMessage(message)) return;
+
+      try {
+        await this.process(message.jobId, cmsService);
+      } catch (error) {
+        // Throwing lets KV redeliver the message
+        logger.error("Submission job crashed", {
+          jobId: message.jobId,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Mark a job as processing so concurrent deliveries skip it
+   */
+  private async claim(kv: Deno.Kv, jobId: string): Promise<SubmissionJob | null> {
+    const entry = await kv.get<SubmissionJob>([JOB_PREFIX, jobId]);
+    const job = entry.value;
+    const now = Date.now();
+
+    if (!job || job.status === "completed" || job.status === "failed") return null;
+
+    // Another worker holds the job; look again once its claim expires
+    if (job.status === "processing" && job.claimedUntil && job.claimedUntil > now) {
+      await kv.enqueue({ type: "submission-job", jobId } satisfies JobMessage, {
+        delay: job.claimedUntil - now,
+      });
+      return null;
+    }
+
+    const claimed: SubmissionJob = {
+      ...job,
+      status: "processing",
+      step: job.result ? "publishing" : "creating",
+      attempts: job.attempts + 1,
+      claimedUntil: now + this.claimTimeoutMs,
+      updatedAt: new Date(now).toISOString(),
+    };
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([JOB_PREFIX, jobId], claimed, { expireIn: this.ttlMs })
+      .commit();
+
+    return commit.ok ? claimed : null;
+  }
+
+  /**
+   * Record a failed attempt and schedule a retry while attempts remain.
+   * Jobs that give up are moved to the dead-letter store for replay.
+   */
+  private async recordFailure(
+    kv: Deno.Kv,
+    job: SubmissionJob,
+    error: JobError,
+  ): Promise<SubmissionJob> {
+    const willRetry = error.retryable && job.attempts < this.maxAttempts;
+    const now = new Date().toISOString();
+
+    const failures = [...(job.failures ?? []), { ...error, at: now }];
+
+    let deadLetterId: string | undefined;
+    if (!willRetry) {
+      const deadLetter = await this.deadLetterService.record({
+        data: job.data,
+        publishNow: job.publishNow,
+        itemId: job.result?.itemId,
+        attempts: failures.map(({ at, message, code, statusCode }) => ({
+          at,
+          source: "job" as const,
+          message,
+          code,
+          statusCode,
+        })),
+        requestId: job.requestId,
+        jobId: job.id,
+      });
+      deadLetterId = deadLetter.id;
+    }
+
+    const updated: SubmissionJob = {
+      ...job,
+      status: willRetry ? "queued" : "failed",
+      claimedUntil: undefined,
+      error,
+      failures,
+      deadLetterId,
+      updatedAt: now,
+      completedAt: willRetry ? undefined : now,
+    };
+
+    const atomic = kv.atomic().set([JOB_PREFIX, job.id], updated, { expireIn: this.ttlMs });
+    if (willRetry) {
+      atomic.enqueue({ type: "submission-job", jobId: job.id } satisfies JobMessage, {
+        delay: this.retryDelayMs * 2 ** (job.attempts - 1),
+      });
+    }
+    await atomic.commit();
+
+    logger[willRetry ? "warn" : "error"]("Submission job attempt failed", {
+      jobId: job.id,
+      requestId: job.requestId,
+      attempts: job.attempts,
+      maxAttempts: this.maxAttempts,
+      willRetry,
+      error: new Error(error.message),
+    });
+
+    return updated;
+  }
+
+  private async save(kv: Deno.Kv, job: SubmissionJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await kv.set([JOB_PREFIX, job.id], job, { expireIn: this.ttlMs });
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
+
+/**
+ * Network errors, rate limits and server errors are retried. Anything else, including
+ * failures that never reached Webflow, would fail the same way again.
+ */
+function isRetryableFailure(result: { statusCode?: number; errorCode?: string }): boolean {
+  if (result.errorCode === WebflowErrorCode.NETWORK_ERROR) return true;
+  return result.statusCode === 429 || (result.statusCode ?? 0) >= 500;
+}
+
+function isJobMessage(message: unknown): message is JobMessage {
+  return typeof message === "object" && message !== null &&
+    (message as JobMessage).type === "submission-job" &&
+    typeof (message as JobMessage).jobId === "string";
+}
@@ -30,6 +30,7 @@ export interface MetadataOptions {
   publishNow?: boolean;
   customSlug?: string;
   existingSlugs?: string[];
+  language?: string; // Locale code of the content; reading time and intro text follow its rules
 }
 
 /**
@@ -58,6 +59,7 @@ export function generateMetadata(options: MetadataOptions): ArticleMetadata {
       publishNow = false,
       customSlug,
       existingSlugs = [],
+      language,
     } = options;
 
     // Extract plain text if not provided
@@ -66,6 +68,7 @@ export function generateMetadata(options: MetadataOptions): ArticleMetadata {
     // Calculate reading time using advanced algorithm
     const readingTimeResult = calculateAdvancedReadingTime(htmlContent, {
       includeAnalysis: true,
+      language,
     });
 
     // Extract counts from analysis
@@ -78,6 +81,7 @@ export function generateMetadata(options: MetadataOptions): ArticleMetadata {
       maxLength: CONFIG.INTRO_TEXT_LENGTH,
       addEllipsis: true,
       preserveSentences: true,
+      language,
     });
     const introText = introTextResult.text;
 
@@ -110,6 +114,7 @@ export function generateMetadata(options: MetadataOptions): ArticleMetadata {
       readingTime,
       introLength: introText.length,
       publishNow,
+      language,
     });
 
     return metadata;
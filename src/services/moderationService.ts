@@ -0,0 +1,403 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { BusinessLogicError, ConflictError, NotFoundError } from "@utils/errors.ts";
+import type { CMSItemResult, CMSService, CMSTarget } from "@services/cmsService.ts";
+import type { FormData, UpdateFormData } from "../types/form.ts";
+
+export type ReviewStatus =
+  | "submitted"
+  | "in_review"
+  | "changes_requested"
+  | "approved"
+  | "rejected";
+
+export interface ReviewerNote {
+  reviewer: string;
+  note: string;
+  status: ReviewStatus; // Status of the submission when the note was written
+  createdAt: string;
+}
+
+export interface ReviewTransition {
+  from: ReviewStatus;
+  to: ReviewStatus;
+  reviewer: string;
+  at: string;
+}
+
+// Fields an author changed on an existing item, with the item's collection and tenant
+export type ReviewedUpdate = UpdateFormData & CMSTarget;
+
+export interface ReviewSubmission {
+  id: string;
+  kind?: "create" | "update"; // Unset for new articles
+  status: ReviewStatus;
+  data: FormData | ReviewedUpdate;
+  publishNowRequested: boolean;
+  notes: ReviewerNote[];
+  history: ReviewTransition[];
+  itemId?: string; // The created item, or the item an update applies to
+  slug?: string;
+  published?: boolean;
+  scheduledFor?: string;
+  scheduleError?: string;
+  requestId?: string;
+  createdAt: string;
+  updatedAt: string;
+  decidedAt?: string;
+}
+
+export interface ApproveOptions {
+  note?: string;
+  publish?: boolean;
+}
+
+export interface ApproveResult {
+  success: boolean;
+  submission: ReviewSubmission;
+  error?: string;
+  statusCode?: number; // Status of the failed create or update
+}
+
+// Allowed moves between review states; approved and rejected are final
+const TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  submitted: ["in_review", "changes_requested", "approved", "rejected"],
+  in_review: ["changes_requested", "approved", "rejected"],
+  changes_requested: ["in_review", "approved", "rejected"],
+  approved: [],
+  rejected: [],
+};
+
+const SUBMISSION_PREFIX = "review_submissions";
+
+/**
+ * Editorial review queue backed by Deno KV.
+ * Nothing reaches Webflow until a reviewer approves the submission.
+ */
+export class ModerationService {
+  private kv?: Deno.Kv;
+
+  constructor(kv?: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Add a validated submission to the review queue
+   */
+  async submit(
+    data: FormData,
+    publishNowRequested: boolean,
+    requestId?: string,
+  ): Promise<ReviewSubmission> {
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+
+    const submission: ReviewSubmission = {
+      id: crypto.randomUUID(),
+      status: "submitted",
+      data,
+      publishNowRequested,
+      notes: [],
+      history: [],
+      requestId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await kv.set([SUBMISSION_PREFIX, submission.id], submission);
+
+    logger.info("Submission queued for review", {
+      submissionId: submission.id,
+      requestId,
+      title: data.articleTitle,
+      author: data.authorName,
+    });
+
+    return submission;
+  }
+
+  /**
+   * Add an author's changes to an existing item to the review queue
+   */
+  async submitUpdate(
+    itemId: string,
+    data: ReviewedUpdate,
+    publishNowRequested: boolean,
+    requestId?: string,
+  ): Promise<ReviewSubmission> {
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+
+    const submission: ReviewSubmission = {
+      id: crypto.randomUUID(),
+      kind: "update",
+      status: "submitted",
+      data,
+      publishNowRequested,
+      notes: [],
+      history: [],
+      itemId,
+      requestId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await kv.set([SUBMISSION_PREFIX, submission.id], submission);
+
+    logger.info("Item update queued for review", {
+      submissionId: submission.id,
+      requestId,
+      itemId,
+      locale: data.locale,
+    });
+
+    return submission;
+  }
+
+  /**
+   * Get a submission by ID
+   */
+  async get(id: string): Promise<ReviewSubmission> {
+    const kv = await this.getStore();
+    const entry = await kv.get<ReviewSubmission>([SUBMISSION_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Submission");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * List submissions, optionally filtered by status, oldest first
+   */
+  async list(status?: ReviewStatus): Promise<ReviewSubmission[]> {
+    const kv = await this.getStore();
+    const records: ReviewSubmission[] = [];
+
+    for await (const entry of kv.list<ReviewSubmission>({ prefix: [SUBMISSION_PREFIX] })) {
+      if (!status || entry.value.status === status) {
+        records.push(entry.value);
+      }
+    }
+
+    return records.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  }
+
+  /**
+   * Attach a reviewer note without changing the status
+   */
+  async addNote(id: string, reviewer: string, note: string): Promise<ReviewSubmission> {
+    const kv = await this.getStore();
+    const entry = await this.getEntry(kv, id);
+    const now = new Date().toISOString();
+
+    const updated: ReviewSubmission = {
+      ...entry.value,
+      notes: [
+        ...entry.value.notes,
+        { reviewer, note, status: entry.value.status, createdAt: now },
+      ],
+      updatedAt: now,
+    };
+
+    await this.commit(kv, entry, updated);
+
+    return updated;
+  }
+
+  /**
+   * Move a submission to another review state (approval goes through `approve`)
+   */
+  async transition(
+    id: string,
+    to: Exclude<ReviewStatus, "approved">,
+    reviewer: string,
+    note?: string,
+  ): Promise<ReviewSubmission> {
+    const kv = await this.getStore();
+    const entry = await this.getEntry(kv, id);
+    const updated = this.applyTransition(entry.value, to, reviewer, note);
+
+    await this.commit(kv, entry, updated);
+
+    logger.info("Submission review status changed", {
+      submissionId: id,
+      from: entry.value.status,
+      to,
+      reviewer,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Approve a submission: the only path that creates (and publishes) the CMS item, or applies
+   * an author's changes to it. The approval is recorded first so concurrent approvals cannot
+   * create two items; it is rolled back if Webflow rejects the item.
+   */
+  async approve(
+    id: string,
+    reviewer: string,
+    cmsService: CMSService,
+    options: ApproveOptions = {},
+  ): Promise<ApproveResult> {
+    const kv = await this.getStore();
+    const entry = await this.getEntry(kv, id);
+    const previous = entry.value;
+
+    const approved = this.applyTransition(previous, "approved", reviewer, options.note);
+    await this.commit(kv, entry, approved);
+
+    // Scheduled submissions are published by the scheduler instead
+    const publish = (options.publish ?? true) && !previous.data.publishAt;
+    cmsService = cmsService.forTarget(previous.data);
+    const isUpdate = previous.kind === "update";
+    const failure = isUpdate ? "Failed to update CMS item" : "Failed to create CMS item";
+    const createResult: CMSItemResult = isUpdate
+      ? await cmsService.updateCMSItem(previous.itemId!, previous.data)
+      : await cmsService.createCMSItem(previous.data as FormData, !publish);
+
+    if (!createResult.success || !createResult.item) {
+      const now = new Date().toISOString();
+      const reverted: ReviewSubmission = {
+        ...approved,
+        status: previous.status,
+        decidedAt: undefined,
+        history: [
+          ...approved.history,
+          { from: "approved", to: previous.status, reviewer: "system", at: now },
+        ],
+        notes: [
+          ...approved.notes,
+          {
+            reviewer: "system",
+            note: `Approval failed: ${createResult.error ?? failure}`,
+            status: previous.status,
+            createdAt: now,
+          },
+        ],
+        updatedAt: now,
+      };
+      await kv.set([SUBMISSION_PREFIX, id], reverted);
+
+      logger.error("Approved submission could not be applied", {
+        submissionId: id,
+        reviewer,
+        error: new Error(createResult.error ?? failure),
+      });
+
+      return {
+        success: false,
+        submission: reverted,
+        error: createResult.error,
+        statusCode: createResult.statusCode,
+      };
+    }
+
+    let published = false;
+    if (publish) {
+      // An update of a secondary locale publishes only that locale
+      const locale = isUpdate ? await cmsService.resolveLocale(previous.data.locale) : undefined;
+      const publishResult = await cmsService.publishCMSItem(
+        createResult.item.id,
+        locale && !locale.isPrimary ? [locale.cmsLocaleId] : undefined,
+      );
+      published = publishResult.success;
+      if (!publishResult.success) {
+        logger.warn("Approved item created but publishing failed", {
+          submissionId: id,
+          itemId: createResult.item.id,
+          error: publishResult.error ? new Error(publishResult.error) : undefined,
+        });
+      }
+    }
+
+    const completed: ReviewSubmission = {
+      ...approved,
+      itemId: createResult.item.id,
+      slug: createResult.slug,
+      published,
+      scheduledFor: createResult.scheduledFor,
+      scheduleError: createResult.scheduleError,
+      updatedAt: new Date().toISOString(),
+    };
+    await kv.set([SUBMISSION_PREFIX, id], completed);
+
+    logger.info("Submission approved", {
+      submissionId: id,
+      reviewer,
+      itemId: completed.itemId,
+      published,
+    });
+
+    return { success: true, submission: completed };
+  }
+
+  private applyTransition(
+    submission: ReviewSubmission,
+    to: ReviewStatus,
+    reviewer: string,
+    note?: string,
+  ): ReviewSubmission {
+    if (!TRANSITIONS[submission.status].includes(to)) {
+      throw new BusinessLogicError(
+        `Cannot move a submission from ${submission.status} to ${to}`,
+        "INVALID_REVIEW_TRANSITION",
+        { submissionId: submission.id, from: submission.status, to },
+      );
+    }
+
+    const now = new Date().toISOString();
+    const final = to === "approved" || to === "rejected";
+
+    return {
+      ...submission,
+      status: to,
+      history: [...submission.history, { from: submission.status, to, reviewer, at: now }],
+      notes: note
+        ? [...submission.notes, { reviewer, note, status: to, createdAt: now }]
+        : submission.notes,
+      updatedAt: now,
+      decidedAt: final ? now : submission.decidedAt,
+    };
+  }
+
+  private async getEntry(
+    kv: Deno.Kv,
+    id: string,
+  ): Promise<Deno.KvEntry<ReviewSubmission>> {
+    const entry = await kv.get<ReviewSubmission>([SUBMISSION_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Submission");
+    }
+
+    return entry as Deno.KvEntry<ReviewSubmission>;
+  }
+
+  private async commit(
+    kv: Deno.Kv,
+    entry: Deno.KvEntry<ReviewSubmission>,
+    updated: ReviewSubmission,
+  ): Promise<void> {
+    const result = await kv.atomic()
+      .check(entry)
+      .set([SUBMISSION_PREFIX, updated.id], updated)
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Submission was modified concurrently, please retry", "submission", {
+        submissionId: updated.id,
+      });
+    }
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
@@ -0,0 +1,451 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { retry, type RetryOptions } from "@utils/retry.ts";
+import { NotFoundError } from "@utils/errors.ts";
+import { config } from "@config/index.ts";
+import {
+  createEmailTransport,
+  type EmailMessage,
+  type EmailTransport,
+} from "@services/emailTransports.ts";
+import {
+  type NotificationEvent,
+  type NotificationType,
+  renderAuthorEmail,
+  renderDigest,
+} from "@services/notificationTemplates.ts";
+
+export type { NotificationEvent, NotificationType } from "@services/notificationTemplates.ts";
+
+export type EmailStatus = "pending" | "retrying" | "sent" | "failed";
+
+export interface QueuedEmail {
+  id: string;
+  kind: "author" | "digest";
+  event?: NotificationType; // What an author email is about
+  message: EmailMessage;
+  status: EmailStatus;
+  attempts: number;
+  rounds: number; // Each round makes several attempts through retry()
+  nextAttemptAt?: string; // Set while the email is pending or retrying
+  claimedUntil?: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+}
+
+/**
+ * What an item's later events (such as publication) need to reach its author
+ */
+export interface TrackedItem {
+  title: string;
+  authorName?: string;
+  authorEmail?: string;
+  slug?: string;
+  publishedNotified?: boolean;
+}
+
+export interface SendRunResult {
+  processed: number;
+  sent: string[];
+  failed: string[];
+}
+
+export interface NotificationServiceOptions {
+  transport?: EmailTransport | null; // null turns notifications off; defaults to NOTIFY_TRANSPORT
+  from?: string;
+  editors?: string[];
+  maxRounds?: number;
+  retryDelayMs?: number; // Delay before the second round, multiplied by 4 for each later one
+  retry?: RetryOptions; // Attempts within a round
+  claimTimeoutMs?: number;
+  ttlMs?: number;
+  sendImmediately?: boolean; // Send new emails right away instead of on the next run
+}
+
+const OUTBOX_PREFIX = "notification_outbox";
+const DUE_INDEX_PREFIX = "notification_outbox_due";
+const DIGEST_PREFIX = "notification_digest";
+const ITEM_PREFIX = "notification_items";
+
+const ITEM_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+const DIGEST_DELETE_BATCH = 100;
+
+/**
+ * Emails authors when their submission is received, published or rejected, and editors
+ * a periodic digest of everything that happened, failures included. Emails go through
+ * an outbox in Deno KV so callers never wait for a send, and failed sends are retried
+ * in rounds by the notification worker.
+ */
+export class NotificationService {
+  private kv?: Deno.Kv;
+  private readonly transport?: EmailTransport;
+  private readonly from: string;
+  private readonly editors: string[];
+  private readonly maxRounds: number;
+  private readonly retryDelayMs: number;
+  private readonly retryOptions: RetryOptions;
+  private readonly claimTimeoutMs: number;
+  private readonly ttlMs: number;
+  private readonly sendImmediately: boolean;
+
+  constructor(kv?: Deno.Kv, options: NotificationServiceOptions = {}) {
+    this.kv = kv;
+    this.transport = options.transport === undefined
+      ? createEmailTransport()
+      : options.transport ?? undefined;
+    this.from = options.from ?? config.NOTIFY_FROM;
+    this.editors = options.editors ?? config.NOTIFY_EDITOR_EMAILS;
+    this.maxRounds = options.maxRounds ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 5 * 60 * 1000; // 5 minutes
+    this.retryOptions = {
+      maxAttempts: 3,
+      initialDelay: 1000,
+      maxDelay: 10 * 1000,
+      timeout: 60 * 1000,
+      ...options.retry,
+    };
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 5 * 60 * 1000; // 5 minutes
+    this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.sendImmediately = options.sendImmediately ?? true;
+  }
+
+  get enabled(): boolean {
+    return !!this.transport;
+  }
+
+  /**
+   * Handle an event without waiting; failures are logged and never reach the caller
+   */
+  notify(event: NotificationEvent): void {
+    if (!this.transport) return;
+
+    this.process(event).catch((error) => {
+      logger.warn("Failed to queue notification", {
+        type: event.type,
+        itemId: event.itemId,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+  }
+
+  /**
+   * Add the event to the editor digest and queue the author's email, if any.
+   * Authors hear about the publication of a tracked item only once.
+   */
+  async process(event: NotificationEvent): Promise<QueuedEmail | undefined> {
+    if (!this.transport) return undefined;
+
+    const kv = await this.getStore();
+    let details: NotificationEvent = {
+      ...event,
+      occurredAt: event.occurredAt ?? new Date().toISOString(),
+    };
+
+    if (event.type === "published" && event.itemId) {
+      const { item, first } = await this.markPublished(kv, event.itemId);
+      if (!first) return undefined;
+      if (item) {
+        details = {
+          ...details,
+          title: event.title ?? item.title,
+          authorName: event.authorName ?? item.authorName,
+          authorEmail: event.authorEmail ?? item.authorEmail,
+          slug: event.slug ?? item.slug,
+        };
+      }
+    }
+
+    if (this.editors.length > 0) {
+      await kv.set([DIGEST_PREFIX, Date.parse(details.occurredAt!), crypto.randomUUID()], details, {
+        expireIn: this.ttlMs,
+      });
+    }
+
+    const rendered = details.authorEmail ? renderAuthorEmail(details) : undefined;
+    if (!rendered) return undefined;
+
+    return await this.enqueue(kv, "author", {
+      from: this.from,
+      to: [details.authorEmail!],
+      ...rendered,
+    }, details.type);
+  }
+
+  /**
+   * Remember who wrote an item so its publication can be announced to them later
+   */
+  async trackItem(itemId: string, item: TrackedItem): Promise<void> {
+    if (!this.transport) return;
+
+    const kv = await this.getStore();
+    await kv.set([ITEM_PREFIX, itemId], item, { expireIn: ITEM_TTL_MS });
+  }
+
+  /**
+   * Queue one email to the editors with every event since the last digest.
+   * Returns undefined when there is nothing to report or nobody to send it to.
+   */
+  async sendDigest(now = new Date()): Promise<QueuedEmail | undefined> {
+    if (!this.transport || this.editors.length === 0) return undefined;
+
+    const kv = await this.getStore();
+    const entries: Deno.KvEntry<NotificationEvent>[] = [];
+    for await (
+      const entry of kv.list<NotificationEvent>({
+        start: [DIGEST_PREFIX],
+        end: [DIGEST_PREFIX, now.getTime() + 1],
+      })
+    ) {
+      entries.push(entry);
+    }
+
+    if (entries.length === 0) return undefined;
+
+    const digest = await this.enqueue(kv, "digest", {
+      from: this.from,
+      to: this.editors,
+      ...renderDigest(entries.map((entry) => entry.value)),
+    });
+
+    // Events are only dropped once the digest is queued; a crash in between repeats them
+    for (let i = 0; i < entries.length; i += DIGEST_DELETE_BATCH) {
+      const atomic = kv.atomic();
+      for (const entry of entries.slice(i, i + DIGEST_DELETE_BATCH)) {
+        atomic.delete(entry.key);
+      }
+      await atomic.commit();
+    }
+
+    logger.info("Editor digest queued", { emailId: digest.id, events: entries.length });
+    return digest;
+  }
+
+  /**
+   * Run one send round for a pending or retrying email.
+   * Returns null when the email is finished or another worker holds it.
+   */
+  async send(id: string, now = new Date()): Promise<QueuedEmail | null> {
+    const kv = await this.getStore();
+    const claimed = await this.claim(kv, id, now);
+    return claimed ? await this.runRound(kv, claimed) : null;
+  }
+
+  /**
+   * Run a round for every email whose next attempt is due.
+   * Also picks up emails left unsent when the service stopped.
+   */
+  async sendDue(now = new Date()): Promise<SendRunResult> {
+    const kv = await this.getStore();
+    const result: SendRunResult = { processed: 0, sent: [], failed: [] };
+
+    const due = kv.list<string>({
+      start: [DUE_INDEX_PREFIX],
+      end: [DUE_INDEX_PREFIX, now.getTime() + 1],
+    });
+
+    for await (const indexEntry of due) {
+      const email = await this.send(indexEntry.value, now);
+      if (!email) continue;
+
+      result.processed++;
+      if (email.status === "sent") {
+        result.sent.push(email.id);
+      } else if (email.status === "failed") {
+        result.failed.push(email.id);
+      }
+    }
+
+    if (result.processed > 0) {
+      logger.info("Processed notification emails", { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a queued email by ID
+   */
+  async get(id: string): Promise<QueuedEmail> {
+    const kv = await this.getStore();
+    const entry = await kv.get<QueuedEmail>([OUTBOX_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Notification email");
+    }
+
+    return entry.value;
+  }
+
+  private async enqueue(
+    kv: Deno.Kv,
+    kind: QueuedEmail["kind"],
+    message: EmailMessage,
+    event?: NotificationType,
+  ): Promise<QueuedEmail> {
+    const now = new Date().toISOString();
+    const email: QueuedEmail = {
+      id: crypto.randomUUID(),
+      kind,
+      event,
+      message,
+      status: "pending",
+      attempts: 0,
+      rounds: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await kv.atomic()
+      .set([OUTBOX_PREFIX, email.id], email, { expireIn: this.ttlMs })
+      .set(this.dueKey(email), email.id)
+      .commit();
+
+    if (this.sendImmediately) {
+      this.send(email.id).catch((error) => {
+        logger.error("Notification email send crashed", {
+          emailId: email.id,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      });
+    }
+
+    return email;
+  }
+
+  /**
+   * Set the publication flag of a tracked item; `first` is false when it was already set
+   */
+  private async markPublished(
+    kv: Deno.Kv,
+    itemId: string,
+  ): Promise<{ item?: TrackedItem; first: boolean }> {
+    const entry = await kv.get<TrackedItem>([ITEM_PREFIX, itemId]);
+    if (!entry.value) return { first: true };
+    if (entry.value.publishedNotified) return { item: entry.value, first: false };
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([ITEM_PREFIX, itemId], { ...entry.value, publishedNotified: true }, {
+        expireIn: ITEM_TTL_MS,
+      })
+      .commit();
+
+    return { item: entry.value, first: commit.ok };
+  }
+
+  /**
+   * Mark an email as in progress so two workers never send it at once
+   */
+  private async claim(kv: Deno.Kv, id: string, now: Date): Promise<QueuedEmail | null> {
+    const entry = await kv.get<QueuedEmail>([OUTBOX_PREFIX, id]);
+    const email = entry.value;
+
+    if (!email || (email.status !== "pending" && email.status !== "retrying")) return null;
+    if (email.claimedUntil && email.claimedUntil > now.getTime()) return null;
+
+    const claimed: QueuedEmail = {
+      ...email,
+      claimedUntil: now.getTime() + this.claimTimeoutMs,
+      updatedAt: now.toISOString(),
+    };
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([OUTBOX_PREFIX, id], claimed, { expireIn: this.ttlMs })
+      .commit();
+
+    return commit.ok ? claimed : null;
+  }
+
+  /**
+   * Send the email with retry(), then record the outcome and schedule the next round
+   */
+  private async runRound(kv: Deno.Kv, email: QueuedEmail): Promise<QueuedEmail> {
+    const transport = this.transport;
+    const result = transport
+      ? await retry(() => transport.send(email.message), {
+        ...this.retryOptions,
+        onRetry: (error, attempt) => {
+          logger.debug("Retrying notification email", { emailId: email.id, attempt, error });
+        },
+      })
+      : { error: new Error("Notifications are disabled"), attempts: 0 };
+
+    const rounds = email.rounds + 1;
+    const now = new Date();
+    const sent = !result.error;
+    const willRetry = !sent && !!transport && rounds < this.maxRounds;
+
+    const updated: QueuedEmail = {
+      ...email,
+      status: sent ? "sent" : willRetry ? "retrying" : "failed",
+      attempts: email.attempts + result.attempts,
+      rounds,
+      nextAttemptAt: willRetry
+        ? new Date(now.getTime() + this.retryDelayMs * 4 ** (rounds - 1)).toISOString()
+        : undefined,
+      claimedUntil: undefined,
+      lastError: result.error?.message,
+      updatedAt: now.toISOString(),
+      sentAt: sent ? now.toISOString() : undefined,
+    };
+
+    const atomic = kv.atomic().set([OUTBOX_PREFIX, email.id], updated, {
+      expireIn: this.ttlMs,
+    });
+    if (email.nextAttemptAt) {
+      atomic.delete(this.dueKey(email));
+    }
+    if (updated.nextAttemptAt) {
+      atomic.set(this.dueKey(updated), email.id);
+    }
+    await atomic.commit();
+
+    if (sent) {
+      logger.info("Notification email sent", {
+        emailId: email.id,
+        kind: email.kind,
+        event: email.event,
+        transport: transport?.name,
+      });
+    } else {
+      logger[willRetry ? "warn" : "error"]("Notification email failed", {
+        emailId: email.id,
+        kind: email.kind,
+        event: email.event,
+        rounds,
+        maxRounds: this.maxRounds,
+        willRetry,
+        error: result.error,
+      });
+    }
+
+    return updated;
+  }
+
+  private dueKey(email: QueuedEmail): Deno.KvKey {
+    return [DUE_INDEX_PREFIX, Date.parse(email.nextAttemptAt!), email.id];
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
+
+let sharedNotificationService: NotificationService | undefined;
+
+/**
+ * Shared notification service, so routes and workers queue emails and digest entries
+ * through one outbox
+ */
+export function getNotificationService(): NotificationService {
+  sharedNotificationService ??= new NotificationService();
+  return sharedNotificationService;
+}
@@ -0,0 +1,122 @@
+/// <reference lib="deno.ns" />
+
+export type NotificationType = "received" | "published" | "rejected" | "failed";
+
+export interface NotificationEvent {
+  type: NotificationType;
+  title?: string;
+  authorName?: string;
+  authorEmail?: string;
+  itemId?: string;
+  slug?: string;
+  reason?: string; // Reviewer note for rejections, the error for failures
+  reference?: string; // Review submission or dead-letter ID
+  tenant?: string;
+  collection?: string;
+  occurredAt?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const DIGEST_SECTIONS: Array<{ type: NotificationType; heading: string }> = [
+  { type: "failed", heading: "Failed" },
+  { type: "received", heading: "Received" },
+  { type: "published", heading: "Published" },
+  { type: "rejected", heading: "Rejected" },
+];
+
+/**
+ * Email to the author of a submission; authors are not told about internal failures
+ */
+export function renderAuthorEmail(event: NotificationEvent): RenderedEmail | undefined {
+  const title = event.title ?? "your article";
+  const greeting = event.authorName ? `Hi ${event.authorName},` : "Hi,";
+
+  switch (event.type) {
+    case "received":
+      return render(`We received "${title}"`, [
+        greeting,
+        `Thanks for your submission. We received "${title}" and will let you know once it is published.`,
+      ]);
+    case "published":
+      return render(`"${title}" is live`, [
+        greeting,
+        `Good news: "${title}" has been published${event.slug ? ` at /${event.slug}` : ""}.`,
+        "Thanks for writing for us.",
+      ]);
+    case "rejected":
+      return render(`Update on "${title}"`, [
+        greeting,
+        `Thank you for sending us "${title}". After review, we are not able to publish it.`,
+        ...(event.reason ? [`Reviewer note: ${event.reason}`] : []),
+      ]);
+    case "failed":
+      return undefined;
+  }
+}
+
+/**
+ * One email summarizing everything that happened since the last digest
+ */
+export function renderDigest(events: NotificationEvent[]): RenderedEmail {
+  const subject = `Editorial digest: ${events.length} update${events.length === 1 ? "" : "s"}`;
+  const sections = DIGEST_SECTIONS
+    .map(({ type, heading }) => ({
+      heading,
+      lines: events.filter((event) => event.type === type).map(describeEvent),
+    }))
+    .filter((section) => section.lines.length > 0);
+
+  const text = sections
+    .map((section) =>
+      `${section.heading} (${section.lines.length})\n${
+        section.lines.map((line) => `- ${line}`).join("\n")
+      }`
+    )
+    .join("\n\n");
+
+  const html = sections
+    .map((section) =>
+      `<h3>${escapeHtml(section.heading)} (${section.lines.length})</h3><ul>${
+        section.lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")
+      }</ul>`
+    )
+    .join("");
+
+  return { subject, text: `${text}\n`, html: wrapHtml(html) };
+}
+
+function describeEvent(event: NotificationEvent): string {
+  const parts = [event.title ? `"${event.title}"` : `Item ${event.itemId ?? "unknown"}`];
+  if (event.authorName) parts.push(`by ${event.authorName}`);
+  if (event.tenant) parts.push(`[${event.tenant}]`);
+  if (event.itemId && event.title) parts.push(`(item ${event.itemId})`);
+  if (event.reference) parts.push(`(ref ${event.reference})`);
+  const line = parts.join(" ");
+  return event.reason ? `${line}: ${event.reason}` : line;
+}
+
+function render(subject: string, paragraphs: string[]): RenderedEmail {
+  return {
+    subject,
+    text: `${paragraphs.join("\n\n")}\n`,
+    html: wrapHtml(paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("")),
+  };
+}
+
+function wrapHtml(body: string): string {
+  return `<!DOCTYPE html><html><body style="font-family: sans-serif; line-height: 1.5">${body}</body></html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
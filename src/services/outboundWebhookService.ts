@@ -0,0 +1,490 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { hmacSignHex } from "@utils/hmac.ts";
+import { retry, type RetryOptions } from "@utils/retry.ts";
+import { ConflictError, ExternalServiceError, NotFoundError, TimeoutError } from "@utils/errors.ts";
+import {
+  type OutboundEventType,
+  outboundWebhooks,
+  type OutboundWebhookSubscription,
+  subscriptionsFor,
+} from "@config/outboundWebhooks.ts";
+
+export interface OutboundEventData {
+  itemId?: string;
+  slug?: string;
+  title?: string;
+  authorName?: string;
+  locale?: string;
+  isDraft?: boolean;
+  scheduledFor?: string;
+  cmsLocaleIds?: string[]; // Locales published; all of them when unset
+  changedFields?: string[];
+  revision?: number;
+  operation?: "create" | "publish" | "update"; // What failed, for article.failed
+  error?: string;
+  statusCode?: number;
+}
+
+export interface OutboundEvent {
+  id: string; // Shared by the deliveries of one event, so subscribers can drop redeliveries
+  type: OutboundEventType;
+  occurredAt: string;
+  tenant?: string;
+  collection?: string;
+  data: OutboundEventData;
+}
+
+export type DeliveryStatus = "pending" | "retrying" | "delivered" | "failed";
+
+export interface DeliveryAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  manual?: boolean; // Sent by a redelivery from the admin API
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: OutboundEvent;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  rounds: number; // Each round makes several attempts through retry()
+  nextAttemptAt?: string; // Set while the delivery is pending or retrying
+  claimedUntil?: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+export interface DeliveryFilter {
+  status?: DeliveryStatus;
+  subscriptionId?: string;
+  eventId?: string;
+}
+
+export interface DeliveryRunResult {
+  processed: number;
+  delivered: string[];
+  failed: string[];
+}
+
+export interface OutboundWebhookServiceOptions {
+  subscriptions?: OutboundWebhookSubscription[];
+  fetch?: typeof fetch;
+  maxRounds?: number;
+  retryDelayMs?: number; // Delay before the second round, multiplied by 4 for each later one
+  requestTimeoutMs?: number;
+  retry?: RetryOptions; // Attempts within a round
+  claimTimeoutMs?: number;
+  ttlMs?: number;
+  deliverImmediately?: boolean; // Send new deliveries right away instead of on the next run
+}
+
+// Response that should be retried only for the statuses retry() treats as transient
+class DeliveryError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "DeliveryError";
+  }
+}
+
+const DELIVERY_PREFIX = "webhook_deliveries";
+const DUE_INDEX_PREFIX = "webhook_deliveries_due";
+
+export const SIGNATURE_HEADER = "x-webhook-signature";
+export const TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+/**
+ * Sends submission lifecycle events to the configured subscriptions as signed JSON.
+ * Each delivery is logged in Deno KV; failed ones are retried in rounds with growing
+ * delays by the delivery worker, and can be sent again from the admin API.
+ */
+export class OutboundWebhookService {
+  private kv?: Deno.Kv;
+  private readonly subscriptions: OutboundWebhookSubscription[];
+  private readonly fetchFn: typeof fetch;
+  private readonly maxRounds: number;
+  private readonly retryDelayMs: number;
+  private readonly requestTimeoutMs: number;
+  private readonly retryOptions: RetryOptions;
+  private readonly claimTimeoutMs: number;
+  private readonly ttlMs: number;
+  private readonly deliverImmediately: boolean;
+
+  constructor(kv?: Deno.Kv, options: OutboundWebhookServiceOptions = {}) {
+    this.kv = kv;
+    this.subscriptions = options.subscriptions ?? outboundWebhooks;
+    this.fetchFn = options.fetch ?? fetch;
+    this.maxRounds = options.maxRounds ?? 6;
+    this.retryDelayMs = options.retryDelayMs ?? 60 * 1000; // 1 minute
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 10 * 1000; // 10 seconds
+    this.retryOptions = {
+      maxAttempts: 3,
+      initialDelay: 1000,
+      maxDelay: 10 * 1000,
+      timeout: 0, // Requests are aborted after requestTimeoutMs instead
+      ...options.retry,
+    };
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 5 * 60 * 1000; // 5 minutes
+    this.ttlMs = options.ttlMs ?? 30 * 24 * 60 * 60 * 1000; // 30 days
+    this.deliverImmediately = options.deliverImmediately ?? true;
+  }
+
+  /**
+   * Subscriptions without their secrets
+   */
+  listSubscriptions(): Array<Omit<OutboundWebhookSubscription, "secret">> {
+    return this.subscriptions.map(({ secret: _secret, ...subscription }) => subscription);
+  }
+
+  /**
+   * Record one delivery per matching subscription and start sending them.
+   * Does nothing when no subscription wants the event.
+   */
+  async emit(
+    type: OutboundEventType,
+    data: OutboundEventData,
+    target: { tenant?: string; collection?: string } = {},
+  ): Promise<WebhookDelivery[]> {
+    const subscriptions = subscriptionsFor(type, target.tenant, this.subscriptions);
+    if (subscriptions.length === 0) return [];
+
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+    const event: OutboundEvent = {
+      id: crypto.randomUUID(),
+      type,
+      occurredAt: now,
+      tenant: target.tenant,
+      collection: target.collection,
+      data,
+    };
+
+    const deliveries = subscriptions.map((subscription): WebhookDelivery => ({
+      id: crypto.randomUUID(),
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      event,
+      status: "pending",
+      attempts: [],
+      rounds: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    const atomic = kv.atomic();
+    for (const delivery of deliveries) {
+      atomic
+        .set([DELIVERY_PREFIX, delivery.id], delivery, { expireIn: this.ttlMs })
+        .set(this.dueKey(delivery), delivery.id);
+    }
+    await atomic.commit();
+
+    logger.info("Outbound webhook event queued", {
+      eventId: event.id,
+      type,
+      tenant: target.tenant,
+      subscriptions: subscriptions.map((subscription) => subscription.id),
+    });
+
+    if (this.deliverImmediately) {
+      for (const delivery of deliveries) {
+        this.deliver(delivery.id).catch((error) => {
+          logger.error("Outbound webhook delivery crashed", {
+            deliveryId: delivery.id,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        });
+      }
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Run one delivery round for a pending or retrying delivery.
+   * Returns null when the delivery is finished or another worker holds it.
+   */
+  async deliver(id: string, now = new Date()): Promise<WebhookDelivery | null> {
+    const kv = await this.getStore();
+    const claimed = await this.claim(kv, id, now, false);
+    return claimed ? await this.runRound(kv, claimed, false) : null;
+  }
+
+  /**
+   * Send a delivery again from the admin API, whatever its status.
+   * The event keeps its ID; the signature is computed anew.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const kv = await this.getStore();
+    const claimed = await this.claim(kv, id, new Date(), true);
+    return await this.runRound(kv, claimed!, true);
+  }
+
+  /**
+   * Run a round for every delivery whose next attempt is due.
+   * Also picks up deliveries left unsent when the service stopped.
+   */
+  async deliverDue(now = new Date()): Promise<DeliveryRunResult> {
+    const kv = await this.getStore();
+    const result: DeliveryRunResult = { processed: 0, delivered: [], failed: [] };
+
+    const due = kv.list<string>({
+      start: [DUE_INDEX_PREFIX],
+      end: [DUE_INDEX_PREFIX, now.getTime() + 1],
+    });
+
+    for await (const indexEntry of due) {
+      const delivery = await this.deliver(indexEntry.value, now);
+      if (!delivery) continue;
+
+      result.processed++;
+      if (delivery.status === "delivered") {
+        result.delivered.push(delivery.id);
+      } else if (delivery.status === "failed") {
+        result.failed.push(delivery.id);
+      }
+    }
+
+    if (result.processed > 0) {
+      logger.info("Processed outbound webhook deliveries", { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a delivery by ID
+   */
+  async get(id: string): Promise<WebhookDelivery> {
+    const kv = await this.getStore();
+    const entry = await kv.get<WebhookDelivery>([DELIVERY_PREFIX, id]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Webhook delivery");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * List deliveries, newest first
+   */
+  async list(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const kv = await this.getStore();
+    const deliveries: WebhookDelivery[] = [];
+
+    for await (const entry of kv.list<WebhookDelivery>({ prefix: [DELIVERY_PREFIX] })) {
+      const delivery = entry.value;
+      if (
+        (!filter.status || delivery.status === filter.status) &&
+        (!filter.subscriptionId || delivery.subscriptionId === filter.subscriptionId) &&
+        (!filter.eventId || delivery.event.id === filter.eventId)
+      ) {
+        deliveries.push(delivery);
+      }
+    }
+
+    return deliveries.sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  }
+
+  /**
+   * Mark a delivery as in progress so the worker and a redelivery never send it at once
+   */
+  private async claim(
+    kv: Deno.Kv,
+    id: string,
+    now: Date,
+    manual: boolean,
+  ): Promise<WebhookDelivery | null> {
+    const entry = await kv.get<WebhookDelivery>([DELIVERY_PREFIX, id]);
+    const delivery = entry.value;
+
+    if (!delivery) {
+      if (manual) throw new NotFoundError("Webhook delivery");
+      return null;
+    }
+
+    if (delivery.claimedUntil && delivery.claimedUntil > now.getTime()) {
+      if (manual) {
+        throw new ConflictError("Delivery is being sent, please retry", "delivery", { id });
+      }
+      return null;
+    }
+
+    if (!manual && delivery.status !== "pending" && delivery.status !== "retrying") return null;
+
+    const claimed: WebhookDelivery = {
+      ...delivery,
+      claimedUntil: now.getTime() + this.claimTimeoutMs,
+      updatedAt: now.toISOString(),
+    };
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([DELIVERY_PREFIX, id], claimed, { expireIn: this.ttlMs })
+      .commit();
+
+    if (!commit.ok && manual) {
+      throw new ConflictError("Delivery is being sent, please retry", "delivery", { id });
+    }
+
+    return commit.ok ? claimed : null;
+  }
+
+  /**
+   * Send the event with retry(), then record the outcome and schedule the next round
+   */
+  private async runRound(
+    kv: Deno.Kv,
+    delivery: WebhookDelivery,
+    manual: boolean,
+  ): Promise<WebhookDelivery> {
+    const subscription = this.subscriptions.find((entry) => entry.id === delivery.subscriptionId);
+    const attempts: DeliveryAttempt[] = [];
+
+    const result = subscription
+      ? await retry(() => this.send(subscription, delivery.event, attempts, manual), {
+        ...this.retryOptions,
+        onRetry: (error, attempt) => {
+          logger.debug("Retrying outbound webhook delivery", {
+            deliveryId: delivery.id,
+            attempt,
+            error,
+          });
+        },
+      })
+      : { error: new Error(`Subscription "${delivery.subscriptionId}" is no longer configured`) };
+
+    const rounds = delivery.rounds + 1;
+    const now = new Date();
+    const delivered = !result.error;
+    const willRetry = !delivered && !!subscription && rounds < this.maxRounds;
+
+    const updated: WebhookDelivery = {
+      ...delivery,
+      status: delivered ? "delivered" : willRetry ? "retrying" : "failed",
+      attempts: [...delivery.attempts, ...attempts],
+      rounds,
+      nextAttemptAt: willRetry
+        ? new Date(now.getTime() + this.retryDelayMs * 4 ** (rounds - 1)).toISOString()
+        : undefined,
+      claimedUntil: undefined,
+      lastError: result.error?.message,
+      updatedAt: now.toISOString(),
+      deliveredAt: delivered ? now.toISOString() : delivery.deliveredAt,
+    };
+
+    const atomic = kv.atomic().set([DELIVERY_PREFIX, delivery.id], updated, {
+      expireIn: this.ttlMs,
+    });
+    if (delivery.nextAttemptAt) {
+      atomic.delete(this.dueKey(delivery));
+    }
+    if (updated.nextAttemptAt) {
+      atomic.set(this.dueKey(updated), delivery.id);
+    }
+    await atomic.commit();
+
+    if (delivered) {
+      logger.info("Outbound webhook delivered", {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        type: delivery.event.type,
+        attempts: attempts.length,
+        manual,
+      });
+    } else {
+      logger[willRetry ? "warn" : "error"]("Outbound webhook delivery failed", {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        type: delivery.event.type,
+        rounds,
+        maxRounds: this.maxRounds,
+        willRetry,
+        error: result.error,
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * POST the event once, signed with the subscription secret over `timestamp:body`
+   */
+  private async send(
+    subscription: OutboundWebhookSubscription,
+    event: OutboundEvent,
+    attempts: DeliveryAttempt[],
+    manual: boolean,
+  ): Promise<void> {
+    const body = JSON.stringify(event);
+    const timestamp = String(Date.now());
+    const signature = await hmacSignHex(subscription.secret, `${timestamp}:${body}`);
+
+    const startedAt = new Date();
+    const started = performance.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+    const attempt: DeliveryAttempt = { at: startedAt.toISOString(), durationMs: 0 };
+    if (manual) attempt.manual = true;
+
+    try {
+      const response = await this.fetchFn(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "webflow-form-middleware",
+          "X-Webhook-Id": event.id,
+          "X-Webhook-Event": event.type,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: `sha256=${signature}`,
+        },
+        body,
+        signal: controller.signal,
+      });
+      await response.body?.cancel();
+
+      attempt.statusCode = response.status;
+      if (!response.ok) {
+        attempt.error = `Subscriber responded with ${response.status}`;
+        throw new DeliveryError(attempt.error, response.status);
+      }
+    } catch (error) {
+      if (error instanceof DeliveryError) throw error;
+
+      const timedOut = controller.signal.aborted;
+      attempt.error = timedOut
+        ? `No response within ${this.requestTimeoutMs}ms`
+        : error instanceof Error
+        ? error.message
+        : String(error);
+
+      throw timedOut
+        ? new TimeoutError(this.requestTimeoutMs, "Webhook delivery")
+        : new ExternalServiceError(`webhook:${subscription.id}`, attempt.error);
+    } finally {
+      clearTimeout(timeoutId);
+      attempt.durationMs = Math.round(performance.now() - started);
+      attempts.push(attempt);
+    }
+  }
+
+  private dueKey(delivery: WebhookDelivery): Deno.KvKey {
+    return [DUE_INDEX_PREFIX, Date.parse(delivery.nextAttemptAt!), delivery.id];
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
@@ -0,0 +1,202 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { ConflictError, NotFoundError } from "@utils/errors.ts";
+import { diffFields, diffText, type FieldChange, type TextDiff } from "@utils/diff.ts";
+import { htmlToMarkdown } from "@utils/markdown.ts";
+import { convertDeltaToPlainText } from "@services/contentProcessor.ts";
+import type { QuillDelta } from "@utils/validation.ts";
+import type { WebflowFieldData } from "../types/webflow.ts";
+
+// "baseline" is the state of an item created before revisions were kept, stored on its first update
+export type RevisionAction = "baseline" | "create" | "update" | "revert";
+
+export interface ArticleRevision {
+  itemId: string;
+  number: number; // Starts at 1 and increases by one per change
+  action: RevisionAction;
+  submittedBy: string;
+  delta?: QuillDelta; // Carried over from the previous revision when the content did not change
+  html: string;
+  fieldData: Partial<WebflowFieldData>;
+  changedFields: string[];
+  revertedFrom?: number;
+  collection?: string; // Collection key of the item; the default collection when unset
+  tenant?: string; // Tenant ID in multi-tenant mode
+  locale?: string; // Locale code of the variant that changed; the primary locale when unset
+  createdAt: string;
+}
+
+export type NewRevision = Omit<ArticleRevision, "number" | "createdAt">;
+
+export interface RevisionSummary {
+  number: number;
+  action: RevisionAction;
+  submittedBy: string;
+  title?: string;
+  slug?: string;
+  changedFields: string[];
+  revertedFrom?: number;
+  locale?: string;
+  createdAt: string;
+}
+
+export interface RevisionDiff {
+  itemId: string;
+  from: number;
+  to: number;
+  fields: FieldChange[];
+  text: TextDiff;
+}
+
+const REVISION_PREFIX = "revisions";
+const REVISION_COUNTER_PREFIX = "revision_counters";
+
+// Fields compared through the text diff or that change on every save
+const DIFF_IGNORED_FIELDS = ["post", "updated-on"];
+
+const MAX_RECORD_ATTEMPTS = 5;
+
+/**
+ * Numbered revisions of every item created or updated through the middleware,
+ * stored in Deno KV so editors can see what changed and restore older versions
+ */
+export class RevisionService {
+  private kv?: Deno.Kv;
+
+  constructor(kv?: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Store the next revision of an item.
+   * Numbers are allocated atomically, so concurrent saves never share a number.
+   */
+  async record(revision: NewRevision): Promise<ArticleRevision> {
+    const kv = await this.getStore();
+    const counterKey = [REVISION_COUNTER_PREFIX, revision.itemId];
+
+    for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS; attempt++) {
+      const counter = await kv.get<number>(counterKey);
+      const stored: ArticleRevision = {
+        ...revision,
+        number: (counter.value ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+
+      const result = await kv.atomic()
+        .check(counter)
+        .set(counterKey, stored.number)
+        .set([REVISION_PREFIX, revision.itemId, stored.number], stored)
+        .commit();
+
+      if (result.ok) {
+        logger.info("Revision recorded", {
+          itemId: revision.itemId,
+          revision: stored.number,
+          action: revision.action,
+          changedFields: revision.changedFields,
+        });
+        return stored;
+      }
+    }
+
+    throw new ConflictError("Revision could not be recorded, please retry", "revision", {
+      itemId: revision.itemId,
+    });
+  }
+
+  /**
+   * All revisions of an item, oldest first
+   */
+  async list(itemId: string): Promise<ArticleRevision[]> {
+    const kv = await this.getStore();
+    const revisions: ArticleRevision[] = [];
+
+    for await (const entry of kv.list<ArticleRevision>({ prefix: [REVISION_PREFIX, itemId] })) {
+      revisions.push(entry.value);
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Get one revision of an item
+   */
+  async get(itemId: string, number: number): Promise<ArticleRevision> {
+    const kv = await this.getStore();
+    const entry = await kv.get<ArticleRevision>([REVISION_PREFIX, itemId, number]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Revision");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Most recent revision of an item, if any. With `filter`, the most recent one of that locale
+   * (an unset locale being the primary one).
+   */
+  async latest(
+    itemId: string,
+    filter?: { locale: string | undefined },
+  ): Promise<ArticleRevision | null> {
+    const kv = await this.getStore();
+
+    for await (
+      const entry of kv.list<ArticleRevision>(
+        { prefix: [REVISION_PREFIX, itemId] },
+        { limit: filter ? undefined : 1, reverse: true },
+      )
+    ) {
+      if (!filter || entry.value.locale === filter.locale) return entry.value;
+    }
+
+    return null;
+  }
+
+  /**
+   * Compare two revisions field by field and the article text word by word
+   */
+  async diff(itemId: string, from: number, to: number): Promise<RevisionDiff> {
+    const [before, after] = await Promise.all([this.get(itemId, from), this.get(itemId, to)]);
+
+    return {
+      itemId,
+      from,
+      to,
+      fields: diffFields(before.fieldData, after.fieldData, DIFF_IGNORED_FIELDS),
+      text: diffText(revisionText(before), revisionText(after)),
+    };
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
+
+/**
+ * List entry for a revision without its content
+ */
+export function summarizeRevision(revision: ArticleRevision): RevisionSummary {
+  return {
+    number: revision.number,
+    action: revision.action,
+    submittedBy: revision.submittedBy,
+    title: revision.fieldData.name,
+    slug: revision.fieldData.slug,
+    changedFields: revision.changedFields,
+    revertedFrom: revision.revertedFrom,
+    locale: revision.locale,
+    createdAt: revision.createdAt,
+  };
+}
+
+// Plain text of a revision, one line per block
+function revisionText(revision: ArticleRevision): string {
+  return revision.delta ? convertDeltaToPlainText(revision.delta) : htmlToMarkdown(revision.html);
+}
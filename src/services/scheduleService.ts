@@ -0,0 +1,330 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { getKv } from "@utils/kv.ts";
+import { formatInTimeZone } from "@utils/timezone.ts";
+import { BusinessLogicError, ConflictError, NotFoundError } from "@utils/errors.ts";
+
+export type ScheduleStatus = "pending" | "published" | "failed" | "cancelled";
+
+export interface ScheduledPublication {
+  itemId: string;
+  publishAt: string; // UTC ISO timestamp
+  timezone: string; // Site time zone used for display and local input
+  collection?: string; // Collection key of the item; the default collection when unset
+  tenant?: string; // Tenant ID in multi-tenant mode
+  status: ScheduleStatus;
+  attempts: number;
+  claimedUntil?: number;
+  lastError?: string;
+  publishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleRunResult {
+  processed: number;
+  published: string[];
+  failed: string[];
+}
+
+export interface ScheduleServiceOptions {
+  maxAttempts?: number;
+  claimTimeoutMs?: number;
+}
+
+type PublishFn = (
+  itemId: string,
+  schedule: ScheduledPublication,
+) => Promise<{ success: boolean; error?: string }>;
+
+const SCHEDULE_PREFIX = "schedules";
+const DUE_INDEX_PREFIX = "schedules_due";
+
+/**
+ * Durable publication schedule backed by Deno KV.
+ * Pending entries are indexed by due time so the worker only scans what is due.
+ */
+export class ScheduleService {
+  private kv?: Deno.Kv;
+  private readonly maxAttempts: number;
+  private readonly claimTimeoutMs: number;
+
+  constructor(kv?: Deno.Kv, options: ScheduleServiceOptions = {}) {
+    this.kv = kv;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.claimTimeoutMs = options.claimTimeoutMs ?? 5 * 60 * 1000; // 5 minutes
+  }
+
+  /**
+   * Record a future publication for an item
+   */
+  async schedule(
+    itemId: string,
+    publishAt: Date,
+    timezone = "UTC",
+    target: Pick<ScheduledPublication, "collection" | "tenant"> = {},
+  ): Promise<ScheduledPublication> {
+    const kv = await this.getStore();
+    const now = new Date().toISOString();
+
+    const existing = await kv.get<ScheduledPublication>([SCHEDULE_PREFIX, itemId]);
+    const record: ScheduledPublication = {
+      itemId,
+      publishAt: publishAt.toISOString(),
+      timezone,
+      collection: target.collection,
+      tenant: target.tenant,
+      status: "pending",
+      attempts: 0,
+      createdAt: existing.value?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    const atomic = kv.atomic().check(existing);
+    if (existing.value?.status === "pending") {
+      atomic.delete(this.dueKey(existing.value));
+    }
+    const result = await atomic
+      .set([SCHEDULE_PREFIX, itemId], record)
+      .set(this.dueKey(record), itemId)
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Schedule was modified concurrently, please retry", "schedule", {
+        itemId,
+      });
+    }
+
+    logger.info("Scheduled publication recorded", {
+      itemId,
+      publishAt: record.publishAt,
+      localTime: formatInTimeZone(publishAt, timezone),
+      timezone,
+    });
+
+    return record;
+  }
+
+  /**
+   * Move a pending publication to a new time
+   */
+  async reschedule(itemId: string, publishAt: Date): Promise<ScheduledPublication> {
+    const current = await this.get(itemId);
+    if (current.status !== "pending") {
+      throw new BusinessLogicError(
+        `Cannot reschedule a ${current.status} publication`,
+        "SCHEDULE_NOT_PENDING",
+        { itemId, status: current.status },
+      );
+    }
+
+    return await this.schedule(itemId, publishAt, current.timezone, current);
+  }
+
+  /**
+   * Cancel a pending publication (the item stays a draft)
+   */
+  async cancel(itemId: string): Promise<ScheduledPublication> {
+    const kv = await this.getStore();
+    const entry = await kv.get<ScheduledPublication>([SCHEDULE_PREFIX, itemId]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Scheduled publication");
+    }
+    if (entry.value.status !== "pending") {
+      throw new BusinessLogicError(
+        `Cannot cancel a ${entry.value.status} publication`,
+        "SCHEDULE_NOT_PENDING",
+        { itemId, status: entry.value.status },
+      );
+    }
+
+    const record: ScheduledPublication = {
+      ...entry.value,
+      status: "cancelled",
+      updatedAt: new Date().toISOString(),
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .delete(this.dueKey(entry.value))
+      .set([SCHEDULE_PREFIX, itemId], record)
+      .commit();
+
+    if (!result.ok) {
+      throw new ConflictError("Schedule was modified concurrently, please retry", "schedule", {
+        itemId,
+      });
+    }
+
+    logger.info("Scheduled publication cancelled", { itemId });
+
+    return record;
+  }
+
+  /**
+   * Get the schedule for a single item
+   */
+  async get(itemId: string): Promise<ScheduledPublication> {
+    const kv = await this.getStore();
+    const entry = await kv.get<ScheduledPublication>([SCHEDULE_PREFIX, itemId]);
+
+    if (!entry.value) {
+      throw new NotFoundError("Scheduled publication");
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * List schedules, optionally filtered by status, ordered by publish time
+   */
+  async list(status?: ScheduleStatus): Promise<ScheduledPublication[]> {
+    const kv = await this.getStore();
+    const records: ScheduledPublication[] = [];
+
+    for await (const entry of kv.list<ScheduledPublication>({ prefix: [SCHEDULE_PREFIX] })) {
+      if (!status || entry.value.status === status) {
+        records.push(entry.value);
+      }
+    }
+
+    return records.sort((a, b) => Date.parse(a.publishAt) - Date.parse(b.publishAt));
+  }
+
+  /**
+   * Publish every pending item whose time has arrived.
+   * Also catches up on schedules missed while the service was down.
+   */
+  async processDue(publish: PublishFn, now = new Date()): Promise<ScheduleRunResult> {
+    const kv = await this.getStore();
+    const result: ScheduleRunResult = { processed: 0, published: [], failed: [] };
+
+    const due = kv.list<string>({
+      start: [DUE_INDEX_PREFIX],
+      end: [DUE_INDEX_PREFIX, now.getTime() + 1],
+    });
+
+    for await (const indexEntry of due) {
+      const itemId = indexEntry.value;
+      const claimed = await this.claim(kv, itemId, now);
+      if (!claimed) continue;
+
+      result.processed++;
+      const publishResult = await publish(itemId, claimed);
+
+      if (publishResult.success) {
+        await this.complete(kv, claimed);
+        result.published.push(itemId);
+      } else {
+        const failed = await this.recordFailure(kv, claimed, publishResult.error);
+        if (failed) result.failed.push(itemId);
+      }
+    }
+
+    if (result.processed > 0) {
+      logger.info("Processed scheduled publications", { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark a pending entry as in progress so concurrent workers skip it
+   */
+  private async claim(
+    kv: Deno.Kv,
+    itemId: string,
+    now: Date,
+  ): Promise<ScheduledPublication | null> {
+    const entry = await kv.get<ScheduledPublication>([SCHEDULE_PREFIX, itemId]);
+    const record = entry.value;
+
+    if (!record || record.status !== "pending") return null;
+    if (record.claimedUntil && record.claimedUntil > now.getTime()) return null;
+
+    const claimed: ScheduledPublication = {
+      ...record,
+      attempts: record.attempts + 1,
+      claimedUntil: now.getTime() + this.claimTimeoutMs,
+      updatedAt: now.toISOString(),
+    };
+
+    const commit = await kv.atomic()
+      .check(entry)
+      .set([SCHEDULE_PREFIX, itemId], claimed)
+      .commit();
+
+    return commit.ok ? claimed : null;
+  }
+
+  private async complete(kv: Deno.Kv, record: ScheduledPublication): Promise<void> {
+    const now = new Date().toISOString();
+
+    await kv.atomic()
+      .delete(this.dueKey(record))
+      .set(
+        [SCHEDULE_PREFIX, record.itemId],
+        {
+          ...record,
+          status: "published",
+          claimedUntil: undefined,
+          lastError: undefined,
+          publishedAt: now,
+          updatedAt: now,
+        } satisfies ScheduledPublication,
+      )
+      .commit();
+
+    logger.info("Scheduled item published", {
+      itemId: record.itemId,
+      publishAt: record.publishAt,
+      attempts: record.attempts,
+    });
+  }
+
+  /**
+   * Record a failed attempt; returns true once the entry has given up
+   */
+  private async recordFailure(
+    kv: Deno.Kv,
+    record: ScheduledPublication,
+    error?: string,
+  ): Promise<boolean> {
+    const exhausted = record.attempts >= this.maxAttempts;
+    const updated: ScheduledPublication = {
+      ...record,
+      status: exhausted ? "failed" : "pending",
+      claimedUntil: undefined,
+      lastError: error,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const atomic = kv.atomic().set([SCHEDULE_PREFIX, record.itemId], updated);
+    if (exhausted) {
+      atomic.delete(this.dueKey(record));
+    }
+    await atomic.commit();
+
+    logger[exhausted ? "error" : "warn"]("Scheduled publication attempt failed", {
+      itemId: record.itemId,
+      attempts: record.attempts,
+      maxAttempts: this.maxAttempts,
+      willRetry: !exhausted,
+      error: error ? new Error(error) : undefined,
+    });
+
+    return exhausted;
+  }
+
+  private dueKey(record: ScheduledPublication): Deno.KvKey {
+    return [DUE_INDEX_PREFIX, Date.parse(record.publishAt), record.itemId];
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
@@ -0,0 +1,219 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import type { CollectionConfig, MappableField } from "@config/collections.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { WebflowCollectionSchema, WebflowFieldType } from "../types/webflow.ts";
+
+export type SchemaProblem = "missing" | "type" | "required" | "reference";
+
+export interface SchemaIssue {
+  field: string; // Webflow field slug
+  problem: SchemaProblem;
+  message: string;
+}
+
+export interface SchemaStatus {
+  collection: string;
+  collectionId: string;
+  tenant?: string;
+  status: "compatible" | "incompatible" | "unknown";
+  issues: SchemaIssue[];
+  checkedAt: string;
+  error?: string; // Why the last check could not fetch the schema
+}
+
+interface FieldSpec {
+  types: WebflowFieldType[];
+  always: boolean; // Written by every submission, so it may be required in Webflow
+  reference?: "categories" | "tags" | "authors"; // Only written with this reference configured
+}
+
+// Webflow's own timestamps are not collection fields, so they are not checked
+type CheckedField = Exclude<MappableField, "created-on" | "updated-on">;
+
+/**
+ * What the middleware writes to each generated field. `name` and `slug` are Webflow's own
+ * fields and always exist.
+ */
+export const FIELD_SPECS: Record<CheckedField, FieldSpec> = {
+  "author-name": { types: ["PlainText"], always: true },
+  "meta-description": { types: ["PlainText"], always: true },
+  post: { types: ["RichText"], always: true },
+  "reading-time": { types: ["PlainText"], always: true },
+  "intro-text": { types: ["PlainText"], always: true },
+  "published-on": { types: ["DateTime"], always: false },
+  "featured-image": { types: ["Image"], always: false },
+  categories: { types: ["MultiReference"], always: false, reference: "categories" },
+  tags: { types: ["MultiReference"], always: false, reference: "tags" },
+  author: { types: ["Reference"], always: true, reference: "authors" },
+};
+
+/**
+ * Compare a collection's fields in Webflow with the fields submissions write to it:
+ * every mapped field has to exist with a compatible type, reference fields have to point to
+ * the configured collection, and required fields have to be filled by every submission
+ */
+export function checkCollectionSchema(
+  schema: WebflowCollectionSchema,
+  collection: CollectionConfig,
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const definitions = new Map((schema.fields ?? []).map((field) => [field.slug, field]));
+  const written = new Set(["name", "slug"]);
+
+  for (const [field, spec] of Object.entries(FIELD_SPECS) as [CheckedField, FieldSpec][]) {
+    const reference = spec.reference ? collection.references[spec.reference] : undefined;
+    if (spec.reference && !reference) continue;
+
+    const slug = collection.fields[field] ?? field;
+    const label = slug === field ? `"${slug}"` : `"${slug}" (${field})`;
+    const definition = definitions.get(slug);
+    written.add(slug);
+
+    if (!definition) {
+      issues.push({
+        field: slug,
+        problem: "missing",
+        message: `Field ${label} does not exist in the collection`,
+      });
+      continue;
+    }
+
+    if (!spec.types.includes(definition.type as WebflowFieldType)) {
+      issues.push({
+        field: slug,
+        problem: "type",
+        message: `Field ${label} is a ${definition.type} field, expected ${
+          spec.types.join(" or ")
+        }`,
+      });
+    } else if (
+      reference && definition.validations?.collectionId &&
+      definition.validations.collectionId !== reference.collectionId
+    ) {
+      issues.push({
+        field: slug,
+        problem: "reference",
+        message:
+          `Field ${label} references collection ${definition.validations.collectionId}, expected ${reference.collectionId}`,
+      });
+    }
+
+    if (definition.isRequired && !spec.always) {
+      issues.push({
+        field: slug,
+        problem: "required",
+        message: `Field ${label} is required in Webflow, but not every submission fills it`,
+      });
+    }
+  }
+
+  for (const definition of schema.fields ?? []) {
+    if (definition.isRequired && !written.has(definition.slug)) {
+      issues.push({
+        field: definition.slug,
+        problem: "required",
+        message: `Required field "${definition.slug}" is not filled by submissions`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Keeps track of whether a collection in Webflow still matches the field mapping.
+ * A collection found incompatible is checked again after `recheckInterval`, so submissions
+ * resume shortly after an editor fixes the fields.
+ */
+export class SchemaService {
+  private lastStatus?: SchemaStatus;
+  private checking?: Promise<SchemaStatus>;
+  private readonly recheckInterval: number;
+
+  constructor(
+    private readonly webflowService: WebflowService,
+    private readonly collection: CollectionConfig,
+    private readonly tenantId?: string,
+    options: { recheckInterval?: number } = {},
+  ) {
+    this.recheckInterval = options.recheckInterval ?? 60 * 1000; // 1 minute
+  }
+
+  /**
+   * Result of the last check; undefined before the first one
+   */
+  get status(): SchemaStatus | undefined {
+    return this.lastStatus;
+  }
+
+  /**
+   * Fetch the collection's schema and compare it with the mapping.
+   * When the schema cannot be fetched, an earlier incompatible result is kept.
+   */
+  check(): Promise<SchemaStatus> {
+    this.checking ??= this.runCheck().finally(() => {
+      this.checking = undefined;
+    });
+    return this.checking;
+  }
+
+  /**
+   * The last result, checked again first when it found problems a while ago
+   */
+  async current(now = Date.now()): Promise<SchemaStatus | undefined> {
+    const status = this.lastStatus;
+    if (
+      status?.status === "incompatible" &&
+      now - Date.parse(status.checkedAt) >= this.recheckInterval
+    ) {
+      return await this.check();
+    }
+    return status;
+  }
+
+  private async runCheck(): Promise<SchemaStatus> {
+    const base = {
+      collection: this.collection.key,
+      collectionId: this.collection.collectionId,
+      tenant: this.tenantId,
+      checkedAt: new Date().toISOString(),
+    };
+
+    try {
+      const schema = await this.webflowService.getCollectionSchema();
+      const issues = checkCollectionSchema(schema, this.collection);
+      this.lastStatus = {
+        ...base,
+        status: issues.length > 0 ? "incompatible" : "compatible",
+        issues,
+      };
+
+      if (issues.length > 0) {
+        logger.error("Collection fields do not match the field mapping", {
+          collection: this.collection.key,
+          tenant: this.tenantId,
+          issues: issues.map((issue) => issue.message),
+        });
+      } else {
+        logger.info("Collection fields match the field mapping", {
+          collection: this.collection.key,
+          tenant: this.tenantId,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn("Could not check the collection schema", {
+        collection: this.collection.key,
+        tenant: this.tenantId,
+        error: error instanceof Error ? error : new Error(message),
+      });
+
+      this.lastStatus = this.lastStatus?.status === "incompatible"
+        ? { ...this.lastStatus, checkedAt: base.checkedAt, error: message }
+        : { ...base, status: "unknown", issues: [], error: message };
+    }
+
+    return this.lastStatus;
+  }
+}
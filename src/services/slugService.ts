@@ -1,6 +1,7 @@
 /// <reference lib="deno.ns" />
 import { logger } from "@utils/logger.ts";
 import type { WebflowService } from "@services/webflowService.ts";
+import { createSlugFromKeywords, extractKeywords, generateSlug } from "@utils/slugGenerator.ts";
 
 export interface SlugGenerationOptions {
   maxLength?: number;
@@ -18,6 +19,24 @@ export interface SlugValidationResult {
   finalSlug?: string;
 }
 
+export interface SlugCheckResult {
+  slug: string;
+  isValid: boolean;
+  isReserved: boolean;
+  isUnique: boolean;
+  errors?: string[];
+  suggestions: string[]; // Available alternatives, best first
+}
+
+/**
+ * Per-collection slug rules
+ */
+export interface SlugRules {
+  maxLength?: number;
+  reserved?: string[]; // Reserved in addition to the built-in list
+  cmsLocaleId?: string; // Slugs are checked against this secondary locale's items
+}
+
 export interface SlugCacheEntry {
   slug: string;
   exists: boolean;
@@ -30,6 +49,8 @@ export class SlugService {
   private slugCache = new Map<string, SlugCacheEntry>();
   private readonly cacheTimeout = 5 * 60 * 1000; // 5 minutes
   private readonly maxCacheSize = 1000;
+  private readonly maxLength: number;
+  private readonly cmsLocaleId?: string;
   private cleanupInterval?: number;
 
   // Reserved slugs that cannot be used
@@ -85,8 +106,11 @@ export class SlugService {
     "preview",
   ]);
 
-  constructor(webflowService: WebflowService) {
+  constructor(webflowService: WebflowService, rules: SlugRules = {}) {
     this.webflowService = webflowService;
+    this.maxLength = rules.maxLength ?? 100;
+    this.cmsLocaleId = rules.cmsLocaleId;
+    rules.reserved?.forEach((slug) => this.reservedSlugs.add(slug));
 
     // Clean up cache periodically
     this.cleanupInterval = setInterval(() => this.cleanupCache(), this.cacheTimeout);
@@ -100,7 +124,7 @@ export class SlugService {
     options: SlugGenerationOptions = {},
   ): Promise<SlugValidationResult> {
     const opts = {
-      maxLength: 100,
+      maxLength: this.maxLength,
       preserveCase: false,
       allowNumbers: true,
       separator: "-",
@@ -199,6 +223,80 @@ export class SlugService {
     }
   }
 
+  /**
+   * Check a slug for live form feedback: format, reserved words and uniqueness,
+   * with available alternatives when it cannot be used
+   */
+  async checkSlug(slug: string, title?: string): Promise<SlugCheckResult> {
+    const formatResult = this.validateSlugFormat(slug);
+    const isReserved = this.reservedSlugs.has(slug);
+    const isUnique = formatResult.isValid ? await this.checkSlugUniqueness(slug) : false;
+    const errors = [...(formatResult.errors ?? [])];
+
+    if (formatResult.isValid && !isUnique) {
+      errors.push("Slug already exists");
+    }
+
+    const usable = formatResult.isValid && isUnique;
+
+    return {
+      slug,
+      isValid: formatResult.isValid,
+      isReserved,
+      isUnique,
+      errors: errors.length > 0 ? errors : undefined,
+      suggestions: usable ? [] : await this.suggestSlugs(title || slug.replace(/-+/g, " ")),
+    };
+  }
+
+  /**
+   * Suggest available slugs for a title, ranked from the full title down to its
+   * keywords and then numbered variations
+   */
+  async suggestSlugs(title: string, limit = 5): Promise<string[]> {
+    const fullSlug = this.generateBaseSlug(title, { maxLength: this.maxLength, separator: "-" });
+    const candidates = [
+      fullSlug,
+      generateSlug(title, { removeStopWords: true }),
+      createSlugFromKeywords(extractKeywords(title, 5)),
+      createSlugFromKeywords(extractKeywords(title, 3)),
+      ...this.generateSuggestions(fullSlug, false),
+    ];
+
+    const usable = [...new Set(candidates)].filter((candidate) =>
+      candidate && this.validateSlugFormat(candidate).isValid
+    );
+
+    try {
+      await this.cacheSlugs(usable);
+    } catch (error) {
+      logger.error("Failed to check slug suggestions", {
+        title,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+
+      // Without a listing no candidate can be vouched for
+      return [];
+    }
+
+    const suggestions: string[] = [];
+    for (const candidate of usable) {
+      if (suggestions.length >= limit) break;
+
+      if (await this.checkSlugUniqueness(candidate)) {
+        suggestions.push(candidate);
+      }
+    }
+
+    logger.debug("Slug suggestions generated", {
+      title,
+      candidates: candidates.length,
+      suggestions: suggestions.length,
+    });
+
+    return suggestions;
+  }
+
   /**
    * Generate base slug from title
    */
@@ -256,8 +354,8 @@ export class SlugService {
     }
 
     // Check length
-    if (slug.length > 100) {
-      errors.push("Slug must be 100 characters or less");
+    if (slug.length > this.maxLength) {
+      errors.push(`Slug must be ${this.maxLength} characters or less`);
     }
 
     if (slug.length < 1) {
@@ -377,7 +475,7 @@ export class SlugService {
 
     try {
       // Check via Webflow API
-      const result = await this.webflowService.checkSlugExists(slug);
+      const result = await this.webflowService.checkSlugExists(slug, this.cmsLocaleId);
 
       // Cache the result
       this.addToCache(slug, {
@@ -406,9 +504,30 @@ export class SlugService {
   }
 
   /**
-   * Generate alternative slug suggestions
+   * Cache the uniqueness of every uncached slug from one Webflow listing
+   */
+  private async cacheSlugs(slugs: string[]): Promise<void> {
+    const uncached = slugs.filter((slug) => this.getFromCache(slug) === null);
+    if (uncached.length === 0) return;
+
+    const results = await this.webflowService.checkSlugsExist(uncached, this.cmsLocaleId);
+    const timestamp = Date.now();
+    for (const slug of uncached) {
+      const result = results.get(slug);
+      this.addToCache(slug, {
+        slug,
+        exists: result?.exists ?? false,
+        timestamp,
+        itemId: result?.itemId,
+      });
+    }
+  }
+
+  /**
+   * Generate alternative slug suggestions. The timestamp variation is left out when the
+   * suggestions are checked for availability: it would never be cached and is no slug to rank.
    */
-  private generateSuggestions(slug: string): string[] {
+  private generateSuggestions(slug: string, includeTimestamp = true): string[] {
     const suggestions: string[] = [];
     const baseSlug = slug.replace(/-\d+$/, ""); // Remove trailing numbers
 
@@ -418,8 +537,10 @@ export class SlugService {
     }
 
     // Add timestamp variation
-    const timestamp = Date.now().toString().slice(-6);
-    suggestions.push(`${baseSlug}-${timestamp}`);
+    if (includeTimestamp) {
+      const timestamp = Date.now().toString().slice(-6);
+      suggestions.push(`${baseSlug}-${timestamp}`);
+    }
 
     // Add word variations
     const commonSuffixes = ["article", "post", "guide", "story"];
@@ -474,6 +595,37 @@ export class SlugService {
     }
   }
 
+  /**
+   * Forget what is known about a slug after its item was unpublished, archived or deleted,
+   * so the next check asks Webflow again
+   */
+  releaseSlug(slug: string): void {
+    if (this.slugCache.delete(slug)) {
+      logger.debug("Slug released from cache", { slug });
+    }
+  }
+
+  /**
+   * Forget every cached slug of an item, e.g. after it was changed or deleted in Webflow,
+   * where its old slug is not known
+   */
+  releaseItem(itemId: string): void {
+    for (const [slug, entry] of this.slugCache.entries()) {
+      if (entry.itemId === itemId) {
+        this.slugCache.delete(slug);
+        logger.debug("Slug released from cache", { slug, itemId });
+      }
+    }
+  }
+
+  /**
+   * Record a slug as taken right after its item was created, so later checks
+   * do not trust an earlier "available" cache entry
+   */
+  markSlugTaken(slug: string, itemId?: string): void {
+    this.addToCache(slug, { slug, exists: true, timestamp: Date.now(), itemId });
+  }
+
   /**
    * Get cache statistics for monitoring
    */
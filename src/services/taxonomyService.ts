@@ -0,0 +1,257 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { ValidationError } from "@utils/errors.ts";
+import { generateSlug } from "@utils/slugGenerator.ts";
+import { type ReferenceSettings, TAXONOMIES, type Taxonomy } from "@config/collections.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+
+export interface TaxonomyCacheOptions {
+  cacheTimeout?: number; // How long a loaded collection is trusted
+  refreshInterval?: number; // Minimum age before an unknown name triggers a reload
+}
+
+interface TermIndex {
+  byName: Map<string, string>;
+  bySlug: Map<string, string>;
+  loadedAt: number;
+}
+
+const LABELS: Record<Taxonomy, string> = {
+  categories: "category",
+  tags: "tag",
+};
+
+/**
+ * Resolves category and tag names to the item IDs of the reference collections
+ * configured for a collection. Names match a term's name case-insensitively or its slug;
+ * what happens to names without a term follows the reference's `missing` policy.
+ * Each reference collection is loaded once and kept in memory.
+ */
+export class TaxonomyService {
+  private readonly services = new Map<Taxonomy, WebflowService>();
+  private readonly indexes = new Map<Taxonomy, Promise<TermIndex>>();
+  private readonly creating = new Map<string, Promise<string>>();
+  private readonly cacheTimeout: number;
+  private readonly refreshInterval: number;
+
+  constructor(
+    private readonly webflowService: WebflowService,
+    private readonly references: ReferenceSettings,
+    options: TaxonomyCacheOptions = {},
+  ) {
+    this.cacheTimeout = options.cacheTimeout ?? 10 * 60 * 1000; // 10 minutes
+    this.refreshInterval = options.refreshInterval ?? 60 * 1000; // 1 minute
+  }
+
+  /**
+   * Whether names of this taxonomy are resolved to references
+   */
+  isConfigured(taxonomy: Taxonomy): boolean {
+    return !!this.references[taxonomy];
+  }
+
+  /**
+   * Item IDs for the names, in order and without duplicates.
+   * Unknown names are dropped, created or rejected with a ValidationError, by policy.
+   */
+  async resolve(taxonomy: Taxonomy, names: string[]): Promise<string[]> {
+    const reference = this.references[taxonomy];
+    if (!reference) return [];
+
+    const { found, unknown } = await this.lookup(taxonomy, names);
+
+    if (unknown.length > 0) {
+      switch (reference.missing) {
+        case "reject":
+          throw this.unknownTermsError(taxonomy, unknown);
+        case "create":
+          for (const name of unknown) {
+            found.set(termKey(name), await this.createTerm(taxonomy, name));
+          }
+          break;
+        default:
+          logger.warn("Skipping unknown terms", { taxonomy, names: unknown });
+      }
+    }
+
+    return [...new Set(uniqueNames(names).map((name) => found.get(termKey(name))))]
+      .filter((id): id is string => !!id);
+  }
+
+  /**
+   * Reject unknown names up front where the policy is strict, without creating anything
+   */
+  async check(data: Partial<Record<Taxonomy, string[]>>): Promise<void> {
+    for (const taxonomy of TAXONOMIES) {
+      const names = data[taxonomy];
+      if (this.references[taxonomy]?.missing !== "reject" || !names?.length) continue;
+
+      const { unknown } = await this.lookup(taxonomy, names);
+      if (unknown.length > 0) {
+        throw this.unknownTermsError(taxonomy, unknown);
+      }
+    }
+  }
+
+  /**
+   * Forget the loaded terms, e.g. after terms were edited in Webflow
+   */
+  clearCache(taxonomy?: Taxonomy): void {
+    if (taxonomy) {
+      this.indexes.delete(taxonomy);
+    } else {
+      this.indexes.clear();
+    }
+  }
+
+  /**
+   * Match names against the cached terms; when some are unknown and the cache is not
+   * fresh, the collection is loaded again in case the terms were added since
+   */
+  private async lookup(
+    taxonomy: Taxonomy,
+    names: string[],
+  ): Promise<{ found: Map<string, string>; unknown: string[] }> {
+    let index = await this.getIndex(taxonomy);
+    let result = matchTerms(index, names);
+
+    if (result.unknown.length > 0 && Date.now() - index.loadedAt >= this.refreshInterval) {
+      this.indexes.delete(taxonomy);
+      index = await this.getIndex(taxonomy);
+      result = matchTerms(index, names);
+    }
+
+    return result;
+  }
+
+  private getIndex(taxonomy: Taxonomy): Promise<TermIndex> {
+    const cached = this.indexes.get(taxonomy);
+    if (cached) {
+      return cached.then((index) => {
+        if (Date.now() - index.loadedAt < this.cacheTimeout) return index;
+        if (this.indexes.get(taxonomy) === cached) this.indexes.delete(taxonomy);
+        return this.getIndex(taxonomy);
+      });
+    }
+
+    const loading = this.loadIndex(taxonomy);
+    this.indexes.set(taxonomy, loading);
+    // A failed load is not cached, so the next submission tries again
+    loading.catch(() => {
+      if (this.indexes.get(taxonomy) === loading) this.indexes.delete(taxonomy);
+    });
+    return loading;
+  }
+
+  private async loadIndex(taxonomy: Taxonomy): Promise<TermIndex> {
+    const index: TermIndex = { byName: new Map(), bySlug: new Map(), loadedAt: Date.now() };
+
+    for (const item of await this.serviceFor(taxonomy).getAllCollectionItems()) {
+      if (item.isArchived) continue;
+      if (typeof item.fieldData.name === "string") {
+        index.byName.set(termKey(item.fieldData.name), item.id);
+      }
+      if (typeof item.fieldData.slug === "string") {
+        index.bySlug.set(item.fieldData.slug, item.id);
+      }
+    }
+
+    logger.debug("Loaded reference terms", { taxonomy, count: index.byName.size });
+    return index;
+  }
+
+  /**
+   * Add a term to the reference collection and publish it, so published articles can link it.
+   * Concurrent submissions with the same new name share one creation.
+   */
+  private createTerm(taxonomy: Taxonomy, name: string): Promise<string> {
+    const key = `${taxonomy}:${termKey(name)}`;
+    const pending = this.creating.get(key);
+    if (pending) return pending;
+
+    const creation = (async () => {
+      const service = this.serviceFor(taxonomy);
+      const slug = generateSlug(name);
+      const item = await service.createCollectionItem({
+        isDraft: false,
+        isArchived: false,
+        fieldData: { name, slug },
+      });
+
+      try {
+        await service.publishItem(item.id);
+      } catch (error) {
+        logger.warn("Created term could not be published", {
+          taxonomy,
+          itemId: item.id,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+
+      const index = await this.indexes.get(taxonomy);
+      index?.byName.set(termKey(name), item.id);
+      index?.bySlug.set(item.fieldData?.slug ?? slug, item.id);
+
+      logger.info("Created reference term", { taxonomy, name, itemId: item.id });
+      return item.id;
+    })();
+
+    this.creating.set(key, creation);
+    creation.finally(() => this.creating.delete(key)).catch(() => {});
+    return creation;
+  }
+
+  private serviceFor(taxonomy: Taxonomy): WebflowService {
+    let service = this.services.get(taxonomy);
+    if (!service) {
+      service = this.webflowService.forCollection(this.references[taxonomy]!.collectionId);
+      this.services.set(taxonomy, service);
+    }
+    return service;
+  }
+
+  private unknownTermsError(taxonomy: Taxonomy, unknown: string[]): ValidationError {
+    const label = unknown.length === 1 ? LABELS[taxonomy] : taxonomy;
+    return new ValidationError(
+      `Unknown ${label}: ${unknown.join(", ")}`,
+      taxonomy,
+      unknown,
+    );
+  }
+}
+
+function termKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Trimmed names without blanks and case-insensitive duplicates
+ */
+function uniqueNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.map((name) => name.trim()).filter((name) => {
+    const key = termKey(name);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function matchTerms(
+  index: TermIndex,
+  names: string[],
+): { found: Map<string, string>; unknown: string[] } {
+  const found = new Map<string, string>();
+  const unknown: string[] = [];
+
+  for (const name of uniqueNames(names)) {
+    const id = index.byName.get(termKey(name)) ?? index.bySlug.get(generateSlug(name));
+    if (id) {
+      found.set(termKey(name), id);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  return { found, unknown };
+}
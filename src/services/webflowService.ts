@@ -1,11 +1,16 @@
 /// <reference lib="deno.ns" />
+import { createHash } from "node:crypto";
 import { logger } from "@utils/logger.ts";
-import { parseNetworkError, parseWebflowError } from "@utils/webflowErrors.ts";
+import { isWebflowError, parseNetworkError, parseWebflowError } from "@utils/webflowErrors.ts";
 import { createWebflowRetryHandler, type WebflowRetryHandler } from "@utils/retry.ts";
 import type {
+  WebflowAsset,
+  WebflowAssetUpload,
   WebflowCollectionItem,
+  WebflowCollectionSchema,
   WebflowCreateItemRequest,
   WebflowListResponse,
+  WebflowSite,
 } from "../types/webflow.ts";
 
 export interface WebflowServiceConfig {
@@ -21,6 +26,7 @@ export interface WebflowQueryOptions {
   offset?: string;
   sort?: string[];
   filter?: Record<string, unknown>;
+  cmsLocaleId?: string; // Items of a secondary locale; the primary locale when unset
 }
 
 export interface WebflowSlugCheckResult {
@@ -56,6 +62,13 @@ export class WebflowService {
     });
   }
 
+  /**
+   * Service for another collection of the same site, with the same token and settings
+   */
+  forCollection(collectionId: string): WebflowService {
+    return new WebflowService({ ...this.config, collectionId });
+  }
+
   /**
    * Get collection items with optional filtering and pagination
    */
@@ -67,6 +80,7 @@ export class WebflowService {
     // Add query parameters
     if (options.limit) url.searchParams.set("limit", options.limit.toString());
     if (options.offset) url.searchParams.set("offset", options.offset);
+    if (options.cmsLocaleId) url.searchParams.set("cmsLocaleId", options.cmsLocaleId);
     if (options.sort) {
       options.sort.forEach((sort) => url.searchParams.append("sort", sort));
     }
@@ -97,6 +111,24 @@ export class WebflowService {
     return response;
   }
 
+  /**
+   * All items of the collection, fetched page by page; meant for small collections
+   * such as categories or authors
+   */
+  async getAllCollectionItems(pageSize = 100): Promise<WebflowCollectionItem[]> {
+    const items: WebflowCollectionItem[] = [];
+
+    for (let offset = 0;; offset += pageSize) {
+      const page = await this.getCollectionItems({ limit: pageSize, offset: String(offset) });
+      items.push(...(page.items ?? []));
+
+      const total = page.pagination?.total ?? 0;
+      if ((page.items?.length ?? 0) < pageSize || offset + pageSize >= total) break;
+    }
+
+    return items;
+  }
+
   /**
    * Create a new collection item
    */
@@ -131,59 +163,147 @@ export class WebflowService {
   }
 
   /**
-   * Publish a collection item (make it live)
+   * Publish a collection item (make it live), optionally only in the given locales
    */
-  async publishItem(itemId: string): Promise<void> {
+  async publishItem(itemId: string, cmsLocaleIds?: string[]): Promise<void> {
     const url = `${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}/publish`;
 
     await this.retryHandler.execute(
       () =>
         this.makeRequest<void>(url, {
           method: "POST",
-          body: JSON.stringify({}),
+          body: JSON.stringify(cmsLocaleIds ? { cmsLocaleIds } : {}),
         }),
       {
         operation: "publishItem",
         collectionId: this.config.collectionId,
         itemId,
+        cmsLocaleIds,
       },
     );
 
     logger.info("Published collection item", {
       collectionId: this.config.collectionId,
       itemId,
+      cmsLocaleIds,
     });
   }
 
   /**
-   * Check if a slug already exists in the collection
+   * Unpublish a live collection item (the staged item is kept)
    */
-  async checkSlugExists(slug: string): Promise<WebflowSlugCheckResult> {
+  async unpublishItem(itemId: string): Promise<void> {
+    const url = `${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}/live`;
+
+    await this.retryHandler.execute(
+      () => this.makeRequest<void>(url, { method: "DELETE" }),
+      {
+        operation: "unpublishItem",
+        collectionId: this.config.collectionId,
+        itemId,
+      },
+    );
+
+    logger.info("Unpublished collection item", {
+      collectionId: this.config.collectionId,
+      itemId,
+    });
+  }
+
+  /**
+   * Archive (or restore) a collection item
+   */
+  async setItemArchived(itemId: string, isArchived: boolean): Promise<WebflowCollectionItem> {
+    const url = `${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}`;
+
+    const response = await this.retryHandler.execute(
+      () =>
+        this.makeRequest<WebflowCollectionItem>(url, {
+          method: "PATCH",
+          body: JSON.stringify({ isArchived }),
+        }),
+      {
+        operation: "setItemArchived",
+        collectionId: this.config.collectionId,
+        itemId,
+        isArchived,
+      },
+    );
+
+    logger.info(isArchived ? "Archived collection item" : "Restored collection item", {
+      collectionId: this.config.collectionId,
+      itemId,
+    });
+
+    return response;
+  }
+
+  /**
+   * Delete a staged collection item (unpublish it first to remove the live copy)
+   */
+  async deleteItem(itemId: string): Promise<void> {
+    const url = `${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}`;
+
+    await this.retryHandler.execute(
+      () => this.makeRequest<void>(url, { method: "DELETE" }),
+      {
+        operation: "deleteItem",
+        collectionId: this.config.collectionId,
+        itemId,
+      },
+    );
+
+    logger.info("Deleted collection item", {
+      collectionId: this.config.collectionId,
+      itemId,
+    });
+  }
+
+  /**
+   * Check if a slug already exists in the collection (in one locale, as slugs can be localized)
+   */
+  async checkSlugExists(slug: string, cmsLocaleId?: string): Promise<WebflowSlugCheckResult> {
+    const results = await this.checkSlugsExist([slug], cmsLocaleId);
+    return results.get(slug) ?? { exists: false };
+  }
+
+  /**
+   * Check several slugs against a single listing of the collection, so callers
+   * weighing many candidates make one Webflow request instead of one each
+   */
+  async checkSlugsExist(
+    slugs: string[],
+    cmsLocaleId?: string,
+  ): Promise<Map<string, WebflowSlugCheckResult>> {
     try {
       // Get more items to check for exact matches since API filter might be doing partial matching
       const response = await this.getCollectionItems({
         limit: 100, // Get more items to increase chances of finding exact match
+        cmsLocaleId,
       });
 
-      // Find exact slug match
-      const exactMatch = response.items?.find((item: WebflowCollectionItem) =>
-        item.fieldData.slug === slug
-      );
+      const itemIds = new Map<string, string>();
+      for (const item of response.items ?? []) {
+        itemIds.set(item.fieldData.slug, item.id);
+      }
 
-      const exists = !!exactMatch;
-      const itemId = exactMatch?.id;
+      const results = new Map<string, WebflowSlugCheckResult>();
+      for (const slug of slugs) {
+        const itemId = itemIds.get(slug);
+        results.set(slug, { exists: itemId !== undefined, itemId });
+      }
 
       logger.debug("Slug existence check", {
-        slug,
-        exists,
-        itemId,
+        slugs,
+        existing: slugs.filter((slug) => results.get(slug)?.exists),
+        cmsLocaleId,
         totalItemsChecked: response.items?.length || 0,
       });
 
-      return { exists, itemId };
+      return results;
     } catch (error) {
       logger.error("Failed to check slug existence", {
-        slug,
+        slugs,
         error: error instanceof Error ? error : new Error(String(error)),
       });
       throw error;
@@ -191,25 +311,27 @@ export class WebflowService {
   }
 
   /**
-   * Get a specific collection item by ID
+   * Get a specific collection item by ID, in the primary locale unless `cmsLocaleId` is given
    */
-  async getCollectionItem(itemId: string): Promise<WebflowCollectionItem> {
-    const url = `${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}`;
+  async getCollectionItem(itemId: string, cmsLocaleId?: string): Promise<WebflowCollectionItem> {
+    const url = new URL(`${this.baseUrl}/collections/${this.config.collectionId}/items/${itemId}`);
+    if (cmsLocaleId) url.searchParams.set("cmsLocaleId", cmsLocaleId);
 
-    const response = await this.makeRequest<WebflowCollectionItem>(url, {
+    const response = await this.makeRequest<WebflowCollectionItem>(url.toString(), {
       method: "GET",
     });
 
     logger.debug("Retrieved collection item", {
       collectionId: this.config.collectionId,
       itemId,
+      cmsLocaleId,
     });
 
     return response;
   }
 
   /**
-   * Update an existing collection item
+   * Update an existing collection item; with `cmsLocaleId` only that locale's variant changes
    */
   async updateCollectionItem(
     itemId: string,
@@ -226,11 +348,103 @@ export class WebflowService {
       collectionId: this.config.collectionId,
       itemId,
       slug: data.fieldData?.slug,
+      cmsLocaleId: data.cmsLocaleId,
     });
 
     return response;
   }
 
+  /**
+   * Get the collection's field definitions (slugs, types, required flags)
+   */
+  async getCollectionSchema(): Promise<WebflowCollectionSchema> {
+    const url = `${this.baseUrl}/collections/${this.config.collectionId}`;
+
+    const response = await this.retryHandler.execute(
+      () => this.makeRequest<WebflowCollectionSchema>(url, { method: "GET" }),
+      {
+        operation: "getCollectionSchema",
+        collectionId: this.config.collectionId,
+      },
+    );
+
+    logger.debug("Retrieved collection schema", {
+      collectionId: this.config.collectionId,
+      fields: response.fields?.length || 0,
+    });
+
+    return response;
+  }
+
+  /**
+   * Get the site this service publishes to (timezone, locales, ...)
+   */
+  async getSite(): Promise<WebflowSite> {
+    const url = `${this.baseUrl}/sites/${this.config.siteId}`;
+
+    const response = await this.retryHandler.execute(
+      () => this.makeRequest<WebflowSite>(url, { method: "GET" }),
+      {
+        operation: "getSite",
+        siteId: this.config.siteId,
+      },
+    );
+
+    logger.debug("Retrieved site", {
+      siteId: this.config.siteId,
+      timezone: response.timezone,
+    });
+
+    return response;
+  }
+
+  /**
+   * Store a file in the site's assets (requires the assets:write scope).
+   * Webflow answers the creation call with a presigned form, to which the file is then posted.
+   */
+  async uploadAsset(
+    file: { fileName: string; bytes: Uint8Array<ArrayBuffer>; contentType: string },
+  ): Promise<WebflowAsset> {
+    const url = `${this.baseUrl}/sites/${this.config.siteId}/assets`;
+    const fileHash = createHash("md5").update(file.bytes).digest("hex");
+
+    const upload = await this.retryHandler.execute(
+      () =>
+        this.makeRequest<WebflowAssetUpload>(url, {
+          method: "POST",
+          body: JSON.stringify({ fileName: file.fileName, fileHash }),
+        }),
+      {
+        operation: "createAsset",
+        siteId: this.config.siteId,
+        fileName: file.fileName,
+      },
+    );
+
+    await this.retryHandler.execute(
+      () => this.postAssetFile(upload, file),
+      {
+        operation: "uploadAssetFile",
+        siteId: this.config.siteId,
+        assetId: upload.id,
+      },
+    );
+
+    logger.info("Uploaded asset", {
+      siteId: this.config.siteId,
+      assetId: upload.id,
+      fileName: file.fileName,
+      size: file.bytes.length,
+    });
+
+    return {
+      id: upload.id,
+      url: upload.hostedUrl,
+      fileName: file.fileName,
+      contentType: upload.contentType || file.contentType,
+    };
+  }
+
   /**
    * Test API connection and permissions
    */
@@ -315,6 +529,11 @@ export class WebflowService {
     } catch (error) {
       clearTimeout(timeoutId);
 
+      // API errors are already parsed by handleApiError
+      if (isWebflowError(error)) {
+        throw error;
+      }
+
       if (error instanceof Error && error.name === "AbortError") {
         throw parseNetworkError(new Error(`Request timeout after ${this.timeout}ms`));
       }
@@ -327,6 +546,52 @@ export class WebflowService {
     }
   }
 
+  /**
+   * Post a file to the storage form returned by the asset creation call.
+   * The form fields come first; storage ignores anything after the file.
+   */
+  private async postAssetFile(
+    upload: WebflowAssetUpload,
+    file: { fileName: string; bytes: Uint8Array<ArrayBuffer>; contentType: string },
+  ): Promise<void> {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(upload.uploadDetails)) {
+      form.append(key, value);
+    }
+    form.append(
+      "file",
+      new Blob([file.bytes], { type: upload.uploadDetails["content-type"] ?? file.contentType }),
+      file.fileName,
+    );
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(upload.uploadUrl, {
+        method: "POST",
+        body: form,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw parseWebflowError(response, null);
+      }
+      await response.body?.cancel();
+    } catch (error) {
+      if (isWebflowError(error)) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === "AbortError") {
+        throw parseNetworkError(new Error(`Request timeout after ${this.timeout}ms`));
+      }
+      throw error instanceof Error ? parseNetworkError(error) : error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   /**
    * Handle API error responses with detailed error messages
    */
@@ -358,12 +623,17 @@ export class WebflowService {
 }
 
 /**
- * Create and configure Webflow service instance
+ * Create and configure Webflow service instance.
+ * `collectionId` selects a collection other than WEBFLOW_COLLECTION_ID, and
+ * `credentials` a tenant's token and site instead of the environment ones.
  */
-export function createWebflowService(): WebflowService {
-  const apiToken = Deno.env.get("WEBFLOW_API_TOKEN");
-  const siteId = Deno.env.get("WEBFLOW_SITE_ID");
-  const collectionId = Deno.env.get("WEBFLOW_COLLECTION_ID");
+export function createWebflowService(
+  collectionId?: string,
+  credentials?: { apiToken: string; siteId: string },
+): WebflowService {
+  const apiToken = credentials?.apiToken ?? Deno.env.get("WEBFLOW_API_TOKEN");
+  const siteId = credentials?.siteId ?? Deno.env.get("WEBFLOW_SITE_ID");
+  collectionId = collectionId || Deno.env.get("WEBFLOW_COLLECTION_ID");
 
   if (!apiToken) {
     throw new Error("WEBFLOW_API_TOKEN environment variable is required");
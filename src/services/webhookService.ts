@@ -0,0 +1,201 @@
+/// <reference lib="deno.ns" />
+import { logger } from "@utils/logger.ts";
+import { config } from "@config/index.ts";
+import { collectionRegistry, findCollectionById, getCollection } from "@config/collections.ts";
+import { getTenant } from "@config/tenants.ts";
+import { getCMSService } from "@services/cmsService.ts";
+import { getArticleService } from "@services/articleService.ts";
+import { getKv, timingSafeEqual } from "@utils/kv.ts";
+import { hmacSignHex } from "@utils/hmac.ts";
+import { AuthenticationError } from "@utils/errors.ts";
+import type {
+  WebflowItemWebhookTrigger,
+  WebflowWebhookPayload,
+  WebflowWebhookTrigger,
+} from "../types/webflow.ts";
+
+export const WEBHOOK_TRIGGERS: readonly WebflowWebhookTrigger[] = [
+  "collection_item_created",
+  "collection_item_changed",
+  "collection_item_deleted",
+  "collection_item_unpublished",
+  "site_publish",
+];
+
+export const ITEM_WEBHOOK_TRIGGERS: readonly WebflowItemWebhookTrigger[] = [
+  "collection_item_created",
+  "collection_item_changed",
+  "collection_item_deleted",
+  "collection_item_unpublished",
+];
+
+export interface WebhookEvent<T extends WebflowWebhookTrigger = WebflowWebhookTrigger> {
+  id: string; // SHA-256 of the delivery body; Webflow sends no event ID, and retries are identical
+  triggerType: T;
+  payload: WebflowWebhookPayload<T>;
+  tenant?: string; // Tenant publishing to the site in multi-tenant mode
+  receivedAt: string;
+}
+
+export type WebhookHandler<T extends WebflowWebhookTrigger = WebflowWebhookTrigger> = (
+  event: WebhookEvent<T>,
+) => void | Promise<void>;
+
+export interface WebhookSignature {
+  timestamp?: string; // x-webflow-timestamp, milliseconds since the epoch
+  signature?: string; // x-webflow-signature
+}
+
+export interface WebhookReceiveResult {
+  duplicate: boolean;
+  handlers: number;
+}
+
+export interface WebhookServiceOptions {
+  maxAgeMs?: number;
+  dedupeTtlMs?: number;
+}
+
+const WEBHOOK_EVENT_PREFIX = "webhook_events";
+
+/**
+ * Receives Webflow webhook deliveries: checks their signature, drops events that were
+ * already processed and dispatches the rest to the handlers registered for their trigger
+ */
+export class WebhookService {
+  private kv?: Deno.Kv;
+  private readonly maxAgeMs: number;
+  private readonly dedupeTtlMs: number;
+  private readonly handlers = new Map<WebflowWebhookTrigger, WebhookHandler[]>();
+
+  constructor(kv?: Deno.Kv, options: WebhookServiceOptions = {}) {
+    this.kv = kv;
+    this.maxAgeMs = options.maxAgeMs ?? config.WEBHOOK_MAX_AGE_MS;
+    this.dedupeTtlMs = options.dedupeTtlMs ?? 24 * 60 * 60 * 1000; // 24 hours
+  }
+
+  /**
+   * Register a handler for a trigger; handlers run in registration order
+   */
+  on<T extends WebflowWebhookTrigger>(trigger: T, handler: WebhookHandler<T>): void {
+    const handlers = this.handlers.get(trigger) ?? [];
+    handlers.push(handler as unknown as WebhookHandler);
+    this.handlers.set(trigger, handlers);
+  }
+
+  /**
+   * Check Webflow's signature headers: a hex HMAC-SHA256 of `timestamp:body` with the
+   * webhook secret, and a timestamp within the allowed age so old deliveries cannot be replayed
+   */
+  async verifySignature(
+    body: string,
+    headers: WebhookSignature,
+    secret: string,
+    now = Date.now(),
+  ): Promise<void> {
+    if (!headers.timestamp || !headers.signature) {
+      throw new AuthenticationError("Webhook signature headers are missing");
+    }
+
+    const timestamp = Number(headers.timestamp);
+    if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > this.maxAgeMs) {
+      throw new AuthenticationError("Webhook timestamp is too old", {
+        timestamp: headers.timestamp,
+      });
+    }
+
+    const expected = await hmacSignHex(secret, `${headers.timestamp}:${body}`);
+    if (!timingSafeEqual(expected, headers.signature.toLowerCase())) {
+      throw new AuthenticationError("Webhook signature is invalid");
+    }
+  }
+
+  /**
+   * Process an event once. A failing handler releases the event so Webflow's retry runs it again.
+   */
+  async receive(event: WebhookEvent): Promise<WebhookReceiveResult> {
+    const kv = await this.getStore();
+    const key = [WEBHOOK_EVENT_PREFIX, event.id];
+
+    const claim = await kv.atomic()
+      .check({ key, versionstamp: null })
+      .set(key, { triggerType: event.triggerType, receivedAt: event.receivedAt }, {
+        expireIn: this.dedupeTtlMs,
+      })
+      .commit();
+
+    if (!claim.ok) {
+      logger.info("Duplicate webhook event ignored", {
+        eventId: event.id,
+        triggerType: event.triggerType,
+      });
+      return { duplicate: true, handlers: 0 };
+    }
+
+    const handlers = this.handlers.get(event.triggerType) ?? [];
+    try {
+      for (const handler of handlers) {
+        await handler(event);
+      }
+    } catch (error) {
+      await kv.delete(key);
+      throw error;
+    }
+
+    logger.info("Webhook event processed", {
+      eventId: event.id,
+      triggerType: event.triggerType,
+      tenant: event.tenant,
+      handlers: handlers.length,
+    });
+
+    return { duplicate: false, handlers: handlers.length };
+  }
+
+  private async getStore(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+}
+
+/**
+ * Keep the slug caches and the public article cache in line with changes made
+ * directly in Webflow
+ */
+export function registerCacheInvalidation(webhooks: WebhookService): void {
+  for (const trigger of ITEM_WEBHOOK_TRIGGERS) {
+    webhooks.on(trigger, syncChangedItem);
+  }
+
+  webhooks.on("site_publish", (event) => {
+    getArticleService(event.tenant).invalidate();
+  });
+}
+
+async function syncChangedItem(event: WebhookEvent<WebflowItemWebhookTrigger>): Promise<void> {
+  const { payload } = event;
+  const collections = event.tenant ? getTenant(event.tenant).collections : collectionRegistry;
+  const collection = findCollectionById(payload.collectionId, collections);
+
+  if (!collection) {
+    logger.debug("Webhook for an unregistered collection ignored", {
+      eventId: event.id,
+      collectionId: payload.collectionId,
+    });
+    return;
+  }
+
+  await getCMSService(collection.key, event.tenant).syncItem(
+    payload.id,
+    event.triggerType === "collection_item_deleted"
+      ? {}
+      : { slug: payload.fieldData?.slug, cmsLocaleId: payload.cmsLocaleId },
+  );
+
+  // The public article API lists the default collection
+  if (collection.key === getCollection(undefined, collections).key) {
+    getArticleService(event.tenant).invalidate();
+  }
+}
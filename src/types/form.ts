@@ -4,6 +4,8 @@
 export type {
   DraftFormData,
   FormData,
+  LocaleVariantData,
+  PreviewFormData,
   QuillDelta,
   QuillOp,
   UpdateFormData,
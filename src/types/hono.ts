@@ -1,5 +1,6 @@
 /// <reference lib="deno.ns" />
 import type { Hono } from "@hono/hono";
+import type { TenantConfig } from "@config/tenants.ts";
 
 // Define our custom context variables
 export type Variables = {
@@ -9,6 +10,7 @@ export type Variables = {
   startTime: number;
   cspNonce?: string;
   apiKey?: string;
+  tenant?: TenantConfig; // Set by the tenant resolver in multi-tenant mode
 };
 
 // Export a typed Hono instance
@@ -8,6 +8,43 @@ export interface WebflowCollection {
   lastUpdated: string;
 }
 
+// Field types of the Webflow CMS
+export type WebflowFieldType =
+  | "PlainText"
+  | "RichText"
+  | "Image"
+  | "MultiImage"
+  | "Video"
+  | "Link"
+  | "Email"
+  | "Phone"
+  | "Number"
+  | "DateTime"
+  | "Switch"
+  | "Color"
+  | "Option"
+  | "File"
+  | "Reference"
+  | "MultiReference"
+  | "User";
+
+export interface WebflowCollectionField {
+  id: string;
+  slug: string;
+  displayName: string;
+  type: WebflowFieldType | string;
+  isRequired: boolean;
+  isEditable?: boolean;
+  helpText?: string | null;
+  validations?: { collectionId?: string; [key: string]: unknown } | null;
+}
+
+// Collection with its field definitions, as returned by `GET /collections/:id`
+export interface WebflowCollectionSchema extends WebflowCollection {
+  singularName?: string;
+  fields: WebflowCollectionField[];
+}
+
 export interface WebflowCollectionItem {
   id: string;
   cmsLocaleId: string;
@@ -36,9 +73,36 @@ export interface WebflowFieldData {
 export interface WebflowCreateItemRequest {
   isArchived?: boolean;
   isDraft?: boolean;
+  cmsLocaleId?: string; // Locale variant to write; the primary locale when unset
   fieldData: Partial<WebflowFieldData>;
 }
 
+// Value of an image field; `fileId` is set for files stored in the site's assets
+export interface WebflowImage {
+  fileId?: string;
+  url: string;
+  alt?: string | null;
+}
+
+// Response of the asset creation call: where to POST the file, and where it will be served
+export interface WebflowAssetUpload {
+  id: string;
+  contentType: string;
+  uploadUrl: string;
+  uploadDetails: Record<string, string>;
+  hostedUrl: string;
+  assetUrl?: string;
+  originalFileName?: string;
+  createdOn?: string;
+}
+
+export interface WebflowAsset {
+  id: string;
+  url: string;
+  fileName: string;
+  contentType: string;
+}
+
 export interface WebflowListResponse<T> {
   items: T[];
   pagination: {
@@ -69,6 +133,43 @@ export interface WebflowLocale {
   isEnabled: boolean;
 }
 
+// Webhook triggers handled by the middleware
+export type WebflowWebhookTrigger =
+  | "collection_item_created"
+  | "collection_item_changed"
+  | "collection_item_deleted"
+  | "collection_item_unpublished"
+  | "site_publish";
+
+export type WebflowItemWebhookTrigger = Exclude<WebflowWebhookTrigger, "site_publish">;
+
+// Payload of collection item webhooks; deletions only carry the IDs
+export interface WebflowItemWebhookPayload {
+  id: string;
+  siteId: string;
+  workspaceId?: string;
+  collectionId: string;
+  cmsLocaleId?: string;
+  lastPublished?: string;
+  lastUpdated?: string;
+  createdOn?: string;
+  deletedOn?: string;
+  isArchived?: boolean;
+  isDraft?: boolean;
+  fieldData?: Partial<WebflowFieldData>;
+}
+
+export interface WebflowSitePublishWebhookPayload {
+  siteId: string;
+  publishedOn: string;
+  domains?: string[];
+  publishedBy?: { displayName: string };
+}
+
+export type WebflowWebhookPayload<T extends WebflowWebhookTrigger> = T extends "site_publish"
+  ? WebflowSitePublishWebhookPayload
+  : WebflowItemWebhookPayload;
+
 export interface WebflowApiError {
   message: string;
   code: string;
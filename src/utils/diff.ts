@@ -0,0 +1,165 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Text and field diffs used to compare article revisions
+ */
+
+export type DiffChunkType = "equal" | "insert" | "delete";
+
+export interface DiffChunk {
+  type: DiffChunkType;
+  value: string;
+}
+
+export interface TextDiff {
+  chunks: DiffChunk[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// Largest LCS table (rows x columns) computed before falling back to replacing the block
+const MAX_TABLE_SIZE = 1_000_000;
+
+/**
+ * Diff two texts. Lines are compared first; changed lines are then compared word by word,
+ * so a small edit inside a long paragraph only marks the words that changed.
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const lineOps = diffSequences(splitLines(before), splitLines(after));
+  const chunks: DiffChunk[] = [];
+
+  for (let i = 0; i < lineOps.length;) {
+    if (lineOps[i].type === "equal") {
+      pushChunk(chunks, "equal", lineOps[i].value);
+      i++;
+      continue;
+    }
+
+    // Collect a run of changed lines and compare its words
+    let removed = "";
+    let added = "";
+    for (; i < lineOps.length && lineOps[i].type !== "equal"; i++) {
+      if (lineOps[i].type === "delete") removed += lineOps[i].value;
+      else added += lineOps[i].value;
+    }
+
+    for (const op of diffSequences(splitWords(removed), splitWords(added))) {
+      pushChunk(chunks, op.type, op.value);
+    }
+  }
+
+  return {
+    chunks,
+    wordsAdded: countWords(chunks, "insert"),
+    wordsRemoved: countWords(chunks, "delete"),
+  };
+}
+
+/**
+ * Compare two sets of fields; values are compared by their JSON representation
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  ignore: string[] = [],
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  for (const field of [...fields].sort()) {
+    if (ignore.includes(field)) continue;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes.push({ field, from: before[field], to: after[field] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+function diffSequences(a: string[], b: string[]): DiffChunk[] {
+  // Common prefix and suffix are cheap to strip and keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffChunk[] = a.slice(0, start).map((value) => ({ type: "equal", value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const suffix: DiffChunk[] = a.slice(endA).map((value) => ({ type: "equal", value }));
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_SIZE) {
+    ops.push(
+      ...midA.map((value): DiffChunk => ({ type: "delete", value })),
+      ...midB.map((value): DiffChunk => ({ type: "insert", value })),
+    );
+    return [...ops, ...suffix];
+  }
+
+  // lengths[i * width + j] = LCS length of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      ops.push({ type: "equal", value: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: "delete", value: midA[i++] });
+    } else {
+      ops.push({ type: "insert", value: midB[j++] });
+    }
+  }
+  for (; i < midA.length; i++) ops.push({ type: "delete", value: midA[i] });
+  for (; j < midB.length; j++) ops.push({ type: "insert", value: midB[j] });
+
+  return [...ops, ...suffix];
+}
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Words keep their trailing whitespace so chunks join back into the original text
+function splitWords(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) ?? [];
+}
+
+function pushChunk(chunks: DiffChunk[], type: DiffChunkType, value: string): void {
+  const last = chunks[chunks.length - 1];
+  if (last?.type === type) {
+    last.value += value;
+  } else {
+    chunks.push({ type, value });
+  }
+}
+
+function countWords(chunks: DiffChunk[], type: DiffChunkType): number {
+  return chunks
+    .filter((chunk) => chunk.type === type)
+    .reduce((total, chunk) => total + (chunk.value.match(/\S+/g)?.length ?? 0), 0);
+}
@@ -0,0 +1,72 @@
+/// <reference lib="deno.ns" />
+import { timingSafeEqual } from "@utils/kv.ts";
+
+/**
+ * HMAC-SHA256 helpers for signing tokens and payloads
+ */
+
+const encoder = new TextEncoder();
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+function importKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    keyCache.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Sign data with HMAC-SHA256, returning the raw signature bytes
+ */
+export async function hmacSign(secret: string, data: string): Promise<Uint8Array> {
+  const key = await importKey(secret);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+}
+
+/**
+ * Sign data and return the signature as base64url
+ */
+export async function hmacSignBase64Url(secret: string, data: string): Promise<string> {
+  return toBase64Url(await hmacSign(secret, data));
+}
+
+/**
+ * Sign data and return the signature as lowercase hex
+ */
+export async function hmacSignHex(secret: string, data: string): Promise<string> {
+  return Array.from(await hmacSign(secret, data))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Check a base64url signature in constant time
+ */
+export async function hmacVerifyBase64Url(
+  secret: string,
+  data: string,
+  signature: string,
+): Promise<boolean> {
+  return timingSafeEqual(await hmacSignBase64Url(secret, data), signature);
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,203 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Image checks for uploads: the type is sniffed from the file's own bytes (never trusted
+ * from a file name or declared MIME type) and the dimensions read from its header
+ */
+
+export type ImageMimeType = "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+
+export interface ImageInfo {
+  mimeType: ImageMimeType;
+  extension: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export interface ImageLimits {
+  maxBytes: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface DataUri {
+  mimeType: string;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+const EXTENSIONS: Record<ImageMimeType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * Whether a URL carries its content inline and has to be uploaded
+ */
+export function isDataUri(value: string): boolean {
+  return value.trimStart().slice(0, 5).toLowerCase() === "data:";
+}
+
+/**
+ * Decode a base64 `data:` URI; undefined when it is not one
+ */
+export function decodeDataUri(uri: string): DataUri | undefined {
+  const match = uri.trim().match(/^data:([\w.+-]+\/[\w.+-]+)?((?:;[\w-]+=[^;,]*)*);base64,(.*)$/is);
+  if (!match) return undefined;
+
+  try {
+    const binary = atob(match[3].replace(/\s/g, ""));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return { mimeType: (match[1] ?? "").toLowerCase(), bytes };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Encode bytes as a base64 `data:` URI
+ */
+export function toDataUri(bytes: Uint8Array, mimeType: string): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Identify a PNG, JPEG, GIF or WebP image and read its dimensions
+ */
+export function sniffImage(bytes: Uint8Array): ImageInfo | undefined {
+  const dimensions = readPng(bytes) ?? readJpeg(bytes) ?? readGif(bytes) ?? readWebp(bytes);
+  if (!dimensions) return undefined;
+
+  const [mimeType, width, height] = dimensions;
+  return { mimeType, extension: EXTENSIONS[mimeType], width, height, size: bytes.length };
+}
+
+/**
+ * Check an image against the limits; the error explains the first problem found
+ */
+export function validateImage(
+  bytes: Uint8Array,
+  limits: ImageLimits,
+): { image: ImageInfo; error?: undefined } | { image?: undefined; error: string } {
+  if (bytes.length === 0) {
+    return { error: "Image is empty" };
+  }
+  if (bytes.length > limits.maxBytes) {
+    return {
+      error: `Image is ${formatBytes(bytes.length)}, the maximum is ${
+        formatBytes(limits.maxBytes)
+      }`,
+    };
+  }
+
+  const image = sniffImage(bytes);
+  if (!image) {
+    return { error: "Image must be a PNG, JPEG, GIF or WebP file" };
+  }
+  if (image.width > limits.maxWidth || image.height > limits.maxHeight) {
+    return {
+      error:
+        `Image is ${image.width}x${image.height} pixels, the maximum is ${limits.maxWidth}x${limits.maxHeight}`,
+    };
+  }
+
+  return { image };
+}
+
+function readPng(bytes: Uint8Array): [ImageMimeType, number, number] | undefined {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (bytes.length < 24 || !startsWith(bytes, signature)) return undefined;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return ["image/png", view.getUint32(16), view.getUint32(20)];
+}
+
+function readJpeg(bytes: Uint8Array): [ImageMimeType, number, number] | undefined {
+  if (!startsWith(bytes, [0xff, 0xd8, 0xff])) return undefined;
+
+  // Walk the segments up to the frame header, which holds the dimensions
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2; // Markers without a length
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) return undefined; // Image data before any frame
+
+    const isFrame = marker >= 0xc0 && marker <= 0xcf &&
+      marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      return ["image/jpeg", width, height];
+    }
+
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return undefined;
+}
+
+function readGif(bytes: Uint8Array): [ImageMimeType, number, number] | undefined {
+  const header = ascii(bytes, 0, 6);
+  if (bytes.length < 10 || (header !== "GIF87a" && header !== "GIF89a")) return undefined;
+
+  return ["image/gif", bytes[6] | (bytes[7] << 8), bytes[8] | (bytes[9] << 8)];
+}
+
+function readWebp(bytes: Uint8Array): [ImageMimeType, number, number] | undefined {
+  if (bytes.length < 30 || ascii(bytes, 0, 4) !== "RIFF" || ascii(bytes, 8, 12) !== "WEBP") {
+    return undefined;
+  }
+
+  switch (ascii(bytes, 12, 16)) {
+    case "VP8 ": // Lossy
+      return [
+        "image/webp",
+        (bytes[26] | (bytes[27] << 8)) & 0x3fff,
+        (bytes[28] | (bytes[29] << 8)) & 0x3fff,
+      ];
+    case "VP8L": { // Lossless: 14-bit width and height minus one, after a signature byte
+      if (bytes[20] !== 0x2f) return undefined;
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return ["image/webp", (bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1];
+    }
+    case "VP8X": // Extended: 24-bit canvas width and height minus one
+      return [
+        "image/webp",
+        1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+        1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+      ];
+    default:
+      return undefined;
+  }
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
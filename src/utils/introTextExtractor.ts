@@ -1,6 +1,7 @@
 /// <reference lib="deno.ns" />
 import { logger } from "@utils/logger.ts";
 import { getTextContent } from "@utils/sanitizer.ts";
+import { getLanguageRules, type LanguageRules } from "@utils/language.ts";
 
 /**
  * Configuration constants for intro text extraction
@@ -10,10 +11,6 @@ const CONFIG = {
   MAX_LENGTH: 160,
   // Minimum length to consider adding ellipsis
   MIN_LENGTH_FOR_ELLIPSIS: 20,
-  // Characters to trim from the end before ellipsis
-  TRIM_CHARS: [".", ",", ":", ";", "!", "?", "-", "—"],
-  // Default ellipsis
-  ELLIPSIS: "...",
 };
 
 /**
@@ -24,6 +21,7 @@ export interface IntroTextOptions {
   addEllipsis?: boolean;
   preserveSentences?: boolean;
   customEllipsis?: string;
+  language?: string; // Locale code selecting sentence and punctuation rules; English by default
 }
 
 /**
@@ -43,11 +41,12 @@ export function extractIntroText(
   htmlContent: string,
   options: IntroTextOptions = {},
 ): IntroTextResult {
+  const rules = getLanguageRules(options.language);
   const {
     maxLength = CONFIG.MAX_LENGTH,
     addEllipsis = true,
     preserveSentences = true,
-    customEllipsis = CONFIG.ELLIPSIS,
+    customEllipsis = rules.ellipsis,
   } = options;
 
   try {
@@ -55,7 +54,7 @@ export function extractIntroText(
     const plainText = getTextContent(htmlContent);
 
     // Normalize whitespace
-    const normalizedText = normalizeWhitespace(plainText);
+    const normalizedText = normalizeWhitespace(plainText, rules);
 
     // Handle empty or short content
     if (!normalizedText || normalizedText.length <= maxLength) {
@@ -73,7 +72,7 @@ export function extractIntroText(
 
     if (preserveSentences) {
       // Try to preserve complete sentences
-      const sentenceEnd = findSentenceEnd(normalizedText, maxLength);
+      const sentenceEnd = findSentenceEnd(normalizedText, maxLength, rules);
       if (sentenceEnd > 0 && sentenceEnd <= maxLength) {
         introText = normalizedText.substring(0, sentenceEnd);
         truncated = sentenceEnd < normalizedText.length;
@@ -89,7 +88,7 @@ export function extractIntroText(
     }
 
     // Clean up the ending
-    introText = cleanEnding(introText);
+    introText = cleanEnding(introText, rules);
 
     // Add ellipsis if needed
     if (truncated && addEllipsis && introText.length >= CONFIG.MIN_LENGTH_FOR_ELLIPSIS) {
@@ -119,28 +118,30 @@ export function extractIntroText(
 }
 
 /**
- * Normalize whitespace in text
+ * Normalize whitespace in text, then apply the language's typography
  */
-function normalizeWhitespace(text: string): string {
-  return text
+function normalizeWhitespace(text: string, rules = getLanguageRules()): string {
+  const normalized = text
     .replace(/\s+/g, " ") // Replace multiple spaces with single space
     .replace(/\n+/g, " ") // Replace newlines with spaces
     .replace(/\t+/g, " ") // Replace tabs with spaces
     .trim(); // Remove leading/trailing whitespace
+
+  return rules.typography ? rules.typography(normalized) : normalized;
 }
 
 /**
  * Find the end of a sentence within the max length
  */
-function findSentenceEnd(text: string, maxLength: number): number {
-  // Look for sentence endings within the limit
-  const sentenceEndRegex = /[.!?](?:\s|$)/g;
+function findSentenceEnd(text: string, maxLength: number, rules: LanguageRules): number {
+  // Look for sentence endings within the limit (a copy, as the shared pattern is stateful)
+  const sentenceEndRegex = new RegExp(rules.sentenceEnd);
   let lastMatch = -1;
   let match;
 
   while ((match = sentenceEndRegex.exec(text)) !== null) {
     if (match.index < maxLength) {
-      lastMatch = match.index + 1; // Include the punctuation
+      lastMatch = match.index + match[0].trimEnd().length; // Include punctuation and closing quote
     } else {
       break;
     }
@@ -182,11 +183,11 @@ function truncateAtWordBoundary(text: string, maxLength: number): string {
 /**
  * Clean up the ending of truncated text
  */
-function cleanEnding(text: string): string {
+function cleanEnding(text: string, rules: LanguageRules): string {
   let cleaned = text.trim();
 
   // Remove trailing punctuation that shouldn't come before ellipsis
-  for (const char of CONFIG.TRIM_CHARS) {
+  for (const char of rules.trailingChars) {
     if (cleaned.endsWith(char)) {
       cleaned = cleaned.slice(0, -1).trim();
     }
@@ -212,11 +213,12 @@ export function extractIntroFromPlainText(
   plainText: string,
   options: IntroTextOptions = {},
 ): IntroTextResult {
-  const normalizedText = normalizeWhitespace(plainText);
+  const rules = getLanguageRules(options.language);
+  const normalizedText = normalizeWhitespace(plainText, rules);
   const {
     maxLength = CONFIG.MAX_LENGTH,
     addEllipsis = true,
-    customEllipsis = CONFIG.ELLIPSIS,
+    customEllipsis = rules.ellipsis,
   } = options;
 
   if (!normalizedText || normalizedText.length <= maxLength) {
@@ -229,7 +231,7 @@ export function extractIntroFromPlainText(
   }
 
   let introText = truncateAtWordBoundary(normalizedText, maxLength);
-  introText = cleanEnding(introText);
+  introText = cleanEnding(introText, rules);
 
   if (addEllipsis && introText.length >= CONFIG.MIN_LENGTH_FOR_ELLIPSIS) {
     introText = introText + customEllipsis;
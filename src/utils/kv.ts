@@ -0,0 +1,73 @@
+/// <reference lib="deno.ns" />
+import { config } from "@config/index.ts";
+import { logger } from "@utils/logger.ts";
+
+/**
+ * Shared Deno KV connection
+ * On Deno Deploy the managed database is used; locally KV_PATH selects the file.
+ */
+
+let kvPromise: Promise<Deno.Kv> | undefined;
+
+/**
+ * Get the shared KV instance, opening it on first use
+ */
+export function getKv(): Promise<Deno.Kv> {
+  if (!kvPromise) {
+    kvPromise = Deno.openKv(config.KV_PATH || undefined).then((kv) => {
+      logger.debug("Deno KV opened", { path: config.KV_PATH || "default" });
+      return kv;
+    }).catch((error) => {
+      // Allow a later call to retry the connection
+      kvPromise = undefined;
+      throw error;
+    });
+  }
+  return kvPromise;
+}
+
+/**
+ * Close the shared KV instance (useful for testing)
+ */
+export async function closeKv(): Promise<void> {
+  if (!kvPromise) return;
+
+  const kv = await kvPromise;
+  kvPromise = undefined;
+  kv.close();
+}
+
+/**
+ * Generate a random URL-safe token
+ */
+export function generateToken(byteLength = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Hash a secret with SHA-256 so only the digest is persisted
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
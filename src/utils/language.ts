@@ -0,0 +1,53 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Language-specific rules for the generated reading time and intro text.
+ * Locales are matched on their language subtag ("fr-CA" uses the French rules);
+ * unknown languages use the English ones.
+ */
+export interface LanguageRules {
+  language: string;
+  wordsPerMinute: number; // Average silent reading speed for non-fiction
+  formatReadingTime: (minutes: number) => string;
+  ellipsis: string;
+  // Punctuation ending a sentence, optionally followed by a closing quote
+  sentenceEnd: RegExp;
+  // Characters that must not end a truncated intro
+  trailingChars: string[];
+  // Applied after whitespace normalization, e.g. to bind punctuation to the preceding word
+  typography?: (text: string) => string;
+}
+
+const ENGLISH: LanguageRules = {
+  language: "en",
+  wordsPerMinute: 238,
+  formatReadingTime: (minutes) => `${minutes} min read`,
+  ellipsis: "...",
+  sentenceEnd: /[.!?](?:\s|$)/g,
+  trailingChars: [".", ",", ":", ";", "!", "?", "-", "—"],
+};
+
+const FRENCH: LanguageRules = {
+  language: "fr",
+  wordsPerMinute: 195,
+  formatReadingTime: (minutes) => `${minutes} min de lecture`,
+  ellipsis: "…",
+  sentenceEnd: /[.!?…](?:\u00a0?»)?(?:\s|$)/g,
+  trailingChars: [".", ",", ":", ";", "!", "?", "-", "—", "«"],
+  // French sets a space before ; : ! ? » and after «, bound with
+  // no-break spaces so truncation never separates them from their word
+  typography: (text) => text.replace(/ ([;:!?»])/g, "\u00a0$1").replace(/« /g, "«\u00a0"),
+};
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  en: ENGLISH,
+  fr: FRENCH,
+};
+
+/**
+ * Rules for a locale code such as "fr" or "en-US"
+ */
+export function getLanguageRules(locale?: string): LanguageRules {
+  const language = locale?.split(/[-_]/)[0].toLowerCase();
+  return (language && LANGUAGE_RULES[language]) || ENGLISH;
+}
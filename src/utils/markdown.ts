@@ -0,0 +1,427 @@
+/// <reference lib="deno.ns" />
+import type { QuillDelta, QuillOp } from "@utils/validation.ts";
+
+/**
+ * Markdown helpers for importing articles written outside the form.
+ * Markdown is converted to Quill Delta so imports go through the same
+ * conversion and validation as form submissions. Exports go the other way,
+ * from the rendered `post` HTML back to Markdown.
+ */
+
+export interface FrontMatterDocument {
+  attributes: Record<string, unknown>;
+  body: string;
+}
+
+type InlineAttributes = NonNullable<QuillOp["attributes"]>;
+
+/**
+ * Split a document into YAML-style front matter and body.
+ * Supports the subset used for articles: scalars, quoted strings, booleans,
+ * inline lists (`[a, b]`) and block lists (`- a`).
+ */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const match = normalized.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+
+  if (!match) {
+    return { attributes: {}, body: normalized };
+  }
+
+  const attributes: Record<string, unknown> = {};
+  let listKey: string | undefined;
+
+  for (const line of match[1].split("\n")) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      (attributes[listKey] as unknown[]).push(parseScalar(listItem[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, rawValue] = pair;
+    if (rawValue.trim() === "") {
+      // Value follows as a block list
+      attributes[key] = [];
+      listKey = key;
+    } else {
+      attributes[key] = parseValue(rawValue);
+      listKey = undefined;
+    }
+  }
+
+  return { attributes, body: normalized.slice(match[0].length) };
+}
+
+/**
+ * Convert Markdown to a Quill Delta.
+ * Handles headings, paragraphs, lists, blockquotes, fenced code, images,
+ * links and bold/italic/strike/code emphasis.
+ */
+export function markdownToDelta(markdown: string): QuillDelta {
+  const ops: QuillOp[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      ops.push(...parseInline(paragraph.join(" ")), { insert: "\n" });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Fenced code block
+    if (/^(```|~~~)/.test(trimmed)) {
+      flushParagraph();
+      const fence = trimmed.slice(0, 3);
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence); i++) {
+        ops.push({ insert: lines[i] }, { insert: "\n", attributes: { "code-block": true } });
+      }
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    // Horizontal rules have no Delta equivalent
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flushParagraph();
+      ops.push(...parseInline(heading[2]), {
+        insert: "\n",
+        attributes: { header: heading[1].length },
+      });
+      continue;
+    }
+
+    const image = trimmed.match(/^!\[[^\]]*\]\((\S+?)(?:\s+"[^"]*")?\)$/);
+    if (image) {
+      flushParagraph();
+      ops.push({ insert: { image: image[1] } }, { insert: "\n" });
+      continue;
+    }
+
+    const quote = trimmed.match(/^>\s?(.*)$/);
+    if (quote) {
+      flushParagraph();
+      ops.push(...parseInline(quote[1]), { insert: "\n", attributes: { blockquote: true } });
+      continue;
+    }
+
+    const bullet = trimmed.match(/^[-*+]\s+(.*)$/);
+    const ordered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+    if (bullet || ordered) {
+      flushParagraph();
+      ops.push(...parseInline((bullet ?? ordered)![1]), {
+        insert: "\n",
+        attributes: { list: bullet ? "bullet" : "ordered" },
+      });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+
+  flushParagraph();
+
+  return { ops: ops.length > 0 ? ops : [{ insert: "\n" }] };
+}
+
+/**
+ * Serialize attributes as front matter followed by the body.
+ * Produces the subset read back by `parseFrontMatter`.
+ */
+export function stringifyFrontMatter(attributes: Record<string, unknown>, body: string): string {
+  const lines = ["---"];
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined || value === null) continue;
+
+    if (Array.isArray(value)) {
+      lines.push(`${key}: [${value.map(formatScalar).join(", ")}]`);
+    } else {
+      lines.push(`${key}: ${formatScalar(value)}`);
+    }
+  }
+
+  lines.push("---", "");
+  return lines.join("\n") + body;
+}
+
+/**
+ * Convert article HTML to Markdown.
+ * Covers the markup produced from Quill Delta: headings, paragraphs, lists,
+ * blockquotes, code blocks, images, videos, links and inline emphasis.
+ * Unknown tags are dropped and their text kept.
+ */
+export function htmlToMarkdown(html: string): string {
+  // Code blocks are swapped for placeholders so their content stays literal
+  const blocks: string[] = [];
+  const keep = (markdown: string) => {
+    blocks.push(markdown);
+    return `\n\n\uE000${blocks.length - 1}\uE000\n\n`;
+  };
+
+  let text = html.replace(/\r\n?/g, "\n")
+    .replace(
+      /<pre[^>]*>([\s\S]*?)<\/pre>/gi,
+      (_, code: string) =>
+        keep("```\n" + decodeEntities(stripTags(code.replace(/<br\s*\/?>/gi, "\n"))) + "\n```"),
+    )
+    // Whitespace between tags carries no meaning outside code blocks
+    .replace(/\s*\n\s*/g, " ");
+
+  text = text
+    .replace(
+      /<(strong|b)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi,
+      (_, _tag, inner: string) => wrap(inner, "**"),
+    )
+    .replace(/<(em|i)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, inner: string) => wrap(inner, "*"))
+    .replace(
+      /<(s|strike|del)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi,
+      (_, _tag, inner: string) => wrap(inner, "~~"),
+    )
+    .replace(/<code(?:\s[^>]*)?>([\s\S]*?)<\/code>/gi, (_, inner: string) => `\`${inner}\``)
+    .replace(
+      /<a\s[^>]*?href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+      (_, href: string, label: string) => `[${label}](${href})`,
+    )
+    .replace(
+      /<img\s[^>]*?src="([^"]*)"[^>]*>/gi,
+      (tag: string, src: string) => `\n\n![${tag.match(/alt="([^"]*)"/i)?.[1] ?? ""}](${src})\n\n`,
+    )
+    .replace(
+      /<iframe\s[^>]*?src="([^"]*)"[^>]*>\s*<\/iframe>/gi,
+      (_, src: string) => `\n\n[Video](${src})\n\n`,
+    )
+    .replace(/<br\s*\/?>/gi, "  \n");
+
+  text = text
+    .replace(
+      /<h([1-6])(?:\s[^>]*)?>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, inner: string) => `\n\n${"#".repeat(Number(level))} ${inner.trim()}\n\n`,
+    )
+    .replace(/<(ul|ol)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, tag: string, inner: string) => {
+      const items = [...inner.matchAll(/<li(?:\s[^>]*)?>([\s\S]*?)<\/li>/gi)];
+      const lines = items.map((item, index) =>
+        `${tag.toLowerCase() === "ol" ? `${index + 1}.` : "-"} ${item[1].trim()}`
+      );
+      return `\n\n${lines.join("\n")}\n\n`;
+    })
+    .replace(
+      /<blockquote(?:\s[^>]*)?>([\s\S]*?)<\/blockquote>/gi,
+      (_, inner: string) =>
+        `\n\n${
+          stripTags(inner).trim().split("\n").map((line) => `> ${line.trim()}`).join("\n")
+        }\n\n`,
+    )
+    .replace(/<\/?(p|div|figure|figcaption|h[1-6])(?:\s[^>]*)?>/gi, "\n\n");
+
+  return decodeEntities(stripTags(text))
+    .split("\n")
+    .map((line) => line.replace(/^[ \t]+|[ \t]+$/g, (space) => space === "  " ? space : ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => blocks[Number(index)])
+    .trim() + "\n";
+}
+
+function wrap(inner: string, marker: string): string {
+  // Markdown emphasis cannot start or end with whitespace
+  const match = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : inner;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, "");
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const point = code[1].toLowerCase() === "x"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function formatScalar(value: unknown): string {
+  const text = String(value);
+  if (typeof value === "boolean" || typeof value === "number") return text;
+  // Quote anything that would not read back as the same string
+  return /^[\w][\w .\/@+-]*$/.test(text) && text !== "true" && text !== "false" &&
+      !text.endsWith(" ")
+    ? text
+    : JSON.stringify(text);
+}
+
+// Inline patterns, matched earliest first
+interface InlinePattern {
+  regex: RegExp;
+  content: (match: RegExpExecArray) => string;
+  attributes: (match: RegExpExecArray) => InlineAttributes;
+}
+
+const INLINE_PATTERNS: InlinePattern[] = [
+  { regex: /`([^`]+)`/, content: (m) => m[1], attributes: () => ({ code: true }) },
+  {
+    regex: /\[([^\]]+)\]\((\S+?)(?:\s+"[^"]*")?\)/,
+    content: (m) => m[1],
+    attributes: (m) => ({ link: m[2] }),
+  },
+  { regex: /\*\*(.+?)\*\*/, content: (m) => m[1], attributes: () => ({ bold: true }) },
+  {
+    regex: /(?<![A-Za-z0-9])__(.+?)__(?![A-Za-z0-9])/,
+    content: (m) => m[1],
+    attributes: () => ({ bold: true }),
+  },
+  { regex: /~~(.+?)~~/, content: (m) => m[1], attributes: () => ({ strike: true }) },
+  { regex: /\*(.+?)\*/, content: (m) => m[1], attributes: () => ({ italic: true }) },
+  {
+    regex: /(?<![A-Za-z0-9])_(.+?)_(?![A-Za-z0-9])/,
+    content: (m) => m[1],
+    attributes: () => ({ italic: true }),
+  },
+];
+
+// Characters that can be escaped with a backslash
+const ESCAPABLE = /\\([\\`*_{}\[\]()#+\-.!~>])/g;
+
+function parseInline(text: string, inherited: InlineAttributes = {}): QuillOp[] {
+  // Escaped characters are swapped for private-use placeholders while parsing
+  const escaped: string[] = [];
+  const source = text.replace(ESCAPABLE, (_, char: string) => {
+    escaped.push(char);
+    return String.fromCharCode(0xe000 + escaped.length - 1);
+  });
+
+  const restore = (value: string) =>
+    value.replace(/[\uE000-\uF8FF]/g, (char) => escaped[char.charCodeAt(0) - 0xe000] ?? char);
+
+  return parseInlineTokens(source, inherited, restore);
+}
+
+function parseInlineTokens(
+  text: string,
+  inherited: InlineAttributes,
+  restore: (value: string) => string,
+): QuillOp[] {
+  const ops: QuillOp[] = [];
+  let rest = text;
+
+  while (rest) {
+    // Inline images become embeds
+    const image = rest.match(/!\[[^\]]*\]\((\S+?)(?:\s+"[^"]*")?\)/);
+    let earliest: { match: RegExpExecArray; pattern: InlinePattern } | undefined;
+
+    for (const pattern of INLINE_PATTERNS) {
+      const match = pattern.regex.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) {
+        earliest = { match, pattern };
+      }
+    }
+
+    if (image?.index !== undefined && (!earliest || image.index <= earliest.match.index)) {
+      pushText(ops, rest.slice(0, image.index), inherited, restore);
+      ops.push({ insert: { image: restore(image[1]) } });
+      rest = rest.slice(image.index + image[0].length);
+      continue;
+    }
+
+    if (!earliest) {
+      pushText(ops, rest, inherited, restore);
+      break;
+    }
+
+    const { match, pattern } = earliest;
+    const attributes = { ...inherited, ...pattern.attributes(match) };
+    pushText(ops, rest.slice(0, match.index), inherited, restore);
+
+    if (attributes.link) {
+      attributes.link = restore(attributes.link as string);
+    }
+
+    // Code spans are literal; other formats can nest
+    if (attributes.code) {
+      pushText(ops, pattern.content(match), attributes, restore);
+    } else {
+      ops.push(...parseInlineTokens(pattern.content(match), attributes, restore));
+    }
+
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return ops;
+}
+
+function pushText(
+  ops: QuillOp[],
+  text: string,
+  attributes: InlineAttributes,
+  restore: (value: string) => string,
+): void {
+  if (!text) return;
+  ops.push(
+    Object.keys(attributes).length > 0
+      ? { insert: restore(text), attributes }
+      : { insert: restore(text) },
+  );
+}
+
+function parseValue(raw: string): unknown {
+  const value = raw.trim();
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value.slice(1, -1)
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map(parseScalar);
+  }
+
+  return parseScalar(value);
+}
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+
+  if (
+    value.length >= 2 &&
+    ((value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'")))
+  ) {
+    return value.slice(1, -1);
+  }
+  if (value === "true") return true;
+  if (value === "false") return false;
+
+  // Strip trailing comments from unquoted values
+  return value.replace(/\s+#.*$/, "");
+}
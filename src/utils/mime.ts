@@ -0,0 +1,92 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Minimal MIME encoding for notification emails: UTF-8 headers as encoded words
+ * and a text/plain + text/html multipart/alternative body in base64
+ */
+
+export interface MimeMessage {
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Render a message as RFC 5322 text with CRLF line endings
+ */
+export function buildMimeMessage(
+  message: MimeMessage,
+  options: { messageId?: string; date?: Date } = {},
+): string {
+  const domain = addressOf(message.from).split("@")[1] || "localhost";
+  const headers = [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to.map(encodeAddress).join(", ")}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeAddress(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${options.messageId ?? crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [...headers, ...part("text/plain", message.text)].join("\r\n");
+  }
+
+  const boundary = `=_${crypto.randomUUID().replace(/-/g, "")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...part("text/plain", message.text),
+    `--${boundary}`,
+    ...part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Bare address of a mailbox such as `Editors <editors@example.com>`
+ */
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(encoder.encode(value))}?=`;
+}
+
+function encodeAddress(mailbox: string): string {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return addressOf(mailbox);
+  return `${encodeHeader(match[1])} <${match[2]}>`;
+}
+
+function part(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(toBase64(encoder.encode(content)).match(/.{1,76}/g) ?? []),
+    "",
+  ];
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -1,5 +1,6 @@
 /// <reference lib="deno.ns" />
 import { logger } from "@utils/logger.ts";
+import { getLanguageRules } from "@utils/language.ts";
 
 /**
  * Reading speed configuration for different content types
@@ -123,12 +124,15 @@ export function calculateReadingTime(
     wordsPerMinute?: number;
     minimumTime?: number;
     includeAnalysis?: boolean;
+    language?: string; // Locale code; sets the text reading speed and the label language
   } = {},
 ): ReadingTimeResult {
+  const rules = getLanguageRules(options.language);
   const {
-    wordsPerMinute = READING_SPEEDS.text,
+    wordsPerMinute = rules.wordsPerMinute,
     minimumTime = 1,
     includeAnalysis = true,
+    language,
   } = options;
 
   try {
@@ -165,7 +169,7 @@ export function calculateReadingTime(
     const finalMinutes = Math.max(Math.ceil(adjustedMinutes), minimumTime);
 
     // Format time string
-    const timeString = formatReadingTime(finalMinutes);
+    const timeString = formatReadingTime(finalMinutes, language);
 
     logger.debug("Calculated reading time", {
       totalWords: analysis.totalWords,
@@ -190,7 +194,7 @@ export function calculateReadingTime(
 
     return {
       minutes,
-      time: formatReadingTime(minutes),
+      time: formatReadingTime(minutes, language),
       words,
       analysis: includeAnalysis ? createEmptyAnalysis(words) : undefined!,
     };
@@ -372,18 +376,10 @@ function getComplexityMultiplier(complexity: "simple" | "moderate" | "complex"):
 }
 
 /**
- * Format reading time as string
+ * Format reading time as string, in English unless a locale code is given
  */
-export function formatReadingTime(minutes: number): string {
-  if (minutes <= 0) {
-    return "1 min read";
-  }
-
-  if (minutes === 1) {
-    return "1 min read";
-  }
-
-  return `${minutes} min read`;
+export function formatReadingTime(minutes: number, language?: string): string {
+  return getLanguageRules(language).formatReadingTime(minutes <= 0 ? 1 : minutes);
 }
 
 /**
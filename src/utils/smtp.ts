@@ -0,0 +1,189 @@
+/// <reference lib="deno.ns" />
+import { ExternalServiceError } from "@utils/errors.ts";
+
+/**
+ * Small SMTP client for notification emails: implicit TLS or STARTTLS,
+ * AUTH PLAIN, one message per connection
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+  username?: string;
+  password?: string;
+  clientName?: string; // Sent with EHLO
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+/**
+ * A reply the command did not expect. 4xx replies are transient and worth retrying.
+ */
+export class SmtpError extends Error {
+  constructor(readonly code: number, readonly reply: string, command: string) {
+    super(`SMTP ${command} failed with ${code}: ${reply}`);
+    this.name = "SmtpError";
+  }
+
+  get transient(): boolean {
+    return this.code >= 400 && this.code < 500;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Deliver one message. Connection failures and 4xx replies are thrown as
+ * ExternalServiceError so retry() treats them as transient; 5xx replies as SmtpError.
+ */
+export async function sendSmtp(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  data: string,
+): Promise<void> {
+  let conn: Deno.Conn;
+  try {
+    conn = options.secure
+      ? await Deno.connectTls({ hostname: options.host, port: options.port })
+      : await Deno.connect({ hostname: options.host, port: options.port });
+  } catch (error) {
+    throw new ExternalServiceError(
+      "smtp",
+      `Cannot connect to ${options.host}:${options.port}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+
+  let session = new SmtpSession(conn);
+  // Closing the connection makes a pending read fail, ending the exchange
+  const timeoutId = setTimeout(() => session.close(), options.timeoutMs ?? 30 * 1000);
+
+  try {
+    await session.expect("greeting", [220]);
+
+    const clientName = options.clientName ?? "localhost";
+    let capabilities = await session.command(`EHLO ${clientName}`, [250]);
+
+    if (!options.secure && capabilities.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command("STARTTLS", [220]);
+      // Without `secure` the connection is plain TCP
+      const tcpConn = conn as Deno.TcpConn;
+      session = new SmtpSession(await Deno.startTls(tcpConn, { hostname: options.host }));
+      capabilities = await session.command(`EHLO ${clientName}`, [250]);
+    } else if (!options.secure && options.username) {
+      throw new SmtpError(530, "Server does not offer STARTTLS", "AUTH");
+    }
+
+    if (options.username) {
+      const credentials = toBase64(`\0${options.username}\0${options.password ?? ""}`);
+      await session.command(`AUTH PLAIN ${credentials}`, [235], "AUTH PLAIN");
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    await session.command(`${dotStuff(data)}\r\n.`, [250], "DATA");
+    await session.command("QUIT", [221]).catch(() => {});
+  } catch (error) {
+    if (error instanceof SmtpError && error.transient) {
+      throw new ExternalServiceError("smtp", error.message, { code: error.code });
+    }
+    if (!(error instanceof SmtpError)) {
+      throw new ExternalServiceError(
+        "smtp",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    session.close();
+  }
+}
+
+class SmtpSession {
+  private buffer = "";
+  private readonly decoder = new TextDecoder();
+  private closed = false;
+
+  constructor(private readonly conn: Deno.Conn) {}
+
+  /**
+   * Send a command and check the reply code; `name` keeps credentials out of errors
+   */
+  async command(line: string, expected: number[], name?: string): Promise<SmtpReply> {
+    let bytes = encoder.encode(`${line}\r\n`);
+    while (bytes.length > 0) {
+      bytes = bytes.subarray(await this.conn.write(bytes));
+    }
+    return await this.expect(name ?? line.split(/[\s:]/)[0], expected);
+  }
+
+  async expect(name: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(reply.code, reply.lines.join(" "), name);
+    }
+    return reply;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      this.conn.close();
+    } catch {
+      // Already closed by the server or by STARTTLS
+    }
+  }
+
+  // Multi-line replies use "250-" on every line but the last
+  private async read(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    while (true) {
+      const line = await this.readLine();
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    while (!this.buffer.includes("\r\n")) {
+      const chunk = new Uint8Array(4096);
+      const read = await this.conn.read(chunk);
+      if (read === null) {
+        throw new Error("SMTP connection closed unexpectedly");
+      }
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+
+    const end = this.buffer.indexOf("\r\n");
+    const line = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end + 2);
+    return line;
+  }
+}
+
+// Lines starting with a dot are escaped so they cannot end the DATA section
+function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+function toBase64(value: string): string {
+  return btoa(String.fromCharCode(...encoder.encode(value)));
+}
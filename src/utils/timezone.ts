@@ -0,0 +1,115 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * Time zone helpers for interpreting and displaying dates in the site's IANA time zone
+ */
+
+// Matches an explicit UTC designator or numeric offset at the end of an ISO string
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Matches a local ISO date-time without offset, e.g. 2025-03-01T09:30 or 2025-03-01T09:30:00
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+
+/**
+ * Check whether a time zone name is supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the offset of a time zone from UTC at a given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return asUtc - instant;
+}
+
+/**
+ * Parse a date-time string. Values with an explicit offset are used as-is;
+ * local values without an offset are interpreted in the given time zone.
+ */
+export function parseInTimeZone(value: string, timeZone: string): Date {
+  if (OFFSET_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new RangeError(`Invalid date-time: ${value}`);
+    }
+    return date;
+  }
+
+  const match = LOCAL_PATTERN.exec(value);
+  if (!match) {
+    throw new RangeError(`Invalid date-time: ${value}`);
+  }
+
+  const [, year, month, day, hour, minute, second = "0"] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  );
+
+  // Apply the offset, then re-check it in case the guess crossed a DST transition
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Format an instant as a local ISO date-time (without offset) in the given time zone
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${
+    pad(parts.minute)
+  }:${pad(parts.second)}`;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
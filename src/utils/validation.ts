@@ -1,5 +1,7 @@
 /// <reference lib="deno.ns" />
 import { z } from "zod";
+import { decodeDataUri, type ImageLimits, isDataUri, validateImage } from "@utils/images.ts";
+import type { WebflowImage } from "../types/webflow.ts";
 
 /**
  * Comprehensive form data validation using Zod schemas
@@ -44,6 +46,19 @@ const urlString = z.string()
     { message: "Must be a valid URL" },
   );
 
+const webUrlString = z.string()
+  .refine(
+    (val) => val === "" || (/^https?:\/\//i.test(val) && isValidURL(val)),
+    { message: "Must be an http(s) URL" },
+  );
+
+// Author profile, stored on the author's item in the Authors collection
+const authorProfileShape = {
+  authorCredentials: z.string().trim().max(100).optional(), // e.g. "MD, Cardiology"
+  authorBio: z.string().trim().max(1000).optional(),
+  authorAvatar: webUrlString.optional(),
+};
+
 // Quill.js Delta operation schema
 const quillOpSchema = z.object({
   // Text insertion
@@ -117,6 +132,18 @@ const phoneSchema = z.string()
     "Must be a valid phone number (international format supported)",
   );
 
+// Submissions pick their target collection by key or by form ID
+const collectionSelectorShape = {
+  collection: z.string().trim().min(1).max(50).optional(),
+  formId: z.string().trim().min(1).max(100).optional(),
+};
+
+// Content locale, matched against the site's CMS locales (the primary locale when omitted)
+const localeSchema = z.string().trim().regex(
+  /^[a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,8})*$/,
+  'Must be a locale code such as "fr" or "en-US"',
+);
+
 // Main form data schema
 export const formDataSchema = z.object({
   // Author information
@@ -132,9 +159,10 @@ export const formDataSchema = z.object({
       { message: "Author name contains inappropriate language" },
     ),
 
-  // Author contact (optional)
+  // Author contact and profile (optional)
   authorEmail: emailSchema.optional(),
   authorPhone: phoneSchema.optional(),
+  ...authorProfileShape,
 
   // Article content - simplified for medical professionals
   articleTitle: z.string()
@@ -170,8 +198,15 @@ export const formDataSchema = z.object({
   // Scheduling (optional)
   publishAt: z.string().datetime("Must be a valid ISO datetime").optional(),
 
-  // Featured image (optional)
+  // Featured image (optional): a URL, or a `data:` URI / file upload stored in Webflow Assets
   featuredImage: urlString.optional(),
+  featuredImageAlt: z.string().trim().max(200).optional(),
+
+  // Target collection (optional, see src/config/collections.ts)
+  ...collectionSelectorShape,
+
+  // Content locale (optional)
+  locale: localeSchema.optional(),
 }).refine(
   (data) => {
     // Additional cross-field validation
@@ -195,14 +230,26 @@ export const updateFormDataSchema = z.object({
   authorPhone: phoneSchema.optional(),
   articleTitle: z.string().min(10).max(200).optional(),
   metaDescription: z.string().min(50).max(300).optional(),
-  articleContent: quillDeltaSchema, // Required for updates
+  articleContent: quillDeltaSchema.optional(), // Only re-rendered when submitted
   publishNow: z.boolean().optional(),
   slug: z.string().min(3).max(100).regex(/^[a-z0-9-]+$/).optional(),
   categories: z.array(z.string()).max(10).optional(),
   tags: z.array(z.string()).max(20).optional(),
   publishAt: z.string().datetime().optional(),
   featuredImage: urlString.optional(),
-});
+  featuredImageAlt: z.string().trim().max(200).optional(),
+  locale: localeSchema.optional(), // Updates that locale's variant of the item
+}).refine(
+  (data) => {
+    // Patch semantics: at least one field must be sent
+    return Object.values(data).some((value) => value !== undefined);
+  },
+  { message: "At least one field must be provided to update" },
+).refine(
+  // Schedules of existing items are changed by admins (PATCH /api/admin/schedules/:itemId)
+  (data) => data.publishAt === undefined,
+  { message: "publishAt cannot be changed by an update", path: ["publishAt"] },
+);
 
 // Schema for draft saving (more lenient)
 export const draftFormDataSchema = z.object({
@@ -213,6 +260,16 @@ export const draftFormDataSchema = z.object({
     ops: z.array(quillOpSchema).optional(),
   }).optional(),
   slug: z.string().regex(/^[a-z0-9-]*$/).max(100).optional(),
+  authorEmail: emailSchema.optional(),
+  authorPhone: phoneSchema.optional(),
+  ...authorProfileShape,
+  publishNow: z.boolean().optional(),
+  categories: z.array(z.string().min(1).max(50)).max(10).optional(),
+  tags: z.array(z.string().min(1).max(30)).max(20).optional(),
+  featuredImage: urlString.optional(),
+  featuredImageAlt: z.string().trim().max(200).optional(),
+  ...collectionSelectorShape,
+  locale: localeSchema.optional(),
 }).refine(
   (data) => {
     // At least one field must be present for draft
@@ -221,10 +278,139 @@ export const draftFormDataSchema = z.object({
   { message: "At least one field must be provided to save draft" },
 );
 
+// Schema for rendering a preview; only what the renderer needs is required
+export const previewFormDataSchema = z.object({
+  articleTitle: z.string().trim().min(1, "Article title is required").max(300),
+  articleContent: quillDeltaSchema,
+  authorName: z.string().max(100).optional(),
+  metaDescription: z.string().max(300).optional(),
+  slug: z.string().max(100).optional(), // Format problems are reported as warnings
+  publishNow: z.boolean().optional(),
+  ...collectionSelectorShape,
+  locale: localeSchema.optional(),
+});
+
+// Schema for the translation of an existing item into one of the site's secondary locales
+export const localeVariantSchema = z.object({
+  articleTitle: z.string().trim().min(5).max(300),
+  metaDescription: z.string().trim().min(20).max(300),
+  articleContent: quillDeltaSchema,
+  authorName: z.string().min(2).max(100).optional(), // Kept from the primary locale when omitted
+  slug: z.string().min(3).max(100).regex(/^[a-z0-9-]+$/).optional(), // Generated when omitted
+  publishNow: z.boolean().optional(),
+});
+
+// Schema for rescheduling a pending publication (admin)
+// Accepts an ISO datetime with offset, or a local datetime interpreted in the site time zone
+export const scheduleUpdateSchema = z.object({
+  publishAt: z.string()
+    .regex(
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+      "Must be an ISO datetime",
+    ),
+});
+
+// Schema for replaying dead letters in bulk (admin); all pending entries when ids is omitted
+export const deadLetterReplaySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100).optional(),
+});
+
+// Schemas for reviewer actions on moderated submissions
+const reviewerSchema = z.string().trim().min(1).max(100).optional();
+const reviewNoteTextSchema = z.string().trim().min(1, "Note is required").max(5000);
+
+export const reviewNoteSchema = z.object({
+  note: reviewNoteTextSchema,
+  reviewer: reviewerSchema,
+});
+
+export const reviewActionSchema = z.object({
+  note: reviewNoteTextSchema.optional(),
+  reviewer: reviewerSchema,
+});
+
+export const reviewApproveSchema = reviewActionSchema.extend({
+  publish: z.boolean().optional(),
+});
+
+// Schema for the public article list query string
+const isoDateSchema = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: "Must be an ISO date or datetime",
+});
+
+export const articleQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).max(500).optional(),
+  author: z.string().trim().min(1).max(100).optional(),
+  tag: z.string().trim().min(1).max(100).optional(),
+  category: z.string().trim().min(1).max(100).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  sort: z.enum(["publishedAt", "createdAt", "updatedAt", "title"]).default("publishedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+// Schemas for live slug feedback
+export const slugCheckQuerySchema = z.object({
+  slug: z.string().trim().min(1, "Slug is required").max(200),
+  title: z.string().trim().max(300).optional(), // Improves suggestions when the slug is taken
+  collection: collectionSelectorShape.collection,
+  locale: localeSchema.optional(), // Slugs can differ per locale
+});
+
+export const slugSuggestQuerySchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(300),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+  collection: collectionSelectorShape.collection,
+  locale: localeSchema.optional(),
+});
+
+// Schema for comparing two revisions of an item
+const revisionNumberSchema = z.coerce.number().int().min(1);
+
+export const revisionDiffQuerySchema = z.object({
+  from: revisionNumberSchema,
+  to: revisionNumberSchema,
+});
+
+// Schema for Webflow webhook deliveries; the rest of the payload depends on the trigger
+export const webflowWebhookSchema = z.object({
+  triggerType: z.string().min(1),
+  payload: z.object({
+    siteId: z.string().min(1),
+    id: z.string().min(1).optional(),
+    collectionId: z.string().min(1).optional(),
+  }).passthrough(),
+}).refine(
+  (data) =>
+    !data.triggerType.startsWith("collection_item_") ||
+    (!!data.payload.id && !!data.payload.collectionId),
+  { message: "Item events need payload.id and payload.collectionId", path: ["payload"] },
+);
+
 // Type inference from schemas
-export type FormData = z.infer<typeof formDataSchema>;
-export type UpdateFormData = z.infer<typeof updateFormDataSchema>;
+// `tenant` is set by the server from the resolved tenant, and `featuredImageAsset` once an
+// uploaded featured image is stored in Webflow Assets; neither is ever read from the request
+export type FormData = z.infer<typeof formDataSchema> & {
+  tenant?: string;
+  featuredImageAsset?: WebflowImage;
+};
+export type UpdateFormData = z.infer<typeof updateFormDataSchema> & {
+  featuredImageAsset?: WebflowImage;
+};
 export type DraftFormData = z.infer<typeof draftFormDataSchema>;
+export type PreviewFormData = z.infer<typeof previewFormDataSchema>;
+export type LocaleVariantData = z.infer<typeof localeVariantSchema>;
+export type ScheduleUpdateData = z.infer<typeof scheduleUpdateSchema>;
+export type DeadLetterReplayData = z.infer<typeof deadLetterReplaySchema>;
+export type ReviewNoteData = z.infer<typeof reviewNoteSchema>;
+export type ReviewActionData = z.infer<typeof reviewActionSchema>;
+export type ReviewApproveData = z.infer<typeof reviewApproveSchema>;
+export type ArticleQueryData = z.infer<typeof articleQuerySchema>;
+export type SlugCheckQueryData = z.infer<typeof slugCheckQuerySchema>;
+export type SlugSuggestQueryData = z.infer<typeof slugSuggestQuerySchema>;
+export type RevisionDiffQueryData = z.infer<typeof revisionDiffQuerySchema>;
+export type WebflowWebhookData = z.infer<typeof webflowWebhookSchema>;
 export type QuillDelta = z.infer<typeof quillDeltaSchema>;
 export type QuillOp = z.infer<typeof quillOpSchema>;
 
@@ -443,6 +629,51 @@ export function validateContentUrls(delta: QuillDelta): ValidationResult<QuillDe
   };
 }
 
+/**
+ * Validate images sent inline as `data:` URIs (the featured image and Quill image embeds).
+ * Linked images are left to the URL checks.
+ */
+export function validateImages(
+  data: { featuredImage?: string; articleContent?: { ops?: QuillOp[] } },
+  limits: ImageLimits & { maxInline: number },
+): ValidationResult<void> {
+  const errors: ValidationError[] = [];
+
+  const check = (field: string, uri: string) => {
+    const decoded = decodeDataUri(uri);
+    const result = decoded
+      ? validateImage(decoded.bytes, limits)
+      : { error: "Image data must be a base64 data: URI" };
+    if (result.error) {
+      errors.push({ field, message: result.error, code: "invalid_image" });
+    }
+  };
+
+  if (data.featuredImage && isDataUri(data.featuredImage)) {
+    check("featuredImage", data.featuredImage);
+  }
+
+  let inline = 0;
+  data.articleContent?.ops?.forEach((op, index) => {
+    const image = typeof op.insert === "object" ? op.insert.image : undefined;
+    if (typeof image !== "string" || !isDataUri(image)) return;
+
+    if (++inline > limits.maxInline) {
+      if (inline === limits.maxInline + 1) {
+        errors.push({
+          field: "articleContent",
+          message: `At most ${limits.maxInline} embedded images can be uploaded per article`,
+          code: "too_many_images",
+        });
+      }
+      return;
+    }
+    check(`articleContent.ops[${index}].insert.image`, image);
+  });
+
+  return errors.length > 0 ? { success: false, errors } : { success: true };
+}
+
 /**
  * Comprehensive content validation
  */
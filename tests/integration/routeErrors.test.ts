@@ -0,0 +1,125 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+
+// Set test environment BEFORE any app imports
+Deno.env.set("NODE_ENV", "test");
+Deno.env.set("LOG_LEVEL", "error");
+Deno.env.set("WEBFLOW_API_TOKEN", "test-token");
+Deno.env.set("WEBFLOW_COLLECTION_ID", "test-collection-id");
+Deno.env.set("WEBFLOW_SITE_ID", "test-site-id");
+
+// Now import the app
+import { createApp } from "@/app.ts";
+import { config } from "@config/index.ts";
+import { EditTokenService } from "@services/editTokenService.ts";
+import { createMockResponse } from "../helpers/test-utils.ts";
+
+describe("Route error statuses", () => {
+  const app = createApp({ testing: true });
+
+  it("should answer 401 without a resume token", async () => {
+    const response = await app.request("/api/webflow-form/draft/draft-1");
+
+    assertEquals(response.status, 401);
+    const result = await response.json();
+    assertEquals(result.code, "AUTHENTICATION_ERROR");
+    assertEquals(result.message, "Resume token is required");
+  });
+
+  it("should answer 404 for an unknown draft", async () => {
+    const response = await app.request("/api/webflow-form/draft/unknown-draft", {
+      headers: { "X-Resume-Token": "not-a-token" },
+    });
+
+    assertEquals(response.status, 404);
+    assertEquals((await response.json()).code, "NOT_FOUND");
+  });
+
+  it("should answer 401 for a missing or invalid edit token", async () => {
+    const missing = await app.request("/api/webflow-form/item-1");
+    assertEquals(missing.status, 401);
+    await missing.body?.cancel();
+
+    const invalid = await app.request("/api/webflow-form/item-1", {
+      headers: { "X-Edit-Token": "not-a-token" },
+    });
+    assertEquals(invalid.status, 401);
+    assertEquals((await invalid.json()).message, "Invalid edit token");
+  });
+
+  it("should answer 400 for invalid article queries", async () => {
+    const response = await app.request("/api/articles?from=2026-02-01&to=2026-01-01");
+
+    assertEquals(response.status, 400);
+    const result = await response.json();
+    assertEquals(result.code, "VALIDATION_ERROR");
+    assertEquals(result.field, "from");
+  });
+});
+
+describe("Update error statuses", () => {
+  const app = createApp({ testing: true });
+  const itemsUrl = `https://api.webflow.com/v2/collections/${config.WEBFLOW_COLLECTION_ID}/items`;
+  const item = (id: string, slug: string) => ({
+    id,
+    isDraft: false,
+    isArchived: false,
+    fieldData: { name: "Hospital opens a new cardiology wing", slug },
+  });
+
+  let originalFetch: typeof fetch;
+  let editToken: string;
+
+  beforeEach(async () => {
+    originalFetch = globalThis.fetch;
+    // A fresh response per request: the item and a listing in which another item has the slug
+    globalThis.fetch = (input: string | URL | Request) => {
+      const url = input instanceof Request ? input.url : input.toString();
+      if (url === `${itemsUrl}/item-1`) {
+        return Promise.resolve(createMockResponse(item("item-1", "cardiology-wing")));
+      }
+      if (url === `${itemsUrl}?limit=100`) {
+        return Promise.resolve(createMockResponse({
+          items: [item("item-1", "cardiology-wing"), item("item-2", "taken-slug")],
+          pagination: { limit: 100, offset: 0, total: 2 },
+        }));
+      }
+      return Promise.reject(new Error(`No mock response for URL: ${url}`));
+    };
+    ({ token: editToken } = await new EditTokenService().issue("item-1", "author@example.com"));
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const update = (body: Record<string, unknown>) =>
+    app.request("/api/webflow-form/item-1", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "X-Edit-Token": editToken },
+      body: JSON.stringify(body),
+    });
+
+  it("should answer 400 for a malformed slug", async () => {
+    const response = await update({ slug: "cardiology--wing" });
+
+    assertEquals(response.status, 400);
+    assertEquals((await response.json()).code, "VALIDATION_ERROR");
+  });
+
+  it("should answer 409 for a slug another item uses", async () => {
+    const response = await update({ slug: "taken-slug" });
+
+    assertEquals(response.status, 409);
+    assertEquals((await response.json()).code, "CONFLICT");
+  });
+
+  it("should reject a publishAt on update", async () => {
+    const response = await update({ publishAt: "2030-01-01T09:00:00Z" });
+
+    assertEquals(response.status, 400);
+    await response.body?.cancel();
+  });
+});
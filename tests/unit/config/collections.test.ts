@@ -0,0 +1,79 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { getCollection, parseCollectionRegistry, resolveCollection } from "@config/collections.ts";
+import { ValidationError } from "@utils/errors.ts";
+
+describe("collection registry", () => {
+  const registry = parseCollectionRegistry(
+    JSON.stringify({
+      blog: { collectionId: "blog-id" },
+      news: {
+        collectionId: "news-id",
+        default: true,
+        formIds: ["news-form"],
+        fields: { post: "body" },
+        validation: { maxWords: 1500 },
+        slugs: { maxLength: 60, reserved: ["latest"] },
+      },
+    }),
+    "fallback-id",
+  );
+
+  it("should fall back to a single default collection", () => {
+    const fallback = parseCollectionRegistry("", "fallback-id");
+
+    assertEquals(fallback.defaultKey, "default");
+    assertEquals(getCollection(undefined, fallback).collectionId, "fallback-id");
+    assertEquals(getCollection(undefined, fallback).validation, { minWords: 20, maxWords: 10000 });
+  });
+
+  it("should apply defaults and honor the default flag", () => {
+    assertEquals(registry.defaultKey, "news");
+    assertEquals(getCollection("blog", registry).slugs, { maxLength: 100, reserved: [] });
+    assertEquals(getCollection("news", registry).validation, { minWords: 20, maxWords: 1500 });
+    assertEquals(getCollection("news", registry).fields, { post: "body" });
+  });
+
+  it("should configure reference collections for categories and tags", () => {
+    const fallback = parseCollectionRegistry("", "fallback-id", {
+      categories: { collectionId: "categories-id" },
+    });
+    assertEquals(getCollection(undefined, fallback).references, {
+      categories: { collectionId: "categories-id", missing: "skip" },
+    });
+    assertEquals(getCollection("blog", registry).references, {});
+
+    assertThrows(() =>
+      parseCollectionRegistry(
+        '{"blog": {"collectionId": "x", "references": {"tags": {"missing": "create"}}}}',
+        "fallback-id",
+      )
+    );
+  });
+
+  it("should reject invalid registries", () => {
+    assertThrows(() => parseCollectionRegistry("{}", "fallback-id"));
+    assertThrows(() => parseCollectionRegistry('{"Blog": {"collectionId": "x"}}', "fallback-id"));
+    assertThrows(() =>
+      parseCollectionRegistry(
+        '{"a": {"collectionId": "x", "default": true}, "b": {"collectionId": "y", "default": true}}',
+        "fallback-id",
+      )
+    );
+  });
+
+  it("should resolve a submission by collection key, then form ID, then default", () => {
+    assertEquals(
+      resolveCollection({ collection: "blog", formId: "news-form" }, registry).key,
+      "blog",
+    );
+    assertEquals(resolveCollection({ formId: "news-form" }, registry).key, "news");
+    assertEquals(resolveCollection({ formId: "blog" }, registry).key, "blog");
+    assertEquals(resolveCollection({}, registry).key, "news");
+
+    assertThrows(() => resolveCollection({ collection: "events" }, registry), ValidationError);
+    assertThrows(() => resolveCollection({ formId: "unknown-form" }, registry), ValidationError);
+  });
+});
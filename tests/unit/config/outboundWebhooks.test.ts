@@ -0,0 +1,47 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { parseOutboundWebhooks, subscriptionsFor } from "@config/outboundWebhooks.ts";
+
+const secret = "subscription-secret-0001";
+
+describe("outbound webhook subscriptions", () => {
+  const subscriptions = parseOutboundWebhooks(JSON.stringify([
+    { id: "slack", url: "https://relay.example.com/slack", secret },
+    {
+      id: "search",
+      url: "https://search.example.com/hooks",
+      secret,
+      events: ["article.published", "article.updated"],
+    },
+    { id: "acme-crm", url: "https://crm.acme.com/hooks", secret, tenants: ["acme"] },
+  ]));
+
+  const ids = (type: Parameters<typeof subscriptionsFor>[0], tenant?: string) =>
+    subscriptionsFor(type, tenant, subscriptions).map((subscription) => subscription.id);
+
+  it("should have no subscriptions without OUTBOUND_WEBHOOKS", () => {
+    assertEquals(parseOutboundWebhooks(""), []);
+  });
+
+  it("should match subscriptions by event type and tenant", () => {
+    assertEquals(ids("article.submitted"), ["slack"]);
+    assertEquals(ids("article.published"), ["slack", "search"]);
+    assertEquals(ids("article.created", "acme"), ["slack", "acme-crm"]);
+    assertEquals(ids("article.created", "globex"), ["slack"]);
+  });
+
+  it("should reject unknown events, weak secrets and duplicate IDs", () => {
+    const entry = { id: "slack", url: "https://relay.example.com/slack", secret };
+
+    assertThrows(() =>
+      parseOutboundWebhooks(JSON.stringify([{ ...entry, events: ["article.deleted"] }]))
+    );
+    assertThrows(() => parseOutboundWebhooks(JSON.stringify([{ ...entry, secret: "short" }])));
+    assertThrows(() =>
+      parseOutboundWebhooks(JSON.stringify([{ ...entry, url: "ftp://x.example" }]))
+    );
+    assertThrows(() => parseOutboundWebhooks(JSON.stringify([entry, entry])));
+  });
+});
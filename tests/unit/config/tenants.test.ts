@@ -0,0 +1,77 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { findTenant, getTenant, parseTenantRegistry } from "@config/tenants.ts";
+import { getCollection } from "@config/collections.ts";
+import { NotFoundError } from "@utils/errors.ts";
+
+const webflow = (site: string) => ({
+  apiToken: `token-${site}`,
+  siteId: `site-${site}`,
+  collectionId: `collection-${site}`,
+});
+
+describe("tenant registry", () => {
+  const registry = parseTenantRegistry(JSON.stringify({
+    acme: {
+      apiKeys: ["acme-server-key-0001"],
+      hosts: ["Acme.webflow.io", "blog.acme.com"],
+      webflow: {
+        ...webflow("acme"),
+        collections: { blog: { collectionId: "acme-blog" }, news: { collectionId: "acme-news" } },
+      },
+      corsOrigins: ["https://acme.webflow.io"],
+      rateLimit: { form: { maxRequests: 200 } },
+      features: { moderation: true },
+    },
+    globex: {
+      hosts: ["globex.webflow.io"],
+      webflow: webflow("globex"),
+    },
+  }))!;
+
+  it("should run single-tenant without TENANTS", () => {
+    assertEquals(parseTenantRegistry(""), undefined);
+    assertEquals(findTenant({ host: "acme.webflow.io" }, undefined), undefined);
+  });
+
+  it("should parse tenants with their own collections and defaults", () => {
+    const acme = getTenant("acme", registry);
+    assertEquals(acme.hosts, ["acme.webflow.io", "blog.acme.com"]);
+    assertEquals(acme.webflow, webflow("acme"));
+    assertEquals(getCollection("news", acme.collections).collectionId, "acme-news");
+    assertEquals(acme.rateLimit.form, { maxRequests: 200 });
+
+    const globex = getTenant("globex", registry);
+    assertEquals(getCollection(undefined, globex.collections).collectionId, "collection-globex");
+    assertEquals(globex.corsOrigins, []);
+    assertEquals(globex.features, {});
+
+    assertThrows(() => getTenant("initech", registry), NotFoundError);
+  });
+
+  it("should reject tenants that cannot be identified or share a host", () => {
+    assertThrows(() => parseTenantRegistry(JSON.stringify({ acme: { webflow: webflow("acme") } })));
+    assertThrows(() =>
+      parseTenantRegistry(JSON.stringify({
+        acme: { hosts: ["shared.example.com"], webflow: webflow("acme") },
+        globex: { hosts: ["shared.example.com"], webflow: webflow("globex") },
+      }))
+    );
+  });
+
+  it("should identify a request by API key, then origin, then host", () => {
+    assertEquals(
+      findTenant({ apiKey: "acme-server-key-0001", origin: "https://globex.webflow.io" }, registry)
+        ?.id,
+      "acme",
+    );
+    assertEquals(
+      findTenant({ apiKey: "unknown", origin: "https://globex.webflow.io" }, registry)?.id,
+      "globex",
+    );
+    assertEquals(findTenant({ origin: "null", host: "blog.acme.com:8000" }, registry)?.id, "acme");
+    assertEquals(findTenant({ origin: "https://example.com" }, registry), undefined);
+  });
+});
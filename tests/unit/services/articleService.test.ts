@@ -0,0 +1,205 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { type ArticleQuery, ArticleService } from "@services/articleService.ts";
+import type { CMSService } from "@services/cmsService.ts";
+import { NotFoundError, ValidationError } from "@utils/errors.ts";
+import type { WebflowCollectionItem } from "../../../src/types/webflow.ts";
+
+function createItem(
+  id: string,
+  overrides: Partial<WebflowCollectionItem> = {},
+  fields: Record<string, unknown> = {},
+): WebflowCollectionItem {
+  return {
+    id,
+    cmsLocaleId: "locale-1",
+    lastPublished: "2024-01-10T00:00:00.000Z",
+    lastUpdated: "2024-01-10T00:00:00.000Z",
+    createdOn: "2024-01-01T00:00:00.000Z",
+    isArchived: false,
+    isDraft: false,
+    ...overrides,
+    fieldData: {
+      name: `Article ${id}`,
+      slug: `article-${id}`,
+      "author-name": "Dr. Smith",
+      "meta-description": "Description",
+      post: "<p>Body</p>",
+      ...fields,
+    },
+  };
+}
+
+class MockCMSService {
+  items: WebflowCollectionItem[] = [];
+  calls: Array<{ limit: number; offset?: string }> = [];
+
+  getCMSItems(limit = 10, offset?: string) {
+    this.calls.push({ limit, offset });
+    const start = Number(offset ?? 0);
+    return Promise.resolve({
+      items: this.items.slice(start, start + limit),
+      pagination: { limit, offset: String(start), total: this.items.length },
+    });
+  }
+
+  fromCollectionFields<T>(fieldData: T): T {
+    return fieldData;
+  }
+}
+
+describe("ArticleService", () => {
+  let mockCMS: MockCMSService;
+  let articleService: ArticleService;
+
+  const query = (overrides: Partial<ArticleQuery> = {}): ArticleQuery => ({
+    limit: 20,
+    sort: "publishedAt",
+    order: "desc",
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockCMS = new MockCMSService();
+    articleService = new ArticleService(mockCMS as unknown as CMSService);
+  });
+
+  it("should only return published, non-archived items", async () => {
+    mockCMS.items = [
+      createItem("1"),
+      createItem("2", { isDraft: true }),
+      createItem("3", { isArchived: true }),
+      createItem("4", { lastPublished: undefined }),
+    ];
+
+    const page = await articleService.listArticles(query());
+
+    assertEquals(page.articles.map((article) => article.id), ["1"]);
+    assertEquals(page.total, 1);
+  });
+
+  it("should normalize field data", async () => {
+    mockCMS.items = [
+      createItem("1", {}, {
+        "reading-time": "3 min read",
+        "intro-text": "Intro",
+        "published-on": "2024-02-01T00:00:00.000Z",
+        tags: "health, Nutrition",
+        "featured-image": { url: "https://cdn.example.com/image.png" },
+      }),
+    ];
+
+    const article = await articleService.getArticle("article-1");
+
+    assertEquals(article.title, "Article 1");
+    assertEquals(article.author, "Dr. Smith");
+    assertEquals(article.html, "<p>Body</p>");
+    assertEquals(article.readingTime, "3 min read");
+    assertEquals(article.intro, "Intro");
+    assertEquals(article.tags, ["health", "Nutrition"]);
+    assertEquals(article.categories, []);
+    assertEquals(article.featuredImage, "https://cdn.example.com/image.png");
+    assertEquals(article.publishedAt, "2024-02-01T00:00:00.000Z");
+  });
+
+  it("should load every page of the collection", async () => {
+    mockCMS.items = Array.from({ length: 150 }, (_, i) => createItem(String(i)));
+
+    const page = await articleService.listArticles(query({ limit: 5 }));
+
+    assertEquals(page.total, 150);
+    assertEquals(mockCMS.calls.length, 2);
+    assertEquals(mockCMS.calls[1].offset, "100");
+  });
+
+  it("should filter by author, tag, category and date range", async () => {
+    mockCMS.items = [
+      createItem("1", {}, { tags: ["health"], "published-on": "2024-01-05T00:00:00.000Z" }),
+      createItem("2", {}, {
+        "author-name": "Jane Doe",
+        categories: ["News"],
+        "published-on": "2024-03-05T00:00:00.000Z",
+      }),
+    ];
+
+    const byAuthor = await articleService.listArticles(query({ author: "jane doe" }));
+    const byTag = await articleService.listArticles(query({ tag: "Health" }));
+    const byCategory = await articleService.listArticles(query({ category: "news" }));
+    const byDate = await articleService.listArticles(
+      query({ from: "2024-01-01", to: "2024-02-01" }),
+    );
+
+    assertEquals(byAuthor.articles.map((article) => article.id), ["2"]);
+    assertEquals(byTag.articles.map((article) => article.id), ["1"]);
+    assertEquals(byCategory.articles.map((article) => article.id), ["2"]);
+    assertEquals(byDate.articles.map((article) => article.id), ["1"]);
+  });
+
+  it("should page through results with a cursor", async () => {
+    mockCMS.items = ["b", "d", "a", "c", "e"].map((id) =>
+      createItem(id, {}, { name: `Title ${id}` })
+    );
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await articleService.listArticles(
+        query({ limit: 2, sort: "title", order: "asc", cursor }),
+      );
+      seen.push(...page.articles.map((article) => article.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    assertEquals(seen, ["a", "b", "c", "d", "e"]);
+  });
+
+  it("should keep the cursor stable when items are added before it", async () => {
+    mockCMS.items = ["1", "2", "3"].map((id) =>
+      createItem(id, {}, { "published-on": `2024-01-0${id}T00:00:00.000Z` })
+    );
+
+    const first = await articleService.listArticles(query({ limit: 2 }));
+    assertExists(first.nextCursor);
+
+    mockCMS.items.push(createItem("4", {}, { "published-on": "2024-01-04T00:00:00.000Z" }));
+    articleService.invalidate();
+
+    const second = await articleService.listArticles(query({ limit: 2, cursor: first.nextCursor }));
+
+    assertEquals(first.articles.map((article) => article.id), ["3", "2"]);
+    assertEquals(second.articles.map((article) => article.id), ["1"]);
+    assertEquals(second.nextCursor, undefined);
+  });
+
+  it("should reject invalid cursors and cursors for another sort", async () => {
+    mockCMS.items = ["1", "2"].map((id) => createItem(id));
+    const page = await articleService.listArticles(query({ limit: 1 }));
+
+    await assertRejects(
+      () => articleService.listArticles(query({ cursor: "not-a-cursor" })),
+      ValidationError,
+    );
+    await assertRejects(
+      () => articleService.listArticles(query({ sort: "title", cursor: page.nextCursor })),
+      ValidationError,
+    );
+  });
+
+  it("should cache the collection between requests", async () => {
+    mockCMS.items = [createItem("1")];
+
+    await articleService.listArticles(query());
+    await articleService.getArticle("article-1");
+
+    assertEquals(mockCMS.calls.length, 1);
+  });
+
+  it("should throw NotFoundError for unknown or unpublished slugs", async () => {
+    mockCMS.items = [createItem("1", { isDraft: true })];
+
+    await assertRejects(() => articleService.getArticle("article-1"), NotFoundError);
+    await assertRejects(() => articleService.getArticle("missing"), NotFoundError);
+  });
+});
@@ -0,0 +1,109 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { AuthorService, normalizeAuthorName } from "@services/authorService.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { WebflowCollectionItem, WebflowFieldData } from "../../../src/types/webflow.ts";
+
+describe("AuthorService", () => {
+  let authors: WebflowCollectionItem[];
+  let published: string[];
+
+  const author = (id: string, fieldData: Record<string, unknown>) =>
+    ({ id, isArchived: false, fieldData }) as unknown as WebflowCollectionItem;
+
+  const fakeWebflowService = {
+    forCollection: () => ({
+      getAllCollectionItems: () => Promise.resolve([...authors]),
+      createCollectionItem: (data: { fieldData: Partial<WebflowFieldData> }) => {
+        const item = author(`author-${authors.length + 1}`, data.fieldData);
+        authors.push(item);
+        return Promise.resolve(item);
+      },
+      publishItem: (itemId: string) => {
+        published.push(itemId);
+        return Promise.resolve();
+      },
+    }),
+  } as unknown as WebflowService;
+
+  let service: AuthorService;
+
+  beforeEach(() => {
+    authors = [
+      author("author-1", {
+        name: "Dr. Maria Lopez",
+        slug: "maria-lopez",
+        email: "maria@example.com",
+      }),
+      author("author-2", { name: "Sam Carter", slug: "sam-carter" }),
+    ];
+    published = [];
+    service = new AuthorService(fakeWebflowService, {
+      collectionId: "authors-id",
+      fields: { credentials: "title" },
+    });
+  });
+
+  it("should match authors by email, then by normalized name", async () => {
+    assertEquals(
+      await service.resolve({ name: "M. Lopez", email: "MARIA@example.com" }),
+      "author-1",
+    );
+    assertEquals(await service.resolve({ name: "maria lopez, MD" }), "author-1");
+    assertEquals(
+      await service.resolve({ name: "Sam  Carter", email: "sam@example.com" }),
+      "author-2",
+    );
+    assertEquals(authors.length, 2);
+  });
+
+  it("should create a profile on an author's first submission", async () => {
+    const id = await service.resolve({
+      name: "Maria Lopez",
+      email: "m.lopez@other.example.com", // Same name, different person
+      phone: "+15551234567",
+      credentials: "MD, Cardiology",
+      bio: "Cardiologist in Austin.",
+      avatar: "https://example.com/maria.jpg",
+    });
+
+    assertEquals(id, "author-3");
+    assertEquals(authors[2].fieldData, {
+      name: "Maria Lopez",
+      slug: "maria-lopez-2",
+      email: "m.lopez@other.example.com",
+      phone: "+15551234567",
+      title: "MD, Cardiology",
+      bio: "Cardiologist in Austin.",
+      avatar: { url: "https://example.com/maria.jpg", alt: "Maria Lopez" },
+    } as unknown as WebflowFieldData);
+    assertEquals(published, ["author-3"]);
+
+    // Later submissions reuse the new profile, and concurrent ones share one creation
+    const [again, other, otherAgain] = await Promise.all([
+      service.resolve({ name: "Maria Lopez", email: "m.lopez@other.example.com" }),
+      service.resolve({ name: "Lee Park" }),
+      service.resolve({ name: "lee park" }),
+    ]);
+    assertEquals(again, "author-3");
+    assertEquals(other, otherAgain);
+    assertNotEquals(other, "author-3");
+    assertEquals(authors.length, 4);
+  });
+
+  it("should do nothing without an Authors collection", async () => {
+    const unconfigured = new AuthorService(fakeWebflowService);
+
+    assertEquals(unconfigured.isConfigured(), false);
+    assertEquals(await unconfigured.resolve({ name: "Sam Carter" }), undefined);
+  });
+
+  it("should normalize titles, accents, punctuation and post-nominals", () => {
+    assertEquals(normalizeAuthorName("Dr. José García-López, MD"), "jose garcia lopez");
+    assertEquals(normalizeAuthorName("  jose   GARCIA lopez PhD "), "jose garcia lopez");
+    assertEquals(normalizeAuthorName("Mary O'Brien"), "mary obrien");
+    assertEquals(normalizeAuthorName("Dr"), "dr");
+  });
+});
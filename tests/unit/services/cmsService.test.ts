@@ -2,7 +2,14 @@
 
 import { assertEquals, assertExists, assertRejects } from "@std/assert";
 import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { CMSService } from "@services/cmsService.ts";
+import { RevisionService } from "@services/revisionService.ts";
+import type { ScheduleService } from "@services/scheduleService.ts";
+import type { OutboundWebhookService } from "@services/outboundWebhookService.ts";
+import { getCollection, parseCollectionRegistry } from "@config/collections.ts";
+import type { WebflowService } from "@services/webflowService.ts";
 import type { FormData } from "../../../src/types/form.ts";
+import { ValidationError } from "@utils/errors.ts";
 import type { WebflowCollectionItem, WebflowFieldData } from "../../../src/types/webflow.ts";
 
 // Mock WebflowService
@@ -60,7 +67,10 @@ class MockWebflowService {
     item.isDraft = false;
   }
 
-  async checkSlugExists(slug: string): Promise<{ exists: boolean; itemId?: string }> {
+  async checkSlugExists(
+    slug: string,
+    _cmsLocaleId?: string,
+  ): Promise<{ exists: boolean; itemId?: string }> {
     const exists = this.existingSlugs.has(slug);
     return {
       exists,
@@ -68,6 +78,14 @@ class MockWebflowService {
     };
   }
 
+  async checkSlugsExist(slugs: string[], cmsLocaleId?: string): Promise<Map<string, any>> {
+    const results = new Map<string, any>();
+    for (const slug of slugs) {
+      results.set(slug, await this.checkSlugExists(slug, cmsLocaleId));
+    }
+    return results;
+  }
+
   async getCollectionItems(params: any): Promise<any> {
     const items = Array.from(this.items.values());
     const sorted = params.sort ? items.reverse() : items;
@@ -82,6 +100,10 @@ class MockWebflowService {
     };
   }
 
+  async getAllCollectionItems(): Promise<WebflowCollectionItem[]> {
+    return Array.from(this.items.values());
+  }
+
   async getCollectionItem(itemId: string): Promise<WebflowCollectionItem> {
     const item = this.items.get(itemId);
     if (!item) {
@@ -94,6 +116,26 @@ class MockWebflowService {
     return true;
   }
 
+  async uploadAsset(file: { fileName: string }): Promise<any> {
+    return {
+      id: "asset-1",
+      url: `https://cdn.example.com/${file.fileName}`,
+      fileName: file.fileName,
+    };
+  }
+
+  // Reference collections (e.g. categories) of the same site
+  private collections = new Map<string, MockWebflowService>();
+
+  forCollection(collectionId: string): MockWebflowService {
+    let service = this.collections.get(collectionId);
+    if (!service) {
+      service = new MockWebflowService();
+      this.collections.set(collectionId, service);
+    }
+    return service;
+  }
+
   // Test helpers
   addExistingSlug(slug: string): void {
     this.existingSlugs.add(slug);
@@ -229,25 +271,62 @@ class MockCMSService {
     }
   }
 
-  async updateCMSItem(itemId: string, formData: FormData): Promise<any> {
+  async updateCMSItem(itemId: string, updates: Partial<FormData>): Promise<any> {
     try {
-      const fieldData = await this.mapFormDataToWebflowFields(formData);
-      fieldData["updated-on"] = new Date().toISOString();
+      const current = await this.webflowService.getCollectionItem(itemId);
+
+      const fieldData: Record<string, unknown> = {};
+      if (updates.articleTitle !== undefined) fieldData.name = updates.articleTitle;
+      if (updates.authorName !== undefined) fieldData["author-name"] = updates.authorName;
+      if (updates.metaDescription !== undefined) {
+        fieldData["meta-description"] = updates.metaDescription;
+      }
+      if (updates.articleContent) {
+        const text = updates.articleContent.ops
+          .map((op: any) => typeof op.insert === "string" ? op.insert : "")
+          .join("");
+        fieldData.post = `<p>${text.trim()}</p>`;
+        fieldData["reading-time"] = `${
+          Math.max(1, Math.ceil(text.split(/\s+/).length / 238))
+        } min read`;
+        fieldData["intro-text"] = text.trim().substring(0, 160);
+      }
+      if (updates.slug && updates.slug !== current.fieldData.slug) {
+        fieldData.slug = updates.slug;
+      }
+
+      const changedFields = Object.keys(fieldData).filter((key) =>
+        JSON.stringify(current.fieldData[key]) !== JSON.stringify(fieldData[key])
+      );
+
+      if (changedFields.length === 0) {
+        return {
+          success: true,
+          item: current,
+          slug: current.fieldData.slug,
+          changedFields,
+        };
+      }
+
+      const changes = Object.fromEntries(changedFields.map((key) => [key, fieldData[key]]));
+      changes["updated-on"] = new Date().toISOString();
 
       const item = await this.webflowService.updateCollectionItem(itemId, {
-        fieldData,
+        fieldData: changes,
       });
 
       return {
         success: true,
         item,
-        slug: fieldData.slug,
+        slug: item.fieldData.slug,
+        changedFields,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         success: false,
         error: errorMessage,
+        changedFields: [],
       };
     }
   }
@@ -631,8 +710,62 @@ describe("CMSService", () => {
       const updateResult = await cmsService.updateCMSItem(createResult.item.id, updateFormData);
 
       assertEquals(updateResult.success, true);
-      // Original categories should be preserved (in this mock they're overwritten, but in real implementation they might be preserved)
       assertEquals(updateResult.item?.fieldData.name, "Updated Title");
+      assertEquals(updateResult.item?.fieldData.categories, ["tech", "news"]);
+    });
+
+    it("should only report fields that changed", async () => {
+      const createResult = await cmsService.createCMSItem(createFormData());
+      assertExists(createResult.item);
+
+      const updateResult = await cmsService.updateCMSItem(createResult.item.id, {
+        articleTitle: "Test Article",
+        authorName: "Jane Doe",
+      });
+
+      assertEquals(updateResult.success, true);
+      assertEquals(updateResult.changedFields, ["author-name"]);
+      assertEquals(updateResult.item?.fieldData["author-name"], "Jane Doe");
+    });
+
+    it("should keep the existing slug unless a new one is sent", async () => {
+      const createResult = await cmsService.createCMSItem(createFormData());
+      assertExists(createResult.item);
+      const originalSlug = createResult.slug;
+
+      const updateResult = await cmsService.updateCMSItem(createResult.item.id, {
+        articleTitle: "A Completely Different Title",
+      });
+
+      assertEquals(updateResult.slug, originalSlug);
+      assertEquals(updateResult.changedFields.includes("slug"), false);
+    });
+
+    it("should regenerate reading time and intro text when content changes", async () => {
+      const createResult = await cmsService.createCMSItem(createFormData());
+      assertExists(createResult.item);
+
+      const updateResult = await cmsService.updateCMSItem(createResult.item.id, {
+        articleContent: { ops: [{ insert: "Brand new article content\n" }] },
+      });
+
+      assertEquals(updateResult.success, true);
+      assertEquals(updateResult.changedFields.includes("post"), true);
+      assertEquals(updateResult.changedFields.includes("intro-text"), true);
+    });
+
+    it("should skip the write when nothing changed", async () => {
+      const createResult = await cmsService.createCMSItem(createFormData());
+      assertExists(createResult.item);
+      const lastUpdated = createResult.item.lastUpdated;
+
+      const updateResult = await cmsService.updateCMSItem(createResult.item.id, {
+        articleTitle: "Test Article",
+      });
+
+      assertEquals(updateResult.success, true);
+      assertEquals(updateResult.changedFields, []);
+      assertEquals(updateResult.item?.lastUpdated, lastUpdated);
     });
   });
 
@@ -823,3 +956,741 @@ describe("CMSService", () => {
     });
   });
 });
+
+describe("CMSService.previewCMSItem", () => {
+  let mockWebflowService: MockWebflowService;
+  let service: CMSService;
+
+  beforeEach(() => {
+    mockWebflowService = new MockWebflowService();
+    service = new CMSService(mockWebflowService as unknown as WebflowService);
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  const previewData = {
+    articleTitle: "Preview Article Title",
+    articleContent: {
+      ops: [{ insert: "This is the opening paragraph of a preview article.\n" }],
+    },
+  };
+
+  it("should render HTML and metadata without creating an item", async () => {
+    let created = false;
+    mockWebflowService.createCollectionItem = () => {
+      created = true;
+      throw new Error("Should not be called");
+    };
+
+    const preview = await service.previewCMSItem(previewData);
+
+    assertEquals(created, false);
+    assertEquals(preview.html.includes("opening paragraph"), true);
+    assertEquals(preview.slug, "preview-article-title");
+    assertEquals(preview.slugAvailable, true);
+    assertExists(preview.readingTime);
+    assertEquals(preview.introText.length > 0, true);
+    assertEquals(preview.warnings, []);
+  });
+
+  it("should warn about a taken custom slug and suggest alternatives", async () => {
+    mockWebflowService.addExistingSlug("taken-slug");
+
+    const preview = await service.previewCMSItem({ ...previewData, slug: "taken-slug" });
+
+    assertEquals(preview.slug, "taken-slug");
+    assertEquals(preview.slugAvailable, false);
+    assertExists(preview.slugSuggestions);
+    assertEquals(preview.warnings.some((warning) => warning.includes("already exists")), true);
+  });
+
+  it("should report conversion problems as warnings", async () => {
+    const preview = await service.previewCMSItem({
+      ...previewData,
+      articleContent: {
+        ops: [
+          { insert: "Embedded content follows.\n" },
+          { insert: { iframe: "https://example.com/embed" } },
+        ],
+      },
+    });
+
+    assertEquals(preview.warnings.some((warning) => warning.includes("Iframes")), true);
+  });
+});
+
+describe("CMSService images", () => {
+  let mockWebflowService: MockWebflowService;
+  let service: CMSService;
+
+  // Header of a 2x2 PNG; only the header is read
+  const png = (() => {
+    const bytes = new Uint8Array(24);
+    bytes.set([
+      0x89,
+      0x50,
+      0x4e,
+      0x47,
+      0x0d,
+      0x0a,
+      0x1a,
+      0x0a,
+      0,
+      0,
+      0,
+      13,
+      0x49,
+      0x48,
+      0x44,
+      0x52,
+    ]);
+    bytes.set([0, 0, 0, 2, 0, 0, 0, 2], 16);
+    return `data:image/png;base64,${btoa(String.fromCharCode(...bytes))}`;
+  })();
+
+  const formData: FormData = {
+    authorName: "Jane Doe",
+    articleTitle: "Article With Pictures",
+    metaDescription: "An article whose images are stored in the Webflow assets of the site",
+    articleContent: {
+      ops: [
+        { insert: "A paragraph before the picture.\n" },
+        { insert: { image: png } },
+        { insert: "\n" },
+      ],
+    },
+    publishNow: false,
+  };
+
+  beforeEach(() => {
+    mockWebflowService = new MockWebflowService();
+    service = new CMSService(mockWebflowService as unknown as WebflowService);
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it("should store uploaded images in Webflow Assets and link them", async () => {
+    const result = await service.createCMSItem({
+      ...formData,
+      featuredImage: png,
+      featuredImageAlt: "A picture",
+    });
+
+    assertEquals(result.success, true);
+    const fieldData = result.item!.fieldData;
+    assertEquals(fieldData["featured-image"], {
+      fileId: "asset-1",
+      url: "https://cdn.example.com/article-with-pictures-featured.png",
+      alt: "A picture",
+    });
+    assertEquals(
+      fieldData.post.includes('src="https://cdn.example.com/article-with-pictures-featured.png"'),
+      true,
+    );
+    assertEquals(fieldData.post.includes("data:"), false);
+  });
+
+  it("should pass linked featured images to Webflow with their alt text", async () => {
+    const result = await service.createCMSItem({
+      ...formData,
+      featuredImage: "https://example.com/photo.jpg",
+    });
+
+    assertEquals(result.item!.fieldData["featured-image"], {
+      url: "https://example.com/photo.jpg",
+      alt: "Article With Pictures",
+    });
+  });
+});
+
+describe("CMSService scheduling", () => {
+  it("should report a created item as created when scheduling fails", async () => {
+    const mockWebflowService = new MockWebflowService();
+    const failingSchedule = {
+      schedule: () => Promise.reject(new Error("KV unavailable")),
+    } as unknown as ScheduleService;
+    const service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      failingSchedule,
+    );
+
+    try {
+      const result = await service.createCMSItem({
+        authorName: "Jane Doe",
+        articleTitle: "Scheduled Article",
+        metaDescription: "An article that should be published at a later point in time",
+        articleContent: { ops: [{ insert: "Published later.\n" }] },
+        publishNow: false,
+        publishAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      });
+
+      assertEquals(result.success, true);
+      assertExists(result.item);
+      assertEquals(result.item.isDraft, true);
+      assertEquals(result.scheduledFor, undefined);
+      assertExists(result.scheduleError);
+    } finally {
+      service.destroy();
+    }
+  });
+});
+
+describe("CMSService outbound events", () => {
+  it("should announce a submission once, not again on retries and replays", async () => {
+    const events: string[] = [];
+    const outboundWebhooks = {
+      emit: (type: string) => {
+        events.push(type);
+        return Promise.resolve([]);
+      },
+    } as unknown as OutboundWebhookService;
+    const service = new CMSService(
+      new MockWebflowService() as unknown as WebflowService,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      outboundWebhooks,
+    );
+    const formData: FormData = {
+      authorName: "Jane Doe",
+      articleTitle: "Announced Article",
+      metaDescription: "An article whose submission is announced to webhooks only once",
+      articleContent: { ops: [{ insert: "Announced once.\n" }] },
+      publishNow: false,
+    };
+
+    try {
+      await service.createCMSItem(formData);
+      await service.createCMSItem({ ...formData, slug: "announced-article-retry" }, true, {
+        retry: true,
+      });
+
+      assertEquals(events.filter((type) => type === "article.submitted").length, 1);
+    } finally {
+      service.destroy();
+    }
+  });
+});
+
+describe("CMSService revisions", () => {
+  let kv: Deno.Kv;
+  let mockWebflowService: MockWebflowService;
+  let revisionService: RevisionService;
+  let service: CMSService;
+
+  const content = (text: string) => ({ ops: [{ insert: `${text}\n` }] });
+
+  const formData: FormData = {
+    authorName: "Jane Doe",
+    articleTitle: "Revision Tracking Article",
+    metaDescription: "An article used to check that every change is kept as a revision",
+    articleContent: content("The first version of the article text."),
+    publishNow: false,
+  };
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    mockWebflowService = new MockWebflowService();
+    revisionService = new RevisionService(kv);
+    service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      undefined,
+      undefined,
+      revisionService,
+    );
+  });
+
+  afterEach(() => {
+    service.destroy();
+    kv.close();
+  });
+
+  it("should record a revision on create and on every change", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+
+    const updated = await service.updateCMSItem(itemId, {
+      articleContent: content("The second version of the article text."),
+    });
+    const unchanged = await service.updateCMSItem(itemId, { articleTitle: formData.articleTitle });
+
+    const revisions = await revisionService.list(itemId);
+    assertEquals(revisions.map((revision) => revision.action), ["create", "update"]);
+    assertEquals(revisions[0].submittedBy, "Jane Doe");
+    assertEquals(revisions[0].delta, formData.articleContent);
+    assertEquals(revisions[1].html.includes("second version"), true);
+    assertEquals(updated.revision, 2);
+    assertEquals(unchanged.revision, undefined);
+  });
+
+  it("should carry the content over when only fields change", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+
+    await service.updateCMSItem(itemId, { articleTitle: "A Renamed Revision Article" });
+
+    const latest = await revisionService.latest(itemId);
+    assertEquals(latest?.delta, formData.articleContent);
+    assertEquals(latest?.fieldData.name, "A Renamed Revision Article");
+    assertEquals(latest?.changedFields, ["name"]);
+  });
+
+  it("should revert to an earlier revision through an update", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+    await service.updateCMSItem(itemId, {
+      articleTitle: "A Renamed Revision Article",
+      articleContent: content("The second version of the article text."),
+    });
+
+    const result = await service.revertCMSItem(itemId, 1, "editor");
+
+    assertEquals(result.success, true);
+    assertEquals(result.item?.fieldData.name, formData.articleTitle);
+    assertEquals(result.item?.fieldData.post?.includes("first version"), true);
+
+    const latest = await revisionService.latest(itemId);
+    assertEquals(latest?.action, "revert");
+    assertEquals(latest?.revertedFrom, 1);
+    assertEquals(latest?.submittedBy, "editor");
+  });
+
+  it("should store a baseline before the first change to an older item", async () => {
+    const item = await mockWebflowService.createCollectionItem({
+      isDraft: true,
+      fieldData: { name: "Legacy Article", slug: "legacy-article", post: "<p>Legacy text</p>" },
+    });
+
+    await service.updateCMSItem(item.id, { articleTitle: "Legacy Article, Revised" });
+
+    const revisions = await revisionService.list(item.id);
+    assertEquals(revisions.map((revision) => revision.action), ["baseline", "update"]);
+    assertEquals(revisions[0].fieldData.name, "Legacy Article");
+  });
+
+  it("should restore the stored content when reverting to a baseline", async () => {
+    const item = await mockWebflowService.createCollectionItem({
+      isDraft: true,
+      fieldData: { name: "Legacy Article", slug: "legacy-article", post: "<p>Legacy text</p>" },
+    });
+    await service.updateCMSItem(item.id, {
+      articleTitle: "Legacy Article, Revised",
+      articleContent: content("Rewritten in the form."),
+    });
+    await service.updateCMSItem(item.id, { metaDescription: "Only the description changed" });
+
+    const result = await service.revertCMSItem(item.id, 1, "editor");
+
+    assertEquals(result.success, true);
+    assertEquals(result.item?.fieldData.name, "Legacy Article");
+    assertEquals(result.item?.fieldData.post, "<p>Legacy text</p>");
+
+    // The reverted content has no delta, so later revisions must not inherit the old one
+    const latest = await revisionService.latest(item.id);
+    assertEquals(latest?.action, "revert");
+    assertEquals(latest?.delta, undefined);
+    assertEquals(latest?.html, "<p>Legacy text</p>");
+  });
+});
+
+describe("CMSService collections", () => {
+  let kv: Deno.Kv;
+  let mockWebflowService: MockWebflowService;
+  let revisionService: RevisionService;
+  let service: CMSService;
+
+  const registry = parseCollectionRegistry(
+    JSON.stringify({
+      news: {
+        collectionId: "news-id",
+        fields: { post: "body", "author-name": "author" },
+        slugs: { maxLength: 20 },
+      },
+    }),
+    "fallback-id",
+  );
+
+  const formData: FormData = {
+    authorName: "Jane Doe",
+    articleTitle: "Hospital Opens A New Cardiology Wing Downtown",
+    metaDescription: "The hospital opened a new cardiology wing with forty additional beds",
+    articleContent: { ops: [{ insert: "The new wing opened this morning.\n" }] },
+    publishNow: false,
+  };
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    mockWebflowService = new MockWebflowService();
+    revisionService = new RevisionService(kv);
+    service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      undefined,
+      undefined,
+      revisionService,
+      getCollection("news", registry),
+    );
+  });
+
+  afterEach(() => {
+    service.destroy();
+    kv.close();
+  });
+
+  it("should write generated fields to the collection's field slugs", async () => {
+    const result = await service.createCMSItem(formData);
+    const fieldData = result.item!.fieldData;
+
+    assertEquals(String(fieldData.body).includes("new wing"), true);
+    assertEquals(fieldData.author, "Jane Doe");
+    assertEquals(fieldData.post, undefined);
+    assertEquals(fieldData["author-name"], undefined);
+
+    const normalized = service.fromCollectionFields(fieldData);
+    assertEquals(normalized["author-name"], "Jane Doe");
+    assertEquals(normalized.post, fieldData.body);
+  });
+
+  it("should apply the collection's slug rules and record its key", async () => {
+    const result = await service.createCMSItem(formData);
+
+    assertEquals(result.slug!.length <= 20, true);
+
+    const revision = await revisionService.latest(result.item!.id);
+    assertEquals(revision?.collection, "news");
+  });
+});
+
+// Mock WebflowService of a site published in English and French
+class LocalizedWebflowService extends MockWebflowService {
+  private variants = new Map<string, WebflowCollectionItem>();
+  updates: any[] = [];
+
+  async getSite(): Promise<any> {
+    return {
+      timezone: "UTC",
+      locales: [
+        {
+          id: "l1",
+          cmsLocaleId: "cms-en",
+          code: "en",
+          displayName: "English",
+          isPrimary: true,
+          isEnabled: true,
+        },
+        {
+          id: "l2",
+          cmsLocaleId: "cms-fr",
+          code: "fr",
+          displayName: "French",
+          isPrimary: false,
+          isEnabled: true,
+        },
+        {
+          id: "l3",
+          cmsLocaleId: "cms-de",
+          code: "de",
+          displayName: "German",
+          isPrimary: false,
+          isEnabled: false,
+        },
+      ],
+    };
+  }
+
+  override async getCollectionItem(
+    itemId: string,
+    cmsLocaleId?: string,
+  ): Promise<WebflowCollectionItem> {
+    const primary = await super.getCollectionItem(itemId);
+    if (!cmsLocaleId) return primary;
+    return this.variants.get(`${itemId}:${cmsLocaleId}`) ?? { ...primary, cmsLocaleId };
+  }
+
+  override async updateCollectionItem(itemId: string, data: any): Promise<WebflowCollectionItem> {
+    this.updates.push(data);
+    if (!data.cmsLocaleId) return super.updateCollectionItem(itemId, data);
+
+    const current = await this.getCollectionItem(itemId, data.cmsLocaleId);
+    const updated = { ...current, fieldData: { ...current.fieldData, ...data.fieldData } };
+    this.variants.set(`${itemId}:${data.cmsLocaleId}`, updated);
+    return updated;
+  }
+
+  override async checkSlugExists(slug: string, cmsLocaleId?: string): Promise<any> {
+    if (!cmsLocaleId) return super.checkSlugExists(slug);
+    const exists = [...this.variants.values()].some((item) =>
+      item.cmsLocaleId === cmsLocaleId && item.fieldData.slug === slug
+    );
+    return { exists };
+  }
+}
+
+describe("CMSService categories and tags", () => {
+  let mockWebflowService: MockWebflowService;
+  let service: CMSService;
+
+  const registry = parseCollectionRegistry(
+    JSON.stringify({
+      blog: {
+        collectionId: "blog-id",
+        fields: { tags: "topics" },
+        references: {
+          categories: { collectionId: "categories-id", missing: "reject" },
+          tags: { collectionId: "tags-id", missing: "create" },
+        },
+      },
+    }),
+    "fallback-id",
+  );
+
+  const formData: FormData = {
+    authorName: "Jane Doe",
+    articleTitle: "Hospital Opens A New Cardiology Wing Downtown",
+    metaDescription: "The hospital opened a new cardiology wing with forty additional beds",
+    articleContent: { ops: [{ insert: "The new wing opened this morning.\n" }] },
+    categories: ["health"],
+    tags: ["Cardiology"],
+    publishNow: false,
+  };
+
+  beforeEach(async () => {
+    mockWebflowService = new MockWebflowService();
+    await mockWebflowService.forCollection("categories-id").createCollectionItem({
+      fieldData: { name: "Health", slug: "health" },
+    });
+    await mockWebflowService.forCollection("categories-id").createCollectionItem({
+      fieldData: { name: "City News", slug: "city" },
+    });
+    service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      undefined,
+      undefined,
+      undefined,
+      getCollection("blog", registry),
+    );
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it("should write term IDs to the multi-reference fields, creating missing tags", async () => {
+    const result = await service.createCMSItem(formData);
+    const fieldData = result.item!.fieldData;
+
+    assertEquals(result.success, true);
+    assertEquals(fieldData.categories, ["item-1"]);
+    assertEquals(fieldData.topics, ["item-1"]);
+    assertEquals(mockWebflowService.forCollection("tags-id").isPublished("item-1"), true);
+
+    const updated = await service.updateCMSItem(result.item!.id, { categories: ["City News"] });
+    assertEquals(updated.success, true);
+    assertEquals(updated.item!.fieldData.categories, ["item-2"]);
+  });
+
+  it("should reject unknown categories under the strict policy", async () => {
+    await assertRejects(
+      () => service.checkTerms({ categories: ["Gardening"] }),
+      ValidationError,
+      "Unknown category: Gardening",
+    );
+
+    const result = await service.createCMSItem({ ...formData, categories: ["Gardening"] });
+    assertEquals(result.success, false);
+    assertEquals(mockWebflowService.forCollection("tags-id").isPublished("item-1"), false);
+  });
+});
+
+describe("CMSService authors", () => {
+  let mockWebflowService: MockWebflowService;
+  let service: CMSService;
+
+  const registry = parseCollectionRegistry(
+    JSON.stringify({
+      blog: { collectionId: "blog-id", references: { authors: { collectionId: "authors-id" } } },
+    }),
+    "fallback-id",
+  );
+
+  const formData: FormData = {
+    authorName: "Dr. Jane Doe",
+    authorEmail: "jane@example.com",
+    authorPhone: "+15551234567",
+    authorCredentials: "MD",
+    articleTitle: "Hospital Opens A New Cardiology Wing Downtown",
+    metaDescription: "The hospital opened a new cardiology wing with forty additional beds",
+    articleContent: { ops: [{ insert: "The new wing opened this morning.\n" }] },
+    publishNow: false,
+  };
+
+  beforeEach(() => {
+    mockWebflowService = new MockWebflowService();
+    service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      undefined,
+      undefined,
+      undefined,
+      getCollection("blog", registry),
+    );
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it("should reference one author profile and keep contact details off the article", async () => {
+    const first = await service.createCMSItem(formData);
+    const second = await service.createCMSItem({
+      ...formData,
+      authorName: "Jane Doe",
+      articleTitle: "Cardiology Wing Adds A Second Catheterization Lab",
+    });
+
+    assertEquals(first.item!.fieldData.author, "item-1");
+    assertEquals(second.item!.fieldData.author, "item-1");
+    assertEquals(JSON.stringify(first.item!.fieldData).includes("jane@example.com"), false);
+    assertEquals(JSON.stringify(first.item!.fieldData).includes("+15551234567"), false);
+
+    const profile = await mockWebflowService.forCollection("authors-id").getCollectionItem(
+      "item-1",
+    );
+    assertEquals(profile.fieldData.email, "jane@example.com");
+    assertEquals(profile.fieldData.phone, "+15551234567");
+    assertEquals(profile.fieldData.credentials, "MD");
+  });
+});
+
+describe("CMSService locales", () => {
+  let kv: Deno.Kv;
+  let mockWebflowService: LocalizedWebflowService;
+  let revisionService: RevisionService;
+  let service: CMSService;
+
+  const formData: FormData = {
+    authorName: "Jane Doe",
+    articleTitle: "Hospital Opens A New Cardiology Wing",
+    metaDescription: "The hospital opened a new cardiology wing with forty additional beds",
+    articleContent: { ops: [{ insert: "The new wing opened this morning.\n" }] },
+    publishNow: false,
+  };
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    mockWebflowService = new LocalizedWebflowService();
+    revisionService = new RevisionService(kv);
+    service = new CMSService(
+      mockWebflowService as unknown as WebflowService,
+      undefined,
+      undefined,
+      revisionService,
+    );
+  });
+
+  afterEach(() => {
+    service.destroy();
+    kv.close();
+  });
+
+  it("should resolve locales from the site and reject unknown or disabled ones", async () => {
+    assertEquals(await service.resolveLocale(undefined), undefined);
+    assertEquals((await service.resolveLocale("FR"))?.cmsLocaleId, "cms-fr");
+    assertEquals((await service.resolveLocale("fr-CA"))?.cmsLocaleId, "cms-fr");
+
+    await assertRejects(() => service.resolveLocale("de"), ValidationError, "Available: en, fr");
+    await assertRejects(() => service.resolveLocale("es"), ValidationError);
+  });
+
+  it("should write a French variant with its own slug and French metadata", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+
+    // The English slug is only taken in the primary locale
+    assertEquals((await service.checkSlug(created.slug!)).isUnique, false);
+    assertEquals((await service.checkSlug(created.slug!, undefined, "fr")).isUnique, true);
+
+    const result = await service.saveLocaleVariant(itemId, "fr", {
+      articleTitle: "L'hôpital ouvre une nouvelle aile de cardiologie",
+      metaDescription: "L'hôpital a ouvert une nouvelle aile de cardiologie de quarante lits",
+      articleContent: { ops: [{ insert: "La nouvelle aile a ouvert ce matin.\n" }] },
+      slug: "nouvelle-aile-cardiologie",
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.slug, "nouvelle-aile-cardiologie");
+
+    const update = mockWebflowService.updates.at(-1);
+    assertEquals(update.cmsLocaleId, "cms-fr");
+    assertEquals(update.fieldData["reading-time"], "1 min de lecture");
+
+    // The primary locale is untouched
+    const primary = await mockWebflowService.getCollectionItem(itemId);
+    assertEquals(primary.fieldData.slug, created.slug);
+    assertEquals(primary.fieldData["reading-time"], "1 min read");
+
+    const revision = await revisionService.latest(itemId);
+    assertEquals(revision?.locale, "fr");
+  });
+
+  it("should keep the revisions of each locale apart", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+
+    // The French variant's first change gets a baseline of its own
+    const frenchContent = { ops: [{ insert: "La nouvelle aile a ouvert ce matin.\n" }] };
+    await service.saveLocaleVariant(itemId, "fr", {
+      articleTitle: "L'hôpital ouvre une nouvelle aile de cardiologie",
+      metaDescription: "L'hôpital a ouvert une nouvelle aile de cardiologie de quarante lits",
+      articleContent: frenchContent,
+    });
+
+    const revisions = await revisionService.list(itemId);
+    assertEquals(
+      revisions.map(({ action, locale }) => ({ action, locale })),
+      [
+        { action: "create", locale: undefined },
+        { action: "baseline", locale: "fr" },
+        { action: "update", locale: "fr" },
+      ],
+    );
+    // French revisions hold the French delta, never the English one
+    assertEquals(revisions[2].delta, frenchContent);
+    assertEquals((await revisionService.latest(itemId, { locale: undefined }))?.number, 1);
+  });
+
+  it("should not write a variant for the primary locale", async () => {
+    const created = await service.createCMSItem(formData);
+
+    await assertRejects(
+      () =>
+        service.saveLocaleVariant(created.item!.id, "en", {
+          articleTitle: formData.articleTitle,
+          metaDescription: formData.metaDescription,
+          articleContent: formData.articleContent,
+        }),
+      ValidationError,
+      "primary locale",
+    );
+  });
+
+  it("should sync cached slugs with changes made in Webflow", async () => {
+    const created = await service.createCMSItem(formData);
+    const itemId = created.item!.id;
+
+    // Deleted in the Designer: the cached slug is released
+    mockWebflowService.clear();
+    assertEquals((await service.checkSlug(created.slug!)).isUnique, false);
+    await service.syncItem(itemId);
+    assertEquals((await service.checkSlug(created.slug!)).isUnique, true);
+
+    // Renamed in the French locale: only the French slug is taken
+    await service.syncItem(itemId, { slug: "aile-cardiologie", cmsLocaleId: "cms-fr" });
+    assertEquals((await service.checkSlug("aile-cardiologie", undefined, "fr")).isUnique, false);
+    assertEquals((await service.checkSlug("aile-cardiologie")).isUnique, true);
+  });
+});
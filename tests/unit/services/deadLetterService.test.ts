@@ -0,0 +1,165 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { DeadLetterService } from "@services/deadLetterService.ts";
+import type { CMSItemResult, CMSService, PublishResult } from "@services/cmsService.ts";
+import { ConflictError, NotFoundError } from "@utils/errors.ts";
+import type { FormData } from "../../../src/types/form.ts";
+
+class MockCMSService {
+  createCalls = 0;
+  publishCalls = 0;
+  createResults: CMSItemResult[] = [];
+  publishResults: PublishResult[] = [];
+
+  createCMSItem(): Promise<CMSItemResult> {
+    this.createCalls++;
+    return Promise.resolve(
+      this.createResults.shift() ?? {
+        success: true,
+        item: { id: "item-1" } as CMSItemResult["item"],
+        slug: "test-article",
+      },
+    );
+  }
+
+  publishCMSItem(itemId: string): Promise<PublishResult> {
+    this.publishCalls++;
+    return Promise.resolve(this.publishResults.shift() ?? { success: true, itemId });
+  }
+
+  forTarget(): MockCMSService {
+    return this;
+  }
+}
+
+describe("DeadLetterService", () => {
+  let kv: Deno.Kv;
+  let deadLetterService: DeadLetterService;
+  let mockCMS: MockCMSService;
+
+  const formData = {
+    authorName: "Dr. Smith",
+    articleTitle: "Lost Article",
+    metaDescription: "An article submitted while Webflow was down",
+    articleContent: { ops: [{ insert: "Content\n" }] },
+  } as FormData;
+
+  const cms = () => mockCMS as unknown as CMSService;
+
+  const recordFailure = (itemId?: string) =>
+    deadLetterService.record({
+      data: formData,
+      publishNow: true,
+      itemId,
+      attempts: [{ source: "submission", message: "Circuit breaker is open", statusCode: 503 }],
+      requestId: "req-1",
+    });
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    deadLetterService = new DeadLetterService(kv);
+    mockCMS = new MockCMSService();
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should store the submission with its error and attempt history", async () => {
+    const deadLetter = await recordFailure();
+
+    const stored = await deadLetterService.get(deadLetter.id);
+    assertEquals(stored.status, "pending");
+    assertEquals(stored.data.articleTitle, "Lost Article");
+    assertEquals(stored.error, {
+      message: "Circuit breaker is open",
+      code: undefined,
+      statusCode: 503,
+    });
+    assertEquals(stored.attempts.length, 1);
+    assertEquals((await deadLetterService.list("pending")).length, 1);
+  });
+
+  it("should create and publish the item on replay", async () => {
+    const deadLetter = await recordFailure();
+
+    const result = await deadLetterService.replay(deadLetter.id, cms());
+
+    assertEquals(result.success, true);
+    assertEquals(result.deadLetter.status, "replayed");
+    assertEquals(result.deadLetter.itemId, "item-1");
+    assertEquals(mockCMS.createCalls, 1);
+    assertEquals(mockCMS.publishCalls, 1);
+  });
+
+  it("should only publish when the item was already created", async () => {
+    const deadLetter = await recordFailure("existing-item");
+
+    await deadLetterService.replay(deadLetter.id, cms());
+
+    assertEquals(mockCMS.createCalls, 0);
+    assertEquals(mockCMS.publishCalls, 1);
+  });
+
+  it("should not create a second item when replayed twice", async () => {
+    const deadLetter = await recordFailure();
+
+    await deadLetterService.replay(deadLetter.id, cms());
+    const second = await deadLetterService.replay(deadLetter.id, cms());
+
+    assertEquals(second.success, true);
+    assertEquals(mockCMS.createCalls, 1);
+  });
+
+  it("should keep the created item when publishing fails during replay", async () => {
+    mockCMS.publishResults.push({ success: false, itemId: "item-1", error: "Still down" });
+    const deadLetter = await recordFailure();
+
+    const failed = await deadLetterService.replay(deadLetter.id, cms());
+    assertEquals(failed.success, false);
+    assertEquals(failed.deadLetter.status, "pending");
+    assertEquals(failed.deadLetter.itemId, "item-1");
+    assertEquals(failed.deadLetter.attempts.length, 2);
+
+    await deadLetterService.replay(deadLetter.id, cms());
+    assertEquals(mockCMS.createCalls, 1);
+    assertEquals(mockCMS.publishCalls, 2);
+  });
+
+  it("should reject a replay while another is in progress", async () => {
+    const deadLetter = await recordFailure();
+    await kv.set(["dead_letters", deadLetter.id], {
+      ...deadLetter,
+      status: "replaying",
+      claimedUntil: Date.now() + 60_000,
+    });
+
+    await assertRejects(() => deadLetterService.replay(deadLetter.id, cms()), ConflictError);
+  });
+
+  it("should replay all pending entries in bulk", async () => {
+    await recordFailure();
+    await recordFailure("existing-item");
+
+    const result = await deadLetterService.replayMany(cms());
+
+    assertEquals(result.replayed.length, 2);
+    assertEquals(result.failed, []);
+  });
+
+  it("should skip unknown IDs in bulk replays", async () => {
+    const result = await deadLetterService.replayMany(cms(), ["missing"]);
+
+    assertEquals(result.skipped, ["missing"]);
+  });
+
+  it("should discard an entry", async () => {
+    const deadLetter = await recordFailure();
+
+    await deadLetterService.discard(deadLetter.id);
+
+    await assertRejects(() => deadLetterService.get(deadLetter.id), NotFoundError);
+  });
+});
@@ -0,0 +1,101 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertNotEquals, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { DraftService } from "@services/draftService.ts";
+import { AuthorizationError, NotFoundError } from "@utils/errors.ts";
+
+describe("DraftService", () => {
+  let kv: Deno.Kv;
+  let draftService: DraftService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    draftService = new DraftService(kv, { ttlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  describe("createDraft", () => {
+    it("should store the draft and return a resume token", async () => {
+      const { draft, resumeToken } = await draftService.createDraft({
+        articleTitle: "Work in progress",
+      });
+
+      assertExists(draft.id);
+      assertExists(resumeToken);
+      assertNotEquals(draft.resumeTokenHash, resumeToken);
+      assertEquals(draft.data.articleTitle, "Work in progress");
+      assertEquals(Date.parse(draft.expiresAt) - Date.parse(draft.createdAt), 60_000);
+    });
+  });
+
+  describe("getDraft", () => {
+    it("should return the draft for a valid resume token", async () => {
+      const { draft, resumeToken } = await draftService.createDraft({ authorName: "Dr. Smith" });
+
+      const loaded = await draftService.getDraft(draft.id, resumeToken);
+
+      assertEquals(loaded.data.authorName, "Dr. Smith");
+    });
+
+    it("should reject an invalid resume token", async () => {
+      const { draft } = await draftService.createDraft({ authorName: "Dr. Smith" });
+
+      await assertRejects(
+        () => draftService.getDraft(draft.id, "wrong-token"),
+        AuthorizationError,
+      );
+    });
+
+    it("should report unknown drafts as not found", async () => {
+      await assertRejects(
+        () => draftService.getDraft("missing", "token"),
+        NotFoundError,
+      );
+    });
+
+    it("should treat expired drafts as not found", async () => {
+      const shortLived = new DraftService(kv, { ttlMs: 1 });
+      const { draft, resumeToken } = await shortLived.createDraft({ authorName: "Dr. Smith" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      await assertRejects(
+        () => shortLived.getDraft(draft.id, resumeToken),
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("updateDraft", () => {
+    it("should merge new fields into the stored draft", async () => {
+      const { draft, resumeToken } = await draftService.createDraft({
+        articleTitle: "First title",
+        authorName: "Dr. Smith",
+      });
+
+      const updated = await draftService.updateDraft(draft.id, resumeToken, {
+        articleTitle: "Second title",
+      });
+
+      assertEquals(updated.data.articleTitle, "Second title");
+      assertEquals(updated.data.authorName, "Dr. Smith");
+      assertEquals(updated.createdAt, draft.createdAt);
+    });
+  });
+
+  describe("deleteDraft", () => {
+    it("should remove the draft", async () => {
+      const { draft, resumeToken } = await draftService.createDraft({ authorName: "Dr. Smith" });
+
+      await draftService.deleteDraft(draft.id, resumeToken);
+
+      await assertRejects(
+        () => draftService.getDraft(draft.id, resumeToken),
+        NotFoundError,
+      );
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { EditTokenService } from "@services/editTokenService.ts";
+import { AuthenticationError, AuthorizationError } from "@utils/errors.ts";
+
+describe("EditTokenService", () => {
+  let kv: Deno.Kv;
+  let editTokenService: EditTokenService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    editTokenService = new EditTokenService(kv, { secret: "test-secret", ttlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should issue a token that verifies for its item", async () => {
+    const { token, expiresAt } = await editTokenService.issue("item-1", "author@example.com");
+
+    const claims = await editTokenService.verify(token, "item-1");
+
+    assertEquals(claims.itemId, "item-1");
+    assertEquals(new Date(claims.exp).toISOString(), expiresAt);
+  });
+
+  it("should reject a token for another item", async () => {
+    const { token } = await editTokenService.issue("item-1", "author@example.com");
+
+    await assertRejects(() => editTokenService.verify(token, "item-2"), AuthorizationError);
+  });
+
+  it("should reject tampered tokens", async () => {
+    const { token } = await editTokenService.issue("item-1", "author@example.com");
+    const [, signature] = token.split(".");
+    const forgedPayload = btoa(JSON.stringify({ itemId: "item-2", exp: Date.now() + 60_000 }))
+      .replace(/=+$/, "");
+
+    await assertRejects(
+      () => editTokenService.verify(`${forgedPayload}.${signature}`),
+      AuthenticationError,
+    );
+  });
+
+  it("should reject tokens signed with another secret", async () => {
+    const other = new EditTokenService(kv, { secret: "other-secret" });
+    const { token } = await other.issue("item-1", "author@example.com");
+
+    await assertRejects(() => editTokenService.verify(token), AuthenticationError);
+  });
+
+  it("should reject expired tokens", async () => {
+    const shortLived = new EditTokenService(kv, { secret: "test-secret", ttlMs: 1 });
+    const { token } = await shortLived.issue("item-1", "author@example.com");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await assertRejects(() => editTokenService.verify(token), AuthenticationError);
+  });
+
+  it("should reject a revoked token but keep other tokens valid", async () => {
+    const first = await editTokenService.issue("item-1", "author@example.com");
+    const second = await editTokenService.issue("item-1", "author@example.com");
+
+    await editTokenService.revoke(first.token);
+
+    await assertRejects(() => editTokenService.verify(first.token), AuthenticationError);
+    assertExists(await editTokenService.verify(second.token));
+  });
+
+  it("should revoke all tokens issued for an item", async () => {
+    const { token } = await editTokenService.issue("item-1", "author@example.com");
+    await new Promise((resolve) => setTimeout(resolve, 2));
+
+    assertEquals(await editTokenService.isItemRevoked("item-1"), false);
+    await editTokenService.revokeItem("item-1");
+
+    await assertRejects(() => editTokenService.verify(token), AuthenticationError);
+    assertEquals(await editTokenService.isItemRevoked("item-1"), true);
+  });
+
+  it("should list items submitted by the token holder only", async () => {
+    await editTokenService.recordAuthorItem("Author@Example.com", {
+      itemId: "item-1",
+      slug: "first",
+      title: "First",
+    });
+    await editTokenService.recordAuthorItem("someone@example.com", {
+      itemId: "item-2",
+      slug: "other",
+      title: "Other",
+    });
+    const { token } = await editTokenService.issue("item-1", "author@example.com");
+
+    const claims = await editTokenService.verify(token);
+    const items = await editTokenService.listAuthorItems(claims.emailHash);
+
+    assertEquals(items.map((item) => item.itemId), ["item-1"]);
+  });
+});
@@ -0,0 +1,121 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { type ExportManifest, ExportService } from "@services/exportService.ts";
+import { parseFrontMatter } from "@utils/markdown.ts";
+import { hashToken } from "@utils/kv.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { WebflowCollectionItem, WebflowListResponse } from "../../../src/types/webflow.ts";
+
+function createItem(index: number): WebflowCollectionItem {
+  return {
+    id: `item-${index}`,
+    cmsLocaleId: "locale",
+    lastUpdated: "2026-01-02T00:00:00.000Z",
+    createdOn: "2026-01-01T00:00:00.000Z",
+    isArchived: false,
+    isDraft: false,
+    fieldData: {
+      name: `Article ${index}`,
+      slug: `article-${index}`,
+      "author-name": "Jane Doe",
+      "meta-description": "An exported article",
+      post: `<h2>Heading ${index}</h2><p>Some <strong>bold</strong> text.</p>`,
+      "reading-time": "1 min read",
+    },
+  };
+}
+
+class MockWebflowService {
+  requests: { limit?: number; offset?: string }[] = [];
+
+  constructor(private readonly items: WebflowCollectionItem[]) {}
+
+  getCollectionItems(
+    options: { limit?: number; offset?: string },
+  ): Promise<WebflowListResponse<WebflowCollectionItem>> {
+    this.requests.push(options);
+    const offset = Number(options.offset ?? 0);
+    return Promise.resolve({
+      items: this.items.slice(offset, offset + (options.limit ?? 100)),
+      pagination: { limit: options.limit ?? 100, offset: String(offset), total: this.items.length },
+    });
+  }
+}
+
+describe("ExportService", () => {
+  let dir: string;
+  let webflow: MockWebflowService;
+  let exportService: ExportService;
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    webflow = new MockWebflowService([1, 2, 3].map(createItem));
+    exportService = new ExportService(webflow as unknown as WebflowService);
+  });
+
+  afterEach(async () => {
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it("should page through the whole collection", async () => {
+    const items = await exportService.fetchAllItems(2);
+
+    assertEquals(items.map((item) => item.id), ["item-1", "item-2", "item-3"]);
+    assertEquals(webflow.requests.map((request) => request.offset), ["0", "2"]);
+  });
+
+  it("should write items, Markdown and a manifest with checksums", async () => {
+    const manifest = await exportService.exportCollection(dir, { markdown: true });
+
+    assertEquals(manifest.itemCount, 3);
+    assertEquals(manifest.files.length, 6);
+
+    const json = await Deno.readTextFile(`${dir}/items/article-1.json`);
+    assertEquals(JSON.parse(json).id, "item-1");
+    assertEquals(manifest.files[0].sha256, await hashToken(json));
+
+    const markdown = parseFrontMatter(await Deno.readTextFile(`${dir}/markdown/article-1.md`));
+    assertEquals(markdown.attributes.title, "Article 1");
+    assertEquals(markdown.attributes["reading-time"], "1 min read");
+    assertEquals(markdown.body, "## Heading 1\n\nSome **bold** text.\n");
+
+    const saved = JSON.parse(await Deno.readTextFile(`${dir}/manifest.json`)) as ExportManifest;
+    assertEquals(saved.files, manifest.files);
+  });
+
+  it("should create a timestamped snapshot", async () => {
+    const result = await exportService.createSnapshot(dir, {
+      now: new Date("2026-10-18T03:00:00.000Z"),
+    });
+
+    assertEquals(result.path, `${dir}/snapshot-2026-10-18T03-00-00-000Z`);
+    assertExists(await Deno.stat(`${result.path}/manifest.json`));
+    assertEquals(result.manifest.markdown, false);
+  });
+
+  it("should prune snapshots by count and age but keep the newest", async () => {
+    const names = [
+      "snapshot-2026-10-01T03-00-00-000Z",
+      "snapshot-2026-10-15T03-00-00-000Z",
+      "snapshot-2026-10-16T03-00-00-000Z",
+      "snapshot-2026-10-17T03-00-00-000Z",
+    ];
+    for (const name of [...names, "unrelated"]) {
+      await Deno.mkdir(`${dir}/${name}`);
+    }
+
+    const now = new Date("2026-10-18T03:00:00.000Z");
+    const pruned = await exportService.pruneSnapshots(dir, { keep: 3, maxAgeDays: 2.5 }, now);
+    assertEquals(pruned, [names[1], names[0]]);
+
+    // Everything is past the age limit, but the newest snapshot survives
+    const later = new Date("2027-01-01T00:00:00.000Z");
+    assertEquals(await exportService.pruneSnapshots(dir, { maxAgeDays: 1 }, later), [names[2]]);
+
+    const remaining: string[] = [];
+    for await (const entry of Deno.readDir(dir)) remaining.push(entry.name);
+    assertEquals(remaining.sort(), [names[3], "unrelated"]);
+  });
+});
@@ -76,21 +76,47 @@ Deno.test("mapToWebflowFields - with optional fields", () => {
   assertEquals(result.fieldData.categories, ["Technology", "Web Development"]);
   assertEquals(result.fieldData.tags, ["webflow", "cms", "api"]);
   assertEquals(result.fieldData["featured-image"], "https://example.com/image.jpg");
-  assertEquals(result.fieldData["author-email"], "john@example.com");
-  assertEquals(result.fieldData["author-phone"], "+1234567890");
+});
+
+Deno.test("mapToWebflowFields - keeps author contact details out of the article", () => {
+  const result = mapToWebflowFields(
+    { ...mockFormData, authorEmail: "john@example.com", authorPhone: "+1234567890" },
+    mockMetadata,
+    mockHtmlContent,
+    { references: { author: "author-1" } },
+  );
+
+  assertEquals(result.fieldData.author, "author-1");
+  assertEquals(
+    Object.values(result.fieldData).some((value) =>
+      value === "john@example.com" || value === "+1234567890"
+    ),
+    false,
+  );
 });
 
 Deno.test("mapToWebflowFields - handles missing optional fields", () => {
   const result = mapToWebflowFields(mockFormData, mockMetadata, mockHtmlContent);
 
   // Optional fields should be undefined when not provided
-  assertEquals(result.fieldData["author-email"], undefined);
-  assertEquals(result.fieldData["author-phone"], undefined);
+  assertEquals(result.fieldData.author, undefined);
   assertEquals(result.fieldData["featured-image"], undefined);
   assertEquals(result.fieldData.categories, undefined);
   assertEquals(result.fieldData.tags, undefined);
 });
 
+Deno.test("mapToWebflowFields - writes resolved reference IDs", () => {
+  const result = mapToWebflowFields(
+    { ...mockFormData, categories: ["Technology"], tags: ["webflow", "cms"] },
+    mockMetadata,
+    mockHtmlContent,
+    { references: { categories: ["cat-1"], tags: ["tag-1", "tag-2"] } },
+  );
+
+  assertEquals(result.fieldData.categories, ["cat-1"]);
+  assertEquals(result.fieldData.tags, ["tag-1", "tag-2"]);
+});
+
 Deno.test("mapToWebflowFields - update mode", () => {
   const result = mapToWebflowFields(mockFormData, mockMetadata, mockHtmlContent, {
     isUpdate: true,
@@ -247,7 +273,7 @@ Deno.test("sanitizeFieldData - removes empty fields", () => {
     categories: [],
     tags: ["tag1"],
     "featured-image": null as any,
-    "author-email": undefined as any,
+    author: undefined as any,
   };
 
   const sanitized = sanitizeFieldData(fieldData);
@@ -258,7 +284,7 @@ Deno.test("sanitizeFieldData - removes empty fields", () => {
   assertEquals(sanitized.categories, undefined); // Empty array removed
   assertEquals(sanitized.tags, ["tag1"]);
   assertEquals(sanitized["featured-image"], undefined); // null removed
-  assertEquals(sanitized["author-email"], undefined); // undefined removed
+  assertEquals(sanitized.author, undefined); // undefined removed
 });
 
 Deno.test("sanitizeFieldData - preserves valid data", () => {
@@ -286,8 +312,7 @@ Deno.test("mapToWebflowFields - without optional fields", () => {
   assertEquals(result.fieldData["author-name"], "John Doe");
 
   // Optional fields should not be present
-  assertEquals(result.fieldData["author-email"], undefined);
-  assertEquals(result.fieldData["author-phone"], undefined);
+  assertEquals(result.fieldData.author, undefined);
   assertEquals(result.fieldData.categories, undefined);
   assertEquals(result.fieldData.tags, undefined);
 });
@@ -0,0 +1,71 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { IdempotencyService } from "@services/idempotencyService.ts";
+
+describe("IdempotencyService", () => {
+  let kv: Deno.Kv;
+  let idempotencyService: IdempotencyService;
+
+  const response = { status: 201, body: '{"success":true}', contentType: "application/json" };
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    idempotencyService = new IdempotencyService(kv, { ttlMs: 60_000 });
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should start a request for an unused key", async () => {
+    const result = await idempotencyService.begin("key-1", "hash-a");
+
+    assertEquals(result.outcome, "started");
+  });
+
+  it("should report an in-progress request for the same key", async () => {
+    await idempotencyService.begin("key-1", "hash-a");
+
+    const result = await idempotencyService.begin("key-1", "hash-a");
+
+    assertEquals(result.outcome, "in_progress");
+  });
+
+  it("should replay the stored response once completed", async () => {
+    await idempotencyService.begin("key-1", "hash-a");
+    await idempotencyService.complete("key-1", "hash-a", response);
+
+    const result = await idempotencyService.begin("key-1", "hash-a");
+
+    assertEquals(result, { outcome: "replay", response });
+  });
+
+  it("should reject a reused key with a different body", async () => {
+    await idempotencyService.begin("key-1", "hash-a");
+    await idempotencyService.complete("key-1", "hash-a", response);
+
+    const result = await idempotencyService.begin("key-1", "hash-b");
+
+    assertEquals(result.outcome, "mismatch");
+  });
+
+  it("should allow a retry after the key is released", async () => {
+    await idempotencyService.begin("key-1", "hash-a");
+    await idempotencyService.release("key-1");
+
+    const result = await idempotencyService.begin("key-1", "hash-a");
+
+    assertEquals(result.outcome, "started");
+  });
+
+  it("should take over a stale in-progress claim", async () => {
+    idempotencyService = new IdempotencyService(kv, { lockTimeoutMs: 0 });
+    await idempotencyService.begin("key-1", "hash-a");
+
+    const result = await idempotencyService.begin("key-1", "hash-a");
+
+    assertEquals(result.outcome, "started");
+  });
+});
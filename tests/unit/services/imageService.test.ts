@@ -0,0 +1,121 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { type ImageFields, ImageService } from "@services/imageService.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import { ValidationError } from "@utils/errors.ts";
+import { toDataUri } from "@utils/images.ts";
+import type { WebflowAsset } from "../../../src/types/webflow.ts";
+
+function png(width: number, height: number, seed = 0): string {
+  const bytes = new Uint8Array(40);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  bytes[39] = seed;
+  return toDataUri(bytes, "image/png");
+}
+
+describe("ImageService", () => {
+  let uploads: Array<{ fileName: string; contentType: string; size: number }>;
+  let service: ImageService;
+
+  const fakeWebflowService = {
+    uploadAsset: (file: { fileName: string; bytes: Uint8Array; contentType: string }) => {
+      uploads.push({
+        fileName: file.fileName,
+        contentType: file.contentType,
+        size: file.bytes.length,
+      });
+      const id = `asset-${uploads.length}`;
+      return Promise.resolve<WebflowAsset>({
+        id,
+        url: `https://cdn.example.com/site/${id}_${file.fileName}`,
+        fileName: file.fileName,
+        contentType: file.contentType,
+      });
+    },
+  };
+
+  beforeEach(() => {
+    uploads = [];
+    service = new ImageService(fakeWebflowService as unknown as WebflowService, {
+      maxBytes: 1024,
+      maxWidth: 2000,
+      maxHeight: 2000,
+    });
+  });
+
+  it("should upload the featured image and fill the image field", async () => {
+    const data: ImageFields = {
+      articleTitle: "Garden Tips",
+      featuredImage: png(800, 600),
+      featuredImageAlt: "Tulips in bloom",
+    };
+    const result = await service.uploadImages(data);
+
+    assertEquals(uploads, [{
+      fileName: "garden-tips-featured.png",
+      contentType: "image/png",
+      size: 40,
+    }]);
+    assertEquals(
+      result.featuredImage,
+      "https://cdn.example.com/site/asset-1_garden-tips-featured.png",
+    );
+    assertEquals(result.featuredImageAsset, {
+      fileId: "asset-1",
+      url: "https://cdn.example.com/site/asset-1_garden-tips-featured.png",
+      alt: "Tulips in bloom",
+    });
+  });
+
+  it("should replace embedded images with their hosted URLs, uploading each image once", async () => {
+    const image = png(100, 100, 1);
+    const result = await service.uploadImages({
+      articleContent: {
+        ops: [
+          { insert: "Before\n" },
+          { insert: { image } },
+          { insert: { image: "https://example.com/linked.png" } },
+          { insert: { image }, attributes: { alt: "Again" } },
+        ],
+      },
+    });
+
+    assertEquals(uploads.map((upload) => upload.fileName), ["image-2.png"]);
+    assertEquals(result.articleContent?.ops, [
+      { insert: "Before\n" },
+      { insert: { image: "https://cdn.example.com/site/asset-1_image-2.png" } },
+      { insert: { image: "https://example.com/linked.png" } },
+      {
+        insert: { image: "https://cdn.example.com/site/asset-1_image-2.png" },
+        attributes: { alt: "Again" },
+      },
+    ]);
+  });
+
+  it("should leave data without uploads untouched", async () => {
+    const data = { featuredImage: "https://example.com/photo.jpg" };
+
+    assertEquals(service.hasPendingImages(data), false);
+    assertEquals(await service.uploadImages(data), data);
+    assertEquals(uploads.length, 0);
+  });
+
+  it("should reject files that are not images or are too large", async () => {
+    await assertRejects(
+      () => service.uploadImages({ featuredImage: toDataUri(new Uint8Array(64), "image/png") }),
+      ValidationError,
+      "PNG, JPEG, GIF or WebP",
+    );
+    await assertRejects(
+      () => service.uploadImages({ featuredImage: png(4000, 10) }),
+      ValidationError,
+      "4000x10",
+    );
+    assertEquals(uploads.length, 0);
+  });
+});
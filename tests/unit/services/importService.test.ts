@@ -0,0 +1,209 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import {
+  ImportService,
+  type ImportSource,
+  type ImportState,
+  parseJsonArticles,
+  parseMarkdownArticle,
+  validateImportedArticle,
+} from "@services/importService.ts";
+import type {
+  ArticlePreview,
+  CMSItemResult,
+  CMSService,
+  PublishResult,
+} from "@services/cmsService.ts";
+import type { FormData } from "../../../src/types/form.ts";
+
+class MockCMSService {
+  created: FormData[] = [];
+  publishCalls = 0;
+  createResults: CMSItemResult[] = [];
+
+  createCMSItem(formData: FormData): Promise<CMSItemResult> {
+    this.created.push(formData);
+    const id = `item-${this.created.length}`;
+    return Promise.resolve(
+      this.createResults.shift() ?? {
+        success: true,
+        item: { id } as CMSItemResult["item"],
+        slug: formData.slug ?? `slug-${this.created.length}`,
+      },
+    );
+  }
+
+  publishCMSItem(itemId: string): Promise<PublishResult> {
+    this.publishCalls++;
+    return Promise.resolve({ success: true, itemId });
+  }
+
+  previewCMSItem(formData: FormData): Promise<ArticlePreview> {
+    return Promise.resolve({
+      slug: formData.slug ?? "preview-slug",
+      slugAvailable: true,
+      warnings: [],
+    } as unknown as ArticlePreview);
+  }
+}
+
+const body = Array.from({ length: 60 }, (_, i) => `word${i}`).join(" ");
+
+function markdownSource(id: string, extra = ""): ImportSource {
+  return {
+    id,
+    fields: parseMarkdownArticle(
+      [
+        "---",
+        `title: Imported Article ${id}`,
+        "author: Dr. Smith",
+        "description: A legacy article moved from the old site",
+        extra,
+        "---",
+        `## Introduction`,
+        "",
+        body,
+      ].join("\n"),
+    ),
+  };
+}
+
+describe("ImportService", () => {
+  let mockCMS: MockCMSService;
+  let importService: ImportService;
+  let state: ImportState;
+
+  beforeEach(() => {
+    mockCMS = new MockCMSService();
+    importService = new ImportService(mockCMS as unknown as CMSService);
+    state = { items: {} };
+  });
+
+  it("should create items and record them in the state", async () => {
+    const checkpoints: number[] = [];
+
+    const report = await importService.run(
+      [markdownSource("a.md"), markdownSource("b.md")],
+      state,
+      {
+        batchDelayMs: 0,
+        onCheckpoint: (current) => {
+          checkpoints.push(Object.keys(current.items).length);
+        },
+      },
+    );
+
+    assertEquals(report.totals.created, 2);
+    assertEquals(mockCMS.created.length, 2);
+    assertEquals(mockCMS.created[0].articleTitle, "Imported Article a.md");
+    assertEquals(mockCMS.created[0].articleContent.ops[1].attributes, { header: 2 });
+    assertEquals(Object.keys(state.items), ["a.md", "b.md"]);
+    assertEquals(checkpoints, [1, 2]);
+  });
+
+  it("should skip articles imported by an earlier run", async () => {
+    state.items["a.md"] = {
+      itemId: "item-old",
+      slug: "old",
+      published: false,
+      importedAt: new Date().toISOString(),
+    };
+
+    const report = await importService.run(
+      [markdownSource("a.md"), markdownSource("b.md")],
+      state,
+      {
+        batchDelayMs: 0,
+      },
+    );
+
+    assertEquals(report.totals.skipped, 1);
+    assertEquals(report.totals.created, 1);
+    assertEquals(report.articles[0].itemId, "item-old");
+    assertEquals(mockCMS.created.length, 1);
+  });
+
+  it("should report invalid articles and continue", async () => {
+    const invalid: ImportSource = { id: "bad.md", fields: parseMarkdownArticle("Too short") };
+
+    const report = await importService.run([invalid, markdownSource("b.md")], state, {
+      batchDelayMs: 0,
+    });
+
+    assertEquals(report.articles[0].status, "failed");
+    assertExists(report.articles[0].errors);
+    assertEquals(report.totals.created, 1);
+  });
+
+  it("should stop when Webflow is failing so the run can be resumed", async () => {
+    mockCMS.createResults.push({ success: false, error: "Service unavailable", statusCode: 503 });
+
+    const report = await importService.run(
+      [markdownSource("a.md"), markdownSource("b.md")],
+      state,
+      {
+        batchDelayMs: 0,
+      },
+    );
+
+    assertEquals(report.stoppedReason, "Service unavailable");
+    assertEquals(report.articles.length, 1);
+    assertEquals(mockCMS.created.length, 1);
+    assertEquals(state.items, {});
+  });
+
+  it("should not create anything in dry-run mode and flag duplicate slugs", async () => {
+    const report = await importService.run(
+      [markdownSource("a.md", "slug: same-slug"), markdownSource("b.md", "slug: same-slug")],
+      state,
+      { dryRun: true },
+    );
+
+    assertEquals(report.totals.validated, 2);
+    assertEquals(mockCMS.created.length, 0);
+    assertEquals(report.articles[1].warnings?.length, 1);
+    assertEquals(state.items, {});
+  });
+
+  it("should publish created items when asked", async () => {
+    const report = await importService.run([markdownSource("a.md")], state, {
+      publish: true,
+      batchDelayMs: 0,
+    });
+
+    assertEquals(mockCMS.publishCalls, 1);
+    assertEquals(report.articles[0].published, true);
+    assertEquals(state.items["a.md"].published, true);
+  });
+});
+
+describe("Import parsing", () => {
+  it("should accept form field names and aliases from JSON", () => {
+    const [article] = parseJsonArticles(JSON.stringify([{
+      authorName: "Jane Doe",
+      articleTitle: "A JSON Article",
+      excerpt: "An article imported from a JSON export file",
+      tags: "one, two",
+      markdown: body,
+    }]));
+
+    const result = validateImportedArticle(article);
+
+    assertExists(result.data);
+    assertEquals(result.data.metaDescription, "An article imported from a JSON export file");
+    assertEquals(result.data.tags, ["one", "two"]);
+  });
+
+  it("should reject JSON that is not an array", () => {
+    let message = "";
+    try {
+      parseJsonArticles("{}");
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    assertEquals(message, "JSON import file must contain an array of articles");
+  });
+});
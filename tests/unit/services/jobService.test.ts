@@ -0,0 +1,184 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { JobService } from "@services/jobService.ts";
+import type { CMSItemResult, CMSService, PublishResult } from "@services/cmsService.ts";
+import { NotFoundError } from "@utils/errors.ts";
+import type { FormData } from "../../../src/types/form.ts";
+
+class MockCMSService {
+  createCalls = 0;
+  publishCalls = 0;
+  createResults: CMSItemResult[] = [];
+  publishResults: PublishResult[] = [];
+
+  createCMSItem(): Promise<CMSItemResult> {
+    this.createCalls++;
+    return Promise.resolve(
+      this.createResults.shift() ?? {
+        success: true,
+        item: { id: "item-1" } as CMSItemResult["item"],
+        slug: "test-article",
+      },
+    );
+  }
+
+  publishCMSItem(itemId: string): Promise<PublishResult> {
+    this.publishCalls++;
+    return Promise.resolve(this.publishResults.shift() ?? { success: true, itemId });
+  }
+
+  forTarget(): MockCMSService {
+    return this;
+  }
+}
+
+describe("JobService", () => {
+  let kv: Deno.Kv;
+  let jobService: JobService;
+  let mockCMS: MockCMSService;
+
+  const formData = {
+    authorName: "Dr. Smith",
+    articleTitle: "Queued Article",
+    metaDescription: "A test article processed in the background",
+    articleContent: { ops: [{ insert: "Content\n" }] },
+  } as FormData;
+
+  const cms = () => mockCMS as unknown as CMSService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    jobService = new JobService(kv, { maxAttempts: 2, retryDelayMs: 60_000 });
+    mockCMS = new MockCMSService();
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should store a queued job", async () => {
+    const job = await jobService.enqueue(formData, false, "req-1");
+
+    const stored = await jobService.get(job.id);
+    assertEquals(stored.status, "queued");
+    assertEquals(stored.step, "queued");
+    assertEquals(stored.requestId, "req-1");
+  });
+
+  it("should throw NotFoundError for unknown jobs", async () => {
+    await assertRejects(() => jobService.get("missing"), NotFoundError);
+  });
+
+  it("should create and publish the item", async () => {
+    const job = await jobService.enqueue(formData, true);
+
+    const processed = await jobService.process(job.id, cms());
+
+    assertEquals(processed?.status, "completed");
+    assertEquals(processed?.result, {
+      itemId: "item-1",
+      slug: "test-article",
+      published: true,
+      scheduledFor: undefined,
+      scheduleError: undefined,
+    });
+    assertExists(processed?.completedAt);
+    assertEquals(mockCMS.publishCalls, 1);
+  });
+
+  it("should not create the item again when retrying a failed publish", async () => {
+    mockCMS.publishResults.push({
+      success: false,
+      itemId: "item-1",
+      error: "Service down",
+      statusCode: 503,
+    });
+    const job = await jobService.enqueue(formData, true);
+
+    const failed = await jobService.process(job.id, cms());
+    assertEquals(failed?.status, "queued");
+    assertEquals(failed?.error?.retryable, true);
+
+    const retried = await jobService.process(job.id, cms());
+    assertEquals(retried?.status, "completed");
+    assertEquals(mockCMS.createCalls, 1);
+    assertEquals(mockCMS.publishCalls, 2);
+  });
+
+  it("should fail immediately on non-retryable errors", async () => {
+    mockCMS.createResults.push({
+      success: false,
+      error: "Validation failed",
+      statusCode: 400,
+      errorCode: "VALIDATION_ERROR",
+    });
+    const job = await jobService.enqueue(formData, false);
+
+    const processed = await jobService.process(job.id, cms());
+
+    assertEquals(processed?.status, "failed");
+    assertEquals(processed?.error, {
+      message: "Validation failed",
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      retryable: false,
+    });
+  });
+
+  it("should retry network errors but not failures without a status", async () => {
+    mockCMS.createResults.push(
+      { success: false, error: "Network error", statusCode: 0, errorCode: "network_error" },
+      { success: false, error: "Circuit breaker is open" },
+    );
+    const job = await jobService.enqueue(formData, false);
+
+    const network = await jobService.process(job.id, cms());
+    assertEquals(network?.status, "queued");
+    assertEquals(network?.error?.retryable, true);
+
+    const unknown = await jobService.process(job.id, cms());
+    assertEquals(unknown?.status, "failed");
+    assertEquals(unknown?.error?.retryable, false);
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    const unavailable = { success: false, error: "Service unavailable", statusCode: 503 };
+    mockCMS.createResults.push(unavailable, unavailable);
+    const job = await jobService.enqueue(formData, false);
+
+    await jobService.process(job.id, cms());
+    const processed = await jobService.process(job.id, cms());
+
+    assertEquals(processed?.status, "failed");
+    assertEquals(processed?.attempts, 2);
+    assertEquals(processed?.failures?.length, 2);
+    assertExists(processed?.deadLetterId);
+  });
+
+  it("should skip jobs that are already completed", async () => {
+    const job = await jobService.enqueue(formData, false);
+    await jobService.process(job.id, cms());
+
+    const processed = await jobService.process(job.id, cms());
+
+    assertEquals(processed, null);
+    assertEquals(mockCMS.createCalls, 1);
+  });
+
+  it("should hand out the edit token of a completed job once", async () => {
+    const job = await jobService.enqueue(formData, false);
+    assertEquals(await jobService.claimEditToken(job.id), false);
+
+    await jobService.process(job.id, cms());
+
+    const claims = await Promise.all([
+      jobService.claimEditToken(job.id),
+      jobService.claimEditToken(job.id),
+    ]);
+    assertEquals(claims.filter(Boolean).length, 1);
+    assertExists((await jobService.get(job.id)).editTokenIssuedAt);
+    assertEquals(await jobService.claimEditToken(job.id), false);
+  });
+});
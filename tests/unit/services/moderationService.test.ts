@@ -0,0 +1,194 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { ModerationService } from "@services/moderationService.ts";
+import type { CMSItemResult, CMSService, PublishResult } from "@services/cmsService.ts";
+import { BusinessLogicError, NotFoundError } from "@utils/errors.ts";
+import type { FormData, UpdateFormData } from "../../../src/types/form.ts";
+import type { WebflowLocale } from "../../../src/types/webflow.ts";
+
+class MockCMSService {
+  createCalls: Array<{ isDraft: boolean }> = [];
+  updateCalls: Array<{ itemId: string; updates: UpdateFormData }> = [];
+  publishCalls: string[] = [];
+  publishedLocales: Array<string[] | undefined> = [];
+  createResult: CMSItemResult = {
+    success: true,
+    item: { id: "item-1" } as CMSItemResult["item"],
+    slug: "reviewed-article",
+  };
+
+  createCMSItem(_formData: FormData, isDraft = true): Promise<CMSItemResult> {
+    this.createCalls.push({ isDraft });
+    return Promise.resolve(this.createResult);
+  }
+
+  updateCMSItem(itemId: string, updates: UpdateFormData): Promise<CMSItemResult> {
+    this.updateCalls.push({ itemId, updates });
+    return Promise.resolve({ success: true, item: { id: itemId } as CMSItemResult["item"] });
+  }
+
+  resolveLocale(code?: string): Promise<WebflowLocale | undefined> {
+    return Promise.resolve(
+      code ? { code, cmsLocaleId: `cms-${code}`, isPrimary: false } as WebflowLocale : undefined,
+    );
+  }
+
+  publishCMSItem(itemId: string, cmsLocaleIds?: string[]): Promise<PublishResult> {
+    this.publishCalls.push(itemId);
+    this.publishedLocales.push(cmsLocaleIds);
+    return Promise.resolve({ success: true, itemId });
+  }
+
+  forTarget(): MockCMSService {
+    return this;
+  }
+}
+
+describe("ModerationService", () => {
+  let kv: Deno.Kv;
+  let moderationService: ModerationService;
+  let mockCMS: MockCMSService;
+
+  const formData = {
+    authorName: "Dr. Smith",
+    articleTitle: "Article Under Review",
+    metaDescription: "An article waiting for editorial review",
+    articleContent: { ops: [{ insert: "Content\n" }] },
+    publishNow: true,
+  } as FormData;
+
+  const cms = () => mockCMS as unknown as CMSService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    moderationService = new ModerationService(kv);
+    mockCMS = new MockCMSService();
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should queue submissions without touching the CMS", async () => {
+    const submission = await moderationService.submit(formData, true, "req-1");
+
+    assertEquals(submission.status, "submitted");
+    assertEquals(submission.publishNowRequested, true);
+    assertEquals((await moderationService.list("submitted")).length, 1);
+    assertEquals(mockCMS.createCalls.length, 0);
+  });
+
+  it("should throw NotFoundError for unknown submissions", async () => {
+    await assertRejects(() => moderationService.get("missing"), NotFoundError);
+  });
+
+  it("should store reviewer notes", async () => {
+    const submission = await moderationService.submit(formData, false);
+
+    const updated = await moderationService.addNote(submission.id, "editor", "Check dosage");
+
+    assertEquals(updated.notes.length, 1);
+    assertEquals(updated.notes[0].reviewer, "editor");
+    assertEquals(updated.notes[0].status, "submitted");
+  });
+
+  it("should record transitions with their notes", async () => {
+    const submission = await moderationService.submit(formData, false);
+
+    await moderationService.transition(submission.id, "in_review", "editor");
+    const updated = await moderationService.transition(
+      submission.id,
+      "changes_requested",
+      "editor",
+      "Please add references",
+    );
+
+    assertEquals(updated.status, "changes_requested");
+    assertEquals(updated.history.map((entry) => entry.to), ["in_review", "changes_requested"]);
+    assertEquals(updated.notes[0].note, "Please add references");
+  });
+
+  it("should reject transitions out of a final state", async () => {
+    const submission = await moderationService.submit(formData, false);
+    await moderationService.transition(submission.id, "rejected", "editor", "Off topic");
+
+    await assertRejects(
+      () => moderationService.transition(submission.id, "in_review", "editor"),
+      BusinessLogicError,
+    );
+    await assertRejects(
+      () => moderationService.approve(submission.id, "editor", cms()),
+      BusinessLogicError,
+    );
+    assertEquals(mockCMS.createCalls.length, 0);
+  });
+
+  it("should create and publish the item on approval", async () => {
+    const submission = await moderationService.submit(formData, true);
+
+    const result = await moderationService.approve(submission.id, "editor", cms());
+
+    assertEquals(result.success, true);
+    assertEquals(result.submission.status, "approved");
+    assertEquals(result.submission.itemId, "item-1");
+    assertEquals(result.submission.published, true);
+    assertExists(result.submission.decidedAt);
+    assertEquals(mockCMS.createCalls, [{ isDraft: false }]);
+    assertEquals(mockCMS.publishCalls, ["item-1"]);
+  });
+
+  it("should only create a draft when approved without publishing", async () => {
+    const submission = await moderationService.submit(formData, true);
+
+    const result = await moderationService.approve(submission.id, "editor", cms(), {
+      publish: false,
+    });
+
+    assertEquals(result.submission.published, false);
+    assertEquals(mockCMS.createCalls, [{ isDraft: true }]);
+    assertEquals(mockCMS.publishCalls, []);
+  });
+
+  it("should roll back the approval when the item cannot be created", async () => {
+    mockCMS.createResult = { success: false, error: "Service unavailable" };
+    const submission = await moderationService.submit(formData, true);
+    await moderationService.transition(submission.id, "in_review", "editor");
+
+    const result = await moderationService.approve(submission.id, "editor", cms());
+
+    assertEquals(result.success, false);
+    assertEquals(result.submission.status, "in_review");
+    assertEquals(result.submission.decidedAt, undefined);
+    assertEquals((await moderationService.get(submission.id)).status, "in_review");
+  });
+
+  it("should apply an author's changes to the item only on approval", async () => {
+    const updates = { articleTitle: "Article Under Review, Corrected", locale: "fr" };
+    const submission = await moderationService.submitUpdate("item-7", updates, true, "req-2");
+
+    assertEquals(submission.kind, "update");
+    assertEquals(submission.itemId, "item-7");
+    assertEquals(mockCMS.updateCalls.length, 0);
+
+    const result = await moderationService.approve(submission.id, "editor", cms());
+
+    assertEquals(result.success, true);
+    assertEquals(result.submission.published, true);
+    assertEquals(mockCMS.updateCalls, [{ itemId: "item-7", updates }]);
+    assertEquals(mockCMS.createCalls.length, 0);
+    assertEquals(mockCMS.publishedLocales, [["cms-fr"]]);
+  });
+
+  it("should not approve the same submission twice", async () => {
+    const submission = await moderationService.submit(formData, true);
+    await moderationService.approve(submission.id, "editor", cms());
+
+    await assertRejects(
+      () => moderationService.approve(submission.id, "editor", cms()),
+      BusinessLogicError,
+    );
+    assertEquals(mockCMS.createCalls.length, 1);
+  });
+});
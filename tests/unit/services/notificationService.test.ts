@@ -0,0 +1,157 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertStringIncludes } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import {
+  NotificationService,
+  type NotificationServiceOptions,
+} from "@services/notificationService.ts";
+import type { EmailMessage, EmailTransport } from "@services/emailTransports.ts";
+import { ExternalServiceError } from "@utils/errors.ts";
+
+// Records sent messages; fails while `failures` is above zero
+class RecordingTransport implements EmailTransport {
+  readonly name = "recording";
+  sent: EmailMessage[] = [];
+  failures = 0;
+
+  send(message: EmailMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      return Promise.reject(new ExternalServiceError("mail", "Connection refused"));
+    }
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+}
+
+describe("NotificationService", () => {
+  let kv: Deno.Kv;
+  let transport: RecordingTransport;
+
+  const createService = (options: NotificationServiceOptions = {}) =>
+    new NotificationService(kv, {
+      transport,
+      from: "Newsroom <news@example.com>",
+      editors: ["editors@example.com"],
+      sendImmediately: false,
+      retry: { maxAttempts: 2, initialDelay: 1, maxDelay: 1 },
+      ...options,
+    });
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    transport = new RecordingTransport();
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should send the author a confirmation when a submission is received", async () => {
+    const service = createService();
+
+    const email = await service.process({
+      type: "received",
+      title: "Spring Garden Tips",
+      authorName: "Ana",
+      authorEmail: "ana@example.com",
+    });
+
+    assertExists(email);
+    assertEquals(email.status, "pending");
+    assertEquals(transport.sent.length, 0);
+
+    const result = await service.sendDue();
+
+    assertEquals(result.sent, [email.id]);
+    assertEquals(transport.sent.length, 1);
+    assertEquals(transport.sent[0].to, ["ana@example.com"]);
+    assertEquals(transport.sent[0].from, "Newsroom <news@example.com>");
+    assertStringIncludes(transport.sent[0].subject, "Spring Garden Tips");
+    assertStringIncludes(transport.sent[0].text, "Hi Ana,");
+    assertEquals((await service.get(email.id)).status, "sent");
+  });
+
+  it("should collect events into one digest for the editors", async () => {
+    const service = createService();
+
+    await service.process({ type: "received", title: "First <draft>", authorName: "Ana" });
+    await service.process({
+      type: "failed",
+      title: "Second",
+      authorEmail: "ben@example.com",
+      reason: "Webflow API unavailable",
+      reference: "dl-1",
+    });
+
+    const digest = await service.sendDigest();
+    assertExists(digest);
+    assertEquals(digest.message.to, ["editors@example.com"]);
+    assertEquals(digest.message.subject, "Editorial digest: 2 updates");
+    assertStringIncludes(digest.message.text, 'Received (1)\n- "First <draft>" by Ana');
+    assertStringIncludes(digest.message.text, "Webflow API unavailable");
+    assertStringIncludes(digest.message.html!, "&lt;draft&gt;");
+
+    // Authors are not emailed about failures, and events are reported once
+    await service.sendDue();
+    assertEquals(transport.sent.map((message) => message.to), [["editors@example.com"]]);
+    assertEquals(await service.sendDigest(), undefined);
+  });
+
+  it("should tell the author about a publication only once", async () => {
+    const service = createService();
+    await service.trackItem("item-1", {
+      title: "Spring Garden Tips",
+      authorEmail: "ana@example.com",
+      slug: "spring-garden-tips",
+    });
+
+    const first = await service.process({ type: "published", itemId: "item-1" });
+    const second = await service.process({ type: "published", itemId: "item-1" });
+
+    assertExists(first);
+    assertEquals(second, undefined);
+    assertStringIncludes(first.message.text, "/spring-garden-tips");
+    assertEquals(first.message.to, ["ana@example.com"]);
+  });
+
+  it("should retry failed sends in later rounds and give up after the last one", async () => {
+    const service = createService({ maxRounds: 2, retryDelayMs: 60 * 1000 });
+    transport.failures = 10;
+
+    const email = await service.process({
+      type: "rejected",
+      title: "Off Topic",
+      authorEmail: "ana@example.com",
+      reason: "Not a fit for this publication",
+    });
+    assertExists(email);
+
+    const firstRun = await service.sendDue();
+    const retrying = await service.get(email.id);
+    assertEquals(firstRun.processed, 1);
+    assertEquals(retrying.status, "retrying");
+    assertEquals(retrying.attempts, 2);
+    assertEquals(retrying.lastError, "Connection refused");
+
+    // Not due yet
+    assertEquals((await service.sendDue()).processed, 0);
+
+    const laterRun = await service.sendDue(new Date(Date.now() + 2 * 60 * 1000));
+    assertEquals(laterRun.failed, [email.id]);
+    assertEquals((await service.get(email.id)).status, "failed");
+    assertEquals(transport.sent.length, 0);
+  });
+
+  it("should do nothing without a transport", async () => {
+    const service = createService({ transport: null });
+
+    assertEquals(service.enabled, false);
+    assertEquals(
+      await service.process({ type: "received", authorEmail: "ana@example.com" }),
+      undefined,
+    );
+    assertEquals(await service.sendDigest(), undefined);
+  });
+});
@@ -0,0 +1,159 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import {
+  OutboundWebhookService,
+  type OutboundWebhookServiceOptions,
+} from "@services/outboundWebhookService.ts";
+import type { OutboundWebhookSubscription } from "@config/outboundWebhooks.ts";
+import { hmacSignHex } from "@utils/hmac.ts";
+import { NotFoundError } from "@utils/errors.ts";
+
+const subscriptions: OutboundWebhookSubscription[] = [
+  {
+    id: "search",
+    url: "https://search.example.com/hooks",
+    secret: "search-secret-000001",
+    events: ["article.published"],
+    tenants: [],
+  },
+  {
+    id: "crm",
+    url: "https://crm.example.com/hooks",
+    secret: "crm-secret-000000001",
+    events: [],
+    tenants: [],
+  },
+];
+
+interface SentRequest {
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+describe("OutboundWebhookService", () => {
+  let kv: Deno.Kv;
+  let sent: SentRequest[];
+  let statuses: number[];
+
+  // Subscribers answer with the queued statuses, then 200
+  const fakeFetch = (input: string | URL | Request, init?: RequestInit) => {
+    sent.push({
+      url: String(input),
+      headers: new Headers(init?.headers),
+      body: String(init?.body),
+    });
+    return Promise.resolve(new Response(null, { status: statuses.shift() ?? 200 }));
+  };
+
+  const createService = (options: OutboundWebhookServiceOptions = {}) =>
+    new OutboundWebhookService(kv, {
+      subscriptions,
+      fetch: fakeFetch as typeof fetch,
+      deliverImmediately: false,
+      retry: { initialDelay: 1, maxDelay: 1 },
+      ...options,
+    });
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    sent = [];
+    statuses = [];
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should record one delivery per matching subscription", async () => {
+    const service = createService();
+
+    const created = await service.emit("article.created", { itemId: "item-1" });
+    const published = await service.emit("article.published", { itemId: "item-1" });
+
+    assertEquals(created.map((delivery) => delivery.subscriptionId), ["crm"]);
+    assertEquals(published.map((delivery) => delivery.subscriptionId), ["search", "crm"]);
+    assertEquals(published[0].event.id, published[1].event.id);
+    assertEquals((await service.list({ status: "pending" })).length, 3);
+    assertEquals(sent.length, 0);
+  });
+
+  it("should sign the event with the subscription secret and timestamp", async () => {
+    const service = createService();
+    const [delivery] = await service.emit("article.created", { itemId: "item-1" }, {
+      tenant: "acme",
+    });
+
+    const result = await service.deliver(delivery.id);
+
+    assertEquals(result?.status, "delivered");
+    assertEquals(sent.length, 1);
+
+    const { headers, body } = sent[0];
+    const timestamp = headers.get("x-webhook-timestamp")!;
+    const expected = await hmacSignHex("crm-secret-000000001", `${timestamp}:${body}`);
+    assertEquals(headers.get("x-webhook-signature"), `sha256=${expected}`);
+    assertEquals(headers.get("x-webhook-event"), "article.created");
+    assertEquals(JSON.parse(body).tenant, "acme");
+    assertEquals(JSON.parse(body).data, { itemId: "item-1" });
+  });
+
+  it("should retry transient failures within a round", async () => {
+    const service = createService();
+    const [delivery] = await service.emit("article.updated", { itemId: "item-1" });
+    statuses = [503, 502];
+
+    const result = await service.deliver(delivery.id);
+
+    assertEquals(result?.status, "delivered");
+    assertEquals(result?.attempts.map((attempt) => attempt.statusCode), [503, 502, 200]);
+    assertEquals(result?.rounds, 1);
+  });
+
+  it("should schedule another round after a failed one and give up after the last", async () => {
+    const service = createService({ maxRounds: 2, retryDelayMs: 60_000 });
+    const [delivery] = await service.emit("article.updated", { itemId: "item-1" });
+    statuses = [400, 400];
+
+    const first = await service.deliver(delivery.id);
+
+    // Client errors are not retried within the round
+    assertEquals(first?.status, "retrying");
+    assertEquals(first?.attempts.length, 1);
+    assertExists(first?.nextAttemptAt);
+
+    // Not due yet
+    assertEquals((await service.deliverDue()).processed, 0);
+
+    const later = new Date(Date.parse(first!.nextAttemptAt!) + 1000);
+    const run = await service.deliverDue(later);
+    const final = await service.get(delivery.id);
+
+    assertEquals(run.failed, [delivery.id]);
+    assertEquals(final.status, "failed");
+    assertEquals(final.nextAttemptAt, undefined);
+    assertEquals(final.lastError, "Subscriber responded with 400");
+  });
+
+  it("should redeliver a finished delivery with the same event ID", async () => {
+    const service = createService({ maxRounds: 1 });
+    const [delivery] = await service.emit("article.failed", {
+      operation: "publish",
+      itemId: "item-1",
+    });
+    statuses = [410];
+
+    assertEquals((await service.deliver(delivery.id))?.status, "failed");
+    // Finished deliveries are left alone by the worker
+    assertEquals(await service.deliver(delivery.id), null);
+
+    const redelivered = await service.redeliver(delivery.id);
+
+    assertEquals(redelivered.status, "delivered");
+    assertEquals(redelivered.attempts.at(-1)?.manual, true);
+    assertEquals(JSON.parse(sent[1].body).id, delivery.event.id);
+    await assertRejects(() => service.redeliver("missing"), NotFoundError);
+  });
+});
@@ -0,0 +1,76 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { type NewRevision, RevisionService } from "@services/revisionService.ts";
+import { NotFoundError } from "@utils/errors.ts";
+
+function newRevision(overrides: Partial<NewRevision> = {}): NewRevision {
+  return {
+    itemId: "item-1",
+    action: "create",
+    submittedBy: "Jane Doe <jane@example.com>",
+    delta: { ops: [{ insert: "First paragraph.\nSecond paragraph.\n" }] },
+    html: "<p>First paragraph.</p><p>Second paragraph.</p>",
+    fieldData: { name: "Original Title", slug: "original-title" },
+    changedFields: [],
+    ...overrides,
+  };
+}
+
+describe("RevisionService", () => {
+  let kv: Deno.Kv;
+  let revisionService: RevisionService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    revisionService = new RevisionService(kv);
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  it("should number revisions per item", async () => {
+    await revisionService.record(newRevision());
+    await revisionService.record(newRevision({ action: "update" }));
+    await revisionService.record(newRevision({ itemId: "item-2" }));
+
+    const revisions = await revisionService.list("item-1");
+
+    assertEquals(revisions.map((revision) => revision.number), [1, 2]);
+    assertEquals(revisions[1].action, "update");
+    assertEquals((await revisionService.latest("item-1"))?.number, 2);
+    assertEquals((await revisionService.get("item-2", 1)).itemId, "item-2");
+  });
+
+  it("should not reuse numbers for concurrent revisions", async () => {
+    const recorded = await Promise.all(
+      [1, 2, 3].map(() => revisionService.record(newRevision())),
+    );
+
+    assertEquals(recorded.map((revision) => revision.number).sort(), [1, 2, 3]);
+  });
+
+  it("should diff fields and text between revisions", async () => {
+    await revisionService.record(newRevision());
+    await revisionService.record(newRevision({
+      action: "update",
+      delta: { ops: [{ insert: "First paragraph.\nSecond, longer paragraph.\n" }] },
+      fieldData: { name: "New Title", slug: "original-title" },
+      changedFields: ["name", "post"],
+    }));
+
+    const diff = await revisionService.diff("item-1", 1, 2);
+
+    assertEquals(diff.fields, [{ field: "name", from: "Original Title", to: "New Title" }]);
+    assertEquals(diff.text.wordsAdded, 2);
+    assertEquals(diff.text.wordsRemoved, 1);
+    assertEquals(diff.text.chunks[0], { type: "equal", value: "First paragraph.\n" });
+  });
+
+  it("should throw NotFoundError for a missing revision", async () => {
+    await assertRejects(() => revisionService.get("item-1", 3), NotFoundError);
+    assertEquals(await revisionService.latest("item-1"), null);
+  });
+});
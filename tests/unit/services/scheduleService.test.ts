@@ -0,0 +1,130 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { ScheduleService } from "@services/scheduleService.ts";
+import { BusinessLogicError, NotFoundError } from "@utils/errors.ts";
+
+describe("ScheduleService", () => {
+  let kv: Deno.Kv;
+  let scheduleService: ScheduleService;
+  let published: string[];
+
+  const publishOk = (itemId: string) => {
+    published.push(itemId);
+    return Promise.resolve({ success: true });
+  };
+  const publishFail = () => Promise.resolve({ success: false, error: "Webflow unavailable" });
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    scheduleService = new ScheduleService(kv, { maxAttempts: 2 });
+    published = [];
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  describe("schedule", () => {
+    it("should record a pending publication", async () => {
+      const publishAt = inMinutes(30);
+      const record = await scheduleService.schedule("item-1", publishAt, "Europe/Paris");
+
+      assertEquals(record.status, "pending");
+      assertEquals(record.publishAt, publishAt.toISOString());
+      assertEquals(record.timezone, "Europe/Paris");
+      assertEquals((await scheduleService.list("pending")).length, 1);
+    });
+  });
+
+  describe("processDue", () => {
+    it("should publish only items whose time has arrived", async () => {
+      await scheduleService.schedule("due", inMinutes(-5));
+      await scheduleService.schedule("later", inMinutes(60));
+
+      const result = await scheduleService.processDue(publishOk);
+
+      assertEquals(result.published, ["due"]);
+      assertEquals(published, ["due"]);
+      assertEquals((await scheduleService.get("due")).status, "published");
+      assertEquals((await scheduleService.get("later")).status, "pending");
+    });
+
+    it("should catch up on every missed publication", async () => {
+      await scheduleService.schedule("missed-1", inMinutes(-120));
+      await scheduleService.schedule("missed-2", inMinutes(-60));
+
+      const result = await scheduleService.processDue(publishOk);
+
+      assertEquals(result.published, ["missed-1", "missed-2"]);
+    });
+
+    it("should not publish the same item twice", async () => {
+      await scheduleService.schedule("item-1", inMinutes(-1));
+
+      await scheduleService.processDue(publishOk);
+      await scheduleService.processDue(publishOk);
+
+      assertEquals(published, ["item-1"]);
+    });
+
+    it("should retry failures and give up after max attempts", async () => {
+      await scheduleService.schedule("item-1", inMinutes(-1));
+
+      const first = await scheduleService.processDue(publishFail);
+      assertEquals(first.failed, []);
+      assertEquals((await scheduleService.get("item-1")).status, "pending");
+
+      const second = await scheduleService.processDue(publishFail);
+      assertEquals(second.failed, ["item-1"]);
+
+      const record = await scheduleService.get("item-1");
+      assertEquals(record.status, "failed");
+      assertEquals(record.attempts, 2);
+      assertEquals(record.lastError, "Webflow unavailable");
+    });
+  });
+
+  describe("reschedule", () => {
+    it("should move a pending publication", async () => {
+      await scheduleService.schedule("item-1", inMinutes(-1), "Europe/Paris");
+      const newTime = inMinutes(90);
+
+      const record = await scheduleService.reschedule("item-1", newTime);
+      const result = await scheduleService.processDue(publishOk);
+
+      assertEquals(record.publishAt, newTime.toISOString());
+      assertEquals(record.timezone, "Europe/Paris");
+      assertEquals(result.processed, 0);
+    });
+
+    it("should reject rescheduling a published item", async () => {
+      await scheduleService.schedule("item-1", inMinutes(-1));
+      await scheduleService.processDue(publishOk);
+
+      await assertRejects(
+        () => scheduleService.reschedule("item-1", inMinutes(10)),
+        BusinessLogicError,
+      );
+    });
+  });
+
+  describe("cancel", () => {
+    it("should stop a pending publication from running", async () => {
+      await scheduleService.schedule("item-1", inMinutes(-1));
+
+      const record = await scheduleService.cancel("item-1");
+      const result = await scheduleService.processDue(publishOk);
+
+      assertEquals(record.status, "cancelled");
+      assertEquals(result.processed, 0);
+    });
+
+    it("should report unknown items as not found", async () => {
+      await assertRejects(() => scheduleService.cancel("missing"), NotFoundError);
+    });
+  });
+});
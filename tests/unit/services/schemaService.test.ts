@@ -0,0 +1,188 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { buildCollectionRegistry, type CollectionConfig } from "@config/collections.ts";
+import { checkCollectionSchema, FIELD_SPECS, SchemaService } from "@services/schemaService.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type {
+  WebflowCollectionField,
+  WebflowCollectionSchema,
+} from "../../../src/types/webflow.ts";
+
+const collectionConfig = (entry: Record<string, unknown> = {}): CollectionConfig =>
+  buildCollectionRegistry({ default: { collectionId: "articles-id", ...entry } }, "")
+    .collections.get("default")!;
+
+const field = (
+  slug: string,
+  type: string,
+  extra: Partial<WebflowCollectionField> = {},
+): WebflowCollectionField =>
+  ({
+    id: `field-${slug}`,
+    slug,
+    displayName: slug,
+    type,
+    isRequired: false,
+    ...extra,
+  }) as WebflowCollectionField;
+
+// Every field the middleware writes, as a matching collection would define it
+const matchingFields = (): WebflowCollectionField[] => [
+  field("name", "PlainText", { isRequired: true }),
+  field("slug", "PlainText", { isRequired: true }),
+  ...Object.entries(FIELD_SPECS)
+    .filter(([, spec]) => !spec.reference)
+    .map(([slug, spec]) => field(slug, spec.types[0])),
+];
+
+const schemaOf = (fields: WebflowCollectionField[]) =>
+  ({
+    id: "articles-id",
+    displayName: "Articles",
+    slug: "articles",
+    fields,
+  }) as unknown as WebflowCollectionSchema;
+
+describe("checkCollectionSchema", () => {
+  it("should accept a collection with every mapped field", () => {
+    assertEquals(checkCollectionSchema(schemaOf(matchingFields()), collectionConfig()), []);
+  });
+
+  it("should not expect Webflow's own timestamps as collection fields", () => {
+    const fields = [
+      field("name", "PlainText", { isRequired: true }),
+      field("slug", "PlainText", { isRequired: true }),
+      field("author-name", "PlainText"),
+      field("meta-description", "PlainText"),
+      field("post", "RichText"),
+      field("reading-time", "PlainText"),
+      field("intro-text", "PlainText"),
+      field("published-on", "DateTime"),
+      field("featured-image", "Image"),
+    ];
+
+    assertEquals(checkCollectionSchema(schemaOf(fields), collectionConfig()), []);
+  });
+
+  it("should report missing fields, wrong types and unfilled required fields", () => {
+    const replaced = ["reading-time", "intro-text", "featured-image"];
+    const fields = matchingFields().filter((definition) => !replaced.includes(definition.slug));
+    fields.push(
+      field("reading-time", "Number"),
+      field("featured-image", "Image", { isRequired: true }),
+      field("subtitle", "PlainText", { isRequired: true }),
+    );
+
+    const issues = checkCollectionSchema(schemaOf(fields), collectionConfig());
+
+    assertEquals(issues.map(({ field, problem }) => ({ field, problem })), [
+      { field: "reading-time", problem: "type" },
+      { field: "intro-text", problem: "missing" },
+      { field: "featured-image", problem: "required" },
+      { field: "subtitle", problem: "required" },
+    ]);
+    assertEquals(
+      issues[0].message,
+      'Field "reading-time" is a Number field, expected PlainText',
+    );
+  });
+
+  it("should check renamed fields and configured references", () => {
+    const collection = collectionConfig({
+      fields: { post: "body" },
+      references: {
+        categories: { collectionId: "categories-id" },
+        authors: { collectionId: "authors-id" },
+      },
+    });
+    const fields = matchingFields().filter((definition) => definition.slug !== "post");
+    fields.push(
+      field("body", "RichText"),
+      field("categories", "MultiReference", { validations: { collectionId: "other-id" } }),
+    );
+
+    const issues = checkCollectionSchema(schemaOf(fields), collection);
+
+    assertEquals(issues.map((issue) => issue.message), [
+      'Field "categories" references collection other-id, expected categories-id',
+      'Field "author" does not exist in the collection',
+    ]);
+
+    const renamed = checkCollectionSchema(
+      schemaOf(matchingFields()),
+      collectionConfig({ fields: { post: "body" } }),
+    );
+    assertEquals(renamed.map((issue) => issue.message), [
+      'Field "body" (post) does not exist in the collection',
+    ]);
+  });
+});
+
+describe("SchemaService", () => {
+  let schema: WebflowCollectionSchema | Error;
+  let fetches: number;
+
+  const fakeWebflowService = {
+    getCollectionSchema: () => {
+      fetches++;
+      return schema instanceof Error ? Promise.reject(schema) : Promise.resolve(schema);
+    },
+  } as unknown as WebflowService;
+
+  let service: SchemaService;
+
+  beforeEach(() => {
+    schema = schemaOf(matchingFields());
+    fetches = 0;
+    service = new SchemaService(fakeWebflowService, collectionConfig(), "tenant-a", {
+      recheckInterval: 1000,
+    });
+  });
+
+  it("should record whether the collection matches the mapping", async () => {
+    assertEquals(service.status, undefined);
+
+    const status = await service.check();
+
+    assertEquals(status.status, "compatible");
+    assertEquals(status.collection, "default");
+    assertEquals(status.collectionId, "articles-id");
+    assertEquals(status.tenant, "tenant-a");
+    assertEquals(service.status, status);
+  });
+
+  it("should share concurrent checks", async () => {
+    await Promise.all([service.check(), service.check()]);
+    assertEquals(fetches, 1);
+  });
+
+  it("should check an incompatible collection again after the interval", async () => {
+    schema = schemaOf(matchingFields().filter((definition) => definition.slug !== "post"));
+    const first = await service.check();
+    assertEquals(first.status, "incompatible");
+
+    // Fixed in Webflow: the old result stands until the interval has passed
+    schema = schemaOf(matchingFields());
+    const checkedAt = Date.parse(first.checkedAt);
+    assertEquals((await service.current(checkedAt + 500))?.status, "incompatible");
+    assertEquals((await service.current(checkedAt + 1000))?.status, "compatible");
+    assertEquals(fetches, 2);
+  });
+
+  it("should keep known problems when the schema cannot be fetched", async () => {
+    schema = new Error("Webflow is down");
+    const unknown = await service.check();
+    assertEquals(unknown.status, "unknown");
+    assertEquals(unknown.error, "Webflow is down");
+
+    schema = schemaOf([]);
+    assertEquals((await service.check()).status, "incompatible");
+
+    schema = new Error("Webflow is down");
+    const failed = await service.check();
+    assertEquals(failed.status, "incompatible");
+    assertEquals(failed.error, "Webflow is down");
+  });
+});
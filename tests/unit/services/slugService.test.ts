@@ -19,6 +19,19 @@ class MockWebflowService implements Partial<WebflowService> {
     };
   }
 
+  listings = 0;
+
+  async checkSlugsExist(
+    slugs: string[],
+  ): Promise<Map<string, { exists: boolean; itemId?: string }>> {
+    this.listings++;
+    const results = new Map<string, { exists: boolean; itemId?: string }>();
+    for (const slug of slugs) {
+      results.set(slug, await this.checkSlugExists(slug));
+    }
+    return results;
+  }
+
   addExistingSlug(slug: string): void {
     this.existingSlugs.add(slug);
   }
@@ -252,6 +265,83 @@ describe("SlugService", () => {
     });
   });
 
+  describe("checkSlug", () => {
+    it("should accept an available slug without suggestions", async () => {
+      const result = await slugService.checkSlug("fresh-slug");
+
+      assertEquals(result.isValid, true);
+      assertEquals(result.isUnique, true);
+      assertEquals(result.isReserved, false);
+      assertEquals(result.errors, undefined);
+      assertEquals(result.suggestions, []);
+    });
+
+    it("should flag reserved words", async () => {
+      const result = await slugService.checkSlug("admin");
+
+      assertEquals(result.isValid, false);
+      assertEquals(result.isReserved, true);
+      assertEquals(result.suggestions.includes("admin"), false);
+    });
+
+    it("should suggest available alternatives for a taken slug", async () => {
+      mockWebflowService.addExistingSlug("healthy-eating-tips");
+      mockWebflowService.addExistingSlug("healthy-eating-tips-2");
+
+      const result = await slugService.checkSlug("healthy-eating-tips");
+
+      assertEquals(result.isUnique, false);
+      assertExists(result.errors);
+      assertEquals(result.suggestions.length > 0, true);
+      assertEquals(result.suggestions.includes("healthy-eating-tips"), false);
+      assertEquals(result.suggestions.includes("healthy-eating-tips-2"), false);
+    });
+
+    it("should use the slug cache for repeated checks", async () => {
+      let calls = 0;
+      const original = mockWebflowService.checkSlugExists.bind(mockWebflowService);
+      mockWebflowService.checkSlugExists = (slug: string) => {
+        calls++;
+        return original(slug);
+      };
+
+      await slugService.checkSlug("cached-slug");
+      await slugService.checkSlug("cached-slug");
+
+      assertEquals(calls, 1);
+    });
+  });
+
+  describe("suggestSlugs", () => {
+    it("should rank the full title first, then keyword slugs", async () => {
+      const suggestions = await slugService.suggestSlugs("The Complete Guide to Sleep Hygiene");
+
+      assertEquals(suggestions[0], "the-complete-guide-to-sleep-hygiene");
+      assertEquals(suggestions.includes("complete-guide-sleep-hygiene"), true);
+      assertEquals(suggestions.length <= 5, true);
+    });
+
+    it("should skip taken candidates", async () => {
+      mockWebflowService.addExistingSlug("sleep-hygiene");
+
+      const suggestions = await slugService.suggestSlugs("Sleep Hygiene", 3);
+
+      assertEquals(suggestions.includes("sleep-hygiene"), false);
+      assertEquals(suggestions[0], "sleep-hygiene-2");
+      assertEquals(suggestions.length, 3);
+    });
+
+    it("should check every candidate against one listing", async () => {
+      const suggestions = await slugService.suggestSlugs("The Complete Guide to Sleep Hygiene");
+
+      assertEquals(suggestions.length, 5);
+      assertEquals(mockWebflowService.listings, 1);
+
+      await slugService.suggestSlugs("The Complete Guide to Sleep Hygiene");
+      assertEquals(mockWebflowService.listings, 1);
+    });
+  });
+
   describe("Cache Management", () => {
     it("should cache slug existence checks", async () => {
       let apiCalls = 0;
@@ -0,0 +1,127 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { TaxonomyService } from "@services/taxonomyService.ts";
+import type { WebflowService } from "@services/webflowService.ts";
+import type { ReferenceSettings } from "@config/collections.ts";
+import { ValidationError } from "@utils/errors.ts";
+import type { WebflowCollectionItem } from "../../../src/types/webflow.ts";
+
+interface FakeTerm {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+describe("TaxonomyService", () => {
+  let terms: Record<string, FakeTerm[]>;
+  let listCalls: number;
+  let published: string[];
+
+  const term = (id: string, name: string, slug: string): FakeTerm => ({ id, name, slug });
+
+  // One fake per reference collection, keyed by collection ID
+  const fakeWebflowService = {
+    forCollection: (collectionId: string) => ({
+      getAllCollectionItems: () => {
+        listCalls++;
+        return Promise.resolve(terms[collectionId].map((t) => ({
+          id: t.id,
+          isArchived: false,
+          fieldData: { name: t.name, slug: t.slug },
+        })));
+      },
+      createCollectionItem: (data: { fieldData: { name: string; slug: string } }) => {
+        const created = term(
+          `new-${data.fieldData.slug}`,
+          data.fieldData.name,
+          data.fieldData.slug,
+        );
+        terms[collectionId].push(created);
+        return Promise.resolve(
+          { id: created.id, fieldData: data.fieldData } as unknown as WebflowCollectionItem,
+        );
+      },
+      publishItem: (itemId: string) => {
+        published.push(itemId);
+        return Promise.resolve();
+      },
+    }),
+  } as unknown as WebflowService;
+
+  const create = (references: ReferenceSettings) =>
+    new TaxonomyService(fakeWebflowService, references, { refreshInterval: 0 });
+
+  beforeEach(() => {
+    terms = {
+      "categories-id": [
+        term("cat-tech", "Technology", "technology"),
+        term("cat-web", "Web Development", "web-dev"),
+      ],
+      "tags-id": [term("tag-cms", "CMS", "cms")],
+    };
+    listCalls = 0;
+    published = [];
+  });
+
+  it("should match names case-insensitively and by slug", async () => {
+    const service = create({ categories: { collectionId: "categories-id", missing: "skip" } });
+
+    assertEquals(
+      await service.resolve("categories", ["technology", "Web-Dev", " TECHNOLOGY ", "Cooking"]),
+      ["cat-tech", "cat-web"],
+    );
+    assertEquals(service.isConfigured("tags"), false);
+    assertEquals(await service.resolve("tags", ["cms"]), []);
+  });
+
+  it("should create missing terms once and publish them", async () => {
+    const service = create({ tags: { collectionId: "tags-id", missing: "create" } });
+
+    const [first, second] = await Promise.all([
+      service.resolve("tags", ["cms", "Deno Deploy"]),
+      service.resolve("tags", ["deno deploy"]),
+    ]);
+
+    assertEquals(first, ["tag-cms", "new-deno-deploy"]);
+    assertEquals(second, ["new-deno-deploy"]);
+    assertEquals(terms["tags-id"].length, 2);
+    assertEquals(published, ["new-deno-deploy"]);
+  });
+
+  it("should reject unknown names under the strict policy", async () => {
+    const service = create({ categories: { collectionId: "categories-id", missing: "reject" } });
+
+    await assertRejects(
+      () => service.check({ categories: ["Technology", "Gardening"] }),
+      ValidationError,
+      "Unknown category: Gardening",
+    );
+    await assertRejects(
+      () => service.resolve("categories", ["Gardening", "Cooking"]),
+      ValidationError,
+      "Unknown categories: Gardening, Cooking",
+    );
+    await service.check({ categories: ["Technology"], tags: ["Anything"] });
+  });
+
+  it("should cache lookups until the cache is cleared", async () => {
+    const service = new TaxonomyService(fakeWebflowService, {
+      categories: { collectionId: "categories-id", missing: "skip" },
+    });
+
+    await service.resolve("categories", ["Technology"]);
+    await service.resolve("categories", ["Web Development"]);
+    assertEquals(listCalls, 1);
+
+    // Within the refresh interval an unknown name does not reload the collection
+    terms["categories-id"].push(term("cat-news", "News", "news"));
+    assertEquals(await service.resolve("categories", ["News"]), []);
+    assertEquals(listCalls, 1);
+
+    service.clearCache("categories");
+    assertEquals(await service.resolve("categories", ["News"]), ["cat-news"]);
+    assertEquals(listCalls, 2);
+  });
+});
@@ -1,8 +1,9 @@
 /// <reference lib="deno.ns" />
 
-import { assertEquals, assertExists, assertThrows } from "@std/assert";
+import { assertEquals, assertExists, assertRejects, assertThrows } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { createWebflowService, WebflowService } from "@services/webflowService.ts";
+import { isWebflowError, type WebflowError } from "@utils/webflowErrors.ts";
 
 // Mock WebflowService for testing
 class MockWebflowService {
@@ -523,4 +524,91 @@ describe("WebflowService", () => {
       assertExists(result);
     });
   });
+
+  describe("Item lifecycle requests", () => {
+    const originalFetch = globalThis.fetch;
+    let requests: Array<{ method: string; url: string; body?: string }>;
+
+    const stubFetch = (status = 204) => {
+      requests = [];
+      globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+        requests.push({
+          method: init?.method ?? "GET",
+          url: String(input),
+          body: init?.body as string | undefined,
+        });
+        return Promise.resolve(
+          status === 204
+            ? new Response(null, { status })
+            : new Response(JSON.stringify({ message: "Item not found" }), {
+              status,
+              headers: { "content-type": "application/json" },
+            }),
+        );
+      }) as typeof fetch;
+    };
+
+    const restoreFetch = () => {
+      globalThis.fetch = originalFetch;
+    };
+
+    it("should unpublish via DELETE on the live item", async () => {
+      stubFetch();
+      try {
+        await new WebflowService(mockConfig).unpublishItem("item-123");
+      } finally {
+        restoreFetch();
+      }
+
+      assertEquals(requests, [{
+        method: "DELETE",
+        url: "https://api.webflow.com/v2/collections/test-collection/items/item-123/live",
+        body: undefined,
+      }]);
+    });
+
+    it("should archive via PATCH with isArchived", async () => {
+      stubFetch();
+      try {
+        await new WebflowService(mockConfig).setItemArchived("item-123", true);
+      } finally {
+        restoreFetch();
+      }
+
+      assertEquals(requests[0].method, "PATCH");
+      assertEquals(
+        requests[0].url,
+        "https://api.webflow.com/v2/collections/test-collection/items/item-123",
+      );
+      assertEquals(JSON.parse(requests[0].body as string), { isArchived: true });
+    });
+
+    it("should delete via DELETE on the staged item", async () => {
+      stubFetch();
+      try {
+        await new WebflowService(mockConfig).deleteItem("item-123");
+      } finally {
+        restoreFetch();
+      }
+
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(
+        requests[0].url,
+        "https://api.webflow.com/v2/collections/test-collection/items/item-123",
+      );
+    });
+
+    it("should surface API errors as parsed Webflow errors", async () => {
+      stubFetch(404);
+      try {
+        const error = await assertRejects(() =>
+          new WebflowService(mockConfig).deleteItem("missing")
+        );
+        assertEquals(isWebflowError(error), true);
+        assertEquals((error as WebflowError).httpStatus, 404);
+      } finally {
+        restoreFetch();
+      }
+    });
+  });
 });
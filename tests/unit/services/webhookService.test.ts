@@ -0,0 +1,136 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { type WebhookEvent, WebhookService } from "@services/webhookService.ts";
+import { hmacSignHex } from "@utils/hmac.ts";
+import { AuthenticationError } from "@utils/errors.ts";
+
+const SECRET = "whsec_test_secret";
+
+function itemEvent(overrides: Partial<WebhookEvent> = {}): WebhookEvent {
+  return {
+    id: "event-1",
+    triggerType: "collection_item_changed",
+    payload: {
+      id: "item-1",
+      siteId: "site-1",
+      collectionId: "collection-1",
+      fieldData: { name: "Renamed", slug: "renamed" },
+    },
+    receivedAt: new Date().toISOString(),
+    ...overrides,
+  } as WebhookEvent;
+}
+
+describe("WebhookService", () => {
+  let kv: Deno.Kv;
+  let webhookService: WebhookService;
+
+  beforeEach(async () => {
+    kv = await Deno.openKv(":memory:");
+    webhookService = new WebhookService(kv, { maxAgeMs: 60_000 });
+  });
+
+  afterEach(() => {
+    kv.close();
+  });
+
+  describe("verifySignature", () => {
+    const body = JSON.stringify({ triggerType: "site_publish", payload: { siteId: "site-1" } });
+    const now = 1_700_000_000_000;
+
+    it("should accept a valid signature", async () => {
+      const signature = await hmacSignHex(SECRET, `${now}:${body}`);
+
+      await webhookService.verifySignature(
+        body,
+        { timestamp: String(now), signature },
+        SECRET,
+        now + 1000,
+      );
+    });
+
+    it("should reject a signature made with another secret or body", async () => {
+      const otherSecret = await hmacSignHex("other-secret", `${now}:${body}`);
+      const otherBody = await hmacSignHex(SECRET, `${now}:{}`);
+
+      for (const signature of [otherSecret, otherBody, undefined]) {
+        await assertRejects(
+          () =>
+            webhookService.verifySignature(
+              body,
+              { timestamp: String(now), signature },
+              SECRET,
+              now,
+            ),
+          AuthenticationError,
+        );
+      }
+    });
+
+    it("should reject stale timestamps even when correctly signed", async () => {
+      const signature = await hmacSignHex(SECRET, `${now}:${body}`);
+
+      await assertRejects(
+        () =>
+          webhookService.verifySignature(
+            body,
+            { timestamp: String(now), signature },
+            SECRET,
+            now + 61_000,
+          ),
+        AuthenticationError,
+        "too old",
+      );
+    });
+  });
+
+  describe("receive", () => {
+    it("should dispatch events to the handlers of their trigger", async () => {
+      const changed: string[] = [];
+      const published: string[] = [];
+      webhookService.on("collection_item_changed", (event) => {
+        changed.push(`${event.payload.id}:${event.payload.fieldData?.slug}`);
+      });
+      webhookService.on("site_publish", (event) => {
+        published.push(event.payload.siteId);
+      });
+
+      const result = await webhookService.receive(itemEvent());
+
+      assertEquals(result, { duplicate: false, handlers: 1 });
+      assertEquals(changed, ["item-1:renamed"]);
+      assertEquals(published, []);
+    });
+
+    it("should process a redelivered event only once", async () => {
+      let calls = 0;
+      webhookService.on("collection_item_changed", () => {
+        calls++;
+      });
+
+      await webhookService.receive(itemEvent());
+      const second = await webhookService.receive(itemEvent());
+      await webhookService.receive(itemEvent({ id: "event-2" }));
+
+      assertEquals(second.duplicate, true);
+      assertEquals(calls, 2);
+    });
+
+    it("should release a failed event so a retry is processed", async () => {
+      let attempts = 0;
+      webhookService.on("collection_item_deleted", () => {
+        attempts++;
+        if (attempts === 1) throw new Error("Cache unavailable");
+      });
+      const event = itemEvent({ triggerType: "collection_item_deleted" });
+
+      await assertRejects(() => webhookService.receive(event), Error, "Cache unavailable");
+      const retry = await webhookService.receive(event);
+
+      assertEquals(retry.duplicate, false);
+      assertEquals(attempts, 2);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { diffFields, diffText } from "@utils/diff.ts";
+
+describe("Diff", () => {
+  describe("diffText", () => {
+    it("should mark only the words that changed inside a line", () => {
+      const diff = diffText(
+        "Title\nSleep is important for health.\nThe end\n",
+        "Title\nGood sleep is vital for health.\nThe end\n",
+      );
+
+      assertEquals(diff.chunks, [
+        { type: "equal", value: "Title\n" },
+        { type: "delete", value: "Sleep " },
+        { type: "insert", value: "Good sleep " },
+        { type: "equal", value: "is " },
+        { type: "delete", value: "important " },
+        { type: "insert", value: "vital " },
+        { type: "equal", value: "for health.\nThe end\n" },
+      ]);
+      assertEquals(diff.wordsAdded, 3);
+      assertEquals(diff.wordsRemoved, 2);
+    });
+
+    it("should rebuild both texts from the chunks", () => {
+      const before = "One\nTwo three\nFour\n";
+      const after = "Zero\nOne\nTwo and three\n";
+      const { chunks } = diffText(before, after);
+
+      const join = (skip: string) =>
+        chunks.filter((chunk) => chunk.type !== skip).map((chunk) => chunk.value).join("");
+
+      assertEquals(join("insert"), before);
+      assertEquals(join("delete"), after);
+    });
+
+    it("should report identical texts as a single equal chunk", () => {
+      assertEquals(diffText("Same\ntext", "Same\ntext").chunks, [
+        { type: "equal", value: "Same\ntext" },
+      ]);
+    });
+  });
+
+  describe("diffFields", () => {
+    it("should list changed, added and removed fields", () => {
+      const changes = diffFields(
+        { name: "Old", slug: "same", tags: ["a"], "updated-on": "1" },
+        { name: "New", slug: "same", tags: ["a", "b"], "updated-on": "2", extra: true },
+        ["updated-on"],
+      );
+
+      assertEquals(changes, [
+        { field: "extra", from: undefined, to: true },
+        { field: "name", from: "Old", to: "New" },
+        { field: "tags", from: ["a"], to: ["a", "b"] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertExists, assertStringIncludes } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { decodeDataUri, isDataUri, sniffImage, toDataUri, validateImage } from "@utils/images.ts";
+
+// Headers of tiny images; sniffing only reads this far
+function pngHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function jpegHeader(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    0xff,
+    0xd8, // Start of image
+    0xff,
+    0xe0,
+    0x00,
+    0x06,
+    0x4a,
+    0x46,
+    0x49,
+    0x46, // APP0, skipped
+    0xff,
+    0xc0,
+    0x00,
+    0x11,
+    0x08,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    0x03,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+  ]);
+}
+
+const encoder = new TextEncoder();
+
+describe("Images", () => {
+  describe("sniffImage", () => {
+    it("should identify PNG and JPEG images and read their dimensions", () => {
+      assertEquals(sniffImage(pngHeader(640, 480)), {
+        mimeType: "image/png",
+        extension: "png",
+        width: 640,
+        height: 480,
+        size: 33,
+      });
+
+      const jpeg = sniffImage(jpegHeader(1200, 800));
+      assertEquals([jpeg?.mimeType, jpeg?.width, jpeg?.height], ["image/jpeg", 1200, 800]);
+    });
+
+    it("should identify GIF and WebP images", () => {
+      const gif = new Uint8Array([...encoder.encode("GIF89a"), 0x20, 0x03, 0x58, 0x02]);
+      assertEquals(sniffImage(gif)?.width, 800);
+      assertEquals(sniffImage(gif)?.height, 600);
+
+      const webp = new Uint8Array(30);
+      webp.set(encoder.encode("RIFF"), 0);
+      webp.set(encoder.encode("WEBPVP8X"), 8);
+      webp.set([0x1f, 0x03, 0x00, 0x57, 0x02, 0x00], 24); // 800 - 1, 600 - 1
+      assertEquals(sniffImage(webp)?.mimeType, "image/webp");
+      assertEquals([sniffImage(webp)?.width, sniffImage(webp)?.height], [800, 600]);
+    });
+
+    it("should not trust anything but the content", () => {
+      assertEquals(
+        sniffImage(encoder.encode("<svg xmlns='http://www.w3.org/2000/svg'/>")),
+        undefined,
+      );
+      assertEquals(sniffImage(encoder.encode("GIF89")), undefined);
+    });
+  });
+
+  describe("validateImage", () => {
+    const limits = { maxBytes: 1024, maxWidth: 1000, maxHeight: 1000 };
+
+    it("should accept images within the limits", () => {
+      assertExists(validateImage(pngHeader(1000, 10), limits).image);
+    });
+
+    it("should explain what is wrong with an image", () => {
+      assertStringIncludes(validateImage(new Uint8Array(2048), limits).error!, "maximum is 1 KB");
+      assertStringIncludes(validateImage(encoder.encode("hello"), limits).error!, "PNG, JPEG");
+      assertStringIncludes(validateImage(pngHeader(1001, 10), limits).error!, "1001x10");
+    });
+  });
+
+  describe("data URIs", () => {
+    it("should round-trip bytes through a data URI", () => {
+      const bytes = pngHeader(1, 1);
+      const uri = toDataUri(bytes, "image/png");
+
+      assertEquals(isDataUri(uri), true);
+      assertEquals(isDataUri("https://example.com/a.png"), false);
+      assertEquals(decodeDataUri(uri), { mimeType: "image/png", bytes });
+    });
+
+    it("should reject data URIs that are not base64", () => {
+      assertEquals(decodeDataUri("data:image/svg+xml,<svg/>"), undefined);
+      assertEquals(decodeDataUri("data:image/png;base64,***"), undefined);
+    });
+  });
+});
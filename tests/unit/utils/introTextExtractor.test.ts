@@ -268,3 +268,24 @@ Deno.test("extractIntroText - performance with large content", () => {
   assertEquals(result.text.endsWith("..."), true);
   assertEquals(end - start < 100, true); // Should be fast even with large content
 });
+
+Deno.test("extractIntroText - French sentence and punctuation rules", () => {
+  const html = "<p>Pourquoi dormir ? Le sommeil répare le corps et l’esprit. " +
+    "Les chercheurs le répètent depuis des décennies, et pourtant nous dormons de moins en " +
+    "moins chaque année, surtout pendant la semaine de travail.</p>";
+  const result = extractIntroText(html, { maxLength: 70, language: "fr" });
+
+  // The sentence is kept whole and the space before "?" becomes a no-break space
+  assertEquals(result.text, "Pourquoi dormir\u00a0? Le sommeil répare le corps et l’esprit…");
+  assertEquals(result.truncated, true);
+});
+
+Deno.test("extractIntroText - French truncation keeps punctuation with its word", () => {
+  const html = "<p>« Bonjour » dit-elle en entrant dans la salle de réunion où personne ne " +
+    "l’attendait vraiment : ni l’équipe, ni la direction, ni même ses collègues les plus proches</p>";
+  const result = extractIntroText(html, { maxLength: 90, language: "fr" });
+
+  assertEquals(result.text.startsWith("«\u00a0Bonjour\u00a0»"), true);
+  assertEquals(result.text.endsWith("…"), true);
+  assertEquals(result.text.includes(" :"), false);
+});
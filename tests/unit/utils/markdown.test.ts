@@ -0,0 +1,174 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  htmlToMarkdown,
+  markdownToDelta,
+  parseFrontMatter,
+  stringifyFrontMatter,
+} from "@utils/markdown.ts";
+
+describe("Markdown", () => {
+  describe("parseFrontMatter", () => {
+    it("should split attributes from the body", () => {
+      const document = parseFrontMatter(
+        [
+          "---",
+          'title: "Sleep: A Guide"',
+          "author: Dr. Smith",
+          "tags: [sleep, health]",
+          "categories:",
+          "  - Wellness",
+          "  - 'Research'",
+          "draft: false",
+          "---",
+          "Body text",
+        ].join("\n"),
+      );
+
+      assertEquals(document.attributes, {
+        title: "Sleep: A Guide",
+        author: "Dr. Smith",
+        tags: ["sleep", "health"],
+        categories: ["Wellness", "Research"],
+        draft: false,
+      });
+      assertEquals(document.body, "Body text");
+    });
+
+    it("should return the whole text when there is no front matter", () => {
+      const document = parseFrontMatter("# Heading\r\n\r\nText");
+
+      assertEquals(document.attributes, {});
+      assertEquals(document.body, "# Heading\n\nText");
+    });
+  });
+
+  describe("markdownToDelta", () => {
+    it("should convert block elements", () => {
+      const delta = markdownToDelta(
+        [
+          "# Title",
+          "",
+          "First line",
+          "continued here.",
+          "",
+          "- one",
+          "1. two",
+          "> quoted",
+          "```",
+          "code()",
+          "```",
+          "![Alt](https://example.com/a.png)",
+        ].join("\n"),
+      );
+
+      assertEquals(delta.ops, [
+        { insert: "Title" },
+        { insert: "\n", attributes: { header: 1 } },
+        { insert: "First line continued here." },
+        { insert: "\n" },
+        { insert: "one" },
+        { insert: "\n", attributes: { list: "bullet" } },
+        { insert: "two" },
+        { insert: "\n", attributes: { list: "ordered" } },
+        { insert: "quoted" },
+        { insert: "\n", attributes: { blockquote: true } },
+        { insert: "code()" },
+        { insert: "\n", attributes: { "code-block": true } },
+        { insert: { image: "https://example.com/a.png" } },
+        { insert: "\n" },
+      ]);
+    });
+
+    it("should convert inline formatting, including nested formats", () => {
+      const delta = markdownToDelta(
+        "A **bold [link](https://example.com)** with *italic*, ~~strike~~ and `a_b`.",
+      );
+
+      assertEquals(delta.ops, [
+        { insert: "A " },
+        { insert: "bold ", attributes: { bold: true } },
+        { insert: "link", attributes: { bold: true, link: "https://example.com" } },
+        { insert: " with " },
+        { insert: "italic", attributes: { italic: true } },
+        { insert: ", " },
+        { insert: "strike", attributes: { strike: true } },
+        { insert: " and " },
+        { insert: "a_b", attributes: { code: true } },
+        { insert: "." },
+        { insert: "\n" },
+      ]);
+    });
+
+    it("should keep escaped characters and underscores inside words literal", () => {
+      const delta = markdownToDelta("Use \\*stars\\* in snake_case_names");
+
+      assertEquals(delta.ops, [
+        { insert: "Use *stars* in snake_case_names" },
+        { insert: "\n" },
+      ]);
+    });
+  });
+
+  describe("stringifyFrontMatter", () => {
+    it("should write front matter that parses back to the same attributes", () => {
+      const attributes = {
+        title: "Sleep: A Guide",
+        author: "Dr. Smith",
+        tags: ["sleep", "true"],
+        draft: false,
+      };
+
+      const document = parseFrontMatter(stringifyFrontMatter(attributes, "Body text"));
+
+      assertEquals(document.attributes, attributes);
+      assertEquals(document.body, "Body text");
+    });
+  });
+
+  describe("htmlToMarkdown", () => {
+    it("should convert article HTML", () => {
+      const markdown = htmlToMarkdown(
+        [
+          "<h1>Title</h1>",
+          '<p>A <strong>bold <a href="https://example.com" target="_blank">link</a></strong>',
+          "with <em>italic</em>, <s>strike</s> and <code>a &lt; b</code>.</p>",
+          "<ul><li>one</li><li>two</li></ul>",
+          "<ol><li>first</li></ol>",
+          "<blockquote>quoted</blockquote>",
+          '<pre class="ql-syntax">if (a &amp;&amp; b)\n  run();</pre>',
+          '<p><img src="https://example.com/a.png" alt="Alt"></p>',
+          '<iframe class="ql-video" src="https://www.youtube.com/embed/x"></iframe>',
+        ].join("\n"),
+      );
+
+      assertEquals(
+        markdown,
+        [
+          "# Title",
+          "",
+          "A **bold [link](https://example.com)** with *italic*, ~~strike~~ and `a < b`.",
+          "",
+          "- one",
+          "- two",
+          "",
+          "1. first",
+          "",
+          "> quoted",
+          "",
+          "```",
+          "if (a && b)",
+          "  run();",
+          "```",
+          "",
+          "![Alt](https://example.com/a.png)",
+          "",
+          "[Video](https://www.youtube.com/embed/x)",
+          "",
+        ].join("\n"),
+      );
+    });
+  });
+});
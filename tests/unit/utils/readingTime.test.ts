@@ -96,6 +96,25 @@ Deno.test("formatReadingTime - various durations", () => {
   assertEquals(formatReadingTime(60), "60 min read");
 });
 
+Deno.test("formatReadingTime - localized labels", () => {
+  assertEquals(formatReadingTime(3, "fr"), "3 min de lecture");
+  assertEquals(formatReadingTime(0, "fr-CA"), "1 min de lecture");
+  assertEquals(formatReadingTime(3, "de"), "3 min read"); // Unknown languages use English
+});
+
+Deno.test("calculateReadingTime - language reading speed", () => {
+  const html = `<p>${"mot ".repeat(500)}</p>`;
+
+  const english = calculateReadingTime(html);
+  const french = calculateReadingTime(html, { language: "fr" });
+
+  // Simple content is read 10% faster: 500 words take 1.9 min at 238 WPM, 2.3 min at 195 WPM
+  assertEquals(english.minutes, 2);
+  assertEquals(english.time, "2 min read");
+  assertEquals(french.minutes, 3);
+  assertEquals(french.time, "3 min de lecture");
+});
+
 Deno.test("calculatePlainTextReadingTime - basic calculation", () => {
   const text = "Lorem ipsum ".repeat(238); // 476 words, ~2 minutes at 238 WPM
   const result = calculatePlainTextReadingTime(text);
@@ -0,0 +1,161 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertInstanceOf, assertRejects, assertStringIncludes } from "@std/assert";
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { sendSmtp, SmtpError } from "@utils/smtp.ts";
+import { buildMimeMessage, encodeHeader } from "@utils/mime.ts";
+import { ExternalServiceError } from "@utils/errors.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Accepts one connection and answers like a mail server; `replies` overrides the code per command
+async function serveOnce(
+  listener: Deno.Listener,
+  commands: string[],
+  replies: Record<string, string> = {},
+): Promise<string> {
+  const conn = await listener.accept();
+  const write = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+  let buffer = "";
+  let data = "";
+  let inData = false;
+
+  await write("220 test.local ESMTP");
+  try {
+    const chunk = new Uint8Array(4096);
+    while (true) {
+      const read = await conn.read(chunk);
+      if (read === null) break;
+      buffer += decoder.decode(chunk.subarray(0, read));
+
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) continue;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        await write("250 Queued");
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const verb = line.split(/[\s:]/)[0];
+        commands.push(line);
+
+        if (replies[verb]) {
+          await write(replies[verb]);
+        } else if (verb === "EHLO") {
+          await write("250-test.local\r\n250 SIZE 10240000");
+        } else if (verb === "DATA") {
+          inData = true;
+          await write("354 End data with <CR><LF>.<CR><LF>");
+        } else if (verb === "QUIT") {
+          await write("221 Bye");
+          return data;
+        } else {
+          await write("250 OK");
+        }
+      }
+    }
+  } finally {
+    conn.close();
+  }
+  return data;
+}
+
+describe("SMTP", () => {
+  let listener: Deno.Listener;
+  let port: number;
+
+  beforeEach(() => {
+    listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    port = (listener.addr as Deno.NetAddr).port;
+  });
+
+  afterEach(() => {
+    listener.close();
+  });
+
+  it("should send the envelope and dot-stuffed data", async () => {
+    const commands: string[] = [];
+    const server = serveOnce(listener, commands);
+
+    await sendSmtp(
+      { host: "127.0.0.1", port },
+      { from: "news@example.com", to: ["ana@example.com", "ben@example.com"] },
+      "Subject: Test\r\n\r\nFirst line\r\n.hidden line",
+    );
+
+    const data = await server;
+    assertEquals(commands.slice(0, 4), [
+      "EHLO localhost",
+      "MAIL FROM:<news@example.com>",
+      "RCPT TO:<ana@example.com>",
+      "RCPT TO:<ben@example.com>",
+    ]);
+    assertEquals(commands.at(-1), "QUIT");
+    assertEquals(data, "Subject: Test\r\n\r\nFirst line\r\n..hidden line");
+  });
+
+  it("should treat 4xx replies as transient and 5xx replies as permanent", async () => {
+    const transient = serveOnce(listener, [], { RCPT: "451 Try again later" });
+    const transientError = await assertRejects(() =>
+      sendSmtp({ host: "127.0.0.1", port }, { from: "a@example.com", to: ["b@example.com"] }, "x")
+    );
+    await transient;
+    assertInstanceOf(transientError, ExternalServiceError);
+
+    const permanent = serveOnce(listener, [], { RCPT: "550 No such user" });
+    const permanentError = await assertRejects(() =>
+      sendSmtp({ host: "127.0.0.1", port }, { from: "a@example.com", to: ["b@example.com"] }, "x")
+    );
+    await permanent;
+    assertInstanceOf(permanentError, SmtpError);
+    assertEquals(permanentError.code, 550);
+  });
+
+  it("should refuse to send credentials without TLS", async () => {
+    const server = serveOnce(listener, []);
+
+    await assertRejects(
+      () =>
+        sendSmtp(
+          { host: "127.0.0.1", port, username: "user", password: "secret" },
+          { from: "a@example.com", to: ["b@example.com"] },
+          "x",
+        ),
+      SmtpError,
+      "STARTTLS",
+    );
+    await server;
+  });
+});
+
+describe("MIME", () => {
+  it("should encode non-ASCII and multi-line headers", () => {
+    assertEquals(encodeHeader("Plain subject"), "Plain subject");
+    assertStringIncludes(encodeHeader("Café"), "=?UTF-8?B?");
+    assertEquals(encodeHeader("Hi\r\nBcc: x@example.com").includes("\r\n"), false);
+  });
+
+  it("should build a multipart message with text and HTML parts", () => {
+    const message = buildMimeMessage(
+      {
+        from: "Newsroom <news@example.com>",
+        to: ["ana@example.com"],
+        subject: "Hello",
+        text: "Plain",
+        html: "<p>Rich</p>",
+      },
+      { messageId: "abc" },
+    );
+
+    assertStringIncludes(message, "From: Newsroom <news@example.com>\r\n");
+    assertStringIncludes(message, "Message-ID: <abc@example.com>\r\n");
+    assertStringIncludes(message, "multipart/alternative");
+    assertStringIncludes(message, btoa("<p>Rich</p>"));
+  });
+});
@@ -0,0 +1,62 @@
+/// <reference lib="deno.ns" />
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  formatInTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseInTimeZone,
+} from "@utils/timezone.ts";
+
+Deno.test("isValidTimeZone - accepts IANA names and rejects unknown zones", () => {
+  assertEquals(isValidTimeZone("Europe/Paris"), true);
+  assertEquals(isValidTimeZone("UTC"), true);
+  assertEquals(isValidTimeZone("Mars/Olympus_Mons"), false);
+});
+
+Deno.test("getTimeZoneOffset - reflects daylight saving time", () => {
+  const winter = new Date("2025-01-15T12:00:00Z");
+  const summer = new Date("2025-07-15T12:00:00Z");
+
+  assertEquals(getTimeZoneOffset(winter, "Europe/Paris"), 60 * 60 * 1000);
+  assertEquals(getTimeZoneOffset(summer, "Europe/Paris"), 2 * 60 * 60 * 1000);
+  assertEquals(getTimeZoneOffset(summer, "America/New_York"), -4 * 60 * 60 * 1000);
+});
+
+Deno.test("parseInTimeZone - keeps explicit offsets", () => {
+  const date = parseInTimeZone("2025-03-01T09:30:00Z", "America/New_York");
+  assertEquals(date.toISOString(), "2025-03-01T09:30:00.000Z");
+
+  const offset = parseInTimeZone("2025-03-01T09:30:00+02:00", "UTC");
+  assertEquals(offset.toISOString(), "2025-03-01T07:30:00.000Z");
+});
+
+Deno.test("parseInTimeZone - interprets local times in the given zone", () => {
+  assertEquals(
+    parseInTimeZone("2025-07-15T09:00", "Europe/Paris").toISOString(),
+    "2025-07-15T07:00:00.000Z",
+  );
+  assertEquals(
+    parseInTimeZone("2025-01-15T09:00:00", "America/New_York").toISOString(),
+    "2025-01-15T14:00:00.000Z",
+  );
+});
+
+Deno.test("parseInTimeZone - handles the day of a DST change", () => {
+  // Paris switches to summer time at 02:00 on 2025-03-30
+  assertEquals(
+    parseInTimeZone("2025-03-30T12:00", "Europe/Paris").toISOString(),
+    "2025-03-30T10:00:00.000Z",
+  );
+});
+
+Deno.test("parseInTimeZone - rejects malformed values", () => {
+  assertThrows(() => parseInTimeZone("next tuesday", "UTC"), RangeError);
+});
+
+Deno.test("formatInTimeZone - formats local wall-clock time", () => {
+  const date = new Date("2025-07-15T07:00:00Z");
+
+  assertEquals(formatInTimeZone(date, "Europe/Paris"), "2025-07-15T09:00:00");
+  assertEquals(formatInTimeZone(date, "UTC"), "2025-07-15T07:00:00");
+});